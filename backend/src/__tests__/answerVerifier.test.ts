@@ -0,0 +1,63 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { verifyAnswer } from '../services/answerVerifier';
+import { Question } from '../types/types';
+import { fakeModel } from './helpers/fakeModel';
+
+const ORDERING: Question = {
+  type: 'ordering',
+  text: 'Put these planets in order from the Sun',
+  items: ['Mercury', 'Venus', 'Earth', 'Mars'],
+  timeLimit: 30
+};
+
+describe('verifyAnswer', () => {
+  const model = fakeModel();
+
+  beforeEach(() => {
+    model.reset();
+  });
+
+  it('asks without the answer key and compares the reply with it', async () => {
+    model.reply('{"answer": ["Mercury", "Venus", "Earth", "Mars"]}', '{"answer": ["Venus", "Mercury", "Earth", "Mars"]}');
+
+    assert.deepEqual(await verifyAnswer(model, ORDERING), { status: 'verified' });
+    assert.deepEqual(await verifyAnswer(model, ORDERING), { status: 'disputed', modelAnswer: 'Venus → Mercury → Earth → Mars' });
+
+    // Items are listed alphabetically, not in the answer order
+    assert.match(model.requests[0].messages[0].content, /- Earth\n- Mars\n- Mercury\n- Venus/);
+    assert.equal(model.requests[0].responseSchema?.name, 'quiz_answer');
+    assert.match(JSON.stringify(model.requests[0].responseSchema), /"enum":\["Earth","Mars","Mercury","Venus"\]/);
+  });
+
+  it('lists matching sides alphabetically in the reply schema as well', async () => {
+    model.reply('{"answer": ["Tokyo", "Ottawa"]}');
+
+    await verifyAnswer(model, {
+      type: 'matching',
+      text: 'Match each country to its capital',
+      pairs: [{ left: 'Japan', right: 'Tokyo' }, { left: 'Canada', right: 'Ottawa' }],
+      timeLimit: 20
+    });
+
+    assert.match(JSON.stringify(model.requests[0].responseSchema), /"enum":\["Ottawa","Tokyo"\]/);
+  });
+
+  it('accepts loosely typed answers', async () => {
+    model.reply('{"answer": "false"}', '```json\n{"answer": "100.4"}\n```');
+
+    const trueFalse = await verifyAnswer(model, { type: 'true-false', text: 'The Sun is a planet.', correctAnswer: false, timeLimit: 10 });
+    const numeric = await verifyAnswer(model, { type: 'numeric', text: 'At what temperature does water boil?', correctValue: 100, tolerance: 1, unit: '°C', timeLimit: 20 });
+
+    assert.equal(trueFalse.status, 'verified');
+    assert.equal(numeric.status, 'verified');
+  });
+
+  it('leaves the question unchecked when the check gives no usable answer', async () => {
+    model.reply('{"answer": null}', '{"answer": ["Pluto"]}', new Error('Service unavailable'));
+
+    for (let i = 0; i < 3; i++) {
+      assert.deepEqual(await verifyAnswer(model, ORDERING), { status: 'unchecked' });
+    }
+  });
+});
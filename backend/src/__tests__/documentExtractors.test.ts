@@ -0,0 +1,186 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import JSZip from 'jszip';
+import { extractDocument, findDocumentExtractor } from '../services/documentExtractors';
+
+const zip = async (files: Record<string, string>): Promise<Buffer> => {
+  const archive = new JSZip();
+  Object.entries(files).forEach(([path, content]) => archive.file(path, content));
+  return archive.generateAsync({ type: 'nodebuffer' });
+};
+
+// Text of each extracted section, up to the next one
+const sectionTexts = ({ text, structure: { sections } }: Awaited<ReturnType<typeof extractDocument>>): string[] =>
+  sections.map((section, index) => text.slice(section.start, sections[index + 1]?.start ?? text.length).trim());
+
+const slide = (title: string, body: string) => `<p:sld><p:cSld><p:spTree>
+  <p:sp><p:nvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>${title}</a:t></a:r></a:p></p:txBody></p:sp>
+  <p:sp><p:nvSpPr><p:nvPr><p:ph idx="1"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>${body}</a:t></a:r></a:p></p:txBody></p:sp>
+  <p:sp><p:nvSpPr><p:nvPr><p:ph type="sldNum"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>7</a:t></a:r></a:p></p:txBody></p:sp>
+</p:spTree></p:cSld></p:sld>`;
+
+describe('document extractors', () => {
+  it('picks the extractor by extension, then by MIME type', () => {
+    assert.equal(findDocumentExtractor('Deck.PPTX')?.name, 'PPTX');
+    assert.equal(findDocumentExtractor('notes', 'text/markdown')?.name, 'Markdown');
+    assert.equal(findDocumentExtractor('archive.zip', 'application/zip'), undefined);
+  });
+
+  it('finds chapter and numbered headings in plain text, with the pages each section spans', async () => {
+    const text = 'Chapter 1: Rivers\nThe Nile is long.\f1.1 The Nile\nIt floods.\n1. Flour\fChapter 2 Lakes\nBaikal is deep.\f';
+    const chapter2 = text.indexOf('Chapter 2');
+
+    const { structure } = await extractDocument(Buffer.from(text), 'notes.txt');
+
+    assert.deepEqual(structure, {
+      sections: [
+        { title: 'Chapter 1: Rivers', level: 1, start: 0, end: chapter2, pages: [1, 2] },
+        { title: '1.1 The Nile', level: 2, start: text.indexOf('1.1'), end: chapter2, pages: [2, 2] },
+        { title: 'Chapter 2 Lakes', level: 1, start: chapter2, end: text.length, pages: [3, 3] }
+      ],
+      pageCount: 3
+    });
+  });
+
+  it('reads slides in presentation order with their speaker notes', async () => {
+    const file = await zip({
+      'ppt/presentation.xml': '<p:presentation><p:sldIdLst><p:sldId id="256" r:id="rId3"/><p:sldId id="257" r:id="rId2"/></p:sldIdLst></p:presentation>',
+      'ppt/_rels/presentation.xml.rels': '<Relationships><Relationship Id="rId2" Target="slides/slide1.xml"/><Relationship Id="rId3" Target="slides/slide2.xml"/></Relationships>',
+      'ppt/slides/slide1.xml': slide('Safety', 'Wear gloves &amp; goggles'),
+      'ppt/slides/slide2.xml': slide('Welcome', 'Agenda for today'),
+      'ppt/slides/_rels/slide1.xml.rels': '<Relationships><Relationship Id="rId1" Target="../notesSlides/notesSlide1.xml"/></Relationships>',
+      'ppt/notesSlides/notesSlide1.xml': '<p:notes><p:cSld><p:spTree><p:sp><p:nvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>Mention the eye wash station</a:t></a:r></a:p></p:txBody></p:sp></p:spTree></p:cSld></p:notes>'
+    });
+
+    const document = await extractDocument(file, 'training.pptx');
+
+    assert.deepEqual(document.structure.sections.map(({ title, slide }) => ({ title, slide })), [
+      { title: 'Welcome', slide: 1 },
+      { title: 'Safety', slide: 2 }
+    ]);
+    assert.deepEqual(sectionTexts(document), [
+      'Slide 1: Welcome\nAgenda for today',
+      'Slide 2: Safety\nWear gloves & goggles\nSpeaker notes:\nMention the eye wash station'
+    ]);
+  });
+
+  it('reduces Markdown to text with its headings', async () => {
+    const markdown = '# Rivers\n\nThe **Nile** is [long](https://example.com).\n\n```\n# not a heading\n```\n\nLakes\n-----\n\n- Baikal\n- Victoria\n';
+
+    const document = await extractDocument(Buffer.from(markdown), 'geography.md');
+
+    assert.deepEqual(document.structure.sections.map(({ title, level }) => ({ title, level })), [
+      { title: 'Rivers', level: 1 },
+      { title: 'Lakes', level: 2 }
+    ]);
+    assert.deepEqual(sectionTexts(document), [
+      'Rivers\n\nThe Nile is long.\n\n# not a heading',
+      'Lakes\n\n- Baikal\n- Victoria'
+    ]);
+  });
+
+  it('keeps the content of a web page and drops its boilerplate', async () => {
+    const html = `<html><head><title>Wiki</title><style>body { color: red }</style></head><body>
+      <nav><a href="/">Home</a></nav>
+      <div class="sidebar">Recent changes</div>
+      <main>
+        <h1>Onboarding</h1>
+        <p>New starters get a laptop&nbsp;on day one.</p>
+        <script>track()</script>
+        <h2>Accounts</h2>
+        <ul><li>Email</li><li>Chat</li></ul>
+      </main>
+      <footer>© Example</footer>
+    </body></html>`;
+
+    const document = await extractDocument(Buffer.from(html), 'onboarding.html');
+
+    assert.deepEqual(sectionTexts(document), [
+      'Onboarding\n\nNew starters get a laptop on day one.',
+      'Accounts\n\n- Email\n- Chat'
+    ]);
+    assert.doesNotMatch(document.text, /Home|Recent changes|track|Example|color/);
+  });
+
+  it('extracts long documents in linear time', async () => {
+    const html = `<html><body>${'<p>The Nile floods every summer.</p>'.repeat(20000)}</body></html>`;
+
+    const started = Date.now();
+    const document = await extractDocument(Buffer.from(html), 'long.html');
+
+    assert.equal(document.text.split('\n\n').length, 20000);
+    assert.ok(Date.now() - started < 2000, `took ${Date.now() - started}ms`);
+  });
+
+  it('reads a web-page snapshot from its quoted-printable HTML part', async () => {
+    const snapshot = [
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/related; boundary="----part"',
+      '',
+      '------part',
+      'Content-Type: text/html',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      '<html><body><h1>Caf=C3=A9 rules</h1><p>Clean the coffee ma=',
+      'chine daily.</p></body></html>',
+      '------part--'
+    ].join('\r\n');
+
+    const document = await extractDocument(Buffer.from(snapshot, 'latin1'), 'page.mhtml');
+
+    assert.equal(document.text, 'Café rules\n\nClean the coffee machine daily.');
+  });
+
+  it('reads a web-page snapshot from its 8bit HTML part as UTF-8', async () => {
+    const snapshot = [
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/related; boundary="----part"',
+      '',
+      '------part',
+      'Content-Type: text/html; charset="utf-8"',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      '<html><body><h1>Café rules</h1><p>Ne pas déranger.</p></body></html>',
+      '------part--'
+    ].join('\r\n');
+
+    const document = await extractDocument(Buffer.from(snapshot, 'utf-8'), 'page.mhtml');
+
+    assert.equal(document.text, 'Café rules\n\nNe pas déranger.');
+  });
+
+  it('reads EPUB chapters in spine order', async () => {
+    const file = await zip({
+      'META-INF/container.xml': '<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>',
+      'OEBPS/content.opf': `<package><manifest>
+        <item id="one" href="text/one.xhtml" media-type="application/xhtml+xml"/>
+        <item id="two" href="text/two.xhtml" media-type="application/xhtml+xml"/>
+      </manifest><spine><itemref idref="two"/><itemref idref="one"/></spine></package>`,
+      'OEBPS/text/one.xhtml': '<html><body><h1>Chapter 2</h1><p>The storm.</p></body></html>',
+      'OEBPS/text/two.xhtml': '<html><body><h1>Chapter 1</h1><p>The harbour.</p></body></html>'
+    });
+
+    const document = await extractDocument(file, 'novel.epub');
+
+    assert.deepEqual(sectionTexts(document), ['Chapter 1\n\nThe harbour.', 'Chapter 2\n\nThe storm.']);
+  });
+
+  it('reads ODT headings with their outline level', async () => {
+    const file = await zip({
+      'content.xml': `<office:document-content><office:body><office:text>
+        <text:h text:outline-level="1">Budget</text:h>
+        <text:p>Travel is capped<text:s/>at 500 euros.</text:p>
+        <text:h text:outline-level="2">Approvals</text:h>
+        <text:p>Managers approve<office:annotation><text:p>check this</text:p></office:annotation> trips.</text:p>
+      </office:text></office:body></office:document-content>`
+    });
+
+    const document = await extractDocument(file, 'policy.odt');
+
+    assert.deepEqual(document.structure.sections.map(({ title, level }) => ({ title, level })), [
+      { title: 'Budget', level: 1 },
+      { title: 'Approvals', level: 2 }
+    ]);
+    assert.deepEqual(sectionTexts(document), ['Budget\n\nTravel is capped at 500 euros.', 'Approvals\n\nManagers approve trips.']);
+  });
+});
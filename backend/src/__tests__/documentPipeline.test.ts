@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { countTokens, DocumentPipeline, normalizeDocument } from '../services/documentPipeline';
+import { fakeModel } from './helpers/fakeModel';
+
+const SENTENCES = ['The Nile floods every summer.', 'Baikal holds a fifth of the fresh water on Earth.', 'Glaciers carve U-shaped valleys.'];
+
+describe('document pipeline', () => {
+  const model = fakeModel({
+    respond: (request) => request.messages[0].content.startsWith('Extract')
+      ? '["Rivers", "Lakes"]'
+      : '{"contentType": "educational", "difficultyLevel": "easy", "wordCount": 12}'
+  });
+  const pipeline = new DocumentPipeline(model);
+
+  it('counts tokens with the model tokenizer, special tokens included as text', () => {
+    assert.equal(countTokens('word '.repeat(100)), 101);
+    assert.ok(countTokens('a <|endoftext|> b') > 3);
+  });
+
+  it('extracts each uploaded file with its structure', async () => {
+    const [file] = await pipeline.extract([{ buffer: Buffer.from('Chapter 1 Rivers\nThe Nile is long.'), filename: 'rivers.txt' }]);
+
+    assert.equal(file.filename, 'rivers.txt');
+    assert.deepEqual(file.structure.sections.map((section) => section.title), ['Chapter 1 Rivers']);
+  });
+
+  it('normalizes whitespace, invisible characters and ligatures, keeping page breaks and section offsets', () => {
+    const text = '\uFEFFChapter 1\r\n\r\n\r\nThe  \uFB01rst\u200B river.  \n\fChapter 2\t\nEnd.\f';
+    const chapter2 = text.indexOf('Chapter 2');
+
+    const normalized = normalizeDocument({
+      text,
+      structure: {
+        sections: [
+          { title: 'Chapter 1', level: 1, start: 1, end: chapter2, pages: [1, 1] },
+          { title: 'Chapter 2', level: 1, start: chapter2, end: text.length, pages: [2, 2] }
+        ],
+        pageCount: 2
+      }
+    });
+
+    assert.equal(normalized.text, 'Chapter 1\n\nThe first river.\fChapter 2\nEnd.\f');
+    assert.deepEqual(normalized.structure, {
+      sections: [
+        { title: 'Chapter 1', level: 1, start: 0, end: normalized.text.indexOf('Chapter 2'), pages: [1, 1] },
+        { title: 'Chapter 2', level: 1, start: normalized.text.indexOf('Chapter 2'), end: normalized.text.length, pages: [2, 2] }
+      ],
+      pageCount: 2
+    });
+  });
+
+  it('joins several files into one document with a section per file', () => {
+    const document = pipeline.normalize([
+      { filename: 'rivers.txt', text: 'Rivers\nThe Nile is long.', structure: { sections: [{ title: 'Rivers', level: 1, start: 0, end: 24 }] } },
+      { filename: 'lakes.txt', text: 'Baikal is deep.', structure: { sections: [] } }
+    ]);
+
+    assert.equal(document.text, 'Rivers\nThe Nile is long.\n\nBaikal is deep.');
+    assert.deepEqual(document.files, [
+      { filename: 'rivers.txt', start: 0, end: 24, wordCount: 5 },
+      { filename: 'lakes.txt', start: 26, end: 41, wordCount: 3 }
+    ]);
+    assert.deepEqual(document.structure.sections.map(({ title, level, start }) => ({ title, level, start })), [
+      { title: 'rivers.txt', level: 1, start: 0 },
+      { title: 'Rivers', level: 2, start: 0 },
+      { title: 'lakes.txt', level: 1, start: 26 }
+    ]);
+  });
+
+  it('analyzes each file\'s topics and the whole document', async () => {
+    model.reset();
+    const document = pipeline.normalize([{ filename: 'rivers.txt', text: SENTENCES.join(' '), structure: { sections: [] } }]);
+
+    const { analysis, text } = await pipeline.analyze(document);
+
+    assert.match(analysis.fileId, /^doc_/);
+    assert.deepEqual(analysis.topics, ['Rivers', 'Lakes']);
+    assert.deepEqual(analysis.files[0].topics, ['Rivers', 'Lakes']);
+    assert.equal(analysis.contentType, 'educational');
+    assert.equal(text, document.text);
+    assert.equal(model.requests.length, 2);
+  });
+
+  it('chunks text within the token limit, overlapping consecutive chunks', () => {
+    const text = Array.from({ length: 300 }, (_, index) => SENTENCES[index % SENTENCES.length]).join(' ');
+
+    const chunks = pipeline.chunk(text, { maxTokens: 500, overlapTokens: 50 });
+
+    assert.ok(chunks.length > 2);
+    assert.ok(chunks.every((chunk) => countTokens(chunk.text) <= 500));
+    assert.equal(chunks[0].start, 0);
+    assert.equal(chunks[chunks.length - 1].end, text.length);
+    chunks.slice(1).forEach((chunk, index) => assert.ok(chunk.start < chunks[index].end && chunk.start > chunks[index].start));
+  });
+});
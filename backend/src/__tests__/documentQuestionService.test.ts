@@ -0,0 +1,130 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DocumentQuestionService } from '../services/documentQuestionService';
+import { CompletionRequest } from '../services/questionModelProvider';
+import { fakeModel } from './helpers/fakeModel';
+
+const SUBJECTS = ['lions', 'rivers', 'planets', 'castles', 'violins', 'glaciers'];
+
+// Three pages of 12,500 tokens, each closed by a form feed like PDF text; chunks hold 15,000 tokens
+const PAGE = 'word '.repeat(12500);
+const DOCUMENT = `${PAGE}\f${PAGE}\f${PAGE}\f`;
+
+// Answers every prompt with as many new questions as it asks for, naming the document part in them
+const answerPrompt = (request: CompletionRequest): string => {
+  const prompt = request.messages[0].content;
+  const count = Number(/Generate (\d+) quiz questions/.exec(prompt)?.[1] ?? 1);
+  const part = /\(part (\d+) of \d+\)/.exec(prompt)?.[1] ?? '1';
+  const asked = (subject: string) => prompt.includes(`What does part ${part} say about ${subject}?`);
+
+  return JSON.stringify({
+    questions: SUBJECTS.filter((subject) => !asked(subject)).slice(0, count).map((subject) => ({
+      text: `What does part ${part} say about ${subject}?`,
+      options: [`${subject} ${part}`, 'Nothing'],
+      correctOption: `${subject} ${part}`,
+      explanation: `Part ${part} covers ${subject}.`,
+      citation: { quote: 'word word' }
+    }))
+  });
+};
+
+describe('DocumentQuestionService', () => {
+  const model = fakeModel({ respond: answerPrompt });
+  const service = new DocumentQuestionService(model);
+
+  beforeEach(() => {
+    model.reset();
+  });
+
+  it('spreads the questions over the whole document in proportion to chunk length', async () => {
+    const result = await service.generateQuestionsFromDocument(DOCUMENT, { difficulty: 'easy', count: 5 });
+
+    assert.equal(result.aiGenerated, true);
+    assert.equal(model.requests.length, 3);
+    assert.deepEqual(result.questions.map((q) => q.source?.chunk), [0, 0, 1, 1, 2]);
+
+    const [first, , , , last] = result.questions;
+    assert.deepEqual(first.source?.pages, [1, 2]);
+    assert.equal(first.source?.start, 0);
+    assert.deepEqual(last.source?.pages, [3, 3]);
+    assert.equal(last.source?.end, DOCUMENT.length);
+    assert.match(model.requests[2].messages[0].content, /part 3 of 3/);
+  });
+
+  it('only uses the selected sections', async () => {
+    const start = PAGE.length * 2 + 2;
+    const result = await service.generateQuestionsFromDocument(DOCUMENT, {
+      difficulty: 'easy',
+      count: 2,
+      sections: [{ start, end: DOCUMENT.length }]
+    });
+
+    assert.equal(model.requests.length, 1);
+    assert.deepEqual(result.questions.map((q) => q.source), [
+      { chunk: 0, start, end: DOCUMENT.length, pages: [3, 3] },
+      { chunk: 0, start, end: DOCUMENT.length, pages: [3, 3] }
+    ]);
+  });
+
+  it('ends chunks at section breaks and records the section of each question', async () => {
+    const document = `${PAGE}\nChapter 2\n${PAGE}`;
+    const chapter2 = PAGE.length + 1;
+    const structure = {
+      sections: [
+        { title: 'Chapter 1', level: 1, start: 0, end: chapter2 },
+        { title: 'Chapter 2', level: 1, start: chapter2, end: document.length }
+      ]
+    };
+
+    const result = await service.generateQuestionsFromDocument(document, { difficulty: 'easy', count: 2, structure });
+
+    assert.deepEqual(result.questions.map((q) => q.source), [
+      { chunk: 0, start: 0, end: chapter2, section: 'Chapter 1' },
+      { chunk: 1, start: chapter2, end: document.length, section: 'Chapter 2' }
+    ]);
+  });
+
+  it('balances the questions across uploaded files and pages each file on its own', async () => {
+    const handout = `${'word '.repeat(2000)}\f`;
+    const document = `${DOCUMENT}\n\n${handout}`;
+    const handoutStart = DOCUMENT.length + 2;
+    const files = [
+      { filename: 'textbook.pdf', start: 0, end: DOCUMENT.length, topics: [], wordCount: 37500 },
+      { filename: 'handout.pdf', start: handoutStart, end: document.length, topics: [], wordCount: 2000 }
+    ];
+
+    const result = await service.generateQuestionsFromDocument(document, { difficulty: 'easy', count: 4, files });
+
+    const fromFile = (filename: string) => result.questions.filter((q) => q.source?.file === filename);
+    assert.equal(fromFile('textbook.pdf').length, 2);
+    assert.deepEqual(fromFile('handout.pdf').map((q) => q.source), [
+      { chunk: 3, start: handoutStart, end: document.length, pages: [1, 1], file: 'handout.pdf' },
+      { chunk: 3, start: handoutStart, end: document.length, pages: [1, 1], file: 'handout.pdf' }
+    ]);
+  });
+
+  it('asks about the picked topics only, from the chunks that mention them', async () => {
+    const document = `${PAGE}\f${PAGE}\fGlaciers carve valleys. ${PAGE}\f`;
+
+    const result = await service.generateQuestionsFromDocument(document, {
+      difficulty: 'easy',
+      count: 3,
+      topics: [{ topic: 'Glaciers', count: 2 }, { topic: 'Volcanoes', count: 1 }]
+    });
+
+    const byTopic = (topic: string) => result.questions.filter((q) => q.source?.topic === topic);
+    assert.equal(result.questions.length, 3);
+    assert.deepEqual(byTopic('Glaciers').map((q) => q.source?.chunk), [1, 1]);
+    assert.equal(byTopic('Volcanoes').length, 1); // Mentioned nowhere, so placed by chunk length
+    assert.ok(model.requests.some((request) => request.messages[0].content.includes('about the topic "Glaciers"')));
+  });
+
+  it('tops up from the other chunks when one fails', async () => {
+    model.reply(new Error('Service unavailable'));
+
+    const result = await service.generateQuestionsFromDocument(DOCUMENT, { difficulty: 'easy', count: 5 });
+
+    assert.equal(result.questions.length, 5);
+    assert.ok(result.questions.every((q) => q.source?.chunk !== 0));
+  });
+});
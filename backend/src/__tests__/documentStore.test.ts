@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemoryDocumentStore } from '../services/documentStore';
+import { DocumentAnalysis } from '../services/documentPipeline';
+
+const analysis = (fileId: string, uploadedAt: number): DocumentAnalysis => ({
+  fileId,
+  filename: `${fileId}.txt`,
+  topics: ['Rivers'],
+  files: [{ filename: `${fileId}.txt`, start: 0, end: 17, topics: ['Rivers'], wordCount: 3 }],
+  contentType: 'educational',
+  difficultyLevel: 'easy',
+  wordCount: 3,
+  uploadedAt: new Date(uploadedAt),
+  structure: { sections: [] }
+});
+
+describe('InMemoryDocumentStore', () => {
+  it('lists only the owner\'s documents, most recent first', async () => {
+    const store = new InMemoryDocumentStore(60_000);
+    await store.save({ analysis: analysis('doc_a', 1), ownerId: 'host-1', text: 'The Nile is long.' });
+    await store.save({ analysis: analysis('doc_b', 2), ownerId: 'host-1', text: 'The Congo is deep.' });
+    await store.save({ analysis: analysis('doc_c', 3), ownerId: 'host-2', text: 'The Niger bends.' });
+
+    const documents = await store.listByOwner('host-1');
+
+    assert.deepEqual(documents.map((document) => document.analysis.fileId), ['doc_b', 'doc_a']);
+    assert.equal((await store.get('doc_c'))?.text, 'The Niger bends.');
+  });
+
+  it('forgets documents once their time to live has passed', async () => {
+    let now = 0;
+    const store = new InMemoryDocumentStore(60_000, () => now);
+    const saved = await store.save({ analysis: analysis('doc_a', 0), ownerId: 'host-1', text: 'The Nile is long.' });
+
+    assert.equal(saved.expiresAt.getTime(), 60_000);
+
+    now = 59_999;
+    assert.ok(await store.get('doc_a'));
+
+    now = 60_000;
+    assert.equal(await store.get('doc_a'), null);
+    assert.deepEqual(await store.listByOwner('host-1'), []);
+  });
+
+  it('deletes documents', async () => {
+    const store = new InMemoryDocumentStore(60_000);
+    await store.save({ analysis: analysis('doc_a', 0), ownerId: 'host-1', text: 'The Nile is long.' });
+
+    await store.delete('doc_a');
+
+    assert.equal(await store.get('doc_a'), null);
+  });
+});
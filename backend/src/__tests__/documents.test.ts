@@ -0,0 +1,107 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { documentStore } from '../services/documentStore';
+import { startTestServer, TestServer } from './helpers/testServer';
+import { serverModel } from './helpers/fakeModel';
+
+const TEXT = 'The Nile is the longest river in Africa and flows north into the Mediterranean Sea.';
+
+describe('documents API', () => {
+  let app: TestServer;
+
+  before(async () => {
+    app = await startTestServer();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    serverModel().reset();
+    await documentStore.save({
+      ownerId: 'host-1',
+      text: TEXT,
+      analysis: {
+        fileId: 'doc_rivers',
+        filename: 'rivers.txt',
+        topics: ['Rivers'],
+        files: [{ filename: 'rivers.txt', start: 0, end: TEXT.length, topics: ['Rivers'], wordCount: 15 }],
+        contentType: 'educational',
+        difficultyLevel: 'easy',
+        wordCount: 15,
+        uploadedAt: new Date(),
+        structure: { sections: [] }
+      }
+    });
+  });
+
+  it('only generates questions from a document for the host who uploaded it', async () => {
+    serverModel().reply(JSON.stringify({
+      questions: [{ text: 'Which sea does the Nile flow into?', options: ['Mediterranean', 'Red'], correctOption: 'Mediterranean', citation: { quote: 'flows north into the Mediterranean Sea' } }]
+    }));
+    const request = { fileId: 'doc_rivers', difficulty: 'easy', count: 1 };
+
+    const stranger = await app.request('post', '/api/documents/generate-questions', { ...request, ownerId: 'host-2' });
+    const anonymous = await app.request('post', '/api/documents/generate-questions', request);
+    const owner = await app.request('post', '/api/documents/generate-questions', { ...request, ownerId: 'host-1' });
+
+    assert.equal(stranger.status, 403);
+    assert.equal(anonymous.status, 403);
+    assert.equal(owner.status, 200);
+    assert.deepEqual(owner.body.questions.map((q: { text: string }) => q.text), ['Which sea does the Nile flow into?']);
+    assert.equal(serverModel().requests.length, 1);
+  });
+
+  describe('regenerate', () => {
+    const request = { topic: 'Rivers', difficulty: 'easy', fileId: 'doc_rivers', ownerId: 'host-1' };
+
+    it('only regenerates a question from a document for the host who uploaded it', async () => {
+      const { status } = await app.request('post', '/api/questions/regenerate', { ...request, ownerId: 'host-2' });
+
+      assert.equal(status, 403);
+      assert.equal(serverModel().requests.length, 0);
+    });
+
+    it('stays within the chosen sections and on the chosen topic', async () => {
+      serverModel().reply(JSON.stringify({
+        questions: [{ text: 'Which is the longest river in Africa?', options: ['Nile', 'Congo'], correctOption: 'Nile', citation: { quote: 'the longest river in Africa' } }]
+      }));
+      const sections = [{ start: 0, end: TEXT.indexOf(' and flows') }];
+
+      const { status, body } = await app.request('post', '/api/questions/regenerate', { ...request, sections, topics: [{ topic: 'Rivers', count: 1 }] });
+
+      assert.equal(status, 200);
+      assert.equal(body.question.text, 'Which is the longest river in Africa?');
+      const prompt = serverModel().requests[0].messages.map((message) => message.content).join('\n');
+      assert.match(prompt, /about the topic "Rivers"/);
+      assert.doesNotMatch(prompt, /Mediterranean/);
+    });
+
+    it('asks for the requested language on the topic path', async () => {
+      serverModel().reply(JSON.stringify([
+        { text: 'Quel est le plus long fleuve d\'Afrique ?', options: ['Le Nil', 'Le Congo'], correctOption: 'Le Nil' }
+      ]));
+
+      const { status } = await app.request('post', '/api/questions/regenerate', { topic: 'Rivers', difficulty: 'easy', language: 'fr' });
+
+      assert.equal(status, 200);
+      assert.match(serverModel().requests[0].messages[0].content, /language with the code "fr"/);
+    });
+
+    it('rejects invalid sections, topics and languages', async () => {
+      const invalid = [
+        { ...request, sections: [{ start: 10, end: 5 }] },
+        { ...request, topics: [{ topic: 'Rivers', count: 2 }] },
+        { topic: 'Rivers', difficulty: 'easy', sections: [{ start: 0, end: 10 }] },
+        { topic: 'Rivers', difficulty: 'easy', language: 'French' }
+      ];
+
+      for (const body of invalid) {
+        const { status } = await app.request('post', '/api/questions/regenerate', body);
+        assert.equal(status, 400, JSON.stringify(body));
+      }
+      assert.equal(serverModel().requests.length, 0);
+    });
+  });
+});
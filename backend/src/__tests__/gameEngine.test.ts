@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameEngine, GAME_TIMING } from '../services/gameEngine';
+import { ANSWER_GRACE_PERIOD_MS } from '../../../shared/scoring';
+import { GameState, Player, Question, Room } from '../types/types';
+import { memoryRooms, waitUntil } from './helpers/testServer';
+
+const question = (timeLimit: number): Question => ({ text: 'What is the capital of France?', options: ['Paris', 'Rome'], correctOption: 'Paris', timeLimit });
+
+const player = (id: string): Player => ({ id, nickname: id, isHost: id === 'host', score: 0, joinedAt: 0, answers: {} });
+
+const createRoom = async (fields: Partial<Room> = {}): Promise<Room> => {
+  const room: Room = {
+    id: 'room-1',
+    roomCode: '123456',
+    topic: 'Geography',
+    difficulty: 'easy',
+    questionCount: 2,
+    status: 'waiting',
+    hostId: 'host',
+    createdAt: 0,
+    currentQuestionIndex: 0,
+    players: { host: player('host'), guest: player('guest') },
+    questions: [question(0.1), question(0.1)],
+    totalQuestions: 2,
+    isGameComplete: false,
+    ...fields
+  };
+  await memoryRooms().createRoom(room);
+  return room;
+};
+
+const getGameState = async (): Promise<GameState | undefined> => (await memoryRooms().getRoom('room-1'))?.gameState;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('game engine', () => {
+  let engine: GameEngine;
+
+  beforeEach(() => {
+    memoryRooms().clear();
+    engine = new GameEngine();
+  });
+
+  afterEach(() => {
+    engine.stopAll();
+  });
+
+  describe('start', () => {
+    it('starts only once, even when two starts race', async () => {
+      await createRoom();
+
+      const results = await Promise.allSettled([engine.startGame('room-1'), engine.startGame('room-1')]);
+
+      assert.equal(results.filter((result) => result.status === 'fulfilled').length, 1);
+      const rejected = results.find((result) => result.status === 'rejected') as PromiseRejectedResult;
+      assert.equal(rejected.reason.code, 'INVALID_ROOM_STATE');
+    });
+
+    it('refuses a room without questions', async () => {
+      await createRoom({ questions: [] });
+
+      await assert.rejects(engine.startGame('room-1'), { code: 'NO_QUESTIONS_AVAILABLE' });
+      assert.equal((await memoryRooms().getRoom('room-1'))?.status, 'waiting');
+    });
+  });
+
+  describe('timing', () => {
+    it('keeps answering open for the grace period after the deadline', async () => {
+      await createRoom();
+      const started = await engine.startGame('room-1');
+
+      await sleep(started.questionEndTime! - Date.now() + 100);
+      const late = await engine.submitAnswer('room-1', 'host', 0, 'Paris');
+      assert.equal(late.isCorrect, true);
+      assert.equal((await getGameState())?.phase, 'answering');
+
+      await waitUntil(async () => (await getGameState())?.phase === 'showing-answer', ANSWER_GRACE_PERIOD_MS + 1000);
+      const revealed = await getGameState();
+      assert.ok(Date.now() >= started.questionEndTime! + ANSWER_GRACE_PERIOD_MS);
+      assert.equal(revealed?.questionEndTime, started.questionEndTime);
+      assert.equal(revealed?.autoAdvanceAt, revealed!.resultsShownAt! + GAME_TIMING.revealDuration);
+    });
+
+    it('freezes the deadline while paused and restarts it on resume', async () => {
+      await createRoom({ questions: [question(0.2), question(0.2)] });
+      await engine.startGame('room-1');
+
+      const paused = await engine.handleIntent('room-1', 'pause');
+      assert.ok(paused?.remainingMs! > 0 && paused!.remainingMs! <= 200);
+
+      await sleep(200 + ANSWER_GRACE_PERIOD_MS + 100);
+      assert.equal((await getGameState())?.phase, 'answering');
+      await assert.rejects(engine.handleIntent('room-1', 'pause'), { code: 'GAME_PAUSED' });
+
+      const resumed = await engine.handleIntent('room-1', 'resume');
+      assert.equal(resumed?.pausedAt, undefined);
+      assert.ok(resumed!.questionEndTime! - Date.now() <= paused!.remainingMs!);
+
+      await waitUntil(async () => (await getGameState())?.phase === 'showing-answer', ANSWER_GRACE_PERIOD_MS + 1000);
+    });
+  });
+
+  describe('recovery', () => {
+    it('reschedules deadlines that passed while the server was down', async () => {
+      const now = Date.now();
+      await createRoom({
+        status: 'active',
+        startedAt: now - 20000,
+        gameState: { phase: 'showing-answer', questionStartTime: now - 20000, questionEndTime: now - 10000, allPlayersAnswered: false, autoAdvanceAt: now - 1000 }
+      });
+
+      await engine.recoverActiveGames();
+
+      await waitUntil(async () => (await getGameState())?.phase === 'showing-scoreboard');
+      assert.ok((await getGameState())!.autoAdvanceAt! >= now + GAME_TIMING.scoreboardDuration);
+    });
+
+    it('leaves paused games paused', async () => {
+      const now = Date.now();
+      await createRoom({
+        status: 'active',
+        gameState: { phase: 'answering', questionStartTime: now - 20000, questionEndTime: now - 10000, allPlayersAnswered: false, pausedAt: now - 15000, remainingMs: 5000 }
+      });
+
+      await engine.recoverActiveGames();
+      await sleep(100);
+
+      assert.equal((await getGameState())?.phase, 'answering');
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { CompletionRequest, OfflineModelProvider, OfflineReply, questionModelProvider } from '../../services/questionModelProvider';
+
+export interface FakeModelOptions {
+  // Answers requests when no queued reply is left; without it they fail like an unreachable model
+  respond?: (request: CompletionRequest) => OfflineReply;
+  // Embeds texts; without it the model has no embeddings
+  embed?: (texts: string[]) => number[][];
+}
+
+/**
+ * Offline model for service tests: queue replies with reply(), inspect requests, reset() between tests
+ */
+export class FakeModel extends OfflineModelProvider {
+  readonly embedded: string[] = [];
+
+  constructor(private readonly options: FakeModelOptions = {}) {
+    super(options.respond);
+  }
+
+  reset(): void {
+    super.reset();
+    this.embedded.length = 0;
+  }
+
+  async embed(texts: string[]): Promise<number[][] | null> {
+    if (!this.options.embed) return null;
+    this.embedded.push(...texts);
+    return this.options.embed(texts);
+  }
+}
+
+export const fakeModel = (options?: FakeModelOptions): FakeModel => new FakeModel(options);
+
+/**
+ * The offline model the server's question services use under test
+ */
+export const serverModel = (): OfflineModelProvider => {
+  if (!(questionModelProvider instanceof OfflineModelProvider)) {
+    throw new Error('Tests must run with MODEL_PROVIDER=offline');
+  }
+  return questionModelProvider;
+};
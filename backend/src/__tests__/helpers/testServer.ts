@@ -0,0 +1,103 @@
+import { AddressInfo } from 'net';
+import axios, { Method } from 'axios';
+import { io as connectSocket, Socket } from 'socket.io-client';
+import { server, io } from '../../server';
+import { gameEngine } from '../../services/gameEngine';
+import { InMemoryRoomRepository, roomRepository } from '../../services/roomRepository';
+import { InMemoryQuizStore, quizStore } from '../../services/quizStore';
+
+export interface TestResponse<T = any> {
+  status: number;
+  body: T;
+}
+
+export interface TestServer {
+  baseUrl: string;
+  request<T = any>(method: Method, path: string, body?: unknown): Promise<TestResponse<T>>;
+  connect(): Promise<Socket>;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the Express app and Socket.io server in-process on a random port
+ */
+export const startTestServer = async (): Promise<TestServer> => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+  const sockets: Socket[] = [];
+
+  return {
+    baseUrl,
+
+    async request(method, path, body) {
+      const response = await axios.request({
+        method,
+        url: `${baseUrl}${path}`,
+        data: body,
+        validateStatus: () => true
+      });
+      return { status: response.status, body: response.data };
+    },
+
+    async connect() {
+      const socket = connectSocket(baseUrl, { transports: ['websocket'], forceNew: true });
+      sockets.push(socket);
+      await waitForEvent(socket, 'welcome');
+      return socket;
+    },
+
+    async close() {
+      sockets.forEach((socket) => socket.disconnect());
+      gameEngine.stopAll();
+      // Closes the HTTP server as well
+      await new Promise<void>((resolve) => io.close(() => resolve()));
+    }
+  };
+};
+
+/**
+ * Resolve with the payload of the next event of the given name
+ */
+export const waitForEvent = <T = any>(socket: Socket, event: string, timeoutMs = 2000): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out waiting for "${event}"`)), timeoutMs);
+    socket.once(event, (payload: T) => {
+      clearTimeout(timer);
+      resolve(payload);
+    });
+  });
+};
+
+/**
+ * Poll until the check passes (background work such as question generation)
+ */
+export const waitUntil = async (check: () => Promise<boolean>, timeoutMs = 2000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+/**
+ * The in-memory room store the server uses under test
+ */
+export const memoryRooms = (): InMemoryRoomRepository => {
+  if (!(roomRepository instanceof InMemoryRoomRepository)) {
+    throw new Error('Tests must run with ROOM_STORE=memory');
+  }
+  return roomRepository;
+};
+
+/**
+ * The in-memory quiz library store the server uses under test
+ */
+export const memoryQuizzes = (): InMemoryQuizStore => {
+  if (!(quizStore instanceof InMemoryQuizStore)) {
+    throw new Error('Tests must run with ROOM_STORE=memory');
+  }
+  return quizStore;
+};
@@ -0,0 +1,61 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import axios from 'axios';
+import env from '../config/environment';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const PNG = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+
+const mediaForm = (content: Buffer, type: string, filename: string): FormData => {
+  const form = new FormData();
+  form.append('media', new Blob([content], { type }), filename);
+  return form;
+};
+
+describe('media API', () => {
+  let app: TestServer;
+
+  before(async () => {
+    app = await startTestServer();
+  });
+
+  after(async () => {
+    await app.close();
+    await fs.rm(env.mediaDir, { recursive: true, force: true });
+  });
+
+  it('stores an image and serves it from the returned url', async () => {
+    const { status, body } = await app.request('post', '/api/media/upload', mediaForm(PNG, 'image/png', 'map.png'));
+
+    assert.equal(status, 200);
+    assert.equal(body.media.type, 'image');
+    assert.equal(body.media.mimeType, 'image/png');
+    assert.equal(body.media.size, PNG.length);
+    assert.match(body.media.url, /^\/media\/[0-9a-f-]+\.png$/);
+
+    const served = await axios.get(`${app.baseUrl}${body.media.url}`, { responseType: 'arraybuffer' });
+    assert.deepEqual(Buffer.from(served.data), PNG);
+  });
+
+  it('rejects file types other than images and audio', async () => {
+    const { status, body } = await app.request('post', '/api/media/upload', mediaForm(Buffer.from('<svg/>'), 'image/svg+xml', 'logo.svg'));
+
+    assert.equal(status, 400);
+    assert.match(body.error, /Unsupported file type/);
+  });
+
+  it('rejects files over 10MB', async () => {
+    const { status, body } = await app.request('post', '/api/media/upload', mediaForm(Buffer.alloc(10 * 1024 * 1024 + 1), 'audio/mpeg', 'long.mp3'));
+
+    assert.equal(status, 413);
+    assert.match(body.error, /too large/);
+  });
+
+  it('asks for a file when none is sent', async () => {
+    const { status, body } = await app.request('post', '/api/media/upload', new FormData());
+
+    assert.equal(status, 400);
+    assert.equal(body.error, 'No file uploaded');
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemoryQuestionCacheStore, QuestionCache, questionCacheKey } from '../services/questionCache';
+import { Question } from '../types/types';
+
+const question = (text: string): Question => ({ text, options: ['Yes', 'No'], correctOption: 'Yes', timeLimit: 15 });
+
+describe('QuestionCache', () => {
+  it('keys questions by normalized topic, difficulty, language and prompt version', () => {
+    assert.deepEqual(questionCacheKey('  Rivers of AFRICA? ', 'easy'), questionCacheKey('rivers of africa', 'easy'));
+    assert.notDeepEqual(questionCacheKey('Rivers', 'easy'), questionCacheKey('Rivers', 'hard'));
+    assert.equal(questionCacheKey('Rivers', 'easy', 'pt-BR').language, 'pt-br');
+  });
+
+  it('takes a random subset of the accepted questions', async () => {
+    const cache = new QuestionCache(new InMemoryQuestionCacheStore(), 1, () => 0.99);
+    const key = questionCacheKey('Rivers', 'easy');
+    await cache.add(key, ['Nile?', 'Congo?', 'Niger?'].map(question));
+
+    const taken = await cache.take(key, 2, (candidate) => candidate.text !== 'Niger?');
+
+    assert.deepEqual(taken.map((q) => q.text), ['Congo?', 'Nile?']);
+    assert.deepEqual(await cache.take(questionCacheKey('Lakes', 'easy'), 2), []);
+    assert.equal(cache.getStats().hitRate, 0.5);
+  });
+
+  it('invalidates one topic or everything', async () => {
+    const cache = new QuestionCache(new InMemoryQuestionCacheStore(), 1);
+    await cache.add(questionCacheKey('Rivers', 'easy'), [question('Nile?')]);
+    await cache.add(questionCacheKey('Rivers', 'hard'), [question('Ob?')]);
+    await cache.add(questionCacheKey('Lakes', 'easy'), [question('Baikal?')]);
+
+    assert.equal(await cache.invalidate('RIVERS'), 2);
+    assert.deepEqual(await cache.take(questionCacheKey('Rivers', 'hard'), 1), []);
+    assert.equal(await cache.invalidate(), 1);
+    assert.deepEqual(await cache.take(questionCacheKey('Lakes', 'easy'), 1), []);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { QuestionDeduplicator } from '../services/questionDeduplicator';
+import { Question } from '../types/types';
+import { fakeModel } from './helpers/fakeModel';
+
+const choice = (text: string, correctOption: string, options = ['Paris', 'Lyon', 'Marseille', 'Nice']): Question => ({
+  text,
+  options,
+  correctOption,
+  timeLimit: 20
+});
+
+const trueFalse = (text: string): Question => ({ type: 'true-false', text, correctAnswer: true, timeLimit: 20 });
+
+// Embeds every text as one of two directions: about rivers or not
+const embedRivers = (texts: string[]) => texts.map((text) => (/river|flow/i.test(text) ? [1, 0] : [0, 1]));
+
+describe('QuestionDeduplicator', () => {
+  it('rejects reworded repeats and questions about the same answer', async () => {
+    const deduplicator = new QuestionDeduplicator();
+    deduplicator.addExisting(['Which is the longest river in the world?']);
+
+    assert.equal(await deduplicator.add(choice('What is the capital of France?', 'Paris')), null);
+    assert.deepEqual(await deduplicator.add(choice('What is the world\'s longest river?', 'Nile', ['Nile', 'Amazon'])), {
+      reason: 'text',
+      duplicateOf: 'Which is the longest river in the world?'
+    });
+    assert.equal((await deduplicator.add(choice('Which city is the capital of France?', 'Paris', ['Nice', 'Paris', 'Lyon', 'Lille'])))?.reason, 'answer');
+  });
+
+  it('keeps different questions that share wording or answers', async () => {
+    const deduplicator = new QuestionDeduplicator();
+
+    const unique = await deduplicator.filter([
+      choice('Which continent is the Nile river in?', 'Africa', ['Africa', 'Asia']),
+      choice('Which continent is the Congo river in?', 'Africa', ['Africa', 'Asia']),
+      choice('Which is the longest river in Europe?', 'Volga', ['Volga', 'Danube']),
+      trueFalse('The Nile flows north.'),
+      trueFalse('Paris is the capital of France.')
+    ]);
+
+    assert.equal(unique.length, 5);
+  });
+
+  it('compares embeddings when the model provides them', async () => {
+    const model = fakeModel({ embed: embedRivers });
+    const deduplicator = new QuestionDeduplicator(model);
+
+    const unique = await deduplicator.filter([
+      trueFalse('The Nile is a river in Africa.'),
+      trueFalse('Cairo lies where the Nile flows into its delta.'),
+      trueFalse('Paris is the capital of France.')
+    ]);
+
+    assert.deepEqual(unique.map((q) => q.text), ['The Nile is a river in Africa.', 'Paris is the capital of France.']);
+    assert.equal(model.embedded.length, 3);
+  });
+
+  it('checks by text only when the model has no embeddings', async () => {
+    const model = fakeModel();
+    const deduplicator = new QuestionDeduplicator(model);
+
+    const unique = await deduplicator.filter([trueFalse('The Nile is a river in Africa.'), trueFalse('The Amazon is a river in Africa.')]);
+
+    assert.equal(unique.length, 2);
+  });
+});
@@ -0,0 +1,100 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { OfflineModelProvider, OpenAICompatibleModelProvider } from '../services/questionModelProvider';
+
+interface ReceivedRequest {
+  url?: string;
+  authorization?: string;
+  body: any;
+}
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf-8');
+};
+
+describe('OpenAICompatibleModelProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[] = [];
+  let reply: { status: number; body: unknown } = { status: 200, body: {} };
+
+  // Stands in for Ollama / llama.cpp / vLLM
+  before(async () => {
+    server = createServer(async (req, res) => {
+      received.push({ url: req.url, authorization: req.headers.authorization, body: JSON.parse(await readBody(req)) });
+      // String bodies are sent as they are (server-sent events for streamed replies)
+      const isEventStream = typeof reply.body === 'string';
+      res.writeHead(reply.status, { 'Content-Type': isEventStream ? 'text/event-stream' : 'application/json' });
+      res.end(isEventStream ? reply.body : JSON.stringify(reply.body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const respond = (status: number, body: unknown) => {
+    received = [];
+    reply = { status, body };
+  };
+
+  it('posts the messages to the chat completions endpoint', async () => {
+    respond(200, { choices: [{ message: { role: 'assistant', content: '["Rivers"]' } }] });
+    const provider = new OpenAICompatibleModelProvider(baseUrl, 'llama3.1', 'local-key');
+
+    const content = await provider.complete({ messages: [{ role: 'user', content: 'List topics' }], maxTokens: 100, temperature: 0.5 });
+
+    assert.equal(content, '["Rivers"]');
+    assert.equal(received[0].url, '/v1/chat/completions');
+    assert.equal(received[0].authorization, 'Bearer local-key');
+    assert.equal(received[0].body.model, 'llama3.1');
+    assert.deepEqual(received[0].body.messages, [{ role: 'user', content: 'List topics' }]);
+    assert.equal(received[0].body.max_tokens, 100);
+  });
+
+  it('streams the reply from server-sent events', async () => {
+    const event = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+    respond(200, `${event('{"questions": ')}: keep-alive\n\n${event('[]}')}data: [DONE]\n\n`);
+    const provider = new OpenAICompatibleModelProvider(baseUrl, 'llama3.1');
+
+    const pieces: string[] = [];
+    for await (const piece of provider.stream({ messages: [{ role: 'user', content: 'Hi' }] })) {
+      pieces.push(piece);
+    }
+
+    assert.deepEqual(pieces, ['{"questions": ', '[]}']);
+    assert.equal(received[0].body.stream, true);
+  });
+
+  it('rejects error statuses and empty replies', async () => {
+    const provider = new OpenAICompatibleModelProvider(baseUrl, 'llama3.1');
+
+    respond(404, { error: 'model "llama3.1" not found' });
+    await assert.rejects(provider.complete({ messages: [{ role: 'user', content: 'Hi' }] }), /responded with 404/);
+    assert.equal(received[0].authorization, undefined);
+
+    respond(200, { choices: [{ message: { role: 'assistant', content: '' } }] });
+    await assert.rejects(provider.complete({ messages: [{ role: 'user', content: 'Hi' }] }), /No content/);
+
+    const test = await provider.testConnection();
+    assert.equal(test.success, false);
+  });
+});
+
+describe('OfflineModelProvider', () => {
+  it('replies from the queue, then the responder, then fails', async () => {
+    const provider = new OfflineModelProvider((request) => `echo: ${request.messages[0].content}`);
+    provider.reply('first', new Error('second fails'));
+
+    assert.equal(await provider.complete({ messages: [{ role: 'user', content: 'a' }] }), 'first');
+    await assert.rejects(provider.complete({ messages: [{ role: 'user', content: 'b' }] }), /second fails/);
+    assert.equal(await provider.complete({ messages: [{ role: 'user', content: 'c' }] }), 'echo: c');
+    await assert.rejects(new OfflineModelProvider().complete({ messages: [] }), /No language model configured/);
+  });
+});
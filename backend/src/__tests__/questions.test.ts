@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isValidResponse, matchesAcceptedAnswer, normalizeQuestion, parseNumericResponse, validateQuestion } from '../../../shared/questions';
+import { Question } from '../types/types';
+
+describe('question kinds', () => {
+  describe('validateQuestion', () => {
+    it('accepts a well-formed question of each kind', () => {
+      assert.deepEqual(validateQuestion({ text: 'Capital of France?', options: ['Paris', 'Rome'], correctOption: 'Paris' }), []);
+      assert.deepEqual(validateQuestion({ type: 'multiple', text: 'Rivers?', options: ['Nile', 'Alps'], correctOptions: ['Nile'] }), []);
+      assert.deepEqual(validateQuestion({ type: 'true-false', text: 'The Nile flows north.', correctAnswer: true }), []);
+      assert.deepEqual(validateQuestion({ type: 'text', text: 'Longest river?', acceptedAnswers: ['Nile'] }), []);
+      assert.deepEqual(validateQuestion({ type: 'numeric', text: 'Nile length in km?', correctValue: 6650, tolerance: 0 }), []);
+    });
+
+    it('names what is wrong with each kind', () => {
+      assert.deepEqual(validateQuestion({ type: 'multiple', text: 'Rivers?', options: ['Nile', 'Alps'], correctOptions: ['Volga'] }), ['correctOptions must match the provided options']);
+      assert.deepEqual(validateQuestion({ type: 'true-false', text: 'The Nile flows north.', correctAnswer: 'yes' }), ['correctAnswer must be true or false']);
+      assert.deepEqual(validateQuestion({ type: 'text', text: 'Longest river?', acceptedAnswers: [' '] }), ['acceptedAnswers must list at least one non-empty answer']);
+      assert.deepEqual(validateQuestion({ type: 'numeric', text: 'Nile length?', correctValue: 'long', tolerance: -1 }), ['correctValue must be a number', 'tolerance must be a number of 0 or more']);
+      assert.match(validateQuestion({ type: 'essay', text: 'Why?' })[0], /type must be one of/);
+    });
+  });
+
+  it('coerces loosely formatted answers when normalizing', () => {
+    const trueFalse = normalizeQuestion({ type: 'true-false', text: 'The Nile flows north.', correctAnswer: ' TRUE ' }, { timeLimit: 20 });
+    const numeric = normalizeQuestion({ type: 'numeric', text: 'Nile length in km?', correctValue: '6650', tolerance: '50' }, { timeLimit: 20 });
+
+    assert.equal((trueFalse.question as Extract<Question, { type: 'true-false' }>).correctAnswer, true);
+    assert.equal((numeric.question as Extract<Question, { type: 'numeric' }>).correctValue, 6650);
+    assert.deepEqual(normalizeQuestion({ type: 'numeric', text: 'Nile length?', correctValue: 'about 6650' }, { timeLimit: 20 }).errors, ['correctValue must be a number']);
+  });
+
+  it('matches typed text ignoring case, accents, punctuation and small typos', () => {
+    assert.equal(matchesAcceptedAnswer('  são PAULO! ', ['Sao Paulo']), true);
+    assert.equal(matchesAcceptedAnswer('Missisippi', ['Mississippi']), true);
+    assert.equal(matchesAcceptedAnswer('Nil', ['Nile']), false); // No typos allowed in short answers
+    assert.equal(matchesAcceptedAnswer('', ['Nile']), false);
+  });
+
+  it('reads typed numbers', () => {
+    assert.equal(parseNumericResponse(' 42 '), 42);
+    assert.equal(parseNumericResponse('3,5'), 3.5);
+    assert.equal(parseNumericResponse('forty'), null);
+    assert.equal(parseNumericResponse(Infinity), null);
+  });
+
+  it('checks the shape of a response for the question kind', () => {
+    const multiple: Question = { type: 'multiple', text: 'Rivers?', options: ['Nile', 'Alps'], correctOptions: ['Nile'], timeLimit: 20 };
+
+    assert.equal(isValidResponse(multiple, ['Nile']), true);
+    assert.equal(isValidResponse(multiple, ['Nile', 'Nile']), false);
+    assert.equal(isValidResponse(multiple, 'Nile'), false);
+    assert.equal(isValidResponse({ type: 'true-false', text: 'The Nile flows north.', correctAnswer: true, timeLimit: 20 }, 'true'), false);
+    assert.equal(isValidResponse({ type: 'numeric', text: 'Nile length?', correctValue: 6650, tolerance: 0, timeLimit: 20 }, '6650'), true);
+  });
+});
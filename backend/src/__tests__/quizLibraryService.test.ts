@@ -0,0 +1,94 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { QuizLibraryService } from '../services/quizLibraryService';
+import { InMemoryQuizStore } from '../services/quizStore';
+import { Question, Room } from '../types/types';
+import { memoryRooms } from './helpers/testServer';
+
+const QUESTIONS: Question[] = [
+  { text: 'What is the capital of France?', options: ['Paris', 'Rome'], correctOption: 'Paris', timeLimit: 20 },
+  { text: 'How many legs does a spider have?', options: ['6', '8'], correctOption: '8', timeLimit: 20 }
+];
+
+const ROOM: Room = {
+  id: 'room-1',
+  roomCode: '123456',
+  topic: 'Geography',
+  difficulty: 'hard',
+  questionCount: 2,
+  status: 'finished',
+  hostId: 'host',
+  createdAt: 0,
+  currentQuestionIndex: 1,
+  players: {},
+  questions: QUESTIONS,
+  totalQuestions: 2,
+  isGameComplete: true
+};
+
+describe('QuizLibraryService', () => {
+  let store: InMemoryQuizStore;
+  let library: QuizLibraryService;
+
+  beforeEach(() => {
+    memoryRooms().clear();
+    store = new InMemoryQuizStore();
+    library = new QuizLibraryService(store);
+  });
+
+  it('saves a quiz with normalized tags and keeps its owner on the server', async () => {
+    const quiz = await library.createQuiz({ ownerId: 'owner-1', title: ' Capitals ', description: '  ', tags: ['Geo', 'geo ', 'Europe'], questions: QUESTIONS });
+
+    assert.equal(quiz.title, 'Capitals');
+    assert.equal(quiz.description, undefined);
+    assert.deepEqual(quiz.tags, ['geo', 'europe']);
+    assert.equal(quiz.language, 'en');
+    assert.equal(quiz.difficulty, 'medium');
+    assert.equal(quiz.questionCount, 2);
+    assert.equal('ownerId' in quiz, false);
+    assert.equal((await store.getQuiz(quiz.id))?.ownerId, 'owner-1');
+    assert.deepEqual(await library.getQuiz(quiz.id), quiz);
+  });
+
+  it('saves a room\'s questions for its host only', async () => {
+    await memoryRooms().createRoom(ROOM);
+
+    await assert.rejects(library.createQuiz({ ownerId: 'owner-1', title: 'Capitals', roomId: 'room-1', hostId: 'guest' }), { code: 'INSUFFICIENT_PERMISSIONS' });
+    await assert.rejects(library.createQuiz({ ownerId: 'owner-1', title: 'Capitals', roomId: 'room-2', hostId: 'host' }), { code: 'ROOM_NOT_FOUND' });
+
+    const quiz = await library.createQuiz({ ownerId: 'owner-1', title: 'Capitals', roomId: 'room-1', hostId: 'host' });
+    assert.deepEqual(quiz.questions, QUESTIONS);
+    assert.equal(quiz.difficulty, 'hard');
+    assert.equal(quiz.sourceRoomId, 'room-1');
+  });
+
+  it('filters and sorts the listing, without questions', async () => {
+    const capitals = await library.createQuiz({ ownerId: 'owner-1', title: 'Capitals', tags: ['geo'], difficulty: 'easy', questions: QUESTIONS });
+    const spiders = await library.createQuiz({ ownerId: 'owner-1', title: 'Spiders', description: 'Eight legs', language: 'fr', questions: QUESTIONS });
+    await library.updateQuiz(capitals.id, 'owner-1', { description: 'Updated last' });
+
+    assert.deepEqual((await library.listQuizzes()).map((quiz) => quiz.title), ['Capitals', 'Spiders']);
+    assert.deepEqual((await library.listQuizzes({ tag: 'GEO' })).map((quiz) => quiz.id), [capitals.id]);
+    assert.deepEqual((await library.listQuizzes({ language: 'fr' })).map((quiz) => quiz.id), [spiders.id]);
+    assert.deepEqual((await library.listQuizzes({ difficulty: 'easy' })).map((quiz) => quiz.id), [capitals.id]);
+    assert.deepEqual((await library.listQuizzes({ search: 'legs' })).map((quiz) => quiz.id), [spiders.id]);
+    assert.equal('questions' in (await library.listQuizzes())[0], false);
+  });
+
+  it('lets only the owner update or delete a quiz', async () => {
+    const quiz = await library.createQuiz({ ownerId: 'owner-1', title: 'Capitals', description: 'Europe', questions: QUESTIONS });
+
+    await assert.rejects(library.updateQuiz(quiz.id, 'owner-2', { title: 'Mine now' }), { code: 'INSUFFICIENT_PERMISSIONS' });
+    await assert.rejects(library.deleteQuiz(quiz.id, 'owner-2'), { code: 'INSUFFICIENT_PERMISSIONS' });
+    await assert.rejects(library.deleteQuiz('missing', 'owner-1'), { code: 'QUIZ_NOT_FOUND' });
+
+    const updated = await library.updateQuiz(quiz.id, 'owner-1', { description: '', questions: QUESTIONS.slice(0, 1) });
+    assert.equal(updated.title, 'Capitals');
+    assert.equal(updated.description, undefined);
+    assert.equal(updated.questionCount, 1);
+    assert.equal((await store.getQuiz(quiz.id))?.ownerId, 'owner-1');
+
+    await library.deleteQuiz(quiz.id, 'owner-1');
+    assert.equal(await library.getQuiz(quiz.id), null);
+  });
+});
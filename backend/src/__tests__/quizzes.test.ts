@@ -0,0 +1,84 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LibraryQuiz, Question } from '../types/types';
+import { memoryQuizzes, memoryRooms, startTestServer, TestServer } from './helpers/testServer';
+
+const QUESTIONS: Question[] = [
+  { text: 'What is the capital of France?', options: ['Paris', 'Rome'], correctOption: 'Paris', timeLimit: 20 },
+  { text: 'How many legs does a spider have?', options: ['6', '8'], correctOption: '8', timeLimit: 20 }
+];
+
+describe('quizzes API', () => {
+  let app: TestServer;
+
+  before(async () => {
+    app = await startTestServer();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    memoryRooms().clear();
+    memoryQuizzes().clear();
+  });
+
+  const saveQuiz = async (overrides: Record<string, unknown> = {}) => {
+    const { status, body } = await app.request<LibraryQuiz>('post', '/api/quizzes', { ownerId: 'owner-1', title: 'Capitals', questions: QUESTIONS, ...overrides });
+    assert.equal(status, 201);
+    return body;
+  };
+
+  it('saves, lists and returns quizzes without their owner', async () => {
+    const quiz = await saveQuiz({ tags: ['Geo'] });
+
+    const list = await app.request('get', '/api/quizzes?tag=geo');
+    assert.equal(list.status, 200);
+    assert.deepEqual(list.body.quizzes.map((entry: LibraryQuiz) => entry.id), [quiz.id]);
+
+    const fetched = await app.request<LibraryQuiz>('get', `/api/quizzes/${quiz.id}`);
+    assert.equal(fetched.status, 200);
+    assert.deepEqual(fetched.body.questions, QUESTIONS);
+    assert.equal('ownerId' in fetched.body, false);
+    assert.equal('ownerId' in list.body.quizzes[0], false);
+  });
+
+  it('saves a room\'s questions for its host', async () => {
+    const room = await app.request('post', '/api/rooms', { nickname: 'Host', topic: 'Geography', difficulty: 'easy', questionCount: 2, questions: QUESTIONS });
+
+    const denied = await app.request('post', '/api/quizzes', { ownerId: 'owner-1', title: 'Capitals', roomId: room.body.roomId, hostId: 'someone-else' });
+    assert.equal(denied.status, 403);
+
+    const quiz = await saveQuiz({ questions: undefined, roomId: room.body.roomId, hostId: room.body.playerId });
+    assert.equal(quiz.sourceRoomId, room.body.roomId);
+    assert.deepEqual(quiz.questions, QUESTIONS);
+  });
+
+  it('requires an owner and valid questions', async () => {
+    const { status, body } = await app.request('post', '/api/quizzes', { title: 'Capitals', questions: [] });
+
+    assert.equal(status, 400);
+    assert.ok(body.details.includes('ownerId is required'));
+    assert.ok(body.details.length > 1);
+  });
+
+  it('updates and deletes for the owner only', async () => {
+    const quiz = await saveQuiz();
+
+    const otherUpdate = await app.request('put', `/api/quizzes/${quiz.id}`, { ownerId: 'owner-2', title: 'Mine now' });
+    assert.equal(otherUpdate.status, 403);
+    assert.equal(otherUpdate.body.code, 'INSUFFICIENT_PERMISSIONS');
+    assert.equal((await app.request('put', `/api/quizzes/${quiz.id}`, { title: 'Mine now' })).status, 400);
+    assert.equal((await app.request('delete', `/api/quizzes/${quiz.id}`, { ownerId: 'owner-2' })).status, 403);
+    assert.equal((await app.request('delete', `/api/quizzes/${quiz.id}`)).status, 400);
+
+    const updated = await app.request<LibraryQuiz>('put', `/api/quizzes/${quiz.id}`, { ownerId: 'owner-1', title: 'European capitals' });
+    assert.equal(updated.status, 200);
+    assert.equal(updated.body.title, 'European capitals');
+
+    assert.equal((await app.request('delete', `/api/quizzes/${quiz.id}`, { ownerId: 'owner-1' })).status, 200);
+    assert.equal((await app.request('get', `/api/quizzes/${quiz.id}`)).status, 404);
+    assert.equal((await app.request('delete', `/api/quizzes/${quiz.id}`, { ownerId: 'owner-1' })).status, 404);
+  });
+});
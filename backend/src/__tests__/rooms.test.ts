@@ -0,0 +1,323 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Question, Room } from '../types/types';
+import { memoryRooms, startTestServer, TestServer, waitForEvent, waitUntil } from './helpers/testServer';
+import { serverModel } from './helpers/fakeModel';
+
+const QUESTIONS: Question[] = [
+  { text: 'What is the capital of France?', options: ['Paris', 'Rome'], correctOption: 'Paris', timeLimit: 20 },
+  { text: 'How many legs does a spider have?', options: ['6', '8'], correctOption: '8', timeLimit: 20 }
+];
+
+describe('rooms API', () => {
+  let app: TestServer;
+
+  before(async () => {
+    app = await startTestServer();
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    memoryRooms().clear();
+    serverModel().reset();
+  });
+
+  const createRoom = async (overrides: Record<string, unknown> = {}) => {
+    const { status, body } = await app.request('post', '/api/rooms', {
+      nickname: 'Host',
+      topic: 'Geography',
+      difficulty: 'easy',
+      questionCount: QUESTIONS.length,
+      questions: QUESTIONS,
+      ...overrides
+    });
+    assert.equal(status, 201);
+    return body as { roomId: string; playerId: string; playerToken: string };
+  };
+
+  const getRoom = async (roomId: string): Promise<Room> => {
+    const { status, body } = await app.request<Room>('get', `/api/rooms/${roomId}`);
+    assert.equal(status, 200);
+    return body;
+  };
+
+  const joinRoom = async (roomId: string, nickname: string) => {
+    const { roomCode } = await getRoom(roomId);
+    const { status, body } = await app.request('post', '/api/rooms/join', { roomCode, nickname });
+    assert.equal(status, 200);
+    return body as { playerId: string; playerToken: string };
+  };
+
+  describe('create', () => {
+    it('creates a waiting room with the host and the given questions', async () => {
+      const { roomId, playerId } = await createRoom();
+      const room = await getRoom(roomId);
+
+      assert.equal(room.status, 'waiting');
+      assert.equal(room.hostId, playerId);
+      assert.match(room.roomCode, /^\d{6}$/);
+      assert.equal(room.players[playerId].isHost, true);
+      assert.deepEqual(room.questions, QUESTIONS);
+      assert.equal(room.questionsGenerating, false);
+    });
+
+    it('rejects invalid requests', async () => {
+      const { status, body } = await app.request('post', '/api/rooms', { nickname: '', topic: 'Geography', difficulty: 'impossible', questionCount: 5 });
+
+      assert.equal(status, 400);
+      assert.ok(Array.isArray(body.details) && body.details.length > 0);
+    });
+
+    it('generates questions in the background when none are given', async () => {
+      serverModel().reply(JSON.stringify([
+        { text: 'Which river flows through Cairo?', options: ['Nile', 'Amazon', 'Danube', 'Volga'], correctOption: 'Nile' },
+        { text: 'Which ocean lies west of Portugal?', options: ['Atlantic', 'Pacific', 'Indian', 'Arctic'], correctOption: 'Atlantic' }
+      ]));
+
+      const { roomId } = await createRoom({ questions: undefined, questionCount: 2 });
+      await waitUntil(async () => (await getRoom(roomId)).questionsGenerating === false);
+
+      const room = await getRoom(roomId);
+      assert.equal(serverModel().requests.length, 1);
+      assert.deepEqual(room.questions.map((q) => q.text), ['Which river flows through Cairo?', 'Which ocean lies west of Portugal?']);
+      assert.equal(room.aiGenerated, true);
+    });
+
+    it('falls back to sample questions of the requested types when the model fails', async () => {
+      serverModel().reply(new Error('Service unavailable'));
+
+      const { roomId } = await createRoom({ questions: undefined, questionCount: 3, questionTypes: ['numeric', 'matching'] });
+      await waitUntil(async () => (await getRoom(roomId)).questionsGenerating === false);
+
+      const room = await getRoom(roomId);
+      assert.ok(room.questions.length > 0);
+      assert.equal(room.totalQuestions, room.questions.length);
+      assert.equal(room.aiGenerated, false);
+      assert.ok(room.questions.every((q) => q.type === 'numeric' || q.type === 'matching'));
+    });
+  });
+
+  describe('join', () => {
+    it('adds the player to the room', async () => {
+      const { roomId } = await createRoom();
+      const { playerId } = await joinRoom(roomId, 'Alice');
+
+      const room = await getRoom(roomId);
+      assert.equal(room.players[playerId].nickname, 'Alice');
+      assert.equal(Object.keys(room.players).length, 2);
+    });
+
+    it('rejects unknown codes and taken nicknames', async () => {
+      const { roomId } = await createRoom();
+      const { roomCode } = await getRoom(roomId);
+
+      const unknown = await app.request('post', '/api/rooms/join', { roomCode: roomCode === '999999' ? '999998' : '999999', nickname: 'Alice' });
+      assert.equal(unknown.status, 404);
+
+      const taken = await app.request('post', '/api/rooms/join', { roomCode, nickname: 'host' });
+      assert.equal(taken.status, 409);
+      assert.equal(taken.body.code, 'NICKNAME_TAKEN');
+    });
+
+    it('closes the room once the game has started', async () => {
+      const { roomId, playerId } = await createRoom();
+      await app.request('post', `/api/rooms/${roomId}/start`, { hostId: playerId });
+      const { roomCode } = await getRoom(roomId);
+
+      const { status, body } = await app.request('post', '/api/rooms/join', { roomCode, nickname: 'Late' });
+      assert.equal(status, 400);
+      assert.equal(body.code, 'ROOM_NOT_ACCEPTING_PLAYERS');
+    });
+  });
+
+  describe('start', () => {
+    it('only lets the host start the game', async () => {
+      const { roomId } = await createRoom();
+      const { playerId } = await joinRoom(roomId, 'Alice');
+
+      const { status } = await app.request('post', `/api/rooms/${roomId}/start`, { hostId: playerId });
+      assert.equal(status, 403);
+    });
+
+    it('lets the host start early once enough questions have been generated', async () => {
+      const { roomId, playerId } = await createRoom();
+      await memoryRooms().updateRoom(roomId, { questionCount: 10, totalQuestions: 10, questionsGenerating: true });
+
+      const tooFew = await app.request('post', `/api/rooms/${roomId}/start`, { hostId: playerId });
+      assert.equal(tooFew.status, 400);
+      assert.equal(tooFew.body.code, 'QUESTIONS_NOT_READY');
+
+      await memoryRooms().updateRoom(roomId, { questions: [...QUESTIONS, { text: 'What is the capital of Italy?', options: ['Paris', 'Rome'], correctOption: 'Rome', timeLimit: 20 }] });
+      const { status } = await app.request('post', `/api/rooms/${roomId}/start`, { hostId: playerId });
+      assert.equal(status, 200);
+
+      const room = await getRoom(roomId);
+      assert.equal(room.status, 'active');
+      assert.equal(room.questionsGenerating, false);
+      assert.equal(room.totalQuestions, 3);
+    });
+
+    it('starts the first question', async () => {
+      const { roomId, playerId } = await createRoom();
+
+      const { status } = await app.request('post', `/api/rooms/${roomId}/start`, { hostId: playerId });
+      assert.equal(status, 200);
+
+      const room = await getRoom(roomId);
+      assert.equal(room.status, 'active');
+      assert.equal(room.currentQuestionIndex, 0);
+      assert.equal(room.gameState?.phase, 'answering');
+
+      const again = await app.request('post', `/api/rooms/${roomId}/start`, { hostId: playerId });
+      assert.equal(again.status, 400);
+      assert.equal(again.body.code, 'INVALID_ROOM_STATE');
+    });
+  });
+
+  describe('answers', () => {
+    it('scores answers on the server and rejects a second answer', async () => {
+      const { roomId, playerId: hostId, playerToken } = await createRoom();
+      await joinRoom(roomId, 'Alice');
+      await app.request('post', `/api/rooms/${roomId}/start`, { hostId });
+
+      const { status, body } = await app.request('post', `/api/rooms/${roomId}/answers`, { playerId: hostId, playerToken, questionIndex: 0, response: 'Paris' });
+      assert.equal(status, 200);
+      assert.equal(body.isCorrect, true);
+      assert.ok(body.scoreEarned > 0);
+      assert.equal(body.streak, 1);
+
+      const room = await getRoom(roomId);
+      assert.equal(room.players[hostId].score, body.newTotalScore);
+      assert.equal(room.players[hostId].answers[0].option, 'Paris');
+
+      const repeat = await app.request('post', `/api/rooms/${roomId}/answers`, { playerId: hostId, playerToken, questionIndex: 0, response: 'Rome' });
+      assert.equal(repeat.status, 409);
+    });
+
+    it('rejects answers without the token issued to that player', async () => {
+      const { roomId, playerId: hostId, playerToken: hostToken } = await createRoom();
+      const { playerId, playerToken } = await joinRoom(roomId, 'Alice');
+      await app.request('post', `/api/rooms/${roomId}/start`, { hostId });
+
+      const attempts = [
+        { playerId: hostId },
+        { playerId: hostId, playerToken },
+        { playerId: 'nobody', playerToken: hostToken }
+      ];
+      for (const attempt of attempts) {
+        const { status, body } = await app.request('post', `/api/rooms/${roomId}/answers`, { ...attempt, questionIndex: 0, response: 'Paris' });
+        assert.equal(status, 403);
+        assert.equal(body.code, 'INVALID_PLAYER_TOKEN');
+      }
+      assert.deepEqual((await getRoom(roomId)).players[hostId].answers ?? {}, {});
+
+      const own = await app.request('post', `/api/rooms/${roomId}/answers`, { playerId, playerToken, questionIndex: 0, response: 'Paris' });
+      assert.equal(own.status, 200);
+    });
+
+    it('reveals the answer once every player has answered', async () => {
+      const { roomId, playerId: hostId, playerToken: hostToken } = await createRoom();
+      const { playerId, playerToken } = await joinRoom(roomId, 'Alice');
+      await app.request('post', `/api/rooms/${roomId}/start`, { hostId });
+
+      await app.request('post', `/api/rooms/${roomId}/answers`, { playerId: hostId, playerToken: hostToken, questionIndex: 0, response: 'Paris' });
+      await app.request('post', `/api/rooms/${roomId}/answers`, { playerId, playerToken, questionIndex: 0, response: 'Rome' });
+
+      const room = await getRoom(roomId);
+      assert.equal(room.gameState?.phase, 'showing-answer');
+      assert.equal(room.players[playerId].answers[0].isCorrect, false);
+    });
+
+    it('accepts answers over the socket', async () => {
+      const { roomId, playerId: hostId, playerToken } = await createRoom();
+      await app.request('post', `/api/rooms/${roomId}/start`, { hostId });
+
+      const socket = await app.connect();
+      socket.emit('join-room', { roomId, playerId: hostId, nickname: 'Host' });
+      await waitForEvent(socket, 'room-joined');
+
+      socket.emit('submit-answer', { roomId, playerId: hostId, questionIndex: 0, response: 'Paris' });
+      const rejected = await waitForEvent(socket, 'error');
+      assert.equal(rejected.code, 'INVALID_PLAYER_TOKEN');
+
+      socket.emit('submit-answer', { roomId, playerId: hostId, playerToken, questionIndex: 0, response: 'Paris' });
+      const result = await waitForEvent(socket, 'answer-result');
+      assert.equal(result.isCorrect, true);
+    });
+  });
+
+  describe('kick', () => {
+    it('removes a player (host only)', async () => {
+      const { roomId, playerId: hostId } = await createRoom();
+      const { playerId } = await joinRoom(roomId, 'Alice');
+
+      const notHost = await app.request('post', `/api/rooms/${roomId}/kick-player`, { hostId: playerId, playerIdToKick: hostId });
+      assert.equal(notHost.status, 403);
+
+      const self = await app.request('post', `/api/rooms/${roomId}/kick-player`, { hostId, playerIdToKick: hostId });
+      assert.equal(self.status, 400);
+      assert.equal(self.body.code, 'CANNOT_KICK_HOST');
+
+      const { status, body } = await app.request('post', `/api/rooms/${roomId}/kick-player`, { hostId, playerIdToKick: playerId });
+      assert.equal(status, 200);
+      assert.equal(body.kickedPlayer.nickname, 'Alice');
+      assert.equal((await getRoom(roomId)).players[playerId], undefined);
+    });
+
+    it('notifies the kicked player over the socket', async () => {
+      const { roomId, playerId: hostId } = await createRoom();
+      const { playerId } = await joinRoom(roomId, 'Alice');
+
+      const hostSocket = await app.connect();
+      const playerSocket = await app.connect();
+      hostSocket.emit('join-room', { roomId, playerId: hostId, nickname: 'Host' });
+      playerSocket.emit('join-room', { roomId, playerId, nickname: 'Alice' });
+      await Promise.all([waitForEvent(hostSocket, 'room-joined'), waitForEvent(playerSocket, 'room-joined')]);
+
+      const kicked = waitForEvent(playerSocket, 'player-kicked');
+      hostSocket.emit('kick-player', { roomId, hostId, playerIdToKick: playerId });
+      await kicked;
+
+      assert.equal((await getRoom(roomId)).players[playerId], undefined);
+    });
+  });
+
+  describe('delete', () => {
+    it('deletes the room (host only)', async () => {
+      const { roomId, playerId: hostId } = await createRoom();
+      const { playerId } = await joinRoom(roomId, 'Alice');
+
+      const notHost = await app.request('delete', `/api/rooms/${roomId}`, { hostId: playerId });
+      assert.equal(notHost.status, 403);
+
+      const { status } = await app.request('delete', `/api/rooms/${roomId}`, { hostId });
+      assert.equal(status, 200);
+
+      const missing = await app.request('get', `/api/rooms/${roomId}`);
+      assert.equal(missing.status, 404);
+    });
+  });
+
+  describe('cleanup', () => {
+    it('deletes rooms that have waited for more than three hours', async () => {
+      const expired = await createRoom();
+      const recent = await createRoom();
+      const started = await createRoom();
+      await app.request('post', `/api/rooms/${started.roomId}/start`, { hostId: started.playerId });
+
+      const fourHoursAgo = Date.now() - 4 * 60 * 60 * 1000;
+      await memoryRooms().updateRoom(expired.roomId, { createdAt: fourHoursAgo });
+      await memoryRooms().updateRoom(started.roomId, { createdAt: fourHoursAgo });
+
+      const { status } = await app.request('delete', '/api/rooms/cleanup');
+      assert.equal(status, 200);
+
+      assert.equal(await memoryRooms().roomExists(expired.roomId), false);
+      assert.equal(await memoryRooms().roomExists(recent.roomId), true);
+      assert.equal(await memoryRooms().roomExists(started.roomId), true);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  countCorrectStreak,
+  DEFAULT_COMBO,
+  getRoomCombo,
+  getStreakMultiplier,
+  gradeAnswer,
+  NEGATIVE_MARKING_PENALTY,
+  ScoringInput,
+  scoreAnswer,
+  WAGER_OPTIONS
+} from '../../../shared/scoring';
+import { Answer, MatchingQuestion, MultipleChoiceQuestion, NumericQuestion, OrderingQuestion, ScoringStrategy, TextQuestion, TrueFalseQuestion } from '../types/types';
+
+const QUESTION = { timeLimit: 20 };
+
+const answer = (isCorrect: boolean, fields: Partial<Answer> = {}): Answer => ({ option: '', isCorrect, timeToAnswer: 5000, ...fields });
+
+// 5s of 20s used: 1000 base points and a 1500 point speed bonus for a correct answer
+const score = (strategy: ScoringStrategy | undefined, input: Partial<ScoringInput> & Pick<ScoringInput, 'answer'>) =>
+  scoreAnswer(strategy, { question: QUESTION, history: [], ...input }).scoreEarned;
+
+describe('scoring', () => {
+  describe('strategies', () => {
+    it('classic: base points plus a speed bonus, nothing for a wrong answer', () => {
+      assert.equal(score('classic', { answer: answer(true) }), 2500);
+      assert.equal(score('classic', { answer: answer(true, { timeToAnswer: 30000 }) }), 1000);
+      assert.equal(score('classic', { answer: answer(false) }), 0);
+      assert.equal(score(undefined, { answer: answer(true) }), 2500);
+    });
+
+    it('accuracy: the same points for every correct answer', () => {
+      assert.equal(score('accuracy', { answer: answer(true, { timeToAnswer: 1000 }) }), 1000);
+      assert.equal(score('accuracy', { answer: answer(true, { timeToAnswer: 19000 }) }), 1000);
+      assert.equal(score('accuracy', { answer: answer(false) }), 0);
+    });
+
+    it('streak: multiplies by the current correct streak, with the default combo when the room has none', () => {
+      assert.equal(score('streak', { answer: answer(true) }), 2500);
+      assert.equal(score('streak', { answer: answer(true), history: [answer(true), answer(true)] }), 5000);
+      assert.equal(score('streak', { answer: answer(true), history: [answer(true), undefined, answer(true)] }), 3750);
+      assert.equal(score('streak', { answer: answer(false), history: [answer(true), answer(true)] }), 0);
+    });
+
+    it('negative: wrong answers cost points', () => {
+      assert.equal(score('negative', { answer: answer(true) }), 2500);
+      assert.equal(score('negative', { answer: answer(false) }), -NEGATIVE_MARKING_PENALTY);
+    });
+
+    it('wager: wins or loses the stake, whatever the speed or combo', () => {
+      assert.equal(score('wager', { answer: answer(true, { wager: 1000 }), history: [answer(true)], combo: DEFAULT_COMBO }), 1000);
+      assert.equal(score('wager', { answer: answer(false, { wager: 500 }) }), -500);
+      assert.equal(score('wager', { answer: answer(false) }), -WAGER_OPTIONS[0]);
+      assert.equal(score('wager', { answer: answer(false, { credit: 0.5, wager: 1000 }) }), 500);
+    });
+
+    it('explains the points with a breakdown', () => {
+      const { scoreBreakdown } = scoreAnswer('classic', { answer: answer(true), question: QUESTION, history: [answer(true)], combo: DEFAULT_COMBO });
+
+      assert.deepEqual(scoreBreakdown, { strategy: 'classic', base: 1000, speedBonus: 1500, multiplier: 1.5, penalty: 0 });
+    });
+  });
+
+  describe('combo', () => {
+    it('grows by the step per correct answer in a row, up to the cap', () => {
+      assert.equal(getStreakMultiplier(0), 1);
+      assert.equal(getStreakMultiplier(2), 2);
+      assert.equal(getStreakMultiplier(10), DEFAULT_COMBO.max);
+      assert.equal(getStreakMultiplier(3, { step: 1, max: 2 }), 2);
+      assert.equal(score('accuracy', { answer: answer(true), history: Array(8).fill(answer(true)), combo: { step: 1, max: 4 } }), 4000);
+    });
+
+    it('only counts full-credit answers at the end of the history', () => {
+      assert.equal(countCorrectStreak([answer(true), answer(false), answer(true), answer(true)]), 2);
+      assert.equal(countCorrectStreak([answer(true), answer(false, { credit: 0.5 })]), 0);
+      assert.equal(countCorrectStreak([answer(true), undefined]), 0);
+    });
+
+    it('is off by default except in streak rooms, and never applies to wagers', () => {
+      assert.equal(getRoomCombo({ scoringStrategy: 'classic' }), undefined);
+      assert.deepEqual(getRoomCombo({ scoringStrategy: 'streak' }), DEFAULT_COMBO);
+      assert.deepEqual(getRoomCombo({ scoringStrategy: 'accuracy', combo: { step: 1, max: 5 } }), { step: 1, max: 5 });
+      assert.equal(getRoomCombo({ scoringStrategy: 'wager', combo: { step: 1, max: 5 } }), undefined);
+    });
+  });
+
+  describe('grading', () => {
+    it('grades true/false, text and numeric answers all or nothing', () => {
+      const trueFalse: TrueFalseQuestion = { type: 'true-false', text: 'The Nile flows north.', correctAnswer: true, timeLimit: 20 };
+      const text: TextQuestion = { type: 'text', text: 'Longest river in Africa?', acceptedAnswers: ['Nile', 'The Nile'], timeLimit: 20 };
+      const numeric: NumericQuestion = { type: 'numeric', text: 'Length of the Nile in km?', correctValue: 6650, tolerance: 50, timeLimit: 20 };
+
+      assert.deepEqual(gradeAnswer(trueFalse, true), { isCorrect: true, credit: 1 });
+      assert.deepEqual(gradeAnswer(trueFalse, 'true'), { isCorrect: false, credit: 0 });
+      assert.deepEqual(gradeAnswer(text, '  the NILE! '), { isCorrect: true, credit: 1 });
+      assert.deepEqual(gradeAnswer(text, 'Niger'), { isCorrect: false, credit: 0 });
+      assert.deepEqual(gradeAnswer(numeric, '6700'), { isCorrect: true, credit: 1 });
+      assert.deepEqual(gradeAnswer(numeric, 6599), { isCorrect: false, credit: 0 });
+      assert.deepEqual(gradeAnswer(numeric, 'about 6650'), { isCorrect: false, credit: 0 });
+    });
+  });
+
+  describe('partial credit', () => {
+    const multiple: MultipleChoiceQuestion = { type: 'multiple', text: 'Which are rivers?', options: ['Nile', 'Volga', 'Baikal', 'Everest'], correctOptions: ['Nile', 'Volga'], timeLimit: 20 };
+
+    it('gives multi-select answers a share per correct pick, cancelled by wrong picks', () => {
+      assert.deepEqual(gradeAnswer(multiple, ['Nile', 'Volga']), { isCorrect: true, credit: 1 });
+      assert.deepEqual(gradeAnswer(multiple, ['Nile']), { isCorrect: false, credit: 0.5 });
+      assert.deepEqual(gradeAnswer(multiple, ['Nile', 'Volga', 'Baikal']), { isCorrect: false, credit: 0.5 });
+      assert.deepEqual(gradeAnswer(multiple, ['Nile', 'Baikal', 'Everest']), { isCorrect: false, credit: 0 });
+      assert.deepEqual(gradeAnswer(multiple, 'Nile'), { isCorrect: false, credit: 0 });
+    });
+
+    it('gives ordering and matching answers a share per item in place', () => {
+      const ordering: OrderingQuestion = { type: 'ordering', text: 'Order by length', items: ['Nile', 'Amazon', 'Yangtze'], timeLimit: 20 };
+      const matching: MatchingQuestion = { type: 'matching', text: 'Match the rivers', pairs: [{ left: 'Nile', right: 'Egypt' }, { left: 'Volga', right: 'Russia' }], timeLimit: 20 };
+
+      assert.deepEqual(gradeAnswer(ordering, ['Nile', 'Yangtze', 'Amazon']), { isCorrect: false, credit: 0.33 });
+      assert.deepEqual(gradeAnswer(matching, ['Egypt', 'Egypt']), { isCorrect: false, credit: 0.5 });
+    });
+
+    it('scales the points earned by the credit', () => {
+      assert.equal(score('classic', { answer: answer(false, { credit: 0.5 }) }), 1250);
+      assert.equal(score('accuracy', { answer: answer(false, { credit: 0.5 }) }), 500);
+      assert.equal(score('negative', { answer: answer(false, { credit: 0.5 }) }), 1250);
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import os from 'os';
+import path from 'path';
+
+/**
+ * Loaded before every test file (see the test script): rooms live in memory, questions come
+ * from the offline model without the shared question cache, uploaded media go to a temporary
+ * directory, and server logs are hidden unless TEST_LOGS=true.
+ */
+process.env.ROOM_STORE = 'memory';
+process.env.MODEL_PROVIDER = 'offline';
+process.env.QUESTION_CACHE = 'off';
+process.env.MEDIA_DIR = path.join(os.tmpdir(), `quiz-test-media-${process.pid}`);
+
+if (process.env.TEST_LOGS !== 'true') {
+  console.log = () => {};
+  console.warn = () => {};
+  console.error = () => {};
+}
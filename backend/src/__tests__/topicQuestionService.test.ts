@@ -0,0 +1,297 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TopicQuestionService, TopicQuestionGenerationParams } from '../services/topicQuestionService';
+import { getQuestionType, QUESTION_TYPES, validateQuestion } from '../../../shared/questions';
+import { InMemoryQuestionCacheStore, QuestionCache } from '../services/questionCache';
+import { SingleChoiceQuestion } from '../types/types';
+import { fakeModel } from './helpers/fakeModel';
+
+const PARAMS: TopicQuestionGenerationParams = { topic: 'Rivers', difficulty: 'easy', count: 2 };
+
+const riverQuestion = (river: string) => ({
+  text: `Which continent is the ${river} river in?`,
+  options: ['Africa', 'Europe', 'Asia', 'South America'],
+  correctOption: 'Africa',
+  explanation: `The ${river} flows through Africa.`
+});
+
+describe('TopicQuestionService', () => {
+  const model = fakeModel();
+  const service = new TopicQuestionService(model);
+
+  beforeEach(() => {
+    model.reset();
+  });
+
+  it('returns the questions from the completion', async () => {
+    model.reply(JSON.stringify([riverQuestion('Nile'), riverQuestion('Congo'), riverQuestion('Niger')]));
+
+    const result = await service.generateQuestionsFromTopic(PARAMS);
+
+    assert.equal(result.aiGenerated, true);
+    assert.deepEqual(result.questions.map((q) => q.text), [riverQuestion('Nile').text, riverQuestion('Congo').text]);
+    assert.equal(result.questions[0].timeLimit, 15); // Easy default when the AI sets none
+    assert.match(model.requests[0].messages[0].content, /Rivers/);
+  });
+
+  it('asks for a JSON schema response', async () => {
+    model.reply(JSON.stringify({ questions: [riverQuestion('Nile'), riverQuestion('Congo')] }));
+
+    await service.generateQuestionsFromTopic(PARAMS);
+
+    assert.equal(model.requests[0].responseSchema?.name, 'quiz_questions');
+    assert.deepEqual(model.requests[0].responseSchema?.schema.required, ['questions']);
+  });
+
+  it('re-prompts with the problems until the requested count is met', async () => {
+    model.reply(
+      JSON.stringify({ questions: [riverQuestion('Nile'), { ...riverQuestion('Congo'), correctOption: 'Antarctica' }] }),
+      JSON.stringify({ questions: [riverQuestion('Niger')] })
+    );
+
+    const result = await service.generateQuestionsFromTopic(PARAMS);
+
+    assert.equal(result.aiGenerated, true);
+    assert.deepEqual(result.questions.map((q) => q.text), [riverQuestion('Nile').text, riverQuestion('Niger').text]);
+
+    const reprompt = model.requests[1].messages;
+    assert.deepEqual(reprompt.map((m) => m.role), ['user', 'assistant', 'user']);
+    assert.match(reprompt[2].content, /Question 2: correctOption must match one of the provided options/);
+    assert.match(reprompt[2].content, /1 more question/);
+  });
+
+  it('asks for replacements of questions that repeat another one', async () => {
+    model.reply(
+      JSON.stringify({ questions: [riverQuestion('Nile'), { ...riverQuestion('Nile'), text: 'Which continent is the river Nile in?' }] }),
+      JSON.stringify({ questions: [riverQuestion('Niger')] })
+    );
+
+    const result = await service.generateQuestionsFromTopic(PARAMS);
+
+    assert.deepEqual(result.questions.map((q) => q.text), [riverQuestion('Nile').text, riverQuestion('Niger').text]);
+    assert.match(model.requests[1].messages[2].content, /Question 2: asks the same thing as "Which continent is the Nile river in\?"/);
+  });
+
+  it('marks each answer key with the result of the blind check', async () => {
+    model.reply(
+      JSON.stringify({ questions: [riverQuestion('Nile'), riverQuestion('Congo')] }),
+      '{"answer": "Africa"}',
+      '{"answer": "Asia"}'
+    );
+
+    const result = await service.generateQuestionsFromTopic({ ...PARAMS, verifyAnswers: 'flag' });
+
+    assert.deepEqual(result.questions.map((q) => q.verification), [
+      { status: 'verified' },
+      { status: 'disputed', modelAnswer: 'Asia' }
+    ]);
+    assert.equal(model.requests[1].responseSchema?.name, 'quiz_answer');
+  });
+
+  it('replaces questions whose answer key the blind check disputes', async () => {
+    model.reply(
+      JSON.stringify({ questions: [riverQuestion('Nile'), riverQuestion('Congo')] }),
+      '{"answer": "Africa"}',
+      '{"answer": "Asia"}',
+      JSON.stringify({ questions: [riverQuestion('Niger')] }),
+      '{"answer": "Africa"}'
+    );
+
+    const result = await service.generateQuestionsFromTopic({ ...PARAMS, verifyAnswers: 'regenerate' });
+
+    assert.deepEqual(result.questions.map((q) => q.text), [riverQuestion('Nile').text, riverQuestion('Niger').text]);
+    assert.ok(result.questions.every((q) => q.verification?.status === 'verified'));
+    assert.match(model.requests[3].messages[2].content, /Question 2: an independent check answered "Asia" instead of "Africa"/);
+  });
+
+  it('repairs replies wrapped in prose and answers given as letters', async () => {
+    const { correctOption, ...nile } = riverQuestion('Nile');
+    model.reply(`Sure! Here are your questions:\n${JSON.stringify([{ ...nile, correctOption: 'A' }, { ...riverQuestion('Congo'), correctOption: 'africa' }])}\nGood luck!`);
+
+    const result = await service.generateQuestionsFromTopic(PARAMS);
+
+    assert.equal(result.aiGenerated, true);
+    assert.equal(model.requests.length, 1);
+    assert.deepEqual(result.questions.map((q) => (q as SingleChoiceQuestion).correctOption), [correctOption, 'Africa']);
+  });
+
+  it('hands each question to the listener as it streams in, and stops when told to', async () => {
+    model.reply(JSON.stringify({ questions: [riverQuestion('Nile'), riverQuestion('Congo'), riverQuestion('Niger')] }));
+    const received: string[] = [];
+
+    const result = await service.generateQuestionsFromTopic({ ...PARAMS, count: 3 }, (question) => {
+      received.push(question.text);
+      return received.length < 2;
+    });
+
+    assert.deepEqual(received, [riverQuestion('Nile').text, riverQuestion('Congo').text]);
+    assert.equal(model.requests.length, 1);
+    assert.equal(result.questions.length, 3); // Padded, the caller decides what to keep
+  });
+
+  it('falls back to sample questions when the API call fails', async () => {
+    model.reply(new Error('Rate limit exceeded'));
+
+    const result = await service.generateQuestionsFromTopic(PARAMS);
+
+    assert.equal(result.aiGenerated, false);
+    assert.equal(result.fallbackReason, 'Rate limit exceeded');
+    assert.equal(result.questions.length, 2);
+  });
+
+  it('falls back to sample questions when the completion is not JSON', async () => {
+    model.reply('Here are your questions: 1. What is the longest river?');
+
+    const result = await service.generateQuestionsFromTopic(PARAMS);
+
+    assert.equal(result.aiGenerated, false);
+    assert.match(result.fallbackReason ?? '', /Invalid JSON/);
+    assert.equal(result.questions.length, 2);
+  });
+
+  it('falls back to sample questions when no generated question is valid', async () => {
+    model.reply(JSON.stringify([
+      { text: 'Too short', options: ['A', 'B'], correctOption: 'A' },
+      { text: 'Which river is the longest in Europe?', options: ['Volga', 'Danube'], correctOption: 'Rhine' }
+    ]));
+
+    const result = await service.generateQuestionsFromTopic(PARAMS);
+
+    assert.equal(result.aiGenerated, false);
+    assert.match(result.fallbackReason ?? '', /No valid questions/);
+  });
+
+  it('pads with sample questions when only some generated questions are valid', async () => {
+    model.reply(JSON.stringify([riverQuestion('Nile'), { text: 'Broken question without options' }]));
+
+    const result = await service.generateQuestionsFromTopic({ ...PARAMS, count: 3 });
+
+    assert.equal(result.aiGenerated, false);
+    assert.equal(result.sampleQuestions, 2);
+    assert.equal(result.questions.length, 3);
+    assert.equal(result.questions[0].text, riverQuestion('Nile').text);
+  });
+
+  it('drops question types that were not requested', async () => {
+    model.reply(JSON.stringify([
+      { type: 'true-false', text: 'The Nile flows into the Mediterranean Sea.', correctAnswer: true },
+      riverQuestion('Congo')
+    ]));
+
+    const result = await service.generateQuestionsFromTopic({ ...PARAMS, count: 1, questionTypes: ['single'] });
+
+    assert.deepEqual(result.questions.map(getQuestionType), ['single']);
+    assert.equal(result.questions[0].text, riverQuestion('Congo').text);
+  });
+
+  it('only pads with sample questions of the requested types', async () => {
+    model.reply(JSON.stringify([{ type: 'true-false', text: 'The Nile flows into the Mediterranean Sea.', correctAnswer: true }]));
+
+    const result = await service.generateQuestionsFromTopic({ ...PARAMS, count: 3, questionTypes: ['true-false'] });
+
+    assert.deepEqual(result.questions.map(getQuestionType), ['true-false', 'true-false']);
+    assert.equal(result.questions[0].text, 'The Nile flows into the Mediterranean Sea.');
+  });
+
+  it('has valid sample questions of every type for every difficulty', async () => {
+    for (const difficulty of ['easy', 'medium', 'hard'] as const) {
+      for (const type of QUESTION_TYPES) {
+        model.reply(new Error('Service unavailable'));
+
+        const result = await service.generateQuestionsFromTopic({ ...PARAMS, difficulty, count: 1, questionTypes: [type] });
+
+        assert.equal(result.questions.length, 1, `${difficulty} ${type}`);
+        assert.equal(getQuestionType(result.questions[0]), type);
+        assert.deepEqual(validateQuestion(result.questions[0]), []);
+      }
+    }
+  });
+
+  it('never repeats excluded questions, in generated or sample questions', async () => {
+    const excluded = 'What is the capital of France?';
+    model.reply(JSON.stringify([{ ...riverQuestion('Nile'), text: excluded }]), new Error('Service unavailable'));
+
+    const generated = await service.generateQuestionsFromTopic({ ...PARAMS, count: 1, excludeQuestions: [excluded] });
+    const fallback = await service.generateQuestionsFromTopic({ ...PARAMS, count: 5, excludeQuestions: [excluded] });
+
+    assert.ok(generated.questions.every((q) => q.text !== excluded));
+    assert.equal(fallback.aiGenerated, false);
+    assert.ok(fallback.questions.length > 0);
+    assert.ok(fallback.questions.every((q) => q.text !== excluded));
+  });
+
+  describe('with a question cache', () => {
+    const cachedModel = fakeModel();
+    let cache: QuestionCache;
+    let cachedService: TopicQuestionService;
+
+    beforeEach(() => {
+      cache = new QuestionCache(new InMemoryQuestionCacheStore(), 0.5, () => 0);
+      cachedService = new TopicQuestionService(cachedModel, cache);
+      cachedModel.reset();
+    });
+
+    it('serves the reuse share from earlier questions on the topic and tops up with fresh ones', async () => {
+      cachedModel.reply(
+        JSON.stringify({ questions: [riverQuestion('Nile'), riverQuestion('Congo')] }),
+        JSON.stringify({ questions: [riverQuestion('Niger')] })
+      );
+
+      const first = await cachedService.generateQuestionsFromTopic(PARAMS);
+      const second = await cachedService.generateQuestionsFromTopic({ ...PARAMS, topic: '  rivers! ' });
+
+      assert.equal(first.cachedQuestions, undefined);
+      assert.equal(second.cachedQuestions, 1);
+      assert.deepEqual(second.questions.map((q) => q.text), [riverQuestion('Nile').text, riverQuestion('Niger').text]);
+      assert.match(cachedModel.requests[1].messages[0].content, /Which continent is the Nile river in\?/); // Not to be repeated
+      assert.deepEqual(cache.getStats(), { kind: 'memory', reuse: 0.5, hits: 1, misses: 1, hitRate: 0.5, questionsServed: 1, questionsStored: 3 });
+    });
+
+    it('keeps questions apart by difficulty and language', async () => {
+      await cache.add({ topic: 'rivers', difficulty: 'easy', language: 'auto', promptVersion: 1 }, [riverQuestion('Nile') as SingleChoiceQuestion]);
+      cachedModel.reply(
+        JSON.stringify({ questions: [riverQuestion('Congo'), riverQuestion('Niger')] }),
+        JSON.stringify({ questions: [riverQuestion('Congo'), riverQuestion('Niger')] })
+      );
+
+      const hard = await cachedService.generateQuestionsFromTopic({ ...PARAMS, difficulty: 'hard' });
+      const french = await cachedService.generateQuestionsFromTopic({ ...PARAMS, language: 'fr' });
+
+      assert.equal(hard.cachedQuestions, undefined);
+      assert.equal(french.cachedQuestions, undefined);
+      assert.match(cachedModel.requests[1].messages[0].content, /language with the code "fr"/);
+    });
+
+    it('never caches disputed questions, and only reuses verified ones when answers are checked', async () => {
+      await cache.add({ topic: 'rivers', difficulty: 'easy', language: 'auto', promptVersion: 1 }, [riverQuestion('Zambezi') as SingleChoiceQuestion]);
+      cachedModel.reply(
+        JSON.stringify({ questions: [riverQuestion('Nile'), riverQuestion('Congo')] }),
+        '{"answer": "Africa"}',
+        '{"answer": "Asia"}',
+        JSON.stringify({ questions: [riverQuestion('Niger')] }),
+        '{"answer": "Africa"}'
+      );
+
+      const flagged = await cachedService.generateQuestionsFromTopic({ ...PARAMS, verifyAnswers: 'flag' });
+      const checked = await cachedService.generateQuestionsFromTopic({ ...PARAMS, verifyAnswers: 'regenerate' });
+
+      assert.equal(flagged.cachedQuestions, undefined); // The unchecked Zambezi question is not reused
+      assert.equal(flagged.questions[1].verification?.status, 'disputed');
+      assert.equal(checked.cachedQuestions, 1);
+      assert.deepEqual(checked.questions.map((q) => q.text), [riverQuestion('Nile').text, riverQuestion('Niger').text]);
+      assert.ok(checked.questions.every((q) => q.verification?.status === 'verified'));
+    });
+
+    it('falls back to cached questions before sample questions when the model fails', async () => {
+      cachedModel.reply(JSON.stringify({ questions: [riverQuestion('Nile'), riverQuestion('Congo')] }), new Error('Rate limit exceeded'));
+
+      await cachedService.generateQuestionsFromTopic(PARAMS);
+      const result = await cachedService.generateQuestionsFromTopic({ ...PARAMS, count: 3 });
+
+      assert.equal(result.fallbackReason, 'Rate limit exceeded');
+      assert.equal(result.cachedQuestions, 2);
+      assert.deepEqual(result.questions.slice(0, 2).map((q) => q.text).sort(), [riverQuestion('Congo').text, riverQuestion('Nile').text]);
+      assert.equal(result.questions.length, 3);
+    });
+  });
+});
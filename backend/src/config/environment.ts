@@ -9,6 +9,13 @@ dotenv.config();
  * Validates and provides access to environment variables
  */
 
+// Language model backends for question generation (see services/questionModelProvider.ts)
+export type ModelProviderName = 'openai' | 'openai-compatible' | 'offline';
+
+export const MODEL_PROVIDERS: ModelProviderName[] = ['openai', 'openai-compatible', 'offline'];
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
 export interface EnvironmentConfig {
   // Server configuration
   port: number;
@@ -24,6 +31,29 @@ export interface EnvironmentConfig {
   // OpenAI configuration
   openaiApiKey?: string;
   
+  // Question generation model
+  modelProvider: ModelProviderName;
+  modelName: string;
+  modelBaseUrl?: string; // OpenAI-compatible servers, e.g. http://localhost:11434/v1 for Ollama
+  modelApiKey?: string; // Sent as a bearer token to OpenAI-compatible servers that need one
+  embeddingModel?: string; // Optional: embeddings for near-duplicate question detection
+  
+  // Media uploads
+  mediaDir: string;
+  
+  // Uploaded documents are kept this long for question generation
+  documentTtlMinutes: number;
+  
+  // Room storage (defaults to Firebase when credentials are configured, otherwise memory)
+  roomStore?: 'firebase' | 'memory';
+  
+  // Generated topic questions kept for reuse (defaults to where rooms are stored)
+  questionCache?: 'firebase' | 'memory' | 'off';
+  questionCacheReuse: number; // Share of a request's questions that may come from the cache, 0-1
+  
+  // Bearer token for the admin endpoints (disabled when unset)
+  adminToken?: string;
+  
   // Optional configuration
   debug: boolean;
   rateLimit: number;
@@ -34,6 +64,14 @@ export interface EnvironmentConfig {
  */
 const parseEnvironment = (): EnvironmentConfig => {
   // Parse CORS origins from environment variable
+  const roomStore = process.env.ROOM_STORE?.trim().toLowerCase();
+  const questionCache = process.env.QUESTION_CACHE?.trim().toLowerCase();
+
+  // Without MODEL_PROVIDER: a compatible server when MODEL_BASE_URL is set, then OpenAI when keyed, then offline
+  const requestedProvider = process.env.MODEL_PROVIDER?.trim().toLowerCase();
+  const modelProvider: ModelProviderName = MODEL_PROVIDERS.find((provider) => provider === requestedProvider)
+    ?? (process.env.MODEL_BASE_URL ? 'openai-compatible' : process.env.OPENAI_API_KEY ? 'openai' : 'offline');
+
   const corsOriginsFromEnv = process.env.CORS_ORIGINS 
     ? process.env.CORS_ORIGINS.split(',').map(origin => origin.trim()).filter(origin => origin.length > 0)
     : [];
@@ -53,6 +91,29 @@ const parseEnvironment = (): EnvironmentConfig => {
     // OpenAI configuration
     openaiApiKey: process.env.OPENAI_API_KEY,
     
+    // Question generation model
+    modelProvider,
+    modelName: process.env.MODEL_NAME || (modelProvider === 'openai' ? DEFAULT_OPENAI_MODEL : modelProvider === 'offline' ? 'offline' : ''),
+    modelBaseUrl: process.env.MODEL_BASE_URL,
+    modelApiKey: process.env.MODEL_API_KEY,
+    embeddingModel: process.env.MODEL_EMBEDDING_MODEL,
+    
+    // Media uploads
+    mediaDir: process.env.MEDIA_DIR || path.join(process.cwd(), 'uploads', 'media'),
+    
+    // Uploaded documents
+    documentTtlMinutes: parseInt(process.env.DOCUMENT_TTL_MINUTES || '120', 10),
+    
+    // Room storage
+    roomStore: roomStore === 'firebase' || roomStore === 'memory' ? roomStore : undefined,
+    
+    // Question cache
+    questionCache: questionCache === 'firebase' || questionCache === 'memory' || questionCache === 'off' ? questionCache : undefined,
+    questionCacheReuse: parseFloat(process.env.QUESTION_CACHE_REUSE || '0.5'),
+    
+    // Admin endpoints
+    adminToken: process.env.ADMIN_TOKEN || undefined,
+    
     // Optional configuration
     debug: process.env.DEBUG === 'true',
     rateLimit: parseInt(process.env.RATE_LIMIT || '100', 10),
@@ -70,10 +131,44 @@ const validateEnvironment = (config: EnvironmentConfig): { valid: boolean; error
     errors.push('VITE_FIREBASE_DATABASE_URL is required');
   }
 
-  if (!config.firebaseServiceAccount && !config.googleApplicationCredentials) {
+  if (process.env.MODEL_PROVIDER && !MODEL_PROVIDERS.includes(process.env.MODEL_PROVIDER.trim().toLowerCase() as ModelProviderName)) {
+    errors.push(`MODEL_PROVIDER must be one of: ${MODEL_PROVIDERS.join(', ')}`);
+  }
+
+  if (config.modelProvider === 'openai' && !config.openaiApiKey) {
+    errors.push('MODEL_PROVIDER=openai requires OPENAI_API_KEY');
+  }
+
+  if (config.modelProvider === 'openai-compatible') {
+    if (!config.modelBaseUrl) {
+      errors.push('MODEL_BASE_URL is required for an OpenAI-compatible model server');
+    }
+    if (!config.modelName) {
+      errors.push('MODEL_NAME is required for an OpenAI-compatible model server');
+    }
+  }
+
+  if (process.env.ROOM_STORE && !config.roomStore) {
+    errors.push('ROOM_STORE must be either firebase or memory');
+  }
+
+  // Rooms kept in memory do not need Firebase
+  if (config.roomStore !== 'memory' && !config.firebaseServiceAccount && !config.googleApplicationCredentials) {
     errors.push('Firebase credentials required: set FIREBASE_SERVICE_ACCOUNT or GOOGLE_APPLICATION_CREDENTIALS');
   }
 
+  if (process.env.QUESTION_CACHE && !config.questionCache) {
+    errors.push('QUESTION_CACHE must be one of: firebase, memory, off');
+  }
+
+  if (isNaN(config.questionCacheReuse) || config.questionCacheReuse < 0 || config.questionCacheReuse > 1) {
+    errors.push('QUESTION_CACHE_REUSE must be a number between 0 and 1');
+  }
+
+  if (isNaN(config.documentTtlMinutes) || config.documentTtlMinutes < 1) {
+    errors.push('DOCUMENT_TTL_MINUTES must be a number of minutes, at least 1');
+  }
+
   // Validate port
   if (isNaN(config.port) || config.port < 1 || config.port > 65535) {
     errors.push('PORT must be a valid number between 1 and 65535');
@@ -104,6 +199,13 @@ const printEnvironmentStatus = (config: EnvironmentConfig) => {
   console.log(`   Firebase DB URL: ${config.firebaseDbUrl}`);
   console.log(`   Firebase Credentials: ${config.firebaseServiceAccount ? '✅ Environment Variable' : config.googleApplicationCredentials ? '✅ File Path' : '❌ Missing'}`);
   console.log(`   OpenAI API Key: ${config.openaiApiKey ? '✅ Configured' : '⚠️ Not Set'}`);
+  console.log(`   Question Model: ${config.modelProvider} (${config.modelName || 'no model set'})${config.modelBaseUrl ? ` at ${config.modelBaseUrl}` : ''}`);
+  console.log(`   Duplicate Detection: ${config.embeddingModel ? `text, options and embeddings (${config.embeddingModel})` : 'text and options'}`);
+  console.log(`   Media Directory: ${config.mediaDir}`);
+  console.log(`   Document TTL: ${config.documentTtlMinutes} minutes`);
+  console.log(`   Room Store: ${config.roomStore || 'auto (Firebase when configured, otherwise memory)'}`);
+  console.log(`   Question Cache: ${config.questionCache || 'auto (same as rooms)'}, reusing up to ${Math.round(config.questionCacheReuse * 100)}% of each request`);
+  console.log(`   Admin Endpoints: ${config.adminToken ? '✅ Enabled' : '⚠️ Disabled (no ADMIN_TOKEN)'}`);
   console.log(`   Debug Mode: ${config.debug ? 'ON' : 'OFF'}`);
   console.log(`   Rate Limit: ${config.rateLimit} requests/minute`);
 };
@@ -126,11 +228,24 @@ const printSetupInstructions = (errors: string[]) => {
   console.log('');
   console.log('   # OpenAI Configuration (optional but recommended)');
   console.log('   OPENAI_API_KEY=sk-your-openai-api-key-here');
+  console.log('   MODEL_NAME=gpt-4o-mini # optional, the OpenAI model to use');
+  console.log('');
+  console.log('   # Local model instead of OpenAI (optional - Ollama, llama.cpp server, vLLM)');
+  console.log('   MODEL_BASE_URL=http://localhost:11434/v1');
+  console.log('   MODEL_NAME=llama3.1');
+  console.log('   # MODEL_PROVIDER=offline # no model: sample questions only');
+  console.log('   # MODEL_EMBEDDING_MODEL=text-embedding-3-small # optional, catches reworded duplicate questions');
   console.log('');
   console.log('   # Server Configuration (optional)');
   console.log('   PORT=3001');
   console.log('   FRONTEND_URL=http://localhost:5173');
   console.log('   DEBUG=true');
+  console.log('   MEDIA_DIR=./uploads/media # where uploaded question images and audio are stored');
+  console.log('   DOCUMENT_TTL_MINUTES=120 # how long uploaded documents are kept for question generation');
+  console.log('   ROOM_STORE=memory # keep rooms in memory instead of Firebase (offline development, tests)');
+  console.log('   QUESTION_CACHE=memory # where generated questions are kept for reuse: firebase, memory or off');
+  console.log('   QUESTION_CACHE_REUSE=0.5 # share of each request served from the cache, 0-1');
+  console.log('   ADMIN_TOKEN=some-long-secret # enables the admin endpoints, sent as a bearer token');
   console.log('');
   console.log('   # CORS Configuration (optional - for additional domains)');
   console.log('   CORS_ORIGINS=https://yourdomain.com,https://anotherdomain.com');
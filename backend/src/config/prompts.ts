@@ -0,0 +1,387 @@
+import { DifficultyLevel, Question, QuestionType } from '../types/types';
+import {
+  DEFAULT_QUESTION_TYPES,
+  MIN_OPTIONS,
+  MAX_OPTIONS,
+  MIN_ORDERING_ITEMS,
+  MAX_ORDERING_ITEMS,
+  MIN_MATCHING_PAIRS,
+  MAX_MATCHING_PAIRS
+} from '../../../shared/questions';
+
+/**
+ * Prompts for AI question generation, shared by every question model provider
+ */
+
+/**
+ * Version of the topic question prompt, part of the question cache key: bump it when the prompt
+ * changes so that questions written for the old prompt are no longer served
+ */
+export const QUESTION_PROMPT_VERSION = 1;
+
+/**
+ * Generation settings sent with question prompts
+ */
+export const GENERATION_CONFIG = {
+  temperature: 0.7,
+  maxTokens: 4000,
+  timeout: 30000, // Milliseconds without a reply (or new streamed output) before a model request is abandoned
+  maxAttempts: 3, // Requests per generation, including re-prompts for missing or invalid questions
+} as const;
+
+/**
+ * JSON format and example for each question type, used to build generation prompts
+ */
+const QUESTION_TYPE_FORMATS: Record<QuestionType, { description: string; example: string; rules: string }> = {
+  single: {
+    description: 'multiple choice with exactly one correct option',
+    example: '{"type": "single", "text": "What is the capital of France?", "options": ["London", "Berlin", "Paris", "Madrid"], "correctOption": "Paris", "timeLimit": 15}',
+    rules: `options: ${MIN_OPTIONS}-${MAX_OPTIONS} unique strings (4 is typical); correctOption: the exact text of one option (not A, B, C, D)`
+  },
+  multiple: {
+    description: 'multiple choice where one or more options are correct (partial credit)',
+    example: '{"type": "multiple", "text": "Which of these are primary colors?", "options": ["Red", "Green", "Blue", "Yellow"], "correctOptions": ["Red", "Blue", "Yellow"], "timeLimit": 25}',
+    rules: `options: ${MIN_OPTIONS}-${MAX_OPTIONS} unique strings; correctOptions: the exact text of every correct option; the question text must make clear that several answers may be correct`
+  },
+  'true-false': {
+    description: 'a statement that is either true or false',
+    example: '{"type": "true-false", "text": "The Great Wall of China is visible from the Moon with the naked eye.", "correctAnswer": false, "timeLimit": 10}',
+    rules: 'text: a clear statement, not a question; correctAnswer: a JSON boolean (true or false)'
+  },
+  text: {
+    description: 'a short typed answer (1-3 words)',
+    example: '{"type": "text", "text": "What is the chemical symbol for gold?", "acceptedAnswers": ["Au"], "timeLimit": 20}',
+    rules: 'acceptedAnswers: every acceptable short answer, including common alternative spellings; avoid questions with long or open-ended answers'
+  },
+  numeric: {
+    description: 'a number, accepted within a tolerance',
+    example: '{"type": "numeric", "text": "How many bones are in the adult human body?", "correctValue": 206, "tolerance": 0, "timeLimit": 20}',
+    rules: 'correctValue: a JSON number; tolerance: the allowed difference (0 for an exact answer); unit: optional unit label such as "km" or "°C"'
+  },
+  ordering: {
+    description: 'put steps, events or values in the correct order (partial credit)',
+    example: '{"type": "ordering", "text": "Put these planets in order from closest to farthest from the Sun.", "items": ["Mercury", "Venus", "Earth", "Mars"], "timeLimit": 30}',
+    rules: `items: ${MIN_ORDERING_ITEMS}-${MAX_ORDERING_ITEMS} unique short strings listed in the CORRECT order (they are shuffled for players); the question text must say what the order is based on`
+  },
+  matching: {
+    description: 'match each term to its definition or counterpart (partial credit)',
+    example: '{"type": "matching", "text": "Match each element to its chemical symbol.", "pairs": [{"left": "Gold", "right": "Au"}, {"left": "Silver", "right": "Ag"}, {"left": "Iron", "right": "Fe"}], "timeLimit": 30}',
+    rules: `pairs: ${MIN_MATCHING_PAIRS}-${MAX_MATCHING_PAIRS} objects with "left" (term) and "right" (its match); every left and every right must be unique and each right must fit only its own left`
+  }
+};
+
+type JsonSchema = Record<string, unknown>;
+
+type QuestionOfType<T extends QuestionType> = Extract<Question, { type?: T }>;
+
+const stringList = (minItems: number, maxItems?: number): JsonSchema => ({
+  type: 'array',
+  items: { type: 'string' },
+  minItems,
+  ...(maxItems ? { maxItems } : {})
+});
+
+/**
+ * JSON schema of the fields specific to each question type, keyed by the Question type's own field names
+ */
+const QUESTION_TYPE_SCHEMAS: {
+  [T in QuestionType]: {
+    properties: { [K in keyof QuestionOfType<T>]?: JsonSchema };
+    required: (keyof QuestionOfType<T>)[];
+  }
+} = {
+  single: {
+    properties: { options: stringList(MIN_OPTIONS, MAX_OPTIONS), correctOption: { type: 'string' } },
+    required: ['options', 'correctOption']
+  },
+  multiple: {
+    properties: { options: stringList(MIN_OPTIONS, MAX_OPTIONS), correctOptions: stringList(1, MAX_OPTIONS) },
+    required: ['options', 'correctOptions']
+  },
+  'true-false': {
+    properties: { correctAnswer: { type: 'boolean' } },
+    required: ['correctAnswer']
+  },
+  text: {
+    properties: { acceptedAnswers: stringList(1) },
+    required: ['acceptedAnswers']
+  },
+  numeric: {
+    properties: { correctValue: { type: 'number' }, tolerance: { type: 'number', minimum: 0 }, unit: { type: 'string' } },
+    required: ['correctValue', 'tolerance']
+  },
+  ordering: {
+    properties: { items: stringList(MIN_ORDERING_ITEMS, MAX_ORDERING_ITEMS) },
+    required: ['items']
+  },
+  matching: {
+    properties: {
+      pairs: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { left: { type: 'string' }, right: { type: 'string' } },
+          required: ['left', 'right'],
+          additionalProperties: false
+        },
+        minItems: MIN_MATCHING_PAIRS,
+        maxItems: MAX_MATCHING_PAIRS
+      }
+    },
+    required: ['pairs']
+  }
+};
+
+/**
+ * JSON schema for a generation reply: {"questions": [...]} with one schema per requested type.
+ * Sent as the response format so models that support structured output can only reply in shape.
+ */
+export const buildQuestionListSchema = (
+  questionTypes: QuestionType[] = DEFAULT_QUESTION_TYPES,
+  options: { citations?: boolean } = {}
+): JsonSchema => {
+  const types = questionTypes.length > 0 ? questionTypes : DEFAULT_QUESTION_TYPES;
+
+  const questionSchemas = types.map((type): JsonSchema => {
+    const typeSchema = QUESTION_TYPE_SCHEMAS[type];
+    return {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: [type] },
+        text: { type: 'string' },
+        ...typeSchema.properties,
+        timeLimit: { type: 'number' },
+        explanation: { type: 'string' },
+        ...(options.citations
+          ? {
+              citation: {
+                type: 'object',
+                properties: { quote: { type: 'string' }, location: { type: 'string' } },
+                required: ['quote'],
+                additionalProperties: false
+              }
+            }
+          : {})
+      },
+      required: ['type', 'text', ...(typeSchema.required as string[]), 'explanation', ...(options.citations ? ['citation'] : [])],
+      additionalProperties: false
+    };
+  });
+
+  return {
+    type: 'object',
+    properties: {
+      questions: { type: 'array', items: questionSchemas.length === 1 ? questionSchemas[0] : { anyOf: questionSchemas } }
+    },
+    required: ['questions'],
+    additionalProperties: false
+  };
+};
+
+/**
+ * Format instructions for the requested question types.
+ * Document prompts also ask for a citation of the passage each answer comes from.
+ */
+export const buildQuestionFormatInstructions = (
+  questionTypes: QuestionType[] = DEFAULT_QUESTION_TYPES,
+  options: { citations?: boolean } = {}
+): string => {
+  const types = questionTypes.length > 0 ? questionTypes : DEFAULT_QUESTION_TYPES;
+  const typeList = types.map(type => `"${type}"`).join(', ');
+  const citationRule = options.citations
+    ? '\n- "citation": {"quote": "a short verbatim excerpt (under 30 words) from the content that supports the answer", "location": "the section heading or page it comes from, if known"}'
+    : '';
+
+  return `QUESTION TYPES:
+- Use only these question types: ${typeList}${types.length > 1 ? '\n- Mix the types roughly evenly across the questions' : ''}
+- Every question has "type", "text" and "timeLimit", plus the fields for its type:
+
+${types.map(type => {
+    const format = QUESTION_TYPE_FORMATS[type];
+    return `"${type}" - ${format.description}
+  Fields: ${format.rules}
+  Example: ${format.example}`;
+  }).join('\n\n')}
+
+EXPLANATIONS:
+- "explanation": 1-2 sentences, in the same language as the question, telling players why the answer is correct${citationRule}`;
+};
+
+/**
+ * Ask for questions that differ from the ones the quiz already has
+ * (used when the host regenerates a single question)
+ */
+export const buildExclusionInstructions = (excludeQuestions: string[] = []): string => {
+  if (excludeQuestions.length === 0) {
+    return '';
+  }
+
+  return `AVOID REPEATS:
+- Do not repeat or rephrase any of these existing questions:
+${excludeQuestions.map(text => `  - ${text}`).join('\n')}`;
+};
+
+/**
+ * Generate difficulty-specific prompts for topic questions
+ */
+export const generateQuestionPrompt = (
+  topic: string,
+  difficulty: DifficultyLevel,
+  count: number,
+  questionTypes: QuestionType[] = DEFAULT_QUESTION_TYPES,
+  excludeQuestions: string[] = [],
+  language?: string // Language code; the topic's own language when missing
+): string => {
+  const difficultyInstructions = {
+    easy: {
+      description: 'Basic recall and recognition questions requiring minimal thinking',
+      timeLimit: '10-15 seconds',
+      complexity: 'Direct factual recall, simple identification, or basic vocabulary. No calculations, analysis, or complex reasoning required. Questions should be answerable from memory or immediate recognition.',
+      examples: 'What is the capital of France? Which planet is closest to the Sun? What color is the sky? Who wrote Romeo and Juliet?'
+    },
+    medium: {
+      description: 'Understanding and application questions requiring moderate analysis', 
+      timeLimit: '20-25 seconds',
+      complexity: 'Requires understanding relationships between concepts, applying knowledge to new situations, or performing simple calculations. May involve comparing options, identifying patterns, or connecting related ideas.',
+      examples: 'Which programming concept helps prevent code duplication? What causes ocean tides? How does photosynthesis work? Which historical event led to the American Revolution?'
+    },
+    hard: {
+      description: 'Critical thinking and specialized knowledge questions requiring deep analysis',
+      timeLimit: '30+ seconds', 
+      complexity: 'Requires complex reasoning, multi-step problem solving, or specialized domain knowledge. May involve analyzing cause-and-effect relationships, evaluating multiple factors, or applying advanced concepts to novel situations.',
+      examples: 'How would a change in Earth\'s axial tilt affect global climate patterns? What are the implications of quantum computing for cryptography? Analyze the economic impact of the Industrial Revolution on social structures.'
+    }
+  };
+
+  const difficultyInfo = difficultyInstructions[difficulty];
+
+  const languageRequirements = language
+    ? `LANGUAGE REQUIREMENTS:
+- Generate ALL questions, options and explanations in the language with the code "${language}", whatever the language of the topic`
+    : `LANGUAGE REQUIREMENTS:
+- Generate ALL questions and options in the SAME language as the topic
+- If the topic is in Russian, generate questions in Russian
+- If the topic is in Spanish, generate questions in Spanish
+- If the topic is in French, generate questions in French
+- If the topic is in German, generate questions in German
+- If the topic is in English, generate questions in English
+- If the topic is in Ukrainian, generate questions in Ukrainian
+- If the topic is in Kazakh, generate questions in Kazakh
+- Match the language of the topic exactly - use the same language for everything`;
+
+  return `Generate ${count} quiz questions about "${topic}" with ${difficulty} difficulty level.
+
+${languageRequirements}
+
+DIFFICULTY REQUIREMENTS:
+- Level: ${difficulty.toUpperCase()} (${difficultyInfo.description})
+- Time needed: ${difficultyInfo.timeLimit}
+- Complexity: ${difficultyInfo.complexity}
+- Examples: ${difficultyInfo.examples}
+
+CRITICAL FORMAT REQUIREMENTS:
+1. Return ONLY a valid JSON object of the form {"questions": [...]}, no extra text, no markdown formatting
+2. All text must be clean and properly escaped for JSON
+3. Do not include any numbering, letters, or extra formatting in the options
+4. Option texts in correctOption/correctOptions must match the options exactly (case-sensitive)
+5. timeLimit is optional (will be auto-set if missing)
+
+${buildQuestionFormatInstructions(questionTypes)}
+
+QUALITY STANDARDS:
+- Questions should be educational and factually accurate
+- Options should be plausible distractors, and only the intended options correct
+- Avoid trick questions or ambiguous wording
+- Ensure questions match the requested difficulty level
+- Use appropriate time limits based on complexity
+- Maintain consistent language throughout all questions and options
+- Each question should be independent and self-contained
+${excludeQuestions.length > 0 ? `\n${buildExclusionInstructions(excludeQuestions)}\n` : ''}
+Topic: ${topic}
+Difficulty: ${difficulty}
+Count: ${count}
+
+IMPORTANT: Return ONLY the JSON object, no additional text, explanations, or formatting.`;
+};
+
+/**
+ * Settings for the answer key check: one short, deterministic reply per question
+ */
+export const VERIFICATION_CONFIG = {
+  temperature: 0,
+  maxTokens: 300
+} as const;
+
+const byText = (a: string, b: string) => a.localeCompare(b);
+
+/**
+ * The question as a player would see it, with the reply format of its answer.
+ * Ordering items and matching right sides are listed alphabetically, in the prompt and in the schema,
+ * so the order gives nothing away.
+ */
+const describeForAnswering = (question: Question): { body: string; answerFormat: string; answerSchema: JsonSchema } => {
+  const list = (items: string[]) => items.map((item) => `- ${item}`).join('\n');
+
+  switch (question.type) {
+    case 'multiple':
+      return {
+        body: `${question.text}\nOptions (one or more are correct):\n${list(question.options)}`,
+        answerFormat: 'a list of every correct option, copied exactly',
+        answerSchema: { type: 'array', items: { type: 'string', enum: question.options } }
+      };
+    case 'true-false':
+      return { body: `True or false: ${question.text}`, answerFormat: 'true or false', answerSchema: { type: 'boolean' } };
+    case 'text':
+      return { body: question.text, answerFormat: 'a short answer (a word or a few words)', answerSchema: { type: 'string' } };
+    case 'numeric':
+      return {
+        body: `${question.text}${question.unit ? ` (answer in ${question.unit})` : ''}`,
+        answerFormat: 'a number',
+        answerSchema: { type: 'number' }
+      };
+    case 'ordering': {
+      const items = [...question.items].sort(byText);
+      return {
+        body: `${question.text}\nItems:\n${list(items)}`,
+        answerFormat: 'the list of items in the correct order, copied exactly',
+        answerSchema: { type: 'array', items: { type: 'string', enum: items } }
+      };
+    }
+    case 'matching': {
+      const rights = question.pairs.map((pair) => pair.right).sort(byText);
+      return {
+        body: `${question.text}\nMatch each of:\n${list(question.pairs.map((pair) => pair.left))}\nWith one of:\n${list(rights)}`,
+        answerFormat: 'a list with the matching item for each of the first list, in that order, copied exactly',
+        answerSchema: { type: 'array', items: { type: 'string', enum: rights } }
+      };
+    }
+    default:
+      return {
+        body: `${question.text}\nOptions (exactly one is correct):\n${list(question.options)}`,
+        answerFormat: 'the correct option, copied exactly',
+        answerSchema: { type: 'string', enum: question.options }
+      };
+  }
+};
+
+/**
+ * Ask a generated question without its answer key; the reply is compared with the stored answer
+ */
+export const buildVerificationPrompt = (question: Question): { prompt: string; schema: JsonSchema } => {
+  const { body, answerFormat, answerSchema } = describeForAnswering(question);
+
+  return {
+    prompt: `Answer this quiz question as accurately as you can.
+
+${body}
+
+Reply with ONLY a JSON object of the form {"answer": ...} where the answer is ${answerFormat}.
+If the question cannot be answered without more context, reply {"answer": null}.`,
+    schema: {
+      type: 'object',
+      properties: { answer: { anyOf: [answerSchema, { type: 'null' }] } },
+      required: ['answer'],
+      additionalProperties: false
+    }
+  };
+};
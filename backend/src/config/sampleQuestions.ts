@@ -0,0 +1,274 @@
+import { DifficultyLevel, Question, QuestionType } from '../types/types';
+import { DEFAULT_QUESTION_TYPES, getQuestionType } from '../../../shared/questions';
+
+/**
+ * Fallback questions used when the model fails, organized by difficulty.
+ * Every difficulty has at least one question of each type, so a room asking only for
+ * e.g. numeric questions still gets some.
+ */
+const SAMPLE_QUESTIONS: Record<DifficultyLevel, Question[]> = {
+  easy: [
+    {
+      text: "What is the capital of France?",
+      options: ["London", "Berlin", "Paris", "Madrid"],
+      correctOption: "Paris",
+      timeLimit: 15,
+      difficulty: "easy"
+    },
+    {
+      text: "Which planet is closest to the Sun?",
+      options: ["Venus", "Mercury", "Earth", "Mars"],
+      correctOption: "Mercury",
+      timeLimit: 12,
+      difficulty: "easy"
+    },
+    {
+      text: "What color do you get when you mix red and white?",
+      options: ["Purple", "Orange", "Pink", "Yellow"],
+      correctOption: "Pink",
+      timeLimit: 10,
+      difficulty: "easy"
+    },
+    {
+      text: "How many sides does a triangle have?",
+      options: ["2", "3", "4", "5"],
+      correctOption: "3",
+      timeLimit: 8,
+      difficulty: "easy"
+    },
+    {
+      text: "Which animal is known as the 'King of the Jungle'?",
+      options: ["Tiger", "Elephant", "Lion", "Bear"],
+      correctOption: "Lion",
+      timeLimit: 12,
+      difficulty: "easy"
+    },
+    {
+      type: "multiple",
+      text: "Which of these are primary colors?",
+      options: ["Red", "Green", "Blue", "Yellow"],
+      correctOptions: ["Red", "Blue", "Yellow"],
+      timeLimit: 15,
+      difficulty: "easy"
+    },
+    {
+      type: "true-false",
+      text: "The Sun is a star.",
+      correctAnswer: true,
+      timeLimit: 10,
+      difficulty: "easy"
+    },
+    {
+      type: "text",
+      text: "What is the largest ocean on Earth?",
+      acceptedAnswers: ["Pacific", "Pacific Ocean"],
+      timeLimit: 15,
+      difficulty: "easy"
+    },
+    {
+      type: "numeric",
+      text: "How many days are there in a week?",
+      correctValue: 7,
+      tolerance: 0,
+      timeLimit: 10,
+      difficulty: "easy"
+    },
+    {
+      type: "ordering",
+      text: "Put these numbers in order from smallest to largest.",
+      items: ["2", "5", "9", "14"],
+      timeLimit: 15,
+      difficulty: "easy"
+    },
+    {
+      type: "matching",
+      text: "Match each animal to its young.",
+      pairs: [
+        { left: "Dog", right: "Puppy" },
+        { left: "Cat", right: "Kitten" },
+        { left: "Cow", right: "Calf" }
+      ],
+      timeLimit: 20,
+      difficulty: "easy"
+    }
+  ],
+  medium: [
+    {
+      text: "What is the chemical symbol for gold?",
+      options: ["Go", "Gd", "Au", "Ag"],
+      correctOption: "Au",
+      timeLimit: 20,
+      difficulty: "medium"
+    },
+    {
+      text: "In which year did World War II end?",
+      options: ["1944", "1945", "1946", "1947"],
+      correctOption: "1945",
+      timeLimit: 25,
+      difficulty: "medium"
+    },
+    {
+      text: "What is the largest mammal in the world?",
+      options: ["African Elephant", "Blue Whale", "Giraffe", "Hippopotamus"],
+      correctOption: "Blue Whale",
+      timeLimit: 18,
+      difficulty: "medium"
+    },
+    {
+      text: "Which programming language is known for its use in data science?",
+      options: ["JavaScript", "Python", "C++", "PHP"],
+      correctOption: "Python",
+      timeLimit: 22,
+      difficulty: "medium"
+    },
+    {
+      text: "What is the square root of 144?",
+      options: ["10", "11", "12", "13"],
+      correctOption: "12",
+      timeLimit: 15,
+      difficulty: "medium"
+    },
+    {
+      type: "multiple",
+      text: "Which of these elements are noble gases?",
+      options: ["Helium", "Oxygen", "Neon", "Argon", "Nitrogen"],
+      correctOptions: ["Helium", "Neon", "Argon"],
+      timeLimit: 25,
+      difficulty: "medium"
+    },
+    {
+      type: "true-false",
+      text: "Sound travels faster in water than in air.",
+      correctAnswer: true,
+      timeLimit: 15,
+      difficulty: "medium"
+    },
+    {
+      type: "text",
+      text: "Which gas do plants absorb from the air for photosynthesis?",
+      acceptedAnswers: ["Carbon dioxide", "CO2"],
+      timeLimit: 20,
+      difficulty: "medium"
+    },
+    {
+      type: "numeric",
+      text: "At what temperature in degrees Celsius does water boil at sea level?",
+      correctValue: 100,
+      tolerance: 0,
+      timeLimit: 15,
+      difficulty: "medium"
+    },
+    {
+      type: "ordering",
+      text: "Order these planets by distance from the Sun, closest first.",
+      items: ["Mercury", "Venus", "Earth", "Mars"],
+      timeLimit: 25,
+      difficulty: "medium"
+    },
+    {
+      type: "matching",
+      text: "Match each country to its capital.",
+      pairs: [
+        { left: "Japan", right: "Tokyo" },
+        { left: "Canada", right: "Ottawa" },
+        { left: "Australia", right: "Canberra" }
+      ],
+      timeLimit: 25,
+      difficulty: "medium"
+    }
+  ],
+  hard: [
+    {
+      text: "What is the time complexity of binary search?",
+      options: ["O(n)", "O(log n)", "O(n log n)", "O(n²)"],
+      correctOption: "O(log n)",
+      timeLimit: 35,
+      difficulty: "hard"
+    },
+    {
+      text: "Which of the following is NOT a principle of object-oriented programming?",
+      options: ["Encapsulation", "Inheritance", "Polymorphism", "Compilation"],
+      correctOption: "Compilation",
+      timeLimit: 30,
+      difficulty: "hard"
+    },
+    {
+      text: "In quantum mechanics, what does Schrödinger's equation describe?",
+      options: ["Wave function evolution", "Particle position", "Energy levels", "Spin states"],
+      correctOption: "Wave function evolution",
+      timeLimit: 40,
+      difficulty: "hard"
+    },
+    {
+      text: "What is the primary cause of ocean acidification?",
+      options: ["Industrial pollution", "CO2 absorption", "Temperature rise", "Overfishing"],
+      correctOption: "CO2 absorption",
+      timeLimit: 35,
+      difficulty: "hard"
+    },
+    {
+      text: "Which algorithm is commonly used for finding shortest paths in graphs?",
+      options: ["Bubble Sort", "Dijkstra's Algorithm", "Quick Sort", "Binary Search"],
+      correctOption: "Dijkstra's Algorithm",
+      timeLimit: 30,
+      difficulty: "hard"
+    },
+    {
+      type: "multiple",
+      text: "Which of these sorting algorithms run in O(n log n) time in the worst case?",
+      options: ["Merge Sort", "Heap Sort", "Quick Sort", "Insertion Sort"],
+      correctOptions: ["Merge Sort", "Heap Sort"],
+      timeLimit: 35,
+      difficulty: "hard"
+    },
+    {
+      type: "true-false",
+      text: "Every prime number greater than 2 is odd.",
+      correctAnswer: true,
+      timeLimit: 20,
+      difficulty: "hard"
+    },
+    {
+      type: "text",
+      text: "Which organelle produces most of a cell's ATP?",
+      acceptedAnswers: ["Mitochondrion", "Mitochondria"],
+      timeLimit: 30,
+      difficulty: "hard"
+    },
+    {
+      type: "numeric",
+      text: "How many bones are there in the adult human body?",
+      correctValue: 206,
+      tolerance: 0,
+      timeLimit: 25,
+      difficulty: "hard"
+    },
+    {
+      type: "ordering",
+      text: "Order these historical periods from earliest to latest.",
+      items: ["Bronze Age", "Iron Age", "Middle Ages", "Renaissance"],
+      timeLimit: 35,
+      difficulty: "hard"
+    },
+    {
+      type: "matching",
+      text: "Match each scientist to their discovery.",
+      pairs: [
+        { left: "Newton", right: "Laws of motion" },
+        { left: "Darwin", right: "Natural selection" },
+        { left: "Curie", right: "Radioactivity" }
+      ],
+      timeLimit: 35,
+      difficulty: "hard"
+    }
+  ]
+};
+
+/**
+ * Sample questions for the difficulty, of the requested types (single choice when missing)
+ */
+export const getSampleQuestions = (difficulty: DifficultyLevel, questionTypes?: QuestionType[]): Question[] => {
+  const allowedTypes = questionTypes?.length ? questionTypes : DEFAULT_QUESTION_TYPES;
+  const questions = SAMPLE_QUESTIONS[difficulty] || SAMPLE_QUESTIONS.easy;
+  return questions.filter((question) => allowedTypes.includes(getQuestionType(question)));
+};
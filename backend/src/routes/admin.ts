@@ -0,0 +1,68 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import env from '../config/environment';
+import { questionCache } from '../services/questionCache';
+import { ErrorResponse } from '../types/types';
+
+const router = Router();
+
+// Digests have the same length whatever the tokens, as timingSafeEqual requires
+const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+
+/**
+ * Only let requests with the ADMIN_TOKEN bearer token through; without ADMIN_TOKEN the admin endpoints are off
+ */
+const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!env.adminToken) {
+    return res.status(503).json({
+      error: 'Admin endpoints are disabled',
+      details: 'Set ADMIN_TOKEN to enable them'
+    } as ErrorResponse);
+  }
+
+  const token = /^Bearer (.+)$/.exec(req.headers.authorization ?? '')?.[1];
+  if (!token || !timingSafeEqual(digest(token), digest(env.adminToken))) {
+    return res.status(401).json({
+      error: 'Admin token required'
+    } as ErrorResponse);
+  }
+
+  next();
+};
+
+router.use(requireAdmin);
+
+/**
+ * DELETE /api/admin/question-cache
+ * Invalidate the cached questions for one topic (?topic=...), or the whole cache
+ */
+router.delete('/question-cache', async (req: Request, res: Response) => {
+  try {
+    const { topic } = req.query;
+    if (topic !== undefined && (typeof topic !== 'string' || topic.trim().length === 0)) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: ['Topic must be a non-empty string']
+      } as ErrorResponse);
+    }
+
+    if (!questionCache) {
+      return res.status(409).json({
+        error: 'The question cache is off'
+      } as ErrorResponse);
+    }
+
+    const removed = await questionCache.invalidate(topic?.trim());
+
+    res.status(200).json({ success: true, removed });
+
+  } catch (error: any) {
+    console.error('❌ Error invalidating the question cache:', error);
+    res.status(500).json({
+      error: 'Failed to invalidate the question cache',
+      details: error.message
+    } as ErrorResponse);
+  }
+});
+
+export default router;
@@ -1,13 +1,20 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
-import { DocumentQuestionService, DocumentAnalysis } from '../services/documentQuestionService';
-import { DifficultyLevel } from '../types/types';
+import { DocumentQuestionService } from '../services/documentQuestionService';
+import { documentPipeline } from '../services/documentPipeline';
+import { documentStore, StoredDocument } from '../services/documentStore';
+import { findDocumentExtractor, getSupportedDocumentExtensions } from '../services/documentExtractors';
+import { DifficultyLevel, DocumentTopicCount } from '../types/types';
+import { ANSWER_VERIFICATION_MODES, QUESTION_TYPES } from '../../../shared/questions';
 
-// Extend Request type to include file property from multer
+// Extend Request type to include the files property from multer
 interface MulterRequest extends Request {
-  file?: Express.Multer.File;
+  files?: { [fieldname: string]: Express.Multer.File[] } | Express.Multer.File[];
 }
 
+// Files uploaded together become one document, e.g. the handouts of a revision session
+const MAX_UPLOAD_FILES = 5;
+
 const router = Router();
 const documentQuestionService = new DocumentQuestionService();
 
@@ -18,45 +25,69 @@ const upload = multer({
     fileSize: 10 * 1024 * 1024, // 10MB max
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = [
-      'application/pdf',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'text/plain'
-    ];
-    
-    if (allowedTypes.includes(file.mimetype)) {
+    if (findDocumentExtractor(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Unsupported file type. Please upload PDF, DOCX, or TXT files.'));
+      cb(new Error(`Unsupported file type. Please upload one of: ${getSupportedDocumentExtensions().join(', ')}`));
     }
   }
 });
 
+/**
+ * Owner ids are generated by the host's browser and sent with every document request
+ */
+const isValidOwnerId = (ownerId: any): ownerId is string =>
+  typeof ownerId === 'string' && ownerId.trim().length > 0 && ownerId.length <= 100;
+
+/**
+ * What the host sees of a stored document: its analysis and when it expires, never the extracted text
+ */
+const describeDocument = (document: StoredDocument) => ({
+  ...document.analysis,
+  expiresAt: document.expiresAt
+});
+
 /**
  * POST /api/documents/upload
- * Upload and analyze a document
+ * Upload and analyze one document, or several (the "documents" field) to quiz on together,
+ * keeping the text on the server under the returned fileId
  */
-router.post('/upload', upload.single('document'), async (req: MulterRequest, res: Response) => {
+router.post('/upload', upload.fields([{ name: 'document', maxCount: 1 }, { name: 'documents', maxCount: MAX_UPLOAD_FILES }]), async (req: MulterRequest, res: Response) => {
   try {
-    if (!req.file) {
+    const files = Array.isArray(req.files) ? req.files : Object.values(req.files ?? {}).flat();
+    if (files.length === 0) {
       return res.status(400).json({
         error: 'No file uploaded'
       });
     }
 
-    console.log(`📝 Document upload request: ${req.file.originalname} (${req.file.size} bytes)`);
+    if (files.length > MAX_UPLOAD_FILES) {
+      return res.status(400).json({
+        error: `Upload at most ${MAX_UPLOAD_FILES} files at a time`
+      });
+    }
+
+    const { ownerId } = req.body;
+    if (!isValidOwnerId(ownerId)) {
+      return res.status(400).json({
+        error: 'ownerId is required and must be a string of 100 characters or less'
+      });
+    }
 
-    // Process document
-    const analysis = await documentQuestionService.uploadAndProcessDocument(
-      req.file.buffer,
-      req.file.originalname
+    console.log(`📝 Document upload request: ${files.map((file) => `${file.originalname} (${file.size} bytes)`).join(', ')}`);
+
+    // Extract, normalize and analyze the files as one document
+    const processed = await documentPipeline.ingest(
+      files.map((file) => ({ buffer: file.buffer, filename: file.originalname, mimeType: file.mimetype }))
     );
+    const document = await documentStore.save({ ...processed, ownerId });
+    const { analysis } = document;
 
-    console.log(`✅ Document processed successfully: ${analysis.filename}`);
+    console.log(`✅ Document processed successfully: ${analysis.filename} (${analysis.fileId})`);
 
     res.json({
       success: true,
-      documentAnalysis: analysis
+      documentAnalysis: describeDocument(document)
     });
 
   } catch (error: any) {
@@ -68,18 +99,82 @@ router.post('/upload', upload.single('document'), async (req: MulterRequest, res
   }
 });
 
+/**
+ * GET /api/documents?ownerId=...
+ * List a host's uploaded documents that have not expired, most recent first
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { ownerId } = req.query;
+    if (!isValidOwnerId(ownerId)) {
+      return res.status(400).json({
+        error: 'ownerId is required and must be a string of 100 characters or less'
+      });
+    }
+
+    const documents = await documentStore.listByOwner(ownerId);
+
+    res.json({
+      success: true,
+      documents: documents.map(describeDocument)
+    });
+
+  } catch (error: any) {
+    console.error('❌ Error listing documents:', error);
+    res.status(500).json({
+      error: 'Failed to list documents',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/documents/:fileId
+ * Delete an uploaded document (its owner only)
+ */
+router.delete('/:fileId', async (req: Request, res: Response) => {
+  try {
+    const { ownerId } = req.body;
+    const document = await documentStore.get(req.params.fileId);
+
+    if (!document) {
+      return res.status(404).json({
+        error: 'Document not found'
+      });
+    }
+
+    if (document.ownerId !== ownerId) {
+      return res.status(403).json({
+        error: 'Only the host who uploaded a document can delete it'
+      });
+    }
+
+    await documentStore.delete(req.params.fileId);
+    console.log(`🗑️ Document deleted: ${document.analysis.filename} (${req.params.fileId})`);
+
+    res.json({ success: true });
+
+  } catch (error: any) {
+    console.error('❌ Error deleting document:', error);
+    res.status(500).json({
+      error: 'Failed to delete document',
+      details: error.message
+    });
+  }
+});
+
 /**
  * POST /api/documents/generate-questions
- * Generate questions from a processed document
+ * Generate questions from an uploaded document, identified by its fileId (its owner only)
  */
 router.post('/generate-questions', async (req: Request, res: Response) => {
   try {
-    const { fileId, difficulty, count, extractedText } = req.body;
+    const { fileId, ownerId, difficulty, count, questionTypes, verifyAnswers, sections, topics } = req.body;
 
     // Validate request
-    if (!fileId || !difficulty || !count || !extractedText) {
+    if (!fileId || !difficulty || !count) {
       return res.status(400).json({
-        error: 'Missing required fields: fileId, difficulty, count, extractedText'
+        error: 'Missing required fields: fileId, difficulty, count'
       });
     }
 
@@ -95,14 +190,66 @@ router.post('/generate-questions', async (req: Request, res: Response) => {
       });
     }
 
+    if (questionTypes !== undefined && (!Array.isArray(questionTypes) || questionTypes.some((type: any) => !QUESTION_TYPES.includes(type)))) {
+      return res.status(400).json({
+        error: `Question types must be a list of: ${QUESTION_TYPES.join(', ')}`
+      });
+    }
+
+    if (verifyAnswers !== undefined && !ANSWER_VERIFICATION_MODES.includes(verifyAnswers)) {
+      return res.status(400).json({
+        error: `Answer verification must be one of: ${ANSWER_VERIFICATION_MODES.join(', ')}`
+      });
+    }
+
+    if (sections !== undefined && (
+      !Array.isArray(sections) ||
+      sections.some((section: any) => !Number.isInteger(section?.start) || !Number.isInteger(section?.end) || section.start < 0 || section.end <= section.start)
+    )) {
+      return res.status(400).json({
+        error: 'Sections must be a list of { start, end } character ranges of the extracted text'
+      });
+    }
+
+    if (topics !== undefined && (
+      !Array.isArray(topics) ||
+      topics.length === 0 ||
+      topics.some((entry: any) => typeof entry?.topic !== 'string' || !entry.topic.trim() || entry.topic.length > 100 || !Number.isInteger(entry.count) || entry.count < 1) ||
+      topics.reduce((sum: number, entry: DocumentTopicCount) => sum + entry.count, 0) !== count
+    )) {
+      return res.status(400).json({
+        error: 'Topics must be a list of { topic, count } entries whose counts add up to the question count'
+      });
+    }
+
+    const document = await documentStore.get(fileId);
+    if (!document) {
+      return res.status(404).json({
+        error: 'Document not found',
+        details: 'It may have expired; upload it again'
+      });
+    }
+
+    if (document.ownerId !== ownerId) {
+      return res.status(403).json({
+        error: 'Only the host who uploaded a document can generate questions from it'
+      });
+    }
+
     console.log(`🤖 Generating ${count} ${difficulty} questions from document ${fileId}`);
 
     // Generate questions using the document question service
     const result = await documentQuestionService.generateQuestionsFromDocument(
-      extractedText,
+      document.text,
       {
         difficulty: difficulty as DifficultyLevel,
-        count: count
+        count: count,
+        questionTypes,
+        verifyAnswers,
+        sections,
+        structure: document.analysis.structure,
+        files: document.analysis.files,
+        topics
       }
     );
 
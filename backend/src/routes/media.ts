@@ -0,0 +1,85 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { mediaStorage, MEDIA_TYPES } from '../services/mediaStorage';
+import { MediaUploadResponse } from '../types/types';
+
+// Extend Request type to include file property from multer
+interface MulterRequest extends Request {
+  file?: Express.Multer.File;
+}
+
+const router = Router();
+
+const MAX_MEDIA_SIZE = 10 * 1024 * 1024; // 10MB
+
+// Configure multer for media uploads
+const upload = multer({
+  storage: multer.memoryStorage(), // Buffered in memory, then handed to the media storage
+  limits: {
+    fileSize: MAX_MEDIA_SIZE
+  },
+  fileFilter: (req, file, cb) => {
+    if (MEDIA_TYPES[file.mimetype]) {
+      cb(null, true);
+    } else {
+      cb(new Error('Unsupported file type. Please upload PNG, JPEG, GIF or WebP images, or MP3, OGG, WAV, WebM or M4A audio.'));
+    }
+  }
+});
+
+/**
+ * Read the uploaded file, answering rejected files (too large, unsupported type) with a client error
+ */
+const receiveMedia = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('media')(req, res, (error: unknown) => {
+    if (!error) return next();
+
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({
+        error: `File too large. Media must be ${MAX_MEDIA_SIZE / (1024 * 1024)}MB or less.`
+      });
+    }
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Invalid upload'
+    });
+  });
+};
+
+/**
+ * POST /api/media/upload
+ * Upload an image or audio clip for a question
+ */
+router.post('/upload', receiveMedia, async (req: MulterRequest, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'No file uploaded'
+      });
+    }
+
+    console.log(`🖼️ Media upload request: ${req.file.originalname} (${req.file.mimetype}, ${req.file.size} bytes)`);
+
+    const stored = await mediaStorage.save(req.file.buffer, req.file.mimetype);
+
+    console.log(`✅ Media stored: ${stored.url}`);
+
+    res.json({
+      success: true,
+      media: {
+        type: stored.type,
+        url: stored.url,
+        mimeType: stored.mimeType,
+        size: stored.size
+      }
+    } as MediaUploadResponse);
+
+  } catch (error: any) {
+    console.error('❌ Media upload failed:', error);
+    res.status(500).json({
+      error: 'Media upload failed',
+      details: error.message
+    });
+  }
+});
+
+export default router;
@@ -1,13 +1,19 @@
 import { Router, Request, Response } from 'express';
 import { TopicQuestionService, TopicQuestionGenerationParams } from '../services/topicQuestionService';
-import { DifficultyLevel, ErrorResponse } from '../types/types';
+import { DocumentQuestionService } from '../services/documentQuestionService';
+import { documentStore } from '../services/documentStore';
+import { DifficultyLevel, ErrorResponse, QuestionType, RegenerateQuestionRequest, RegenerateQuestionResponse } from '../types/types';
+import { ANSWER_VERIFICATION_MODES, MAX_QUIZ_QUESTIONS, QUESTION_TYPES } from '../../../shared/questions';
 
 const router = Router();
 const topicQuestionService = new TopicQuestionService();
+const documentQuestionService = new DocumentQuestionService();
 
 /**
  * Validate question generation request
  */
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/;
+
 const validateQuestionRequest = (body: any): { valid: boolean; errors: string[] } => {
   const errors: string[] = [];
 
@@ -29,12 +35,92 @@ const validateQuestionRequest = (body: any): { valid: boolean; errors: string[]
     errors.push('Count must be between 1 and 35');
   }
 
+  if (body.questionTypes !== undefined && (
+    !Array.isArray(body.questionTypes) ||
+    body.questionTypes.length === 0 ||
+    body.questionTypes.some((type: any) => !QUESTION_TYPES.includes(type))
+  )) {
+    errors.push(`Question types must be a non-empty list of: ${QUESTION_TYPES.join(', ')}`);
+  }
+
+  if (body.verifyAnswers !== undefined && !ANSWER_VERIFICATION_MODES.includes(body.verifyAnswers)) {
+    errors.push(`Answer verification must be one of: ${ANSWER_VERIFICATION_MODES.join(', ')}`);
+  }
+
+  if (body.language !== undefined && (typeof body.language !== 'string' || !LANGUAGE_CODE.test(body.language))) {
+    errors.push('Language must be a language code such as "en" or "pt-BR"');
+  }
+
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Validate single-question regeneration request (sections and topics as for /api/documents/generate-questions)
+ */
+const validateRegenerateRequest = (body: any): { valid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!body.topic || typeof body.topic !== 'string' || body.topic.trim().length === 0) {
+    errors.push('Topic is required and must be a non-empty string');
+  }
+  if (body.topic && body.topic.trim().length > 100) {
+    errors.push('Topic must be 100 characters or less');
+  }
+
+  if (!body.difficulty || !['easy', 'medium', 'hard'].includes(body.difficulty)) {
+    errors.push('Difficulty must be one of: easy, medium, hard');
+  }
+
+  if (body.questionType !== undefined && !QUESTION_TYPES.includes(body.questionType)) {
+    errors.push(`Question type must be one of: ${QUESTION_TYPES.join(', ')}`);
+  }
+
+  if (body.excludeQuestions !== undefined && (
+    !Array.isArray(body.excludeQuestions) ||
+    body.excludeQuestions.length > MAX_QUIZ_QUESTIONS ||
+    body.excludeQuestions.some((text: any) => typeof text !== 'string')
+  )) {
+    errors.push(`Excluded questions must be a list of up to ${MAX_QUIZ_QUESTIONS} question texts`);
+  }
+
+  if (body.fileId !== undefined && (typeof body.fileId !== 'string' || body.fileId.trim().length === 0)) {
+    errors.push('File ID must be a non-empty string');
+  }
+
+  if (body.verifyAnswers !== undefined && !ANSWER_VERIFICATION_MODES.includes(body.verifyAnswers)) {
+    errors.push(`Answer verification must be one of: ${ANSWER_VERIFICATION_MODES.join(', ')}`);
+  }
+
+  if (body.sections !== undefined && (
+    !Array.isArray(body.sections) ||
+    body.sections.some((section: any) => !Number.isInteger(section?.start) || !Number.isInteger(section?.end) || section.start < 0 || section.end <= section.start)
+  )) {
+    errors.push('Sections must be a list of { start, end } character ranges of the extracted text');
+  }
+
+  if (body.topics !== undefined && (
+    !Array.isArray(body.topics) ||
+    body.topics.length !== 1 ||
+    typeof body.topics[0]?.topic !== 'string' || !body.topics[0].topic.trim() || body.topics[0].topic.length > 100 ||
+    body.topics[0].count !== 1
+  )) {
+    errors.push('Topics must be a single { topic, count: 1 } entry');
+  }
+
+  if ((body.sections !== undefined || body.topics !== undefined) && body.fileId === undefined) {
+    errors.push('Sections and topics can only be used with a fileId');
+  }
+
+  if (body.language !== undefined && (typeof body.language !== 'string' || !LANGUAGE_CODE.test(body.language))) {
+    errors.push('Language must be a language code such as "en" or "pt-BR"');
+  }
+
   return { valid: errors.length === 0, errors };
 };
 
 /**
  * POST /api/questions/generate
- * Generate quiz questions using AI or fallback samples
+ * Generate quiz questions using AI or fallback samples, reusing cached questions for the topic
  */
 router.post('/generate', async (req: Request, res: Response) => {
   try {
@@ -52,7 +138,10 @@ router.post('/generate', async (req: Request, res: Response) => {
     const params: TopicQuestionGenerationParams = {
       topic: req.body.topic.trim(),
       difficulty: req.body.difficulty as DifficultyLevel,
-      count: req.body.count
+      count: req.body.count,
+      questionTypes: req.body.questionTypes,
+      verifyAnswers: req.body.verifyAnswers,
+      language: req.body.language
     };
 
     // Generate questions using the topic question service
@@ -71,4 +160,65 @@ router.post('/generate', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/questions/regenerate
+ * Generate one replacement question for the host's editor, from the topic or an uploaded document
+ */
+router.post('/regenerate', async (req: Request, res: Response) => {
+  try {
+    const validation = validateRegenerateRequest(req.body);
+    if (!validation.valid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      } as ErrorResponse);
+    }
+
+    const { topic, difficulty, questionType, excludeQuestions, fileId, ownerId, sections, topics, language, verifyAnswers }: RegenerateQuestionRequest = req.body;
+    const questionTypes: QuestionType[] = [questionType ?? 'single'];
+
+    const document = fileId ? await documentStore.get(fileId) : null;
+    if (fileId && !document) {
+      return res.status(404).json({
+        error: 'Document not found',
+        details: 'It may have expired; upload it again'
+      } as ErrorResponse);
+    }
+
+    if (document && document.ownerId !== ownerId) {
+      return res.status(403).json({
+        error: 'Only the host who uploaded a document can generate questions from it'
+      } as ErrorResponse);
+    }
+
+    console.log(`🔁 Regenerating a ${questionTypes[0]} question (${document ? `document ${fileId}` : `topic "${topic}"`})`);
+
+    const result = document
+      ? await documentQuestionService.generateQuestionsFromDocument(document.text, { difficulty, count: 1, questionTypes, excludeQuestions, verifyAnswers, sections, topics, structure: document.analysis.structure, files: document.analysis.files })
+      : await topicQuestionService.generateQuestionsFromTopic({ topic: topic.trim(), difficulty, count: 1, questionTypes, excludeQuestions, verifyAnswers, language });
+
+    // Document generation has no sample fallback, and the samples may all be in use already
+    if (result.questions.length === 0) {
+      return res.status(502).json({
+        error: 'Failed to regenerate question',
+        details: result.fallbackReason
+      } as ErrorResponse);
+    }
+
+    const response: RegenerateQuestionResponse = {
+      question: result.questions[0],
+      aiGenerated: result.aiGenerated,
+      ...(result.fallbackReason ? { fallbackReason: result.fallbackReason } : {})
+    };
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Error in question regeneration endpoint:', error);
+    res.status(500).json({
+      error: 'Failed to regenerate question',
+      details: error.message
+    } as ErrorResponse);
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,263 @@
+import { Router, Request, Response } from 'express';
+import { quizLibraryService, QuizLibraryError } from '../services/quizLibraryService';
+import { validateQuestionSet } from '../../../shared/questions';
+import { DeleteQuizRequest, DifficultyLevel, ErrorResponse, QuizListResponse, SaveQuizRequest, UpdateQuizRequest } from '../types/types';
+
+const router = Router();
+
+const MAX_TAGS = 10;
+
+/**
+ * Check the id of the host saving, changing or deleting a quiz
+ */
+const validateOwnerId = (ownerId: any, errors: string[]): void => {
+  if (typeof ownerId !== 'string' || ownerId.trim().length === 0) {
+    errors.push('ownerId is required');
+  }
+};
+
+/**
+ * Validate the quiz fields present in a request; required fields are checked by the callers
+ */
+const validateQuizFields = (body: any, errors: string[]): void => {
+  if (body.title !== undefined && (typeof body.title !== 'string' || body.title.trim().length === 0 || body.title.trim().length > 100)) {
+    errors.push('Title must be a non-empty string of 100 characters or less');
+  }
+
+  if (body.description !== undefined && (typeof body.description !== 'string' || body.description.length > 500)) {
+    errors.push('Description must be a string of 500 characters or less');
+  }
+
+  if (body.tags !== undefined && (
+    !Array.isArray(body.tags) ||
+    body.tags.length > MAX_TAGS ||
+    body.tags.some((tag: any) => typeof tag !== 'string' || tag.trim().length === 0 || tag.length > 30)
+  )) {
+    errors.push(`Tags must be a list of up to ${MAX_TAGS} non-empty strings of 30 characters or less`);
+  }
+
+  if (body.language !== undefined && (typeof body.language !== 'string' || !/^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(body.language))) {
+    errors.push('Language must be a language code such as "en" or "pt-BR"');
+  }
+
+  if (body.difficulty !== undefined && !['easy', 'medium', 'hard'].includes(body.difficulty)) {
+    errors.push('Difficulty must be one of: easy, medium, hard');
+  }
+
+  // Same rules as room creation, so every saved quiz can be played
+  if (body.questions !== undefined) {
+    errors.push(...validateQuestionSet(body.questions));
+  }
+};
+
+/**
+ * Validate quiz creation request
+ */
+const validateSaveQuizRequest = (body: any): { valid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  validateOwnerId(body.ownerId, errors);
+
+  if (body.title === undefined) {
+    errors.push('Title is required');
+  }
+
+  if (body.roomId !== undefined) {
+    if (typeof body.roomId !== 'string' || typeof body.hostId !== 'string') {
+      errors.push('roomId and hostId must be strings');
+    }
+    if (body.questions !== undefined) {
+      errors.push('Provide either questions or roomId, not both');
+    }
+  } else if (body.questions === undefined) {
+    errors.push('Either questions or roomId is required');
+  }
+
+  validateQuizFields(body, errors);
+
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Validate quiz update request
+ */
+const validateUpdateQuizRequest = (body: any): { valid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  validateOwnerId(body.ownerId, errors);
+  validateQuizFields(body, errors);
+
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Send a library error with the matching status
+ */
+const sendQuizLibraryError = (res: Response, error: QuizLibraryError) => {
+  const status = error.code === 'QUIZ_NOT_FOUND' || error.code === 'ROOM_NOT_FOUND' ? 404
+    : error.code === 'INSUFFICIENT_PERMISSIONS' ? 403
+    : 400;
+  res.status(status).json({
+    error: error.message,
+    code: error.code
+  } as ErrorResponse);
+};
+
+/**
+ * GET /api/quizzes
+ * List saved quizzes (optional filters: tag, language, difficulty, search)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { tag, language, difficulty, search } = req.query;
+
+    if (difficulty !== undefined && !['easy', 'medium', 'hard'].includes(difficulty as string)) {
+      return res.status(400).json({
+        error: 'Difficulty must be one of: easy, medium, hard'
+      } as ErrorResponse);
+    }
+
+    const quizzes = await quizLibraryService.listQuizzes({
+      tag: typeof tag === 'string' ? tag : undefined,
+      language: typeof language === 'string' ? language : undefined,
+      difficulty: difficulty as DifficultyLevel | undefined,
+      search: typeof search === 'string' ? search : undefined
+    });
+
+    const response: QuizListResponse = { quizzes };
+    res.json(response);
+
+  } catch (error: any) {
+    if (error instanceof QuizLibraryError) {
+      return sendQuizLibraryError(res, error);
+    }
+    console.error('❌ Error listing quizzes:', error);
+    res.status(500).json({
+      error: 'Failed to list quizzes',
+      details: error.message
+    } as ErrorResponse);
+  }
+});
+
+/**
+ * GET /api/quizzes/:quizId
+ * Get a saved quiz with its questions
+ */
+router.get('/:quizId', async (req: Request, res: Response) => {
+  try {
+    const quiz = await quizLibraryService.getQuiz(req.params.quizId);
+    if (!quiz) {
+      return res.status(404).json({
+        error: 'Quiz not found',
+        code: 'QUIZ_NOT_FOUND'
+      } as ErrorResponse);
+    }
+
+    res.json(quiz);
+
+  } catch (error: any) {
+    if (error instanceof QuizLibraryError) {
+      return sendQuizLibraryError(res, error);
+    }
+    console.error('❌ Error getting quiz:', error);
+    res.status(500).json({
+      error: 'Failed to get quiz',
+      details: error.message
+    } as ErrorResponse);
+  }
+});
+
+/**
+ * POST /api/quizzes
+ * Save a quiz from questions, or from a room's questions (room host only)
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const validation = validateSaveQuizRequest(req.body);
+    if (!validation.valid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      } as ErrorResponse);
+    }
+
+    const quiz = await quizLibraryService.createQuiz(req.body as SaveQuizRequest);
+
+    res.status(201).json(quiz);
+
+  } catch (error: any) {
+    if (error instanceof QuizLibraryError) {
+      return sendQuizLibraryError(res, error);
+    }
+    console.error('❌ Error saving quiz:', error);
+    res.status(500).json({
+      error: 'Failed to save quiz',
+      details: error.message
+    } as ErrorResponse);
+  }
+});
+
+/**
+ * PUT /api/quizzes/:quizId
+ * Update a saved quiz's details or questions (the host who saved it only)
+ */
+router.put('/:quizId', async (req: Request, res: Response) => {
+  try {
+    const validation = validateUpdateQuizRequest(req.body);
+    if (!validation.valid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      } as ErrorResponse);
+    }
+
+    const { ownerId, title, description, tags, language, difficulty, questions }: UpdateQuizRequest = req.body;
+    const quiz = await quizLibraryService.updateQuiz(req.params.quizId, ownerId, { title, description, tags, language, difficulty, questions });
+
+    res.json(quiz);
+
+  } catch (error: any) {
+    if (error instanceof QuizLibraryError) {
+      return sendQuizLibraryError(res, error);
+    }
+    console.error('❌ Error updating quiz:', error);
+    res.status(500).json({
+      error: 'Failed to update quiz',
+      details: error.message
+    } as ErrorResponse);
+  }
+});
+
+/**
+ * DELETE /api/quizzes/:quizId
+ * Delete a saved quiz (the host who saved it only)
+ */
+router.delete('/:quizId', async (req: Request, res: Response) => {
+  try {
+    const { ownerId }: DeleteQuizRequest = req.body ?? {};
+    const errors: string[] = [];
+    validateOwnerId(ownerId, errors);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors
+      } as ErrorResponse);
+    }
+
+    await quizLibraryService.deleteQuiz(req.params.quizId, ownerId);
+
+    res.json({ success: true });
+
+  } catch (error: any) {
+    if (error instanceof QuizLibraryError) {
+      return sendQuizLibraryError(res, error);
+    }
+    console.error('❌ Error deleting quiz:', error);
+    res.status(500).json({
+      error: 'Failed to delete quiz',
+      details: error.message
+    } as ErrorResponse);
+  }
+});
+
+export default router;
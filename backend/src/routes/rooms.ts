@@ -1,25 +1,17 @@
+import { randomBytes } from 'crypto';
 import { Router, Request, Response } from 'express';
-import { db, dbHelpers } from '../config/firebase';
-import { TopicQuestionService, TopicQuestionGenerationParams } from '../services/topicQuestionService';
-import { Room, Player, Question, DifficultyLevel, CreateRoomRequest, CreateRoomResponse, JoinRoomRequest, JoinRoomResponse, StartGameRequest, StartGameResponse, ErrorResponse } from '../types/types';
+import { TopicQuestionService, TopicQuestionGenerationParams, TopicQuestionGenerationResponse } from '../services/topicQuestionService';
+import { gameEngine, GameEngineError } from '../services/gameEngine';
+import { roomRepository, isValidPlayerToken } from '../services/roomRepository';
+import { getSampleQuestions } from '../config/sampleQuestions';
+import { QuestionListener } from '../services/structuredQuestionGenerator';
+import { SCORING_STRATEGIES, DEFAULT_SCORING_STRATEGY, COMBO_LIMITS } from '../../../shared/scoring';
+import { ANSWER_VERIFICATION_MODES, MAX_QUIZ_QUESTIONS, QUESTION_TYPES, getMinQuestionsToStart, validateQuestionSet } from '../../../shared/questions';
+import { Room, Player, Question, QuestionType, DifficultyLevel, AnswerVerificationMode, CreateRoomRequest, CreateRoomResponse, JoinRoomRequest, JoinRoomResponse, StartGameRequest, StartGameResponse, SubmitAnswerRequest, SubmitAnswerResponse, GameIntentRequest, GameIntentResponse, ErrorResponse } from '../types/types';
 
 const router = Router();
 const topicQuestionService = new TopicQuestionService();
 
-/**
- * Check if database is available
- */
-const checkDatabaseAvailable = (res: Response): boolean => {
-  if (!db) {
-    res.status(503).json({
-      error: 'Database not available',
-      details: 'Firebase not configured in development mode'
-    } as ErrorResponse);
-    return false;
-  }
-  return true;
-};
-
 /**
  * Generate a random 6-digit room code
  */
@@ -34,6 +26,13 @@ const generatePlayerId = (): string => {
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 };
 
+/**
+ * Generate the secret a player proves their identity with when answering
+ */
+const generatePlayerToken = (): string => {
+  return randomBytes(24).toString('hex');
+};
+
 /**
  * Validate room creation request
  */
@@ -61,29 +60,47 @@ const validateCreateRoomRequest = (body: any): { valid: boolean; errors: string[
   if (!body.questionCount || typeof body.questionCount !== 'number') {
     errors.push('Question count must be a number');
   }
-  if (body.questionCount && (body.questionCount < 1 || body.questionCount > 35)) {
-    errors.push('Question count must be between 1 and 35');
+  if (body.questionCount && (body.questionCount < 1 || body.questionCount > MAX_QUIZ_QUESTIONS)) {
+    errors.push(`Question count must be between 1 and ${MAX_QUIZ_QUESTIONS}`);
+  }
+
+  if (body.questionTypes !== undefined && (
+    !Array.isArray(body.questionTypes) ||
+    body.questionTypes.length === 0 ||
+    body.questionTypes.some((type: any) => !QUESTION_TYPES.includes(type))
+  )) {
+    errors.push(`Question types must be a non-empty list of: ${QUESTION_TYPES.join(', ')}`);
+  }
+
+  if (body.scoringStrategy !== undefined && !SCORING_STRATEGIES.includes(body.scoringStrategy)) {
+    errors.push(`Scoring strategy must be one of: ${SCORING_STRATEGIES.join(', ')}`);
+  }
+
+  if (body.combo !== undefined) {
+    const { step, max } = body.combo || {};
+    if (typeof step !== 'number' || step <= 0 || step > COMBO_LIMITS.maxStep) {
+      errors.push(`Combo step must be a number greater than 0 and at most ${COMBO_LIMITS.maxStep}`);
+    }
+    if (typeof max !== 'number' || max < 1 || max > COMBO_LIMITS.maxMultiplier) {
+      errors.push(`Combo max multiplier must be a number between 1 and ${COMBO_LIMITS.maxMultiplier}`);
+    }
+  }
+
+  if (body.verifyAnswers !== undefined && !ANSWER_VERIFICATION_MODES.includes(body.verifyAnswers)) {
+    errors.push(`Answer verification must be one of: ${ANSWER_VERIFICATION_MODES.join(', ')}`);
+  }
+
+  if (body.language !== undefined && (typeof body.language !== 'string' || !/^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(body.language))) {
+    errors.push('Language must be a language code such as "en" or "pt-BR"');
   }
 
   // Validate pre-generated questions if provided
   if (body.questions) {
-    if (!Array.isArray(body.questions)) {
-      errors.push('Questions must be an array');
-    } else {
-      if (body.questions.length !== body.questionCount) {
-        errors.push(`Expected ${body.questionCount} questions, but received ${body.questions.length}`);
-      }
-      
-      for (let i = 0; i < body.questions.length; i++) {
-        const question = body.questions[i];
-        if (!question.text || !Array.isArray(question.options) || question.options.length !== 4 || !question.correctOption) {
-          errors.push(`Question ${i + 1} is invalid: must have text, exactly 4 options, and correctOption`);
-        }
-        if (!question.options.includes(question.correctOption)) {
-          errors.push(`Question ${i + 1}: correctOption must match one of the provided options`);
-        }
-      }
+    if (Array.isArray(body.questions) && body.questions.length !== body.questionCount) {
+      errors.push(`Expected ${body.questionCount} questions, but received ${body.questions.length}`);
     }
+
+    errors.push(...validateQuestionSet(body.questions));
   }
 
   return { valid: errors.length === 0, errors };
@@ -112,145 +129,31 @@ const validateJoinRoomRequest = (body: any): { valid: boolean; errors: string[]
   return { valid: errors.length === 0, errors };
 };
 
-/**
- * Generate questions using AI or fallback to samples (imported from questions route)
- */
-const getSampleQuestions = (difficulty: DifficultyLevel): Question[] => {
-  const questions = {
-    easy: [
-      {
-        text: "What is the capital of France?",
-        options: ["London", "Berlin", "Paris", "Madrid"],
-        correctOption: "Paris",
-        timeLimit: 15,
-        difficulty: "easy" as DifficultyLevel
-      },
-      {
-        text: "Which planet is closest to the Sun?",
-        options: ["Venus", "Mercury", "Earth", "Mars"],
-        correctOption: "Mercury",
-        timeLimit: 12,
-        difficulty: "easy" as DifficultyLevel
-      },
-      {
-        text: "What color do you get when you mix red and white?",
-        options: ["Purple", "Orange", "Pink", "Yellow"],
-        correctOption: "Pink",
-        timeLimit: 10,
-        difficulty: "easy" as DifficultyLevel
-      },
-      {
-        text: "How many sides does a triangle have?",
-        options: ["2", "3", "4", "5"],
-        correctOption: "3",
-        timeLimit: 8,
-        difficulty: "easy" as DifficultyLevel
-      },
-      {
-        text: "Which animal is known as the 'King of the Jungle'?",
-        options: ["Tiger", "Elephant", "Lion", "Bear"],
-        correctOption: "Lion",
-        timeLimit: 12,
-        difficulty: "easy" as DifficultyLevel
-      }
-    ],
-    medium: [
-      {
-        text: "What is the chemical symbol for gold?",
-        options: ["Go", "Gd", "Au", "Ag"],
-        correctOption: "Au",
-        timeLimit: 20,
-        difficulty: "medium" as DifficultyLevel
-      },
-      {
-        text: "In which year did World War II end?",
-        options: ["1944", "1945", "1946", "1947"],
-        correctOption: "1945",
-        timeLimit: 25,
-        difficulty: "medium" as DifficultyLevel
-      },
-      {
-        text: "What is the largest mammal in the world?",
-        options: ["African Elephant", "Blue Whale", "Giraffe", "Hippopotamus"],
-        correctOption: "Blue Whale",
-        timeLimit: 18,
-        difficulty: "medium" as DifficultyLevel
-      },
-      {
-        text: "Which programming language is known for its use in data science?",
-        options: ["JavaScript", "Python", "C++", "PHP"],
-        correctOption: "Python",
-        timeLimit: 22,
-        difficulty: "medium" as DifficultyLevel
-      },
-      {
-        text: "What is the square root of 144?",
-        options: ["10", "11", "12", "13"],
-        correctOption: "12",
-        timeLimit: 15,
-        difficulty: "medium" as DifficultyLevel
-      }
-    ],
-    hard: [
-      {
-        text: "What is the time complexity of binary search?",
-        options: ["O(n)", "O(log n)", "O(n log n)", "O(n²)"],
-        correctOption: "O(log n)",
-        timeLimit: 35,
-        difficulty: "hard" as DifficultyLevel
-      },
-      {
-        text: "Which of the following is NOT a principle of object-oriented programming?",
-        options: ["Encapsulation", "Inheritance", "Polymorphism", "Compilation"],
-        correctOption: "Compilation",
-        timeLimit: 30,
-        difficulty: "hard" as DifficultyLevel
-      },
-      {
-        text: "In quantum mechanics, what does Schrödinger's equation describe?",
-        options: ["Wave function evolution", "Particle position", "Energy levels", "Spin states"],
-        correctOption: "Wave function evolution",
-        timeLimit: 40,
-        difficulty: "hard" as DifficultyLevel
-      },
-      {
-        text: "What is the primary cause of ocean acidification?",
-        options: ["Industrial pollution", "CO2 absorption", "Temperature rise", "Overfishing"],
-        correctOption: "CO2 absorption",
-        timeLimit: 35,
-        difficulty: "hard" as DifficultyLevel
-      },
-      {
-        text: "Which algorithm is commonly used for finding shortest paths in graphs?",
-        options: ["Bubble Sort", "Dijkstra's Algorithm", "Quick Sort", "Binary Search"],
-        correctOption: "Dijkstra's Algorithm",
-        timeLimit: 30,
-        difficulty: "hard" as DifficultyLevel
-      }
-    ]
-  };
-
-  return questions[difficulty] || questions.easy;
-};
-
 /**
  * Generate questions for a room using topic-based service
  */
 const generateQuestionsForRoom = async (
   topic: string,
   difficulty: DifficultyLevel,
-  count: number
-): Promise<Question[]> => {
+  count: number,
+  questionTypes?: QuestionType[],
+  verifyAnswers?: AnswerVerificationMode,
+  language?: string,
+  onQuestion?: QuestionListener
+): Promise<TopicQuestionGenerationResponse> => {
   try {
     console.log(`🧠 Generating ${count} ${difficulty} questions about "${topic}" for room...`);
 
     const params: TopicQuestionGenerationParams = {
       topic,
       difficulty,
-      count
+      count,
+      questionTypes,
+      verifyAnswers,
+      language
     };
 
-    const result = await topicQuestionService.generateQuestionsFromTopic(params);
+    const result = await topicQuestionService.generateQuestionsFromTopic(params, onQuestion);
 
     if (result.questions.length === 0) {
       throw new Error('No questions generated');
@@ -258,7 +161,7 @@ const generateQuestionsForRoom = async (
 
     console.log(`✅ Generated ${result.questions.length} questions for room (AI: ${result.aiGenerated})`);
 
-    return result.questions;
+    return result;
 
   } catch (error: any) {
     console.error('❌ Question generation failed:', error);
@@ -274,11 +177,6 @@ router.post('/', async (req: Request, res: Response) => {
   try {
     console.log('🆕 Creating new room:', req.body);
 
-    // Check database availability first
-    if (!checkDatabaseAvailable(res)) {
-      return;
-    }
-
     // Validate request
     const validation = validateCreateRoomRequest(req.body);
     if (!validation.valid) {
@@ -288,7 +186,7 @@ router.post('/', async (req: Request, res: Response) => {
       } as ErrorResponse);
     }
 
-    const { nickname, topic, difficulty, questionCount, questions }: CreateRoomRequest = req.body;
+    const { nickname, topic, difficulty, questionCount, questions, questionTypes, scoringStrategy, combo, verifyAnswers, language }: CreateRoomRequest = req.body;
 
     // Generate unique room code
     let roomCode: string;
@@ -298,7 +196,7 @@ router.post('/', async (req: Request, res: Response) => {
 
     do {
       roomCode = generateRoomCode();
-      const existingRoom = await dbHelpers.getRoomByCode(roomCode);
+      const existingRoom = await roomRepository.getRoomByCode(roomCode);
       roomExists = existingRoom !== null;
       attempts++;
     } while (roomExists && attempts < maxAttempts);
@@ -311,7 +209,7 @@ router.post('/', async (req: Request, res: Response) => {
     }
 
     // Generate room and player IDs
-    const roomId = db!.ref('rooms').push().key!;
+    const roomId = roomRepository.generateRoomId();
     const playerId = generatePlayerId();
 
     // Create host player
@@ -344,11 +242,16 @@ router.post('/', async (req: Request, res: Response) => {
       questions: hasPreGeneratedQuestions ? questions : [], // Use pre-generated questions or empty initially
       totalQuestions: questionCount,
       isGameComplete: false,
-      questionsGenerating: !hasPreGeneratedQuestions // Only generating if no pre-generated questions
+      questionsGenerating: !hasPreGeneratedQuestions, // Only generating if no pre-generated questions
+      scoringStrategy: scoringStrategy || DEFAULT_SCORING_STRATEGY,
+      ...(combo ? { combo: { step: combo.step, max: combo.max } } : {}),
+      ...(verifyAnswers && !hasPreGeneratedQuestions ? { verifyAnswers } : {})
     };
 
-    // Save room to Firebase immediately
-    await db!.ref(`rooms/${roomId}`).set(roomData);
+    // Save room immediately
+    await roomRepository.createRoom(roomData);
+    const playerToken = generatePlayerToken();
+    await roomRepository.setPlayerToken(roomId, playerId, playerToken);
 
     if (hasPreGeneratedQuestions) {
       console.log(`✅ Room ${roomCode} created successfully with ID: ${roomId} (using ${questions.length} pre-generated questions)`);
@@ -357,6 +260,7 @@ router.post('/', async (req: Request, res: Response) => {
       const response: CreateRoomResponse = {
         roomId,
         playerId,
+        playerToken,
         aiGenerated: true, // Pre-generated questions are considered AI-generated
         fallbackReason: undefined
       };
@@ -369,6 +273,7 @@ router.post('/', async (req: Request, res: Response) => {
       const response: CreateRoomResponse = {
         roomId,
         playerId,
+        playerToken,
         aiGenerated: false, // Will be updated when questions are generated
         fallbackReason: undefined
       };
@@ -376,7 +281,7 @@ router.post('/', async (req: Request, res: Response) => {
       res.status(201).json(response);
 
       // Generate questions asynchronously (don't await)
-      generateQuestionsForRoomAsync(roomId, topic.trim(), difficulty as DifficultyLevel, questionCount);
+      generateQuestionsForRoomAsync(roomId, topic.trim(), difficulty as DifficultyLevel, questionCount, questionTypes, verifyAnswers, language);
     }
 
   } catch (error: any) {
@@ -389,53 +294,93 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 /**
- * Generate questions asynchronously and update the room
+ * Tell the room's sockets how many questions are ready
+ */
+const reportQuestionsProgress = (roomId: string, generated: number, target: number, done: boolean): void => {
+  gameEngine.broadcast(roomId, 'questions-progress', { generated, target, done });
+};
+
+/**
+ * Whether background generation should still write to the room (the host may have started early)
  */
-const generateQuestionsForRoomAsync = async (roomId: string, topic: string, difficulty: DifficultyLevel, count: number): Promise<void> => {
+const isStillGenerating = (room: Room | null): room is Room => {
+  return !!room && room.status === 'waiting' && !!room.questionsGenerating;
+};
+
+/**
+ * Generate questions asynchronously and update the room. Questions are appended to the room
+ * one by one as the model produces them, so the host can start once enough exist.
+ */
+const generateQuestionsForRoomAsync = async (
+  roomId: string,
+  topic: string,
+  difficulty: DifficultyLevel,
+  count: number,
+  questionTypes?: QuestionType[],
+  verifyAnswers?: AnswerVerificationMode,
+  language?: string
+): Promise<void> => {
+  const streamed: Question[] = [];
+
+  // Append each validated question; stop generating once the room no longer wants them.
+  // The write is conditional, so a host starting early in between keeps the questions they started with.
+  const appendQuestion = async (question: Question): Promise<boolean> => {
+    const appended = await roomRepository.updateRoomIf(roomId, (room) =>
+      isStillGenerating(room) ? { questions: [...streamed, question] } : null
+    );
+    if (!appended) {
+      console.log(`⏹️ Room ${roomId} started or closed during generation, stopping at ${streamed.length} questions`);
+      return false;
+    }
+
+    streamed.push(question);
+    reportQuestionsProgress(roomId, streamed.length, count, false);
+    return true;
+  };
+
   try {
     console.log(`🧠 Generating questions asynchronously for room ${roomId}: ${count} ${difficulty} questions about "${topic}"`);
     
-    // Request extra questions to account for potential validation losses
-    const requestedCount = count;
-    const bufferCount = Math.ceil(requestedCount * 1.1); // Request 10% more (reduced from 20%)
-    
-    console.log(`🧠 Requesting ${bufferCount} questions from AI (target: ${requestedCount}, buffer: ${bufferCount - requestedCount})`);
-    
-    const questions = await generateQuestionsForRoom(topic, difficulty, bufferCount);
+    // The service re-prompts the model until it has enough valid questions
+    const result = await generateQuestionsForRoom(topic, difficulty, count, questionTypes, verifyAnswers, language, appendQuestion);
 
-    // Update room with generated questions
+    // Update room with generated questions (sample questions fill any gap left by the model)
+    const finalQuestions = result.questions.slice(0, count);
     const updateData: Partial<Room> = {
-      questions: questions.slice(0, requestedCount),
+      questions: finalQuestions,
+      totalQuestions: finalQuestions.length,
       questionsGenerating: false,
-      aiGenerated: true // Assuming AI generation is always true for this service
+      aiGenerated: result.aiGenerated,
+      ...(result.sampleQuestions ? { fallbackReason: result.fallbackReason || 'Not enough valid AI questions, using sample questions for the rest' } : {})
     };
 
-    await db!.ref(`rooms/${roomId}`).update(updateData);
+    // Only while the room is still waiting for them: once the game started, its question list is fixed
+    if (!await roomRepository.updateRoomIf(roomId, (room) => isStillGenerating(room) ? updateData : null)) {
+      return;
+    }
+    reportQuestionsProgress(roomId, finalQuestions.length, count, true);
 
-    console.log(`✅ Questions generated for room ${roomId}: ${questions.length} questions (100% AI)`);
+    console.log(`✅ Questions generated for room ${roomId}: ${finalQuestions.length} questions (${result.sampleQuestions ?? 0} sample)`);
 
   } catch (error: any) {
     console.error(`❌ Error generating questions for room ${roomId}:`, error);
-    
-    // Fallback to sample questions if AI generation fails
-    const sampleQuestions = getSampleQuestions(difficulty);
-    const selectedQuestions = sampleQuestions.slice(0, count);
-    
-    // Pad with repeated questions if needed
-    while (selectedQuestions.length < count) {
-      const remaining = count - selectedQuestions.length;
-      const additionalQuestions = sampleQuestions.slice(0, remaining);
-      selectedQuestions.push(...additionalQuestions);
-    }
+
+    // Fallback to sample questions of the requested types if AI generation fails; each is used once,
+    // so the quiz is shorter when there are not enough of them
+    const selectedQuestions = getSampleQuestions(difficulty, questionTypes).slice(0, count);
 
     const updateData: Partial<Room> = {
-      questions: selectedQuestions.slice(0, count),
+      questions: selectedQuestions,
+      totalQuestions: selectedQuestions.length,
       questionsGenerating: false,
       aiGenerated: false,
       fallbackReason: 'AI generation failed, using sample questions'
     };
 
-    await db!.ref(`rooms/${roomId}`).update(updateData);
+    if (!await roomRepository.updateRoomIf(roomId, (room) => isStillGenerating(room) ? updateData : null)) {
+      return;
+    }
+    reportQuestionsProgress(roomId, selectedQuestions.length, count, true);
     
     console.log(`✅ Fallback questions set for room ${roomId}: ${selectedQuestions.length} sample questions`);
   }
@@ -461,7 +406,7 @@ router.post('/join', async (req: Request, res: Response) => {
     const { roomCode, nickname }: JoinRoomRequest = req.body;
 
     // Find room by code
-    const roomData = await dbHelpers.getRoomByCode(roomCode);
+    const roomData = await roomRepository.getRoomByCode(roomCode);
     if (!roomData) {
       return res.status(404).json({
         error: 'Room not found',
@@ -502,20 +447,25 @@ router.post('/join', async (req: Request, res: Response) => {
     };
 
     // Add player to room
-    if (!checkDatabaseAvailable(res)) {
-      return;
-    }
-    await db!.ref(`rooms/${roomData.id}/players/${playerId}`).set(newPlayer);
+    await roomRepository.addPlayer(roomData.id, newPlayer);
+    const playerToken = generatePlayerToken();
+    await roomRepository.setPlayerToken(roomData.id, playerId, playerToken);
 
     // Get updated room data
-    const updatedRoomSnapshot = await db!.ref(`rooms/${roomData.id}`).once('value');
-    const updatedRoom = updatedRoomSnapshot.val() as Room;
+    const updatedRoom = await roomRepository.getRoom(roomData.id);
+    if (!updatedRoom) {
+      return res.status(404).json({
+        error: 'Room not found',
+        code: 'ROOM_NOT_FOUND'
+      } as ErrorResponse);
+    }
 
     console.log(`✅ Player ${nickname} joined room ${roomCode} (${roomData.id})`);
 
     const response: JoinRoomResponse = {
       roomId: roomData.id,
       playerId,
+      playerToken,
       room: updatedRoom
     };
 
@@ -540,19 +490,14 @@ router.get('/:roomId', async (req: Request, res: Response) => {
 
     console.log(`🔍 Getting room details for: ${roomId}`);
 
-    // Check if room exists
-    if (!checkDatabaseAvailable(res)) {
-      return;
-    }
-    const roomSnapshot = await db!.ref(`rooms/${roomId}`).once('value');
-    if (!roomSnapshot.exists()) {
+    const room = await roomRepository.getRoom(roomId);
+    if (!room) {
       return res.status(404).json({
         error: 'Room not found',
         code: 'ROOM_NOT_FOUND'
       } as ErrorResponse);
     }
 
-    const room = roomSnapshot.val() as Room;
     res.status(200).json(room);
 
   } catch (error: any) {
@@ -575,20 +520,14 @@ router.post('/:roomId/start', async (req: Request, res: Response) => {
 
     console.log(`🎮 Starting game for room: ${roomId}`);
 
-    // Check if room exists
-    if (!checkDatabaseAvailable(res)) {
-      return;
-    }
-    const roomSnapshot = await db!.ref(`rooms/${roomId}`).once('value');
-    if (!roomSnapshot.exists()) {
+    const room = await roomRepository.getRoom(roomId);
+    if (!room) {
       return res.status(404).json({
         error: 'Room not found',
         code: 'ROOM_NOT_FOUND'
       } as ErrorResponse);
     }
 
-    const room = roomSnapshot.val() as Room;
-
     // Verify host permissions
     if (room.hostId !== hostId) {
       return res.status(403).json({
@@ -622,21 +561,29 @@ router.post('/:roomId/start', async (req: Request, res: Response) => {
       } as ErrorResponse);
     }
 
-    // Start the game with pre-generated questions
-    const gameStartTime = Date.now();
-    const firstQuestion = room.questions[0];
-    const questionEndTime = gameStartTime + (firstQuestion.timeLimit * 1000);
-    
-    await db!.ref(`rooms/${roomId}`).update({
-      status: 'active',
-      startedAt: gameStartTime,
-      gameState: {
-        phase: 'answering',
-        questionStartTime: gameStartTime,
-        questionEndTime: questionEndTime,
-        allPlayersAnswered: false
+    // Starting while questions are still generating plays the ones that are ready
+    if (room.questionsGenerating) {
+      const minQuestions = getMinQuestionsToStart(room.questionCount);
+      if (room.questions.length < minQuestions) {
+        return res.status(400).json({
+          error: `At least ${minQuestions} questions are needed to start while questions are generating`,
+          code: 'QUESTIONS_NOT_READY'
+        } as ErrorResponse);
       }
-    });
+
+      // Stop generation against the stored room, so a question appended since it was read is counted
+      const stopped = await roomRepository.updateRoomIf(roomId, (current) => isStillGenerating(current) ? {
+        questionsGenerating: false,
+        totalQuestions: current.questions.length,
+        aiGenerated: true // Only model and cached questions are streamed into the room
+      } : null);
+      if (stopped) {
+        reportQuestionsProgress(roomId, stopped.totalQuestions!, stopped.totalQuestions!, true);
+      }
+    }
+
+    // Hand the room over to the server-side game loop
+    await gameEngine.startGame(roomId);
 
     console.log(`✅ Game started for room ${roomId} with ${playerCount} players and ${room.questions.length} questions`);
 
@@ -647,6 +594,12 @@ router.post('/:roomId/start', async (req: Request, res: Response) => {
     res.status(200).json(response);
 
   } catch (error: any) {
+    if (error instanceof GameEngineError) {
+      return res.status(error.code === 'ROOM_NOT_FOUND' ? 404 : 400).json({
+        error: error.message,
+        code: error.code
+      } as ErrorResponse);
+    }
     console.error('❌ Error starting game:', error);
     res.status(500).json({
       error: 'Failed to start game',
@@ -655,6 +608,131 @@ router.post('/:roomId/start', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/rooms/:roomId/intent
+ * Send a host intent (advance / pause / resume) to the game loop
+ */
+router.post('/:roomId/intent', async (req: Request, res: Response) => {
+  try {
+    const { roomId } = req.params;
+    const { hostId, intent }: GameIntentRequest = req.body;
+
+    if (!hostId || !['advance', 'pause', 'resume'].includes(intent)) {
+      return res.status(400).json({
+        error: 'hostId and a valid intent (advance, pause, resume) are required',
+        code: 'INVALID_INTENT'
+      } as ErrorResponse);
+    }
+
+    const room = await roomRepository.getRoom(roomId);
+    if (!room) {
+      return res.status(404).json({
+        error: 'Room not found',
+        code: 'ROOM_NOT_FOUND'
+      } as ErrorResponse);
+    }
+
+    // Verify host permissions
+    if (room.hostId !== hostId) {
+      return res.status(403).json({
+        error: 'Only the room host can control the game',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      } as ErrorResponse);
+    }
+
+    const gameState = await gameEngine.handleIntent(roomId, intent);
+
+    const response: GameIntentResponse = {
+      success: true,
+      gameState
+    };
+
+    res.status(200).json(response);
+
+  } catch (error: any) {
+    if (error instanceof GameEngineError) {
+      return res.status(error.code === 'ROOM_NOT_FOUND' ? 404 : 400).json({
+        error: error.message,
+        code: error.code
+      } as ErrorResponse);
+    }
+    console.error('❌ Error handling game intent:', error);
+    res.status(500).json({
+      error: 'Failed to update game',
+      details: error.message
+    } as ErrorResponse);
+  }
+});
+
+/**
+ * POST /api/rooms/:roomId/answers
+ * Submit an answer for the current question (scored on the server)
+ */
+router.post('/:roomId/answers', async (req: Request, res: Response) => {
+  try {
+    const { roomId } = req.params;
+    const { playerId, playerToken, questionIndex, response: answerResponse, wager }: SubmitAnswerRequest = req.body;
+
+    if (!playerId || typeof questionIndex !== 'number' || answerResponse === undefined || answerResponse === null) {
+      return res.status(400).json({
+        error: 'playerId, questionIndex and response are required',
+        code: 'MISSING_FIELDS'
+      } as ErrorResponse);
+    }
+
+    if (!(await isValidPlayerToken(roomId, playerId, playerToken))) {
+      return res.status(403).json({
+        error: 'Answers must be sent with the player token issued when joining',
+        code: 'INVALID_PLAYER_TOKEN'
+      } as ErrorResponse);
+    }
+
+    const response: SubmitAnswerResponse = await gameEngine.submitAnswer(roomId, playerId, questionIndex, answerResponse, wager);
+
+    res.status(200).json(response);
+
+  } catch (error: any) {
+    if (error instanceof GameEngineError) {
+      const status = error.code === 'ROOM_NOT_FOUND' || error.code === 'PLAYER_NOT_FOUND' ? 404
+        : error.code === 'ALREADY_ANSWERED' ? 409
+        : 400;
+      return res.status(status).json({
+        error: error.message,
+        code: error.code
+      } as ErrorResponse);
+    }
+    console.error('❌ Error submitting answer:', error);
+    res.status(500).json({
+      error: 'Failed to submit answer',
+      details: error.message
+    } as ErrorResponse);
+  }
+});
+
+/**
+ * DELETE /api/rooms/cleanup
+ * Manually trigger cleanup of expired rooms (registered before /:roomId so it is not taken as a room id)
+ */
+router.delete('/cleanup', async (req: Request, res: Response) => {
+  try {
+    console.log('🧹 Manual room cleanup triggered');
+    
+    await cleanupExpiredRooms();
+    
+    res.status(200).json({
+      success: true,
+      message: 'Room cleanup completed'
+    });
+
+  } catch (error: any) {
+    console.error('❌ Error during manual cleanup:', error);
+    res.status(500).json({
+      error: 'Failed to cleanup rooms',
+      details: error.message
+    } as ErrorResponse);
+  }
+});
+
 /**
  * DELETE /api/rooms/:roomId
  * Delete a room (host only)
@@ -666,20 +744,14 @@ router.delete('/:roomId', async (req: Request, res: Response) => {
 
     console.log(`🗑️ Deleting room: ${roomId}`);
 
-    // Check if room exists
-    if (!checkDatabaseAvailable(res)) {
-      return;
-    }
-    const roomSnapshot = await db!.ref(`rooms/${roomId}`).once('value');
-    if (!roomSnapshot.exists()) {
+    const room = await roomRepository.getRoom(roomId);
+    if (!room) {
       return res.status(404).json({
         error: 'Room not found',
         code: 'ROOM_NOT_FOUND'
       } as ErrorResponse);
     }
 
-    const room = roomSnapshot.val() as Room;
-
     // Verify host permissions
     if (room.hostId !== hostId) {
       return res.status(403).json({
@@ -688,8 +760,9 @@ router.delete('/:roomId', async (req: Request, res: Response) => {
       } as ErrorResponse);
     }
 
-    // Delete room
-    await dbHelpers.deleteRoom(roomId);
+    // Delete room and stop its game loop
+    gameEngine.stopGame(roomId);
+    await roomRepository.deleteRoom(roomId);
 
     console.log(`✅ Room ${roomId} deleted successfully`);
 
@@ -723,22 +796,15 @@ router.post('/:roomId/kick-player', async (req: Request, res: Response) => {
       } as ErrorResponse);
     }
 
-    // Check database availability
-    if (!checkDatabaseAvailable(res)) {
-      return;
-    }
-
     // Get room data
-    const roomSnapshot = await db!.ref(`rooms/${roomId}`).once('value');
-    if (!roomSnapshot.exists()) {
+    const room = await roomRepository.getRoom(roomId);
+    if (!room) {
       return res.status(404).json({
         error: 'Room not found',
         code: 'ROOM_NOT_FOUND'
       } as ErrorResponse);
     }
 
-    const room = roomSnapshot.val() as Room;
-
     // Verify host permissions
     if (room.hostId !== hostId) {
       return res.status(403).json({
@@ -774,7 +840,7 @@ router.post('/:roomId/kick-player', async (req: Request, res: Response) => {
     }
 
     // Remove player from room
-    await db!.ref(`rooms/${roomId}/players/${playerIdToKick}`).remove();
+    await roomRepository.removePlayer(roomId, playerIdToKick);
 
     console.log(`✅ Player ${playerToKick.nickname} (${playerIdToKick}) kicked from room ${roomId} by host ${hostId}`);
 
@@ -800,20 +866,17 @@ router.post('/:roomId/kick-player', async (req: Request, res: Response) => {
 /**
  * Clean up expired rooms that have been waiting too long
  */
-const cleanupExpiredRooms = async (): Promise<void> => {
+export const cleanupExpiredRooms = async (): Promise<void> => {
   try {
-    if (!db) return;
-
     const ROOM_EXPIRY_TIME = 3 * 60 * 60 * 1000; // 3 hours in milliseconds
     const now = Date.now();
     const cutoffTime = now - ROOM_EXPIRY_TIME;
 
     console.log('🧹 Checking for expired rooms...');
 
-    const roomsSnapshot = await db.ref('rooms').once('value');
-    const rooms = roomsSnapshot.val();
+    const rooms = await roomRepository.listRooms({ status: 'waiting' });
 
-    if (!rooms) {
+    if (rooms.length === 0) {
       console.log('📝 No rooms found to check for expiration');
       return;
     }
@@ -821,15 +884,13 @@ const cleanupExpiredRooms = async (): Promise<void> => {
     let deletedCount = 0;
     const deletions: Promise<void>[] = [];
 
-    for (const [roomId, room] of Object.entries(rooms)) {
-      const roomData = room as Room;
-      
+    for (const roomData of rooms) {
       // Delete rooms that are:
       // 1. Still in 'waiting' status (never started)
       // 2. Created more than 30 minutes ago
       if (roomData.status === 'waiting' && roomData.createdAt < cutoffTime) {
         console.log(`🗑️ Deleting expired room: ${roomData.roomCode} (created ${new Date(roomData.createdAt).toLocaleString()})`);
-        deletions.push(db.ref(`rooms/${roomId}`).remove());
+        deletions.push(roomRepository.deleteRoom(roomData.id));
         deletedCount++;
       }
     }
@@ -848,34 +909,4 @@ const cleanupExpiredRooms = async (): Promise<void> => {
   }
 };
 
-/**
- * DELETE /api/rooms/cleanup
- * Manually trigger cleanup of expired rooms
- */
-router.delete('/cleanup', async (req: Request, res: Response) => {
-  try {
-    console.log('🧹 Manual room cleanup triggered');
-    
-    await cleanupExpiredRooms();
-    
-    res.status(200).json({
-      success: true,
-      message: 'Room cleanup completed'
-    });
-
-  } catch (error: any) {
-    console.error('❌ Error during manual cleanup:', error);
-    res.status(500).json({
-      error: 'Failed to cleanup rooms',
-      details: error.message
-    } as ErrorResponse);
-  }
-});
-
-// Run cleanup every 10 minutes
-setInterval(cleanupExpiredRooms, 10 * 60 * 1000);
-
-// Run initial cleanup after 30 seconds
-setTimeout(cleanupExpiredRooms, 30 * 1000);
-
-export default router; 
\ No newline at end of file
+export default router;
@@ -6,13 +6,21 @@ import { Server as SocketServer } from 'socket.io';
 
 // Import our configuration modules
 import env from './config/environment';
-import { db, dbHelpers } from './config/firebase';
-import { isOpenAIAvailable, testOpenAIConnection, getOpenAIInfo } from './config/openai';
+import { roomRepository, isValidPlayerToken } from './services/roomRepository';
+import { getQuestionModelInfo, questionModelProvider } from './services/questionModelProvider';
+import { questionCache } from './services/questionCache';
 
 // Import API routes
-import roomsRouter from './routes/rooms';
+import roomsRouter, { cleanupExpiredRooms } from './routes/rooms';
 import questionsRouter from './routes/questions';
 import documentsRouter from './routes/documents';
+import mediaRouter from './routes/media';
+import quizzesRouter from './routes/quizzes';
+import adminRouter from './routes/admin';
+
+// Import the server-side game loop
+import { gameEngine, GameEngineError } from './services/gameEngine';
+import { AnswerValue, GameIntent } from './types/types';
 
 /**
  * Quiz Cult Backend Server
@@ -92,6 +100,9 @@ const io = new SocketServer(server, {
   }
 });
 
+// Let the game loop broadcast phase changes to rooms
+gameEngine.attach(io);
+
 // Middleware
 app.use(cors({
   origin: function (origin, callback) {
@@ -137,7 +148,7 @@ app.get('/health', (req, res) => {
     port: env.port,
     services: {
       firebase: 'connected',
-      openai: isOpenAIAvailable() ? 'available' : 'unavailable'
+      questionModel: questionModelProvider.name
     }
   });
 });
@@ -145,16 +156,16 @@ app.get('/health', (req, res) => {
 // Detailed status check
 app.get('/status', async (req, res) => {
   try {
-    // Test Firebase connection (only if available)
+    // Test Firebase connection (only if rooms are stored there)
     let firebaseStatus = {
       connected: false,
       databaseUrl: env.firebaseDbUrl,
-      testResult: 'Database not available in development mode'
+      testResult: 'Rooms are kept in memory'
     };
     
-    if (db) {
+    if (roomRepository.kind === 'firebase') {
       try {
-        const firebaseConnected = await dbHelpers.roomExists('test-connection-check');
+        await roomRepository.roomExists('test-connection-check');
         firebaseStatus = {
           connected: true,
           databaseUrl: env.firebaseDbUrl,
@@ -169,18 +180,9 @@ app.get('/status', async (req, res) => {
       }
     }
     
-    // Test OpenAI connection (if available)
-    let openaiStatus: { available: boolean; error?: string } = { available: false, error: 'Not configured' };
-    if (isOpenAIAvailable()) {
-      const openaiTest = await testOpenAIConnection();
-      openaiStatus = {
-        available: openaiTest.success,
-        error: openaiTest.error
-      };
-    }
-
-    const openaiInfo = getOpenAIInfo();
-
+    // Test the question model (the offline provider has nothing to connect to)
+    const modelStatus = await questionModelProvider.testConnection();
+    
     res.json({
       status: 'detailed',
       timestamp: new Date().toISOString(),
@@ -191,12 +193,14 @@ app.get('/status', async (req, res) => {
         debug: env.debug
       },
       services: {
+        roomStore: roomRepository.kind,
         firebase: firebaseStatus,
-        openai: {
-          ...openaiStatus,
-          model: openaiInfo.model,
-          estimatedCostPerQuestion: openaiInfo.estimatedCostPerQuestion
-        }
+        questionModel: {
+          ...getQuestionModelInfo(),
+          available: modelStatus.success,
+          ...(modelStatus.error ? { error: modelStatus.error } : {})
+        },
+        questionCache: questionCache ? questionCache.getStats() : { kind: 'off' }
       }
     });
 
@@ -218,6 +222,12 @@ app.get('/status', async (req, res) => {
 app.use('/api/rooms', roomsRouter);
 app.use('/api/questions', questionsRouter);
 app.use('/api/documents', documentsRouter);
+app.use('/api/media', mediaRouter);
+app.use('/api/quizzes', quizzesRouter);
+app.use('/api/admin', adminRouter);
+
+// Uploaded question media (stored by LocalMediaStorage)
+app.use('/media', express.static(env.mediaDir, { maxAge: '7d', immutable: true }));
 
 // API information endpoint
 app.get('/api', (req, res) => {
@@ -232,11 +242,27 @@ app.get('/api', (req, res) => {
         join: 'POST /api/rooms/join',
         get: 'GET /api/rooms/:roomId',
         start: 'POST /api/rooms/:roomId/start',
+        intent: 'POST /api/rooms/:roomId/intent',
+        answer: 'POST /api/rooms/:roomId/answers',
         delete: 'DELETE /api/rooms/:roomId'
       },
       questions: {
         generate: 'POST /api/questions/generate',
+        regenerate: 'POST /api/questions/regenerate',
         sample: 'GET /api/questions/sample/:difficulty'
+      },
+      media: {
+        upload: 'POST /api/media/upload'
+      },
+      quizzes: {
+        list: 'GET /api/quizzes',
+        get: 'GET /api/quizzes/:quizId',
+        save: 'POST /api/quizzes',
+        update: 'PUT /api/quizzes/:quizId',
+        delete: 'DELETE /api/quizzes/:quizId'
+      },
+      admin: {
+        invalidateQuestionCache: 'DELETE /api/admin/question-cache'
       }
     }
   });
@@ -270,12 +296,9 @@ io.on('connection', (socket) => {
       console.log(`🚪 Player ${nickname} (${playerId}) joining room ${roomId} via socket ${socket.id}`);
 
       // Verify room exists
-      if (db) {
-        const roomSnapshot = await db.ref(`rooms/${roomId}`).once('value');
-        if (!roomSnapshot.exists()) {
-          socket.emit('error', { message: 'Room not found', code: 'ROOM_NOT_FOUND' });
-          return;
-        }
+      if (!(await roomRepository.roomExists(roomId))) {
+        socket.emit('error', { message: 'Room not found', code: 'ROOM_NOT_FOUND' });
+        return;
       }
 
       // Join socket room
@@ -356,14 +379,15 @@ io.on('connection', (socket) => {
   socket.on('submit-answer', async (data: {
     roomId: string;
     playerId: string;
+    playerToken: string;
     questionIndex: number;
-    selectedOption: string;
-    timeToAnswer: number;
+    response: AnswerValue;
+    wager?: number;
   }) => {
     try {
-      const { roomId, playerId, questionIndex, selectedOption, timeToAnswer } = data;
+      const { roomId, playerId, playerToken, questionIndex, response, wager } = data;
       
-      console.log(`📝 Answer submitted by player ${playerId} in room ${roomId}: ${selectedOption} (${timeToAnswer}ms)`);
+      console.log(`📝 Answer submitted by player ${playerId} in room ${roomId}: ${JSON.stringify(response)}`);
 
       // Verify player is in room
       const connection = activeConnections.get(socket.id);
@@ -371,204 +395,70 @@ io.on('connection', (socket) => {
         socket.emit('error', { message: 'Invalid player or room', code: 'INVALID_SUBMISSION' });
         return;
       }
-
-      if (!db) {
-        socket.emit('error', { message: 'Database not available', code: 'DATABASE_ERROR' });
+      if (!(await isValidPlayerToken(roomId, playerId, playerToken))) {
+        socket.emit('error', { message: 'Answers must be sent with the player token issued when joining', code: 'INVALID_PLAYER_TOKEN' });
         return;
       }
 
-      // Get current room state
-      const roomSnapshot = await db.ref(`rooms/${roomId}`).once('value');
-      if (!roomSnapshot.exists()) {
-        socket.emit('error', { message: 'Room not found', code: 'ROOM_NOT_FOUND' });
-        return;
-      }
-
-      const room = roomSnapshot.val();
-      
-      // Validate question index
-      if (questionIndex !== room.currentQuestionIndex) {
-        socket.emit('error', { message: 'Invalid question index', code: 'INVALID_QUESTION' });
-        return;
-      }
-
-      // Get current question
-      const currentQuestion = room.questions[questionIndex];
-      if (!currentQuestion) {
-        socket.emit('error', { message: 'Question not found', code: 'QUESTION_NOT_FOUND' });
-        return;
-      }
-
-      // Check if answer is correct and calculate score
-      const isCorrect = selectedOption === currentQuestion.correctOption;
-      let scoreEarned = 0;
-      
-      if (isCorrect) {
-        // Score calculation: base points + time bonus
-        const basePoints = 100;
-        const timeBonus = Math.max(0, Math.floor((currentQuestion.timeLimit * 1000 - timeToAnswer) / 100));
-        scoreEarned = basePoints + timeBonus;
-      }
-
-      // Create answer record
-      const answer = {
-        option: selectedOption,
-        isCorrect,
-        timeToAnswer,
-        scoreEarned
-      };
-
-      // Update player's answer and score in database
-      const currentScore = room.players[playerId]?.score || 0;
-      const newScore = currentScore + scoreEarned;
-
-      await db.ref(`rooms/${roomId}/players/${playerId}/answers/${questionIndex}`).set(answer);
-      await db.ref(`rooms/${roomId}/players/${playerId}/score`).set(newScore);
+      // Validation, scoring and the all-answered check live in the game engine
+      const result = await gameEngine.submitAnswer(roomId, playerId, questionIndex, response, wager);
 
       // Notify the player of their result
       socket.emit('answer-result', {
-        isCorrect,
-        scoreEarned,
-        newTotalScore: newScore,
-        correctOption: currentQuestion.correctOption,
+        ...result,
         timestamp: new Date().toISOString()
       });
 
-      // Notify other players in the room (without revealing the answer)
-      socket.to(roomId).emit('player-answered', {
-        playerId,
-        nickname: connection.nickname,
-        timestamp: new Date().toISOString()
-      });
-
-      // Check if all players have answered
-      const updatedRoomSnapshot = await db.ref(`rooms/${roomId}`).once('value');
-      const updatedRoom = updatedRoomSnapshot.val();
-      const players = Object.values(updatedRoom.players || {}) as any[];
-      const playersWithAnswers = players.filter(p => p.answers && p.answers[questionIndex]);
-      
-      if (playersWithAnswers.length === players.length) {
-        // All players have answered - notify room
-        io.to(roomId).emit('all-players-answered', {
-          questionIndex,
-          timestamp: new Date().toISOString()
-        });
-        
-        console.log(`✅ All players answered question ${questionIndex} in room ${roomId}`);
-      }
-
-      console.log(`✅ Answer processed for player ${playerId}: ${isCorrect ? 'Correct' : 'Incorrect'} (+${scoreEarned} points)`);
-
     } catch (error: any) {
+      if (error instanceof GameEngineError) {
+        socket.emit('error', { message: error.message, code: error.code });
+        return;
+      }
       console.error('❌ Error processing answer submission:', error);
       socket.emit('error', { message: 'Failed to submit answer', details: error.message });
     }
   });
 
   /**
-   * Handle game state changes (host only)
+   * Handle host intents (advance / pause / resume) for the game loop
    */
-  socket.on('game-state-change', async (data: {
+  socket.on('game-intent', async (data: {
     roomId: string;
     hostId: string;
-    gameState: any;
-    action: 'next-question' | 'show-results' | 'end-game';
+    intent: GameIntent;
   }) => {
     try {
-      const { roomId, hostId, gameState, action } = data;
-      
-      console.log(`🎮 Game state change in room ${roomId}: ${action}`);
+      const { roomId, hostId, intent } = data;
+
+      console.log(`🎮 Game intent in room ${roomId}: ${intent}`);
 
       // Verify host permissions
       const connection = activeConnections.get(socket.id);
       if (!connection || connection.roomId !== roomId || connection.playerId !== hostId) {
-        socket.emit('error', { message: 'Only the host can change game state', code: 'INSUFFICIENT_PERMISSIONS' });
+        socket.emit('error', { message: 'Only the host can control the game', code: 'INSUFFICIENT_PERMISSIONS' });
         return;
       }
 
-      if (!db) {
-        socket.emit('error', { message: 'Database not available', code: 'DATABASE_ERROR' });
+      const room = await roomRepository.getRoom(roomId);
+      if (!room) {
+        socket.emit('error', { message: 'Room not found', code: 'ROOM_NOT_FOUND' });
         return;
       }
 
-      // Get current room state
-      const roomSnapshot = await db.ref(`rooms/${roomId}`).once('value');
-      if (!roomSnapshot.exists()) {
-        socket.emit('error', { message: 'Room not found', code: 'ROOM_NOT_FOUND' });
+      if (room.hostId !== hostId) {
+        socket.emit('error', { message: 'Only the room host can control the game', code: 'INSUFFICIENT_PERMISSIONS' });
         return;
       }
 
-      const room = roomSnapshot.val();
-
-      // Handle different game state changes
-      switch (action) {
-        case 'next-question':
-          if (room.currentQuestionIndex < room.questions.length - 1) {
-            const nextQuestionIndex = room.currentQuestionIndex + 1;
-            await db.ref(`rooms/${roomId}/currentQuestionIndex`).set(nextQuestionIndex);
-            await db.ref(`rooms/${roomId}/gameState`).set({
-              ...gameState,
-              questionStartTime: Date.now()
-            });
-
-            // Notify all players of the next question
-            io.to(roomId).emit('next-question', {
-              questionIndex: nextQuestionIndex,
-              question: room.questions[nextQuestionIndex],
-              gameState: { ...gameState, questionStartTime: Date.now() },
-              timestamp: new Date().toISOString()
-            });
-
-            console.log(`➡️ Advanced to question ${nextQuestionIndex} in room ${roomId}`);
-          }
-          break;
-
-        case 'show-results':
-          // Update game state to show results
-          await db.ref(`rooms/${roomId}/gameState`).set(gameState);
-          
-          // Send results to all players
-          io.to(roomId).emit('show-results', {
-            questionIndex: room.currentQuestionIndex,
-            results: Object.values(room.players).map((player: any) => ({
-              playerId: player.id,
-              nickname: player.nickname,
-              answer: player.answers?.[room.currentQuestionIndex],
-              score: player.score
-            })),
-            gameState,
-            timestamp: new Date().toISOString()
-          });
-
-          console.log(`📊 Showing results for question ${room.currentQuestionIndex} in room ${roomId}`);
-          break;
-
-        case 'end-game':
-          // Mark game as finished
-          await db.ref(`rooms/${roomId}/status`).set('finished');
-          await db.ref(`rooms/${roomId}/finishedAt`).set(Date.now());
-          await db.ref(`rooms/${roomId}/isGameComplete`).set(true);
-
-          // Send final results to all players
-          const finalResults = Object.values(room.players).map((player: any) => ({
-            playerId: player.id,
-            nickname: player.nickname,
-            finalScore: player.score,
-            answers: player.answers
-          })).sort((a, b) => b.finalScore - a.finalScore);
-
-          io.to(roomId).emit('game-ended', {
-            finalResults,
-            winner: finalResults[0],
-            timestamp: new Date().toISOString()
-          });
-
-          console.log(`🏁 Game ended in room ${roomId}. Winner: ${finalResults[0]?.nickname}`);
-          break;
-      }
+      // The engine broadcasts the resulting state to the whole room
+      await gameEngine.handleIntent(roomId, intent);
 
     } catch (error: any) {
-      console.error('❌ Error handling game state change:', error);
+      if (error instanceof GameEngineError) {
+        socket.emit('error', { message: error.message, code: error.code });
+        return;
+      }
+      console.error('❌ Error handling game intent:', error);
       socket.emit('error', { message: 'Failed to update game state', details: error.message });
     }
   });
@@ -593,20 +483,13 @@ io.on('connection', (socket) => {
         return;
       }
 
-      if (!db) {
-        socket.emit('error', { message: 'Database not available', code: 'DATABASE_ERROR' });
-        return;
-      }
-
       // Get current room state
-      const roomSnapshot = await db.ref(`rooms/${roomId}`).once('value');
-      if (!roomSnapshot.exists()) {
+      const room = await roomRepository.getRoom(roomId);
+      if (!room) {
         socket.emit('error', { message: 'Room not found', code: 'ROOM_NOT_FOUND' });
         return;
       }
 
-      const room = roomSnapshot.val();
-
       // Verify host permissions again
       if (room.hostId !== hostId) {
         socket.emit('error', { message: 'Only the room host can kick players', code: 'INSUFFICIENT_PERMISSIONS' });
@@ -634,7 +517,7 @@ io.on('connection', (socket) => {
       }
 
       // Remove player from room in database
-      await db.ref(`rooms/${roomId}/players/${playerIdToKick}`).remove();
+      await roomRepository.removePlayer(roomId, playerIdToKick);
 
       // Find socket connections for the kicked player
       const kickedPlayerSockets: string[] = [];
@@ -753,24 +636,33 @@ const startServer = async () => {
     // Test services on startup
     console.log('🔧 Testing service connections...');
     
-    // Test Firebase
-    try {
-      await dbHelpers.roomExists('startup-test');
-      console.log('✅ Firebase connection test passed');
-    } catch (error) {
-      console.error('❌ Firebase connection test failed:', error);
+    // Test Firebase (rooms kept in memory need no connection)
+    if (roomRepository.kind === 'firebase') {
+      try {
+        await roomRepository.roomExists('startup-test');
+        console.log('✅ Firebase connection test passed');
+      } catch (error) {
+        console.error('❌ Firebase connection test failed:', error);
+      }
     }
 
-    // Test OpenAI (if configured)
-    if (isOpenAIAvailable()) {
-      const openaiTest = await testOpenAIConnection();
-      if (openaiTest.success) {
-        console.log('✅ OpenAI connection test passed');
+    // Test the question model (if one is configured)
+    if (questionModelProvider.name !== 'offline') {
+      const modelTest = await questionModelProvider.testConnection();
+      if (modelTest.success) {
+        console.log(`✅ ${questionModelProvider.model} connection test passed`);
       } else {
-        console.warn('⚠️ OpenAI connection test failed:', openaiTest.error);
+        console.warn(`⚠️ ${questionModelProvider.model} connection test failed:`, modelTest.error);
       }
     }
 
+    // Resume game loops that were running before a restart
+    await gameEngine.recoverActiveGames();
+
+    // Clean up expired rooms every 10 minutes, starting 30 seconds after startup
+    setInterval(cleanupExpiredRooms, 10 * 60 * 1000);
+    setTimeout(cleanupExpiredRooms, 30 * 1000);
+
     // Start server
     server.listen(env.port, () => {
       console.log('\n🎉 Quiz Cult Backend Server is running!');
@@ -790,35 +682,41 @@ const startServer = async () => {
   }
 };
 
-// Handle graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('\n🛑 Received SIGTERM, shutting down gracefully...');
-  server.close(() => {
-    console.log('✅ Server closed');
-    process.exit(0);
-  });
-});
-
-process.on('SIGINT', () => {
-  console.log('\n🛑 Received SIGINT, shutting down gracefully...');
-  
-  // Close Socket.io server first
-  io.close(() => {
-    console.log('✅ Socket.io server closed');
-    
-    // Then close HTTP server
+// Start the server when run directly; the test suite imports app, server and io instead
+if (require.main === module) {
+  // Handle graceful shutdown
+  process.on('SIGTERM', () => {
+    console.log('\n🛑 Received SIGTERM, shutting down gracefully...');
+    gameEngine.stopAll();
     server.close(() => {
-      console.log('✅ HTTP server closed');
+      console.log('✅ Server closed');
       process.exit(0);
     });
   });
-  
-  // Force exit after 5 seconds if graceful shutdown fails
-  setTimeout(() => {
-    console.log('⏰ Force shutting down...');
-    process.exit(1);
-  }, 5000);
-});
 
-// Start the server
-startServer(); 
\ No newline at end of file
+  process.on('SIGINT', () => {
+    console.log('\n🛑 Received SIGINT, shutting down gracefully...');
+    gameEngine.stopAll();
+
+    // Close Socket.io server first
+    io.close(() => {
+      console.log('✅ Socket.io server closed');
+
+      // Then close HTTP server
+      server.close(() => {
+        console.log('✅ HTTP server closed');
+        process.exit(0);
+      });
+    });
+
+    // Force exit after 5 seconds if graceful shutdown fails
+    setTimeout(() => {
+      console.log('⏰ Force shutting down...');
+      process.exit(1);
+    }, 5000);
+  });
+
+  startServer();
+}
+
+export { app, server, io };
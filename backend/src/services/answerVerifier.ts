@@ -0,0 +1,67 @@
+import { buildVerificationPrompt, VERIFICATION_CONFIG } from '../config/prompts';
+import { QuestionModelProvider } from './questionModelProvider';
+import { extractJson, resolveOption } from './structuredQuestionGenerator';
+import { AnswerValue, Question, QuestionVerification } from '../types/types';
+import { formatResponse, isValidResponse, parseNumericResponse } from '../../../shared/questions';
+import { gradeAnswer } from '../../../shared/scoring';
+
+/**
+ * Turn the checking pass's answer into a player response for the question, or null when unusable
+ */
+const toResponse = (question: Question, answer: any): AnswerValue | null => {
+  if (answer === null || answer === undefined) {
+    return null;
+  }
+
+  let response: any = answer;
+  switch (question.type) {
+    case 'multiple':
+      response = (Array.isArray(answer) ? answer : [answer]).map((option) => resolveOption(option, question.options));
+      break;
+    case 'true-false':
+      response = typeof answer === 'string' ? ({ true: true, false: false } as Record<string, boolean>)[answer.trim().toLowerCase()] : answer;
+      break;
+    case 'numeric':
+      response = parseNumericResponse(answer);
+      break;
+    case 'text':
+      response = String(answer);
+      break;
+    case 'ordering':
+    case 'matching':
+      break;
+    default:
+      response = resolveOption(answer, question.options);
+  }
+
+  return response !== null && response !== undefined && isValidResponse(question, response) ? response : null;
+};
+
+/**
+ * Ask the question again without its answer key and grade the reply against the stored answer.
+ * Never rejects: a failed or unusable check resolves as "unchecked".
+ */
+export const verifyAnswer = async (model: QuestionModelProvider, question: Question): Promise<QuestionVerification> => {
+  const { prompt, schema } = buildVerificationPrompt(question);
+
+  try {
+    const content = await model.complete({
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: VERIFICATION_CONFIG.maxTokens,
+      temperature: VERIFICATION_CONFIG.temperature,
+      responseSchema: { name: 'quiz_answer', schema }
+    });
+
+    const response = toResponse(question, extractJson(content)?.answer);
+    if (response === null) {
+      return { status: 'unchecked' };
+    }
+
+    return gradeAnswer(question, response).isCorrect
+      ? { status: 'verified' }
+      : { status: 'disputed', modelAnswer: formatResponse(question, response) };
+  } catch (error) {
+    console.warn('⚠️ Answer verification failed:', error instanceof Error ? error.message : error);
+    return { status: 'unchecked' };
+  }
+};
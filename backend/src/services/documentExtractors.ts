@@ -0,0 +1,734 @@
+import JSZip from 'jszip';
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
+import { DocumentSection, DocumentStructure } from '../types/types';
+
+/**
+ * A heading or slide of an extracted document, with the character offset where it starts in the text
+ */
+export interface ExtractedSection {
+  title: string;
+  level: number; // 1 for chapters and slides, deeper for sub-headings
+  start: number;
+  slide?: number; // Slide number in presentations
+}
+
+export interface ExtractedDocument {
+  text: string; // Plain text; PDF pages end with a form feed
+  sections: ExtractedSection[];
+}
+
+// Extracted text with its table of contents
+export interface StructuredDocument {
+  text: string;
+  structure: DocumentStructure;
+}
+
+/**
+ * Turns one kind of uploaded file into plain text plus its structure.
+ * Files are matched by extension first, then by MIME type.
+ */
+export interface DocumentExtractor {
+  name: string;
+  extensions: string[];
+  mimeTypes: string[];
+  extract(file: Buffer): Promise<ExtractedDocument>;
+}
+
+/**
+ * Builds extracted text one piece at a time, collapsing whitespace and recording sections at their offsets.
+ * Pieces are kept in a list and only the end of the text is ever inspected, so building stays linear.
+ */
+class TextBuilder {
+  private readonly parts: string[] = [];
+  private size = 0;
+  private readonly sections: ExtractedSection[] = [];
+
+  get length(): number {
+    return this.size;
+  }
+
+  /**
+   * Append inline text; runs of whitespace become one space, never at the start of a line
+   */
+  write(value: string): void {
+    const collapsed = value.replace(/\s+/g, ' ');
+    const last = this.lastChar();
+    this.push(last === '' || last === '\n' || last === ' ' ? collapsed.replace(/^ /, '') : collapsed);
+  }
+
+  /**
+   * End the current line, leaving at most the given number of line breaks in a row
+   */
+  newline(count: number = 1): void {
+    this.trimTrailingSpaces();
+    if (this.size === 0) return;
+    this.push('\n'.repeat(Math.max(0, count - this.countTrailingNewlines())));
+  }
+
+  /**
+   * Append preformatted text as it is (code blocks, PDF pages)
+   */
+  writeRaw(value: string): void {
+    this.push(value);
+  }
+
+  /**
+   * Record a section starting on a new line at the current position
+   */
+  startSection(section: Omit<ExtractedSection, 'start'>): void {
+    this.newline(2);
+    this.sections.push({ ...section, start: this.size });
+  }
+
+  /**
+   * Set the title of the section started last (headings are titled once their text has been read)
+   */
+  titleLastSection(title: string): void {
+    const section = this.sections[this.sections.length - 1];
+    if (section) section.title = title.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Append another extracted document, shifting its sections to their new offsets
+   */
+  append(document: ExtractedDocument): void {
+    if (!document.text.trim()) return;
+    this.newline(2);
+    const offset = this.size;
+    this.push(document.text);
+    this.sections.push(...document.sections.map((section) => ({ ...section, start: section.start + offset })));
+  }
+
+  build(): ExtractedDocument {
+    return { text: this.parts.join('').replace(/\s+$/, ''), sections: this.sections.filter((section) => section.title.length > 0) };
+  }
+
+  private push(value: string): void {
+    if (!value) return;
+    this.parts.push(value);
+    this.size += value.length;
+  }
+
+  private lastChar(): string {
+    const last = this.parts[this.parts.length - 1];
+    return last ? last[last.length - 1] : '';
+  }
+
+  private trimTrailingSpaces(): void {
+    while (this.parts.length > 0) {
+      const last = this.parts[this.parts.length - 1];
+      let end = last.length;
+      while (end > 0 && last[end - 1] === ' ') end--;
+      this.size -= last.length - end;
+      if (end > 0) {
+        if (end < last.length) this.parts[this.parts.length - 1] = last.slice(0, end);
+        return;
+      }
+      this.parts.pop();
+    }
+  }
+
+  private countTrailingNewlines(): number {
+    let count = 0;
+    for (let i = this.parts.length - 1; i >= 0; i--) {
+      const part = this.parts[i];
+      let j = part.length - 1;
+      while (j >= 0 && part[j] === '\n') j--;
+      count += part.length - 1 - j;
+      if (j >= 0) break;
+    }
+    return count;
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»', copy: '©', reg: '®', trade: '™'
+};
+
+/**
+ * Decode XML and common HTML character references
+ */
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+// Markup tokens: a tag (with its name and whether it closes or closes itself) or a run of text
+const TOKEN_PATTERN = /<(\/?)([a-zA-Z][\w:.-]*)((?:"[^"]*"|'[^']*'|[^'">])*?)(\/?)>|([^<]+)|<[^>]*>?/g;
+
+interface MarkupToken {
+  tag?: string; // Lower-cased element name
+  closing?: boolean;
+  selfClosing?: boolean;
+  attributes?: string;
+  text?: string; // Decoded text
+}
+
+function* tokenizeMarkup(markup: string): Generator<MarkupToken> {
+  for (const match of markup.matchAll(TOKEN_PATTERN)) {
+    if (match[2]) {
+      yield { tag: match[2].toLowerCase(), closing: match[1] === '/', selfClosing: match[4] === '/', attributes: match[3] };
+    } else if (match[5]) {
+      yield { text: decodeEntities(match[5]) };
+    }
+  }
+}
+
+const getAttribute = (attributes: string | undefined, name: string): string | undefined => {
+  const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i').exec(attributes ?? '');
+  return match ? decodeEntities(match[2] ?? match[3]) : undefined;
+};
+
+// Elements whose content is never text a quiz should ask about
+const HTML_SKIPPED = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'button', 'select', 'textarea', 'nav', 'footer', 'aside', 'form', 'menu', 'dialog']);
+const HTML_BLOCKS = new Set(['p', 'div', 'section', 'article', 'main', 'blockquote', 'figure', 'figcaption', 'table', 'ul', 'ol', 'dl', 'dt', 'dd', 'hr', 'address', 'details', 'summary', 'body']);
+const HTML_LINES = new Set(['br', 'li', 'tr']);
+const HTML_CELLS = new Set(['td', 'th']);
+const HTML_VOID = new Set(['br', 'hr', 'img', 'input', 'meta', 'link', 'wbr', 'source', 'track', 'area', 'base', 'col', 'embed', 'param']);
+const BOILERPLATE_ROLES = /^(navigation|banner|contentinfo|complementary|search|menu|menubar|dialog)$/i;
+const BOILERPLATE_CLASSES = /(^|[\s_-])(nav|navbar|menu|breadcrumbs?|sidebar|footer|masthead|cookie|banner|advert|ads|share|social|skip-link)([\s_-]|$)/i;
+
+/**
+ * The part of a page that holds its content: <main> or the only <article> when present, otherwise <body>
+ */
+const selectMainContent = (html: string): string => {
+  const main = /<main\b[^>]*>([\s\S]*?)<\/main>/i.exec(html);
+  if (main) return main[1];
+  const articles = html.match(/<article\b[^>]*>[\s\S]*?<\/article>/gi);
+  if (articles?.length === 1) return articles[0];
+  return /<body\b[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html;
+};
+
+/**
+ * Plain text of an HTML page without navigation, headers, footers, scripts and other boilerplate;
+ * headings h1–h6 become sections
+ */
+export const extractHtml = (html: string): ExtractedDocument => {
+  const builder = new TextBuilder();
+  const skipping: string[] = []; // Open elements whose content is dropped
+  let heading: string | null = null; // Open heading element
+  let headingText = '';
+
+  // Site headers go, but an article's header holds its title
+  const content = selectMainContent(html.replace(/<!--[\s\S]*?-->/g, ''))
+    .replace(/<header\b[\s\S]*?<\/header>/gi, (header) => /<h1\b/i.test(header) ? header : '');
+
+  for (const token of tokenizeMarkup(content)) {
+    if (token.text !== undefined) {
+      if (skipping.length > 0) continue;
+      builder.write(token.text);
+      if (heading) headingText += token.text;
+      continue;
+    }
+
+    const tag = token.tag!;
+    if (skipping.length > 0) {
+      if (token.closing && tag === skipping[skipping.length - 1]) skipping.pop();
+      else if (!token.closing && !token.selfClosing && !HTML_VOID.has(tag) && tag === skipping[skipping.length - 1]) skipping.push(tag);
+      continue;
+    }
+
+    if (!token.closing && !token.selfClosing && !HTML_VOID.has(tag) && (
+      HTML_SKIPPED.has(tag) ||
+      BOILERPLATE_ROLES.test(getAttribute(token.attributes, 'role') ?? '') ||
+      BOILERPLATE_CLASSES.test(`${getAttribute(token.attributes, 'class') ?? ''} ${getAttribute(token.attributes, 'id') ?? ''}`) ||
+      getAttribute(token.attributes, 'aria-hidden') === 'true'
+    )) {
+      skipping.push(tag);
+      continue;
+    }
+
+    if (/^h[1-6]$/.test(tag)) {
+      if (!token.closing) {
+        builder.startSection({ title: '', level: Number(tag[1]) });
+        heading = tag;
+        headingText = '';
+      } else if (heading === tag) {
+        builder.titleLastSection(headingText);
+        builder.newline();
+        heading = null;
+      }
+    } else if (tag === 'li' && !token.closing) {
+      builder.newline();
+      builder.write('- ');
+    } else if (HTML_LINES.has(tag)) {
+      builder.newline();
+    } else if (HTML_BLOCKS.has(tag)) {
+      builder.newline(2);
+    } else if (HTML_CELLS.has(tag) && token.closing) {
+      builder.write(' ');
+    } else if (tag === 'img' && getAttribute(token.attributes, 'alt')) {
+      builder.write(` ${getAttribute(token.attributes, 'alt')} `);
+    }
+  }
+
+  return builder.build();
+};
+
+/**
+ * Plain text of a Markdown document: ATX (#) and setext (underlined) headings become sections,
+ * links, images and emphasis are reduced to their text, code blocks are kept as they are
+ */
+export const extractMarkdown = (markdown: string): ExtractedDocument => {
+  const builder = new TextBuilder();
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/^---\n[\s\S]*?\n---\n/, '').split('\n'); // Without front matter
+  let fence: string | null = null;
+
+  const inline = (text: string): string => text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])[*_]([^*_\s][^*_]*?)[*_](?=[^\w*]|$)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/`([^`]+)`/g, '$1');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = /^\s*(```|~~~)/.exec(line);
+
+    if (fence) {
+      if (fenceMatch?.[1] === fence) {
+        fence = null;
+        builder.newline(2);
+      } else {
+        builder.writeRaw(`${line}\n`);
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      builder.newline(2);
+      continue;
+    }
+
+    const atx = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    const setext = line.trim() && !/^\s*[-*+>]|^\s*\d+[.)]\s/.test(line) ? /^ {0,3}(=+|-+)\s*$/.exec(lines[i + 1] ?? '') : null;
+    if (atx || setext) {
+      const title = inline(atx ? atx[2] : line.trim());
+      builder.startSection({ title, level: atx ? atx[1].length : setext![1][0] === '=' ? 1 : 2 });
+      builder.write(title);
+      builder.newline(2);
+      if (setext) i++;
+      continue;
+    }
+
+    if (!line.trim()) {
+      builder.newline(2);
+    } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      builder.newline(2); // Horizontal rule
+    } else {
+      const item = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line);
+      const quote = /^\s*>\s?(.*)$/.exec(line);
+      if (item) {
+        builder.newline();
+        builder.write(`- ${inline(item[1])}`);
+      } else {
+        builder.write(` ${inline(quote ? quote[1] : line)}`);
+      }
+      builder.newline();
+    }
+  }
+
+  return builder.build();
+};
+
+/**
+ * The HTML part of an MHTML web-page snapshot, decoded from its transfer encoding
+ */
+const getMhtmlDocument = (snapshot: string): string => {
+  const boundary = /boundary="?([^";\r\n]+)"?/i.exec(snapshot)?.[1];
+  const parts = boundary ? snapshot.split(`--${boundary}`) : [snapshot];
+
+  for (const part of parts) {
+    const [headers, ...bodyParts] = part.split(/\r?\n\r?\n/);
+    if (!/content-type:\s*text\/html/i.test(headers)) continue;
+
+    const body = bodyParts.join('\n\n');
+    const encoding = /content-transfer-encoding:\s*([\w-]+)/i.exec(headers)?.[1].toLowerCase();
+    if (encoding === 'base64') {
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf-8');
+    }
+    if (encoding === 'quoted-printable') {
+      const bytes = body
+        .replace(/=\r?\n/g, '')
+        .replace(/=([0-9A-F]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+      return Buffer.from(bytes, 'latin1').toString('utf-8');
+    }
+    // 7bit and 8bit parts are raw bytes, read as latin1 along with the rest of the snapshot
+    return Buffer.from(body, 'latin1').toString('utf-8');
+  }
+
+  throw new Error('The web-page snapshot has no HTML part');
+};
+
+const readZipFile = async (zip: JSZip, path: string): Promise<string> => {
+  const file = zip.file(path);
+  if (!file) {
+    throw new Error(`Missing ${path} in the archive`);
+  }
+  return file.async('string');
+};
+
+// Resolve a relative archive path against the file it appears in
+const resolveZipPath = (from: string, target: string): string => {
+  const parts = from.split('/').slice(0, -1);
+  for (const part of target.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+};
+
+// Relationship id → target path, from an OOXML .rels file
+const readRelationships = async (zip: JSZip, relsPath: string, ownerPath: string): Promise<Map<string, string>> => {
+  const relationships = new Map<string, string>();
+  const rels = zip.file(relsPath) ? await zip.file(relsPath)!.async('string') : '';
+  for (const [tag] of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = getAttribute(tag, 'Id');
+    const target = getAttribute(tag, 'Target');
+    if (id && target) relationships.set(id, resolveZipPath(ownerPath, target));
+  }
+  return relationships;
+};
+
+// Placeholder type of a slide shape; placeholders without a type hold body text
+const readPlaceholder = (shape: string): string | undefined => {
+  const placeholder = /<p:ph\b([^>]*)>/.exec(shape);
+  return placeholder ? getAttribute(placeholder[1], 'type') ?? 'body' : undefined;
+};
+
+/**
+ * Paragraphs of the shapes in a slide or notes page, with each shape's placeholder type
+ */
+const readSlideShapes = (xml: string): { placeholder?: string; paragraphs: string[] }[] =>
+  Array.from(xml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g), ([shape]) => ({
+    placeholder: readPlaceholder(shape),
+    paragraphs: Array.from(shape.matchAll(/<a:p\b[\s\S]*?<\/a:p>/g), ([paragraph]) =>
+      decodeEntities(Array.from(paragraph.matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>|<a:br\b[^>]*\/>/g), (run) => run[1] ?? '\n').join(''))
+    ).filter((paragraph) => paragraph.trim().length > 0)
+  }));
+
+/**
+ * Slide text and speaker notes of a PowerPoint deck, one section per slide in presentation order
+ */
+export const extractPptx = async (file: Buffer): Promise<ExtractedDocument> => {
+  const zip = await JSZip.loadAsync(file);
+  const presentation = await readZipFile(zip, 'ppt/presentation.xml');
+  const relationships = await readRelationships(zip, 'ppt/_rels/presentation.xml.rels', 'ppt/presentation.xml');
+
+  let slidePaths = Array.from(presentation.matchAll(/<p:sldId\b[^>]*>/g), ([tag]) => relationships.get(getAttribute(tag, 'r:id') ?? ''))
+    .filter((path): path is string => !!path && !!zip.file(path));
+  if (slidePaths.length === 0) {
+    slidePaths = Object.keys(zip.files)
+      .filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+      .sort((a, b) => Number(/(\d+)\.xml$/.exec(a)![1]) - Number(/(\d+)\.xml$/.exec(b)![1]));
+  }
+
+  const builder = new TextBuilder();
+  for (const [index, slidePath] of slidePaths.entries()) {
+    const shapes = readSlideShapes(await readZipFile(zip, slidePath));
+    const titleShape = shapes.find((shape) => shape.placeholder === 'title' || shape.placeholder === 'ctrTitle');
+    const title = titleShape?.paragraphs.join(' ') ?? '';
+    const body = shapes.filter((shape) => shape !== titleShape && !['sldNum', 'dt', 'ftr'].includes(shape.placeholder ?? ''));
+
+    const slideRelationships = await readRelationships(zip, slidePath.replace(/slides\/(slide\d+\.xml)$/, 'slides/_rels/$1.rels'), slidePath);
+    const notesPath = Array.from(slideRelationships.values()).find((path) => /notesSlides\/notesSlide\d+\.xml$/.test(path));
+    const notes = notesPath && zip.file(notesPath)
+      ? readSlideShapes(await readZipFile(zip, notesPath)).filter((shape) => shape.placeholder === 'body').flatMap((shape) => shape.paragraphs)
+      : [];
+
+    builder.startSection({ title: title || `Slide ${index + 1}`, level: 1, slide: index + 1 });
+    builder.write(title ? `Slide ${index + 1}: ${title}` : `Slide ${index + 1}`);
+    for (const paragraph of body.flatMap((shape) => shape.paragraphs)) {
+      builder.newline();
+      builder.write(paragraph);
+    }
+    if (notes.length > 0) {
+      builder.newline();
+      builder.write('Speaker notes:');
+      for (const paragraph of notes) {
+        builder.newline();
+        builder.write(paragraph);
+      }
+    }
+  }
+
+  return builder.build();
+};
+
+/**
+ * The chapters of an EPUB book in reading order, each read as HTML
+ */
+export const extractEpub = async (file: Buffer): Promise<ExtractedDocument> => {
+  const zip = await JSZip.loadAsync(file);
+  const container = await readZipFile(zip, 'META-INF/container.xml');
+  const packagePath = getAttribute(/<rootfile\b[^>]*>/.exec(container)?.[0], 'full-path');
+  if (!packagePath) {
+    throw new Error('The EPUB container names no package document');
+  }
+
+  const packageXml = await readZipFile(zip, packagePath);
+  const manifest = new Map<string, string>();
+  for (const [tag] of packageXml.matchAll(/<item\b[^>]*>/g)) {
+    const id = getAttribute(tag, 'id');
+    const href = getAttribute(tag, 'href');
+    if (id && href && /html/.test(getAttribute(tag, 'media-type') ?? '')) {
+      manifest.set(id, resolveZipPath(packagePath, decodeURIComponent(href)));
+    }
+  }
+
+  const builder = new TextBuilder();
+  for (const [tag] of packageXml.matchAll(/<itemref\b[^>]*>/g)) {
+    const path = manifest.get(getAttribute(tag, 'idref') ?? '');
+    if (path && zip.file(path) && getAttribute(tag, 'linear') !== 'no') {
+      builder.append(extractHtml(await readZipFile(zip, path)));
+    }
+  }
+
+  return builder.build();
+};
+
+/**
+ * Text of an OpenDocument text file: headings with their outline level become sections
+ */
+export const extractOdt = async (file: Buffer): Promise<ExtractedDocument> => {
+  const zip = await JSZip.loadAsync(file);
+  const content = await readZipFile(zip, 'content.xml');
+  const body = /<office:text\b[^>]*>([\s\S]*)<\/office:text>/.exec(content)?.[1] ?? '';
+
+  const builder = new TextBuilder();
+  let skipDepth = 0; // Inside annotations, tracked changes and frames' alternative text
+  let headingText: string | null = null;
+
+  for (const token of tokenizeMarkup(body)) {
+    if (token.text !== undefined) {
+      if (skipDepth > 0) continue;
+      builder.write(token.text);
+      if (headingText !== null) headingText += token.text;
+      continue;
+    }
+
+    const tag = token.tag!;
+    if (['office:annotation', 'text:tracked-changes', 'svg:desc', 'svg:title', 'text:note-citation'].includes(tag)) {
+      if (!token.selfClosing) skipDepth += token.closing ? -1 : 1;
+      continue;
+    }
+    if (skipDepth > 0) continue;
+
+    if (tag === 'text:h') {
+      if (!token.closing) {
+        builder.startSection({ title: '', level: Number(getAttribute(token.attributes, 'text:outline-level') ?? 1) });
+        headingText = '';
+      } else {
+        builder.titleLastSection(headingText ?? '');
+        builder.newline(2);
+        headingText = null;
+      }
+    } else if (tag === 'text:p' && (token.closing || token.selfClosing)) {
+      builder.newline();
+    } else if (tag === 'text:list-item' && !token.closing) {
+      builder.newline();
+      builder.write('- ');
+    } else if (tag === 'text:line-break') {
+      builder.newline();
+    } else if (tag === 'text:s' || tag === 'text:tab') {
+      builder.write(' ');
+    } else if (tag === 'table:table-cell' && token.closing) {
+      builder.write(' ');
+    } else if (tag === 'table:table-row' && token.closing) {
+      builder.newline();
+    }
+  }
+
+  return builder.build();
+};
+
+/**
+ * pdf-parse page renderer: the library's default line joining, with a form feed closing each page
+ * so page numbers can be recovered from the extracted text
+ */
+const renderPdfPage = async (pageData: any): Promise<string> => {
+  const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+    lastY = item.transform[5];
+  }
+  return `${text}\f`;
+};
+
+// Chapter-style headings ("Chapter 3: Rivers", "Part II") and numbered ones ("2 Scope", "2.1 Goals")
+const NAMED_HEADING = /^(part|chapter|unit|module|lesson|appendix|section)\s+(\d+|[ivxlc]+|[a-z])\b[.:\s-]*(.*)$/i;
+const NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,2}){0,3})\s+(\p{Lu}.*)$/u;
+
+/**
+ * Headings of text without markup (PDF, TXT): short lines that read like chapter titles or numbered
+ * headings. Lines ending in sentence punctuation, list items ("1. Flour") and running headers that
+ * repeat the previous heading are left out.
+ */
+export const detectHeadings = (text: string): ExtractedSection[] => {
+  const sections: ExtractedSection[] = [];
+  let offset = 0;
+
+  for (const rawLine of text.split(/[\n\f]/)) {
+    const line = rawLine.trim();
+    const start = offset + rawLine.indexOf(line);
+    offset += rawLine.length + 1;
+
+    if (line.length < 3 || line.length > 80 || /[.,;:!?]$/.test(line) || line.split(/\s+/).length > 12) continue;
+
+    const named = NAMED_HEADING.exec(line);
+    const numbered = named ? null : NUMBERED_HEADING.exec(line);
+    if (!named && !numbered) continue;
+
+    const level = named ? (named[1].toLowerCase() === 'section' ? 2 : 1) : numbered![1].split('.').length;
+    if (sections[sections.length - 1]?.title === line) continue;
+    sections.push({ title: line, level, start });
+  }
+
+  return sections;
+};
+
+const plainText = (text: string): ExtractedDocument => ({ text, sections: detectHeadings(text) });
+
+/**
+ * Table of contents of an extracted document: each section runs to the next one of the same or a
+ * higher level, with the pages it spans when the text has form-feed page breaks
+ */
+export const buildDocumentStructure = ({ text, sections }: ExtractedDocument): DocumentStructure => {
+  const pageBreaks: number[] = [];
+  for (let index = text.indexOf('\f'); index !== -1; index = text.indexOf('\f', index + 1)) {
+    pageBreaks.push(index);
+  }
+  const pageAt = (offset: number) => {
+    let page = 1;
+    while (page <= pageBreaks.length && pageBreaks[page - 1] < offset) page++;
+    return page;
+  };
+  // The text may or may not end with the last page's form feed
+  const pageCount = pageBreaks.length + (text.slice((pageBreaks[pageBreaks.length - 1] ?? -1) + 1).trim() ? 1 : 0);
+
+  const ordered = [...sections].sort((a, b) => a.start - b.start);
+  const structured: DocumentSection[] = ordered.map((section, index) => {
+    const next = ordered.slice(index + 1).find((candidate) => candidate.level <= section.level);
+    const end = next?.start ?? text.length;
+    return {
+      title: section.title,
+      level: section.level,
+      start: section.start,
+      end,
+      ...(pageBreaks.length > 0 ? { pages: [pageAt(section.start), pageAt(Math.max(section.start, end - 1))] as [number, number] } : {}),
+      ...(section.slide !== undefined ? { slide: section.slide } : {})
+    };
+  });
+
+  return {
+    sections: structured,
+    ...(pageBreaks.length > 0 ? { pageCount } : {})
+  };
+};
+
+const extractors: DocumentExtractor[] = [];
+
+/**
+ * Add an extractor; later registrations take precedence for the extensions and MIME types they share
+ */
+export const registerDocumentExtractor = (extractor: DocumentExtractor): void => {
+  extractors.unshift(extractor);
+};
+
+/**
+ * The extractor for a file, by its extension, or by MIME type when the extension is unknown
+ */
+export const findDocumentExtractor = (filename: string, mimeType?: string): DocumentExtractor | undefined => {
+  const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+  return extractors.find((extractor) => extractor.extensions.includes(extension))
+    ?? (mimeType ? extractors.find((extractor) => extractor.mimeTypes.includes(mimeType)) : undefined);
+};
+
+/**
+ * File extensions with a registered extractor
+ */
+export const getSupportedDocumentExtensions = (): string[] =>
+  Array.from(new Set(extractors.flatMap((extractor) => extractor.extensions))).sort();
+
+/**
+ * Extract the text and table of contents of an uploaded file with the matching extractor
+ */
+export const extractDocument = async (file: Buffer, filename: string, mimeType?: string): Promise<StructuredDocument> => {
+  const extractor = findDocumentExtractor(filename, mimeType);
+  if (!extractor) {
+    throw new Error(`Unsupported file type: ${filename}`);
+  }
+
+  console.log(`📄 Extracting text from ${extractor.name}...`);
+  const extracted = await extractor.extract(file);
+  return { text: extracted.text, structure: buildDocumentStructure(extracted) };
+};
+
+[
+  {
+    name: 'PDF',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    extract: async (file: Buffer) => plainText((await pdfParse(file, { pagerender: renderPdfPage })).text)
+  },
+  {
+    name: 'DOCX',
+    extensions: ['docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    // Converted to HTML so that Word heading styles become headings
+    extract: async (file: Buffer) => extractHtml((await mammoth.convertToHtml({ buffer: file })).value)
+  },
+  {
+    name: 'TXT',
+    extensions: ['txt'],
+    mimeTypes: ['text/plain'],
+    extract: async (file: Buffer) => plainText(file.toString('utf-8'))
+  },
+  {
+    name: 'Markdown',
+    extensions: ['md', 'markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    extract: async (file: Buffer) => extractMarkdown(file.toString('utf-8'))
+  },
+  {
+    name: 'HTML',
+    extensions: ['html', 'htm', 'xhtml'],
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    extract: async (file: Buffer) => extractHtml(file.toString('utf-8'))
+  },
+  {
+    name: 'web-page snapshot',
+    extensions: ['mhtml', 'mht'],
+    mimeTypes: ['multipart/related', 'message/rfc822', 'application/x-mimearchive'],
+    extract: async (file: Buffer) => extractHtml(getMhtmlDocument(file.toString('latin1')))
+  },
+  {
+    name: 'PPTX',
+    extensions: ['pptx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    extract: extractPptx
+  },
+  {
+    name: 'EPUB',
+    extensions: ['epub'],
+    mimeTypes: ['application/epub+zip'],
+    extract: extractEpub
+  },
+  {
+    name: 'ODT',
+    extensions: ['odt'],
+    mimeTypes: ['application/vnd.oasis.opendocument.text'],
+    extract: extractOdt
+  }
+].forEach(registerDocumentExtractor);
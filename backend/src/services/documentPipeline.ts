@@ -0,0 +1,414 @@
+import { randomUUID } from 'crypto';
+import { countTokens as countModelTokens } from 'gpt-tokenizer';
+import { questionModelProvider, QuestionModelProvider } from './questionModelProvider';
+import { extractJson } from './structuredQuestionGenerator';
+import { extractDocument, StructuredDocument } from './documentExtractors';
+import { DocumentFile, DocumentSection, DocumentStructure } from '../types/types';
+
+export interface DocumentAnalysis {
+  fileId: string;
+  filename: string; // The uploaded files' names, comma-separated
+  topics: string[]; // All files' topics
+  files: DocumentFile[]; // Each uploaded file's part of the text and its own topics
+  contentType: string;
+  difficultyLevel: string;
+  wordCount: number;
+  uploadedAt: Date;
+  structure: DocumentStructure; // Sections, headings and pages, for picking the chapters to quiz on
+}
+
+// The analysis shown to the host and the text questions are generated from, which stays on the server
+export interface ProcessedDocument {
+  analysis: DocumentAnalysis;
+  text: string;
+}
+
+// A file received by the upload route
+export interface UploadedDocumentFile {
+  buffer: Buffer;
+  filename: string;
+  mimeType?: string;
+}
+
+// An uploaded file's text and table of contents, as extracted
+export interface ExtractedFile extends StructuredDocument {
+  filename: string;
+}
+
+// The uploaded files' normalized text, joined into one document; topics come with the analysis
+export interface NormalizedDocument extends StructuredDocument {
+  files: Omit<DocumentFile, 'topics'>[];
+}
+
+// Character range of the extracted text
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Piece of the extracted text small enough for one generation request
+export interface DocumentChunk extends TextRange {
+  index: number;
+  text: string;
+  file?: number; // Index of the uploaded file the chunk is from
+}
+
+export interface ChunkOptions {
+  maxTokens: number;
+  overlapTokens: number; // Text repeated from the end of one chunk at the start of the next
+  sections?: TextRange[]; // Parts of the document to chunk (the whole document when missing)
+  structure?: DocumentStructure; // Chunks end at section breaks
+  files?: Omit<DocumentFile, 'topics'>[]; // Chunks stay within one file
+}
+
+/**
+ * Tokens in the text for the GPT-4o family's tokenizer (o200k_base); special tokens count as plain text
+ */
+export const countTokens = (text: string): number => countModelTokens(text, { disallowedSpecial: new Set() });
+
+/**
+ * End offset of the longest slice of text from start (up to limit) that stays within maxTokens.
+ * The slice is scaled by the tokens it turns out to have, so only a few counts are needed.
+ */
+export const fitTokens = (text: string, start: number, limit: number, maxTokens: number): number => {
+  let end = Math.min(limit, start + maxTokens * 4);
+  let fits = start;
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const tokens = countTokens(text.slice(start, end));
+    if (tokens <= maxTokens) {
+      fits = end;
+      if (end === limit || tokens >= maxTokens * 0.95) break;
+    }
+    // Aim a little short when shrinking, so the next slice fits
+    const next = start + Math.floor(((end - start) * maxTokens * (tokens > maxTokens ? 0.98 : 1)) / Math.max(tokens, 1));
+    end = Math.max(start + 1, Math.min(limit, next));
+    if (end <= fits) break;
+  }
+  return Math.max(fits, start + 1);
+};
+
+// Zero-width characters, soft hyphens and byte order marks that extractors leave behind
+const INVISIBLE = /[\u00AD\u200B-\u200D\u2060\uFEFF]/;
+// Typographic ligatures (ﬁ, ﬂ, ...) that PDFs often contain
+const LIGATURE = /[\uFB00-\uFB06]/;
+
+/**
+ * Clean up extracted text: Windows line ends, invisible characters and ligatures, runs of spaces and
+ * blank lines. Form feeds (page ends) are kept, and section offsets are moved along with the text.
+ */
+export const normalizeDocument = ({ text, structure }: StructuredDocument): StructuredDocument => {
+  let normalized = '';
+  // Where each offset of the original text lands; -1 until the next character that is kept is written
+  const offsets = new Array<number>(text.length + 1).fill(-1);
+  let spaces = false;
+  let newlines = 0;
+  let pageBreaks = 0;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (char === '\f') {
+      pageBreaks++;
+    } else if (char === '\n' || char === '\r') {
+      if (!(char === '\r' && text[index + 1] === '\n')) newlines++;
+    } else if (/\s/.test(char)) {
+      spaces = true;
+    } else if (!INVISIBLE.test(char)) {
+      if (pageBreaks > 0) normalized += '\f'.repeat(pageBreaks);
+      else if (normalized && newlines > 0) normalized += '\n'.repeat(Math.min(newlines, 2));
+      else if (normalized && spaces && !normalized.endsWith('\f')) normalized += ' ';
+      spaces = false;
+      newlines = 0;
+      pageBreaks = 0;
+
+      offsets[index] = normalized.length;
+      normalized += LIGATURE.test(char) ? char.normalize('NFKC') : char;
+    }
+  }
+  // The last page's form feed stays
+  normalized += '\f'.repeat(pageBreaks);
+
+  offsets[text.length] = normalized.length;
+  for (let index = text.length - 1; index >= 0; index--) {
+    if (offsets[index] === -1) offsets[index] = offsets[index + 1];
+  }
+
+  return {
+    text: normalized,
+    structure: {
+      ...structure,
+      sections: structure.sections.map((section) => ({ ...section, start: offsets[section.start], end: offsets[section.end] }))
+    }
+  };
+};
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Turns uploaded files into a stored document and the stored text into generation-sized chunks:
+ * extract → normalize → analyze on upload, chunk on generation. Each stage can be run on its own.
+ */
+export class DocumentPipeline {
+  constructor(private readonly model: QuestionModelProvider = questionModelProvider) {}
+
+  /**
+   * Run the upload stages: extract the files, normalize them into one document and analyze it
+   */
+  async ingest(uploads: UploadedDocumentFile[]): Promise<ProcessedDocument> {
+    try {
+      return await this.analyze(this.normalize(await this.extract(uploads)));
+    } catch (error) {
+      console.error('❌ Document processing failed:', error);
+      throw new Error('Failed to process document');
+    }
+  }
+
+  /**
+   * Extract the text and table of contents of each file with the extractor registered for its type
+   */
+  async extract(uploads: UploadedDocumentFile[]): Promise<ExtractedFile[]> {
+    const extracted: ExtractedFile[] = [];
+    for (const upload of uploads) {
+      console.log(`📄 Processing document: ${upload.filename} (${upload.buffer.length} bytes)`);
+
+      const { text, structure } = await extractDocument(upload.buffer, upload.filename, upload.mimeType);
+      if (!text || text.trim().length === 0) {
+        throw new Error(`No text content could be extracted from ${upload.filename}`);
+      }
+
+      console.log(`✅ Text extracted: ${text.length} characters (${countTokens(text)} tokens), ${structure.sections.length} sections`);
+      extracted.push({ filename: upload.filename, text, structure });
+    }
+    return extracted;
+  }
+
+  /**
+   * Normalize each file's text and join the files with a blank line. Each file keeps its range of
+   * the text and, when there are several, a top-level section holding its headings.
+   */
+  normalize(extracted: ExtractedFile[]): NormalizedDocument {
+    const multiFile = extracted.length > 1;
+    let text = '';
+    const files: Omit<DocumentFile, 'topics'>[] = [];
+    const sections: DocumentSection[] = [];
+
+    for (const file of extracted) {
+      const normalized = normalizeDocument(file);
+      if (text) text += '\n\n';
+      const start = text.length;
+      text += normalized.text;
+      files.push({ filename: file.filename, start, end: text.length, wordCount: countWords(normalized.text) });
+
+      if (multiFile) {
+        sections.push({
+          title: file.filename,
+          level: 1,
+          start,
+          end: text.length,
+          ...(normalized.structure.pageCount ? { pages: [1, normalized.structure.pageCount] as [number, number] } : {})
+        });
+      }
+      sections.push(...normalized.structure.sections.map((section) => ({
+        ...section,
+        level: section.level + (multiFile ? 1 : 0),
+        start: section.start + start,
+        end: section.end + start
+      })));
+    }
+
+    return {
+      text,
+      structure: multiFile ? { sections } : { ...extracted[0]?.structure, sections },
+      files
+    };
+  }
+
+  /**
+   * Ask the model for each file's topics and for the document's type and difficulty
+   */
+  async analyze(document: NormalizedDocument): Promise<ProcessedDocument> {
+    const files: DocumentFile[] = [];
+    for (const file of document.files) {
+      // Topics per file, so hosts can see what each one covers
+      files.push({ ...file, topics: await this.extractTopics(document.text.slice(file.start, file.end)) });
+    }
+
+    const analysis = await this.analyzeDocument(document.text);
+
+    // The file ID is all it takes to generate from the stored document, so it must not be guessable
+    const fileId = `doc_${randomUUID()}`;
+
+    return {
+      analysis: {
+        fileId,
+        filename: files.map((file) => file.filename).join(', '),
+        topics: Array.from(new Set(files.flatMap((file) => file.topics))),
+        files,
+        contentType: analysis.contentType,
+        difficultyLevel: analysis.difficultyLevel,
+        wordCount: files.length > 1 ? files.reduce((sum, file) => sum + file.wordCount, 0) : analysis.wordCount,
+        uploadedAt: new Date(),
+        structure: document.structure
+      },
+      text: document.text
+    };
+  }
+
+  /**
+   * Split the chosen sections (or the whole text) into chunks of at most maxTokens, numbered in
+   * document order. Chunks stay within one file and end at a section start when one falls in their
+   * second half, and then do not overlap the next.
+   */
+  chunk(text: string, options: ChunkOptions): DocumentChunk[] {
+    const ranges = options.sections?.length
+      ? [...options.sections]
+          .map((section) => ({ start: Math.max(0, section.start), end: Math.min(text.length, section.end) }))
+          .filter((section) => section.end > section.start)
+          .sort((a, b) => a.start - b.start)
+          // A chapter picked together with one of its sub-sections is one range
+          .reduce<TextRange[]>((merged, range) => {
+            const last = merged[merged.length - 1];
+            if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+            else merged.push(range);
+            return merged;
+          }, [])
+      : [{ start: 0, end: text.length }];
+    const sectionStarts = options.structure?.sections.map((section) => section.start).sort((a, b) => a - b) ?? [];
+
+    // Ranges are cut at file boundaries so that every chunk belongs to one file
+    const fileRanges = options.files?.length
+      ? options.files.map((file, index) => ({ start: file.start, end: file.end, file: index }))
+      : [{ start: 0, end: text.length }];
+    return fileRanges
+      .flatMap((file) => ranges
+        .map((range) => ({ start: Math.max(range.start, file.start), end: Math.min(range.end, file.end) }))
+        .filter((range) => range.end > range.start)
+        .flatMap((range) => this.getTextChunks(text, range, options.maxTokens, options.overlapTokens, sectionStarts))
+        .map((chunk) => ('file' in file ? { ...chunk, file: file.file } : chunk)))
+      .map((chunk, index) => ({ ...chunk, index }));
+  }
+
+  private getTextChunks(text: string, range: TextRange, maxTokens: number, overlapTokens: number, sectionStarts: number[]): Omit<DocumentChunk, 'index'>[] {
+    const chunks: Omit<DocumentChunk, 'index'>[] = [];
+    let start = range.start;
+
+    while (start < range.end) {
+      const fit = fitTokens(text, start, range.end, maxTokens);
+      let end = fit;
+
+      const sectionBreak = end < range.end
+        ? sectionStarts.filter((offset) => offset > start + (fit - start) / 2 && offset <= end).pop()
+        : undefined;
+      if (sectionBreak !== undefined) {
+        chunks.push({ start, end: sectionBreak, text: text.substring(start, sectionBreak) });
+        start = sectionBreak;
+        continue;
+      }
+
+      // Adjust end to not break words
+      if (end < range.end) {
+        const lastSpace = text.lastIndexOf(' ', end);
+        if (lastSpace > start + (fit - start) * 0.8) { // Only break at space if we're getting most of our target
+          end = lastSpace;
+        }
+      }
+
+      const chunkText = text.substring(start, end);
+      chunks.push({ start, end, text: chunkText });
+
+      // The last chunk reaches the end of the range
+      if (end >= range.end) break;
+
+      // Move start back by about overlapTokens, at the chunk's own characters per token
+      const overlap = Math.floor((chunkText.length * overlapTokens) / Math.max(countTokens(chunkText), 1));
+      start = Math.max(start + 1, end - overlap);
+    }
+
+    return chunks;
+  }
+
+  private async extractTopics(extractedText: string): Promise<string[]> {
+    try {
+      console.log('🔍 Extracting topics from document content...');
+
+      // Reserve ~2000 tokens for the prompt, use ~8000 tokens for content
+      const contentForTopics = extractedText.slice(0, fitTokens(extractedText, 0, extractedText.length, 8000));
+
+      console.log(`📊 Topic extraction: ${contentForTopics.length} characters (${countTokens(contentForTopics)} tokens)`);
+
+      const prompt = `Extract 5-10 main topics from this document content. Return as a JSON array of topic strings.
+
+Document content (${contentForTopics.length} characters):
+${contentForTopics}${extractedText.length > contentForTopics.length ? '...' : ''}
+
+Return ONLY a JSON array like: ["Calculus", "Derivatives", "Integration"]`;
+
+      console.log(`📝 Prompt length: ${prompt.length} characters (${countTokens(prompt)} tokens)`);
+
+      const content = await this.model.complete({
+        messages: [{ role: 'user', content: prompt }]
+      });
+
+      const topics = extractJson(content);
+
+      console.log(`✅ Extracted topics: ${topics.join(', ')}`);
+
+      return Array.isArray(topics) ? topics : ['General'];
+    } catch (error) {
+      console.error('❌ Topic extraction failed:', error);
+      return ['General'];
+    }
+  }
+
+  private async analyzeDocument(extractedText: string): Promise<{
+    contentType: string;
+    difficultyLevel: string;
+    wordCount: number;
+  }> {
+    try {
+      console.log('📊 Analyzing document content...');
+
+      // Reserve ~1500 tokens for the prompt, use ~6000 tokens for content
+      const contentForAnalysis = extractedText.slice(0, fitTokens(extractedText, 0, extractedText.length, 6000));
+
+      console.log(`📊 Document analysis: ${contentForAnalysis.length} characters (${countTokens(contentForAnalysis)} tokens)`);
+
+      const prompt = `Analyze this document content and return JSON with:
+{
+  "contentType": "academic|technical|general|educational",
+  "difficultyLevel": "easy|medium|hard",
+  "wordCount": estimated_word_count
+}
+
+Document content (${contentForAnalysis.length} characters):
+${contentForAnalysis}${extractedText.length > contentForAnalysis.length ? '...' : ''}
+
+Return ONLY the JSON object.`;
+
+      console.log(`📝 Prompt length: ${prompt.length} characters (${countTokens(prompt)} tokens)`);
+
+      const content = await this.model.complete({
+        messages: [{ role: 'user', content: prompt }]
+      });
+
+      const analysis = extractJson(content);
+
+      console.log(`✅ Document analysis: ${analysis.contentType}, ${analysis.difficultyLevel}, ~${analysis.wordCount} words`);
+
+      return {
+        contentType: analysis.contentType || 'general',
+        difficultyLevel: analysis.difficultyLevel || 'medium',
+        wordCount: analysis.wordCount || countWords(extractedText)
+      };
+    } catch (error) {
+      console.error('❌ Document analysis failed:', error);
+      return {
+        contentType: 'general',
+        difficultyLevel: 'medium',
+        wordCount: countWords(extractedText)
+      };
+    }
+  }
+}
+
+// Single pipeline shared by the document and question routes
+export const documentPipeline = new DocumentPipeline();
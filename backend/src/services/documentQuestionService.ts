@@ -1,23 +1,27 @@
-import OpenAI from 'openai';
-import { getOpenAIClient } from '../config/openai';
-import pdfParse from 'pdf-parse';
-import mammoth from 'mammoth';
-import { Question, DifficultyLevel } from '../types/types';
-
-export interface DocumentAnalysis {
-  fileId: string;
-  filename: string;
-  topics: string[];
-  contentType: string;
-  difficultyLevel: string;
-  wordCount: number;
-  uploadedAt: Date;
-  extractedText: string;
+import { buildQuestionFormatInstructions, buildExclusionInstructions } from '../config/prompts';
+import { questionModelProvider, QuestionModelProvider } from './questionModelProvider';
+import { generateStructuredQuestions } from './structuredQuestionGenerator';
+import { countTokens, DocumentChunk, DocumentPipeline, TextRange } from './documentPipeline';
+import { AnswerVerificationMode, DocumentFile, DocumentStructure, DocumentTopicCount, Question, QuestionSource, QuestionType, DifficultyLevel } from '../types/types';
+import { normalizeQuestion, normalizeAnswerText, getQuestionType, DEFAULT_QUESTION_TYPES } from '../../../shared/questions';
+
+// One generation request: questions from one chunk, about one topic when topics were picked
+interface GenerationJob {
+  chunk: DocumentChunk;
+  count: number;
+  topic?: string;
 }
 
 export interface DocumentQuestionGenerationParams {
   difficulty: DifficultyLevel;
   count: number;
+  sections?: TextRange[]; // Parts of the document to quiz on (the whole document when missing)
+  structure?: DocumentStructure; // The document's sections: chunks end at section breaks and questions name their section
+  files?: DocumentFile[]; // The uploaded files: chunks stay within one file and questions are balanced across them
+  topics?: DocumentTopicCount[]; // Only ask about these topics, this many questions each (count is their total)
+  questionTypes?: QuestionType[]; // Defaults to single choice
+  excludeQuestions?: string[]; // Question texts not to repeat (single-question regeneration)
+  verifyAnswers?: AnswerVerificationMode; // Optional second model pass over the answer keys
 }
 
 export interface DocumentQuestionGenerationResponse {
@@ -27,235 +31,127 @@ export interface DocumentQuestionGenerationResponse {
 }
 
 export class DocumentQuestionService {
-  private openai: OpenAI;
-
-  constructor() {
-    const client = getOpenAIClient();
-    if (!client) {
-      throw new Error('OpenAI client not available');
+  constructor(
+    private readonly model: QuestionModelProvider = questionModelProvider,
+    private readonly pipeline: DocumentPipeline = new DocumentPipeline(model)
+  ) {}
+
+  /**
+   * Spread count questions in proportion to the weights (largest remainders get the rest)
+   */
+  private allocateQuestions(weights: number[], count: number): number[] {
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    const shares = weights.map((weight) => (count * weight) / total);
+    const allocation = shares.map(Math.floor);
+
+    let remaining = count - allocation.reduce((sum, n) => sum + n, 0);
+    const byRemainder = shares
+      .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+      .sort((a, b) => b.remainder - a.remainder);
+    for (const { index } of byRemainder) {
+      if (remaining === 0) break;
+      allocation[index]++;
+      remaining--;
     }
-    this.openai = client;
+    return allocation;
   }
 
-  // Rough token estimation (1 token ≈ 4 characters for English text)
-  private estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4);
-  }
-
-  // Get chunks of text that fit within token limits
-  private getTextChunks(text: string, maxTokens: number, overlap: number = 1000): string[] {
-    const chunks: string[] = [];
-    let start = 0;
-    
-    while (start < text.length) {
-      // Estimate how much text we can include
-      const estimatedChars = maxTokens * 4;
-      let end = Math.min(start + estimatedChars, text.length);
-      
-      // Adjust end to not break words
-      if (end < text.length) {
-        const lastSpace = text.lastIndexOf(' ', end);
-        if (lastSpace > start + estimatedChars * 0.8) { // Only break at space if we're getting most of our target
-          end = lastSpace;
-        }
+  /**
+   * Split the questions into per-chunk requests: by chunk length (evenly across the files first, when
+   * several were uploaded), or for each picked topic by how often the chunks mention it (by length when
+   * no chunk does)
+   */
+  private planJobs(chunks: DocumentChunk[], params: DocumentQuestionGenerationParams): GenerationJob[] {
+    const lengths = chunks.map((chunk) => chunk.text.length);
+    const toJobs = (allocation: number[], topic?: string): GenerationJob[] =>
+      chunks
+        .map((chunk) => ({ chunk, count: allocation[chunk.index], ...(topic ? { topic } : {}) }))
+        .filter((job) => job.count > 0);
+
+    if (!params.topics?.length) {
+      const fileIndexes = Array.from(new Set(chunks.map((chunk) => chunk.file)));
+      if (fileIndexes.length < 2) {
+        return toJobs(this.allocateQuestions(lengths, params.count));
       }
-      
-      chunks.push(text.substring(start, end));
-      
-      // Move start position with overlap
-      start = Math.max(start + 1, end - overlap);
-      
-      // Prevent infinite loop
-      if (start >= text.length) break;
-    }
-    
-    return chunks;
-  }
 
-  async uploadAndProcessDocument(file: Buffer, filename: string): Promise<DocumentAnalysis> {
-    try {
-      console.log(`📄 Processing document: ${filename} (${file.length} bytes)`);
-
-      // Extract text from document based on file type
-      const extractedText = await this.extractTextFromDocument(file, filename);
-      
-      if (!extractedText || extractedText.trim().length === 0) {
-        throw new Error('No text content could be extracted from the document');
-      }
-
-      console.log(`✅ Text extracted: ${extractedText.length} characters (~${this.estimateTokens(extractedText)} tokens)`);
-
-      // Generate a unique file ID for this session
-      const fileId = `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      // Extract topics and analyze document using the extracted text
-      const topics = await this.extractTopics(extractedText);
-      const analysis = await this.analyzeDocument(extractedText);
-
-      return {
-        fileId,
-        filename,
-        topics,
-        contentType: analysis.contentType,
-        difficultyLevel: analysis.difficultyLevel,
-        wordCount: analysis.wordCount,
-        uploadedAt: new Date(),
-        extractedText
-      };
-
-    } catch (error) {
-      console.error('❌ Document processing failed:', error);
-      throw new Error('Failed to process document');
+      // An equal share for each file, spread over its chunks by length
+      const perFile = this.allocateQuestions(fileIndexes.map(() => 1), params.count);
+      const allocation = chunks.map(() => 0);
+      fileIndexes.forEach((file, i) => {
+        const fileChunks = chunks.filter((chunk) => chunk.file === file);
+        this.allocateQuestions(fileChunks.map((chunk) => chunk.text.length), perFile[i])
+          .forEach((count, j) => { allocation[fileChunks[j].index] = count; });
+      });
+      return toJobs(allocation);
     }
-  }
 
-  private async extractTextFromDocument(file: Buffer, filename: string): Promise<string> {
-    const fileExtension = filename.split('.').pop()?.toLowerCase();
-
-    try {
-      switch (fileExtension) {
-        case 'pdf':
-          console.log('📄 Extracting text from PDF...');
-          const pdfData = await pdfParse(file);
-          return pdfData.text;
-
-        case 'docx':
-          console.log('📄 Extracting text from DOCX...');
-          const docxResult = await mammoth.extractRawText({ buffer: file });
-          return docxResult.value;
-
-        case 'txt':
-          console.log('📄 Extracting text from TXT...');
-          return file.toString('utf-8');
-
-        default:
-          throw new Error(`Unsupported file type: ${fileExtension}`);
-      }
-    } catch (error) {
-      console.error('❌ Text extraction failed:', error);
-      throw new Error(`Failed to extract text from ${fileExtension} file`);
-    }
+    const chunkTexts = chunks.map((chunk) => ` ${normalizeAnswerText(chunk.text)} `);
+    return params.topics.flatMap(({ topic, count }) => {
+      const words = normalizeAnswerText(topic).split(' ').filter((word) => word.length > 2);
+      const mentions = chunkTexts.map((text) => words.reduce((sum, word) => sum + text.split(` ${word}`).length - 1, 0));
+      const weights = mentions.some((n) => n > 0) ? mentions : lengths;
+      return toJobs(this.allocateQuestions(weights, count), topic);
+    });
   }
 
-  private async extractTopics(extractedText: string): Promise<string[]> {
-    try {
-      console.log('🔍 Extracting topics from document content...');
-
-      // Use token-based limits instead of character limits
-      // Reserve ~2000 tokens for the prompt, use ~8000 tokens for content
-      const maxContentTokens = 8000;
-      const maxContentChars = maxContentTokens * 4; // Rough estimate
-      
-      const contentForTopics = extractedText.substring(0, Math.min(maxContentChars, extractedText.length));
-      const estimatedTokens = this.estimateTokens(contentForTopics);
-      
-      console.log(`📊 Topic extraction: ${contentForTopics.length} characters (~${estimatedTokens} tokens)`);
-
-      const prompt = `Extract 5-10 main topics from this document content. Return as a JSON array of topic strings.
-
-Document content (${contentForTopics.length} characters):
-${contentForTopics}${extractedText.length > maxContentChars ? '...' : ''}
-
-Return ONLY a JSON array like: ["Calculus", "Derivatives", "Integration"]`;
-
-      console.log(`📝 Prompt length: ${prompt.length} characters (~${this.estimateTokens(prompt)} tokens)`);
-
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
-
-      const content = response.choices[0].message.content;
-      if (!content) {
-        throw new Error('No content in response');
-      }
-
-      // Clean the response and parse JSON
-      const cleanContent = content.replace(/```json\s*|\s*```/g, '').trim();
-      const topics = JSON.parse(cleanContent);
-      
-      console.log(`✅ Extracted topics: ${topics.join(', ')}`);
-
-      return Array.isArray(topics) ? topics : ['General'];
-    } catch (error) {
-      console.error('❌ Topic extraction failed:', error);
-      return ['General'];
-    }
+  /**
+   * Where a chunk sits in the document: the innermost section it starts in and, for multi-file
+   * uploads, its file. PDF text marks page ends with form feeds; pages are counted within the file.
+   */
+  private getChunkSource(text: string, job: GenerationJob, params: DocumentQuestionGenerationParams): QuestionSource {
+    const { chunk, topic } = job;
+    const file = chunk.file !== undefined ? params.files?.[chunk.file] : undefined;
+    const fileStart = file?.start ?? 0;
+    const pageAt = (offset: number) => (text.slice(fileStart, offset).match(/\f/g)?.length ?? 0) + 1;
+    const paged = text.slice(fileStart, file?.end ?? text.length).includes('\f');
+    const section = params.structure?.sections
+      .filter((candidate) => candidate.start <= chunk.start && chunk.start < candidate.end && candidate.title !== file?.filename)
+      .pop();
+
+    return {
+      chunk: chunk.index,
+      start: chunk.start,
+      end: chunk.end,
+      ...(paged ? { pages: [pageAt(chunk.start), pageAt(Math.max(chunk.start, chunk.end - 1))] as [number, number] } : {}),
+      ...(topic ? { topic } : {}),
+      ...(section ? { section: section.title } : {}),
+      ...(file && params.files!.length > 1 ? { file: file.filename } : {})
+    };
   }
 
-  private async analyzeDocument(extractedText: string): Promise<{
-    contentType: string;
-    difficultyLevel: string;
-    wordCount: number;
-  }> {
-    try {
-      console.log('📊 Analyzing document content...');
-
-      // Use token-based limits instead of character limits
-      // Reserve ~1500 tokens for the prompt, use ~6000 tokens for content
-      const maxContentTokens = 6000;
-      const maxContentChars = maxContentTokens * 4; // Rough estimate
-      
-      const contentForAnalysis = extractedText.substring(0, Math.min(maxContentChars, extractedText.length));
-      const estimatedTokens = this.estimateTokens(contentForAnalysis);
-      
-      console.log(`📊 Document analysis: ${contentForAnalysis.length} characters (~${estimatedTokens} tokens)`);
-
-      const prompt = `Analyze this document content and return JSON with:
-{
-  "contentType": "academic|technical|general|educational",
-  "difficultyLevel": "easy|medium|hard",
-  "wordCount": estimated_word_count
-}
-
-Document content (${contentForAnalysis.length} characters):
-${contentForAnalysis}${extractedText.length > maxContentChars ? '...' : ''}
+  /**
+   * Generation prompt for one chunk of the document
+   */
+  private buildGenerationPrompt(job: GenerationJob, chunkCount: number, params: DocumentQuestionGenerationParams, excludeQuestions: string[]): string {
+    const part = chunkCount > 1 ? ` (part ${job.chunk.index + 1} of ${chunkCount})` : '';
+    const topicRule = job.topic
+      ? `\n\nEvery question must be about the topic "${job.topic}" as covered in the content; ignore the parts about other topics.`
+      : '';
 
-Return ONLY the JSON object.`;
+    return `Generate ${job.count} quiz questions with ${params.difficulty} difficulty from this document content${part}:
 
-      console.log(`📝 Prompt length: ${prompt.length} characters (~${this.estimateTokens(prompt)} tokens)`);
+${job.chunk.text.replace(/\f/g, '\n')}${topicRule}
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
+Questions must be based STRICTLY on the content above. Do not use any external knowledge.
 
-      const content = response.choices[0].message.content;
-      if (!content) {
-        throw new Error('No content in response');
-      }
+Return ONLY a valid JSON object of the form {"questions": [...]}.
 
-      // Clean the response and parse JSON
-      const cleanContent = content.replace(/```json\s*|\s*```/g, '').trim();
-      const analysis = JSON.parse(cleanContent);
-      
-      console.log(`✅ Document analysis: ${analysis.contentType}, ${analysis.difficultyLevel}, ~${analysis.wordCount} words`);
+${buildQuestionFormatInstructions(params.questionTypes, { citations: true })}
 
-      return {
-        contentType: analysis.contentType || 'general',
-        difficultyLevel: analysis.difficultyLevel || 'medium',
-        wordCount: analysis.wordCount || extractedText.split(/\s+/).length
-      };
-    } catch (error) {
-      console.error('❌ Document analysis failed:', error);
-      return {
-        contentType: 'general',
-        difficultyLevel: 'medium',
-        wordCount: extractedText.split(/\s+/).length
-      };
-    }
+Requirements:
+- Option texts in correctOption/correctOptions must match the options exactly
+- Use appropriate time limits: easy=10-15s, medium=20-25s, hard=30-35s
+- Questions must be based STRICTLY on the provided content above
+- Ensure factual accuracy according to the provided content
+- Generate questions from various parts of the provided content${excludeQuestions.length ? `\n\n${buildExclusionInstructions(excludeQuestions)}` : ''}`;
   }
 
+  /**
+   * Generate questions across the whole document (or the chosen sections): the text is split into
+   * chunks and each chunk gets a share of the questions, proportional to its length or, when the
+   * host picked topics, to how much it covers each topic. Every question records the chunk (pages,
+   * topic) it came from, and requests that fall short are topped up from the other chunks.
+   */
   async generateQuestionsFromDocument(
     extractedText: string,
     params: DocumentQuestionGenerationParams
@@ -265,93 +161,94 @@ Return ONLY the JSON object.`;
 
       // Use token-based limits and chunking for large documents
       const maxContentTokens = 15000; // Much larger for question generation
-      const maxContentChars = maxContentTokens * 4; // Rough estimate
-      
-      let contentForQuestions: string;
-      
-      if (extractedText.length <= maxContentChars) {
-        // Document fits in one request
-        contentForQuestions = extractedText;
-        console.log(`📊 Single chunk: ${contentForQuestions.length} characters (~${this.estimateTokens(contentForQuestions)} tokens)`);
-      } else {
-        // Document is too large, use chunking
-        console.log(`📊 Document too large (${extractedText.length} chars), using chunking...`);
-        const chunks = this.getTextChunks(extractedText, maxContentTokens, 2000);
-        console.log(`📊 Using ${chunks.length} chunks for question generation`);
-        
-        // For now, use the first chunk. In the future, we could process multiple chunks
-        contentForQuestions = chunks[0];
-        console.log(`📊 Using first chunk: ${contentForQuestions.length} characters (~${this.estimateTokens(contentForQuestions)} tokens)`);
+      const chunks = this.pipeline.chunk(extractedText, {
+        maxTokens: maxContentTokens,
+        overlapTokens: 2000,
+        sections: params.sections,
+        structure: params.structure,
+        files: params.files
+      });
+      if (chunks.length === 0) {
+        throw new Error('The selected sections contain no text');
       }
 
-      const prompt = `Generate ${params.count} multiple choice questions with ${params.difficulty} difficulty from this document content:
-
-${contentForQuestions}${extractedText.length > maxContentChars ? '...' : ''}
-
-Questions must be based STRICTLY on the content above. Do not use any external knowledge.
-
-Return ONLY a valid JSON array with this exact format:
-[
-  {
-    "text": "Question text here?",
-    "options": ["Option A", "Option B", "Option C", "Option D"],
-    "correctOption": "Option A",
-    "timeLimit": 15
-  }
-]
-
-Requirements:
-- Each question must have exactly 4 options
-- correctOption must match one of the options exactly
-- Use appropriate time limits: easy=10-15s, medium=20-25s, hard=30-35s
-- Questions must be based STRICTLY on the provided content above
-- Ensure factual accuracy according to the provided content
-- Generate questions from various parts of the provided content`;
-
-      console.log(`📝 Prompt length: ${prompt.length} characters (~${this.estimateTokens(prompt)} tokens)`);
+      const jobs = this.planJobs(chunks, params);
+      console.log(`📊 ${chunks.length} chunk(s), ${jobs.length} generation request(s): ${jobs.map((job) => `${job.topic ?? 'chunk'} ${job.chunk.index + 1}: ${job.count}`).join(', ')}`);
+
+      // Validate questions against the rules for their type
+      const allowedTypes = params.questionTypes?.length ? params.questionTypes : DEFAULT_QUESTION_TYPES;
+      const defaultTimeLimit = { easy: 15, medium: 25, hard: 35 }[params.difficulty] || 20;
+      const check = (raw: any) => {
+        const { question, errors } = normalizeQuestion(raw, { timeLimit: defaultTimeLimit, difficulty: params.difficulty });
+        if (!question) return { errors };
+        if (!allowedTypes.includes(getQuestionType(question))) return { errors: [`type "${getQuestionType(question)}" was not requested`] };
+        return { question, errors: [] };
+      };
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
+      const questions: Question[] = [];
+      const succeeded: GenerationJob[] = [];
+      let lastError: unknown;
+
+      const runJob = async (job: GenerationJob): Promise<number> => {
+        // Questions from the other requests count as existing ones, so chunks do not repeat each other
+        const excludeQuestions = [...(params.excludeQuestions ?? []), ...questions.map((q) => q.text)];
+        const prompt = this.buildGenerationPrompt(job, chunks.length, params, excludeQuestions);
+        console.log(`📝 Chunk ${job.chunk.index + 1}/${chunks.length}${job.topic ? ` (${job.topic})` : ''}: ${job.count} question(s), prompt ${countTokens(prompt)} tokens`);
+
+        try {
+          const result = await generateStructuredQuestions(this.model, {
+            prompt,
+            count: job.count,
+            questionTypes: params.questionTypes,
+            citations: true,
+            existingQuestions: excludeQuestions,
+            verifyAnswers: params.verifyAnswers,
+            check
+          });
+          const source = this.getChunkSource(extractedText, job, params);
+          questions.push(...result.questions.map((question) => ({ ...question, source })));
+          succeeded.push(job);
+          return result.questions.length;
+        } catch (error) {
+          console.warn(`⚠️ No questions from chunk ${job.chunk.index + 1}:`, error instanceof Error ? error.message : error);
+          lastError = error;
+          return 0;
+        }
+      };
 
-      const content = response.choices[0].message.content;
-      if (!content) {
-        throw new Error('No content in response');
+      // Shortfall per topic (a single group without topics)
+      const shortfall = new Map<string | undefined, number>();
+      const shortJobs = new Set<GenerationJob>();
+      for (const job of jobs) {
+        const missing = job.count - (await runJob(job));
+        shortfall.set(job.topic, (shortfall.get(job.topic) ?? 0) + missing);
+        if (missing > 0) shortJobs.add(job);
       }
 
-      // Parse questions
-      let questions: any[];
-      try {
-        const cleanContent = content.replace(/```json\s*|\s*```/g, '').trim();
-        questions = JSON.parse(cleanContent);
-      } catch (parseError) {
-        console.error('❌ Failed to parse questions:', parseError);
-        throw new Error('Invalid question format received');
+      // Top up each shortfall from the requests of the same topic that worked: those from a file that
+      // fell short first, so multi-file quizzes stay balanced, then the largest
+      const fellShort = (job: GenerationJob) => Array.from(shortJobs).some((short) => short.chunk.file === job.chunk.file) ? 1 : 0;
+      for (const [topic, missing] of shortfall) {
+        let remaining = missing;
+        const spare = succeeded
+          .filter((job) => job.topic === topic)
+          .sort((a, b) => fellShort(b) - fellShort(a) || b.count - a.count);
+        for (const job of spare) {
+          if (remaining <= 0) break;
+          remaining -= await runJob({ ...job, count: remaining });
+        }
       }
 
-      // Validate questions
-      const validQuestions = questions.filter((q: any) => 
-        q.text && 
-        Array.isArray(q.options) && 
-        q.options.length === 4 && 
-        q.correctOption &&
-        q.options.includes(q.correctOption)
-      );
-
-      if (validQuestions.length === 0) {
-        throw new Error('No valid questions generated');
+      if (questions.length === 0) {
+        throw lastError instanceof Error ? lastError : new Error('No valid questions generated by the model');
       }
 
-      console.log(`✅ Generated ${validQuestions.length} questions successfully`);
+      // Keep the quiz in document order
+      const ordered = [...questions].sort((a, b) => (a.source?.start ?? 0) - (b.source?.start ?? 0));
+      console.log(`✅ Generated ${ordered.length} questions from ${new Set(succeeded.map((job) => job.chunk.index)).size} chunk(s)`);
 
       return {
-        questions: validQuestions.slice(0, params.count),
+        questions: ordered.slice(0, params.count),
         aiGenerated: true
       };
     } catch (error) {
@@ -363,9 +260,4 @@ Requirements:
       };
     }
   }
-
-  async cleanupFile(fileId: string): Promise<void> {
-    // No cleanup needed since we don't upload files to OpenAI
-    console.log(`🗑️ Cleanup not needed for file: ${fileId}`);
-  }
 } 
\ No newline at end of file
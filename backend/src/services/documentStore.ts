@@ -0,0 +1,71 @@
+import env from '../config/environment';
+import { DocumentAnalysis } from './documentPipeline';
+
+/**
+ * An uploaded document: its analysis, shown to the host, and its extracted text, which stays on the server
+ */
+export interface StoredDocument {
+  analysis: DocumentAnalysis;
+  ownerId: string; // Browser-generated id of the host who uploaded it
+  text: string;
+  expiresAt: Date;
+}
+
+/**
+ * Where uploaded documents are kept between upload and question generation, keyed by fileId.
+ * Documents expire after a time to live; expired documents are never returned.
+ */
+export interface DocumentStore {
+  save(document: Omit<StoredDocument, 'expiresAt'>): Promise<StoredDocument>;
+  get(fileId: string): Promise<StoredDocument | null>;
+  listByOwner(ownerId: string): Promise<StoredDocument[]>;
+  delete(fileId: string): Promise<void>;
+}
+
+/**
+ * Documents kept in process memory; nothing survives a restart.
+ * Expired documents are dropped whenever the store is used, so no timer keeps the process alive.
+ */
+export class InMemoryDocumentStore implements DocumentStore {
+  private documents = new Map<string, StoredDocument>();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async save(document: Omit<StoredDocument, 'expiresAt'>): Promise<StoredDocument> {
+    this.removeExpired();
+    const stored = { ...document, expiresAt: new Date(this.now() + this.ttlMs) };
+    this.documents.set(document.analysis.fileId, stored);
+    return stored;
+  }
+
+  async get(fileId: string): Promise<StoredDocument | null> {
+    this.removeExpired();
+    return this.documents.get(fileId) ?? null;
+  }
+
+  async listByOwner(ownerId: string): Promise<StoredDocument[]> {
+    this.removeExpired();
+    return Array.from(this.documents.values())
+      .filter((document) => document.ownerId === ownerId)
+      .sort((a, b) => b.analysis.uploadedAt.getTime() - a.analysis.uploadedAt.getTime());
+  }
+
+  async delete(fileId: string): Promise<void> {
+    this.documents.delete(fileId);
+  }
+
+  private removeExpired(): void {
+    const now = this.now();
+    for (const [fileId, document] of this.documents) {
+      if (document.expiresAt.getTime() <= now) {
+        this.documents.delete(fileId);
+      }
+    }
+  }
+}
+
+// Single store shared by the document and question routes
+export const documentStore = new InMemoryDocumentStore(env.documentTtlMinutes * 60 * 1000);
@@ -0,0 +1,550 @@
+import { Server as SocketServer } from 'socket.io';
+import { roomRepository, PlayerChanges } from './roomRepository';
+import { Room, Player, Answer, AnswerValue, GameState, GameIntent, SubmitAnswerResponse } from '../types/types';
+import { scoreAnswer, getAnswerHistory, getPlayerStreak, gradeAnswer, ANSWER_GRACE_PERIOD_MS, WAGER_OPTIONS } from '../../../shared/scoring';
+import { isValidResponse, formatResponse, formatCorrectAnswer } from '../../../shared/questions';
+
+/**
+ * Phase durations used by the game loop (milliseconds)
+ */
+export const GAME_TIMING = {
+  revealDuration: 8000, // How long the correct answer is shown before the scoreboard
+  scoreboardDuration: 7000, // How long the scoreboard is shown before the next question
+} as const;
+
+/**
+ * Error raised when an intent or transition is not allowed in the current state
+ */
+export class GameEngineError extends Error {
+  public code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'GameEngineError';
+    this.code = code;
+  }
+}
+
+type PhaseKey = Pick<GameState, 'phase'> & { questionIndex: number };
+
+/**
+ * Server-authoritative game loop.
+ *
+ * Owns every phase transition (answering -> showing-answer -> showing-scoreboard -> next question)
+ * for active rooms. Deadlines are persisted in the room's gameState so a restarted server can
+ * pick the loop back up, and every transition is broadcast to the room over Socket.io.
+ * Hosts only send intents (advance / pause / resume) and players submit answers through
+ * submitAnswer; clients never write gameState, answers or scores.
+ */
+export class GameEngine {
+  private io: SocketServer | null = null;
+  private timers = new Map<string, NodeJS.Timeout>(); // roomId -> pending deadline
+  private roomQueues = new Map<string, Promise<unknown>>(); // roomId -> in-flight transition
+
+  /**
+   * Attach the Socket.io server used for broadcasts
+   */
+  attach(io: SocketServer): void {
+    this.io = io;
+  }
+
+  /**
+   * Send an event to every socket in the room (also used for question generation progress)
+   */
+  broadcast(roomId: string, event: string, payload: Record<string, unknown>): void {
+    this.io?.to(roomId).emit(event, {
+      roomId,
+      ...payload,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Start the game loop for a room that is ready to play
+   */
+  async startGame(roomId: string): Promise<GameState> {
+    return this.runExclusive(roomId, async () => {
+      const room = await this.loadRoom(roomId);
+      if (!room) {
+        throw new GameEngineError('Room not found', 'ROOM_NOT_FOUND');
+      }
+      // Checked again inside the lock so two start requests cannot both start the loop
+      if (room.status !== 'waiting') {
+        throw new GameEngineError('Game can only be started from waiting state', 'INVALID_ROOM_STATE');
+      }
+      if (!room.questions?.length) {
+        throw new GameEngineError('Room has no questions', 'NO_QUESTIONS_AVAILABLE');
+      }
+
+      const now = Date.now();
+      const gameState = this.buildAnsweringState(room, 0, now);
+
+      await roomRepository.updateRoom(roomId, {
+        status: 'active',
+        startedAt: now,
+        currentQuestionIndex: 0,
+        gameState
+      });
+
+      console.log(`🎮 Game loop started for room ${roomId} (${room.questions.length} questions)`);
+
+      this.enterPhase(roomId, 0, gameState);
+      this.broadcast(roomId, 'next-question', {
+        questionIndex: 0,
+        question: room.questions[0],
+        gameState
+      });
+
+      return gameState;
+    });
+  }
+
+  /**
+   * Apply a host intent to the room's game loop
+   */
+  async handleIntent(roomId: string, intent: GameIntent): Promise<GameState | null> {
+    return this.runExclusive(roomId, async () => {
+      const room = await this.loadRoom(roomId);
+      if (!room) {
+        throw new GameEngineError('Room not found', 'ROOM_NOT_FOUND');
+      }
+      if (room.status !== 'active' || !room.gameState) {
+        throw new GameEngineError('Game is not in progress', 'INVALID_ROOM_STATE');
+      }
+
+      console.log(`🎮 Host intent "${intent}" in room ${roomId} (phase: ${room.gameState.phase})`);
+
+      switch (intent) {
+        case 'advance':
+          if (room.gameState.pausedAt) {
+            throw new GameEngineError('Resume the game before advancing', 'GAME_PAUSED');
+          }
+          return this.advance(roomId, room);
+        case 'pause':
+          return this.pause(roomId, room);
+        case 'resume':
+          return this.resume(roomId, room);
+        default:
+          throw new GameEngineError(`Unknown intent: ${intent}`, 'INVALID_INTENT');
+      }
+    });
+  }
+
+  /**
+   * Validate, score and record a player's answer for the current question.
+   * Ends the question early once every player has answered.
+   */
+  async submitAnswer(
+    roomId: string,
+    playerId: string,
+    questionIndex: number,
+    response: AnswerValue,
+    wager?: number
+  ): Promise<SubmitAnswerResponse> {
+    return this.runExclusive(roomId, async () => {
+      const now = Date.now();
+      const room = await this.loadRoom(roomId);
+      if (!room) {
+        throw new GameEngineError('Room not found', 'ROOM_NOT_FOUND');
+      }
+
+      const player = room.players?.[playerId];
+      if (!player) {
+        throw new GameEngineError('Player not found in room', 'PLAYER_NOT_FOUND');
+      }
+
+      const gameState = room.gameState;
+      if (room.status !== 'active' || !gameState) {
+        throw new GameEngineError('Game is not in progress', 'INVALID_ROOM_STATE');
+      }
+
+      if (questionIndex !== room.currentQuestionIndex) {
+        throw new GameEngineError('Invalid question index', 'INVALID_QUESTION');
+      }
+
+      if (gameState.phase !== 'answering') {
+        throw new GameEngineError('Answers are closed for this question', 'ANSWERS_CLOSED');
+      }
+
+      if (gameState.pausedAt) {
+        throw new GameEngineError('Game is paused', 'GAME_PAUSED');
+      }
+
+      if (gameState.questionEndTime && now > gameState.questionEndTime + ANSWER_GRACE_PERIOD_MS) {
+        throw new GameEngineError('Time is up for this question', 'DEADLINE_PASSED');
+      }
+
+      if (player.answers?.[questionIndex]) {
+        throw new GameEngineError('Answer already submitted for this question', 'ALREADY_ANSWERED');
+      }
+
+      const question = room.questions[questionIndex];
+      if (!isValidResponse(question, response)) {
+        throw new GameEngineError('Response does not fit this question', 'INVALID_RESPONSE');
+      }
+
+      const isWagerRoom = room.scoringStrategy === 'wager';
+      if (isWagerRoom && !WAGER_OPTIONS.includes(wager as typeof WAGER_OPTIONS[number])) {
+        throw new GameEngineError(`Wager must be one of: ${WAGER_OPTIONS.join(', ')}`, 'INVALID_WAGER');
+      }
+
+      // Time is measured on the server; clamp to the limit for answers inside the grace period
+      const timeToAnswer = Math.min(now - gameState.questionStartTime, question.timeLimit * 1000);
+      const { isCorrect, credit } = gradeAnswer(question, response);
+      const { scoreEarned, scoreBreakdown } = scoreAnswer(room.scoringStrategy, {
+        answer: { isCorrect, credit, timeToAnswer, wager: isWagerRoom ? wager : undefined },
+        question,
+        history: getAnswerHistory(player.answers, questionIndex),
+        combo: room.combo
+      });
+      const newTotalScore = (player.score || 0) + scoreEarned;
+
+      const answer: Answer = {
+        option: formatResponse(question, response),
+        response,
+        isCorrect,
+        credit,
+        timeToAnswer,
+        scoreEarned,
+        scoreBreakdown,
+        ...(isWagerRoom ? { wager } : {})
+      };
+      const answers = { ...(player.answers || {}), [questionIndex]: answer };
+      const streak = getPlayerStreak(answers, questionIndex);
+
+      await roomRepository.recordAnswer(roomId, playerId, questionIndex, answer, newTotalScore, streak);
+
+      console.log(`📝 Answer recorded for player ${playerId} in room ${roomId}: ${isCorrect ? 'Correct' : credit > 0 ? `Partially correct (${credit})` : 'Incorrect'} (+${scoreEarned} points)`);
+
+      this.broadcast(roomId, 'player-answered', {
+        playerId,
+        nickname: player.nickname,
+        questionIndex
+      });
+
+      // Record the answer locally so the all-answered check sees it
+      room.players[playerId] = { ...player, score: newTotalScore, streak, answers };
+
+      if (this.haveAllPlayersAnswered(room, questionIndex)) {
+        console.log(`✅ All players answered question ${questionIndex} in room ${roomId}`);
+        this.broadcast(roomId, 'all-players-answered', { questionIndex });
+        await this.advance(roomId, room);
+      }
+
+      return {
+        success: true,
+        isCorrect,
+        credit,
+        scoreEarned,
+        newTotalScore,
+        scoreBreakdown,
+        streak
+      };
+    });
+  }
+
+  /**
+   * Stop tracking a room (deleted or abandoned)
+   */
+  stopGame(roomId: string): void {
+    this.clearTimer(roomId);
+  }
+
+  /**
+   * Cancel every pending deadline (server shutdown)
+   */
+  stopAll(): void {
+    for (const roomId of Array.from(this.timers.keys())) {
+      this.clearTimer(roomId);
+    }
+  }
+
+  /**
+   * Reschedule deadlines for games that were active when the server last stopped
+   */
+  async recoverActiveGames(): Promise<void> {
+    try {
+      const rooms = await roomRepository.listRooms({ status: 'active' });
+      let recovered = 0;
+
+      for (const room of rooms) {
+        if (!room.gameState) continue;
+        this.enterPhase(room.id, room.currentQuestionIndex, room.gameState);
+        recovered++;
+      }
+
+      console.log(`🔄 Recovered ${recovered} active game${recovered === 1 ? '' : 's'}`);
+    } catch (error: any) {
+      console.error('❌ Failed to recover active games:', error);
+    }
+  }
+
+  /**
+   * Move the room to the next phase
+   */
+  private async advance(roomId: string, room: Room): Promise<GameState | null> {
+    const now = Date.now();
+    const current = room.gameState!;
+    const questionIndex = room.currentQuestionIndex;
+
+    switch (current.phase) {
+      case 'answering': {
+        const gameState: GameState = {
+          phase: 'showing-answer',
+          questionStartTime: current.questionStartTime,
+          questionEndTime: Math.min(now, current.questionEndTime ?? now),
+          allPlayersAnswered: this.haveAllPlayersAnswered(room, questionIndex),
+          resultsShownAt: now,
+          autoAdvanceAt: now + GAME_TIMING.revealDuration
+        };
+        await roomRepository.updateRoom(roomId, { gameState }, this.buildStreakResets(room, questionIndex));
+
+        console.log(`⏱️ Question ${questionIndex} ended in room ${roomId}`);
+
+        this.enterPhase(roomId, questionIndex, gameState);
+        this.broadcast(roomId, 'show-results', {
+          questionIndex,
+          correctAnswer: formatCorrectAnswer(room.questions[questionIndex]),
+          gameState
+        });
+        return gameState;
+      }
+
+      case 'showing-answer': {
+        const gameState: GameState = {
+          ...this.stripTransientFields(current),
+          phase: 'showing-scoreboard',
+          autoAdvanceAt: now + GAME_TIMING.scoreboardDuration
+        };
+        await roomRepository.setGameState(roomId, gameState);
+
+        this.enterPhase(roomId, questionIndex, gameState);
+        this.broadcast(roomId, 'game-state-updated', { questionIndex, gameState });
+        return gameState;
+      }
+
+      default: {
+        const nextIndex = questionIndex + 1;
+        if (nextIndex >= room.questions.length) {
+          await this.finish(roomId, room);
+          return null;
+        }
+
+        const gameState = this.buildAnsweringState(room, nextIndex, now);
+        await roomRepository.updateRoom(roomId, {
+          currentQuestionIndex: nextIndex,
+          gameState
+        });
+
+        console.log(`➡️ Advanced to question ${nextIndex} in room ${roomId}`);
+
+        this.enterPhase(roomId, nextIndex, gameState);
+        this.broadcast(roomId, 'next-question', {
+          questionIndex: nextIndex,
+          question: room.questions[nextIndex],
+          gameState
+        });
+        return gameState;
+      }
+    }
+  }
+
+  /**
+   * Freeze the current deadline
+   */
+  private async pause(roomId: string, room: Room): Promise<GameState> {
+    const current = room.gameState!;
+    if (current.pausedAt) {
+      throw new GameEngineError('Game is already paused', 'GAME_PAUSED');
+    }
+
+    const now = Date.now();
+    const deadline = this.getDeadline(current);
+    const gameState: GameState = {
+      ...current,
+      pausedAt: now,
+      remainingMs: deadline ? Math.max(0, deadline - now) : 0
+    };
+    await roomRepository.setGameState(roomId, gameState);
+
+    this.stopGame(roomId);
+    this.broadcast(roomId, 'game-state-updated', { questionIndex: room.currentQuestionIndex, gameState });
+
+    console.log(`⏸️ Game paused in room ${roomId} (${gameState.remainingMs}ms remaining)`);
+    return gameState;
+  }
+
+  /**
+   * Restart the deadline that was frozen by pause
+   */
+  private async resume(roomId: string, room: Room): Promise<GameState> {
+    const current = room.gameState!;
+    if (!current.pausedAt) {
+      throw new GameEngineError('Game is not paused', 'GAME_NOT_PAUSED');
+    }
+
+    const now = Date.now();
+    const remainingMs = current.remainingMs ?? 0;
+    const gameState: GameState = this.stripTransientFields(current);
+
+    if (gameState.phase === 'answering') {
+      // Shift the start time as well so answer times exclude the pause
+      gameState.questionStartTime += now - current.pausedAt;
+      gameState.questionEndTime = now + remainingMs;
+    } else {
+      gameState.autoAdvanceAt = now + remainingMs;
+    }
+    await roomRepository.setGameState(roomId, gameState);
+
+    this.enterPhase(roomId, room.currentQuestionIndex, gameState);
+    this.broadcast(roomId, 'game-state-updated', { questionIndex: room.currentQuestionIndex, gameState });
+
+    console.log(`▶️ Game resumed in room ${roomId}`);
+    return gameState;
+  }
+
+  /**
+   * Mark the game finished and send final results
+   */
+  private async finish(roomId: string, room: Room): Promise<void> {
+    await roomRepository.updateRoom(roomId, {
+      status: 'finished',
+      finishedAt: Date.now(),
+      isGameComplete: true
+    });
+
+    this.stopGame(roomId);
+
+    const finalResults = Object.values(room.players || {}).map((player: Player) => ({
+      playerId: player.id,
+      nickname: player.nickname,
+      finalScore: player.score,
+      answers: player.answers
+    })).sort((a, b) => b.finalScore - a.finalScore);
+
+    this.broadcast(roomId, 'game-ended', {
+      finalResults,
+      winner: finalResults[0]
+    });
+
+    console.log(`🏁 Game ended in room ${roomId}. Winner: ${finalResults[0]?.nickname}`);
+  }
+
+  /**
+   * Schedule the deadline for the current phase
+   */
+  private enterPhase(roomId: string, questionIndex: number, gameState: GameState): void {
+    this.stopGame(roomId);
+    if (gameState.pausedAt) return;
+
+    const expected: PhaseKey = { phase: gameState.phase, questionIndex };
+    const deadline = this.getAdvanceTime(gameState);
+    if (deadline !== undefined) {
+      const timer = setTimeout(() => {
+        this.timers.delete(roomId);
+        this.advanceIfCurrent(roomId, expected);
+      }, Math.max(0, deadline - Date.now()));
+      this.timers.set(roomId, timer);
+    }
+  }
+
+  /**
+   * Advance only if the room is still in the phase the trigger was armed for
+   */
+  private advanceIfCurrent(roomId: string, expected: PhaseKey): void {
+    this.runExclusive(roomId, async () => {
+      const room = await this.loadRoom(roomId);
+      if (!room || room.status !== 'active' || !room.gameState) {
+        this.stopGame(roomId);
+        return;
+      }
+      if (room.gameState.pausedAt ||
+          room.gameState.phase !== expected.phase ||
+          room.currentQuestionIndex !== expected.questionIndex) {
+        return;
+      }
+      await this.advance(roomId, room);
+    }).catch((error: any) => {
+      console.error(`❌ Failed to advance game in room ${roomId}:`, error);
+    });
+  }
+
+  private clearTimer(roomId: string): void {
+    const timer = this.timers.get(roomId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(roomId);
+    }
+  }
+
+  /**
+   * Serialize transitions per room so timers and host intents cannot race
+   */
+  private runExclusive<T>(roomId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.roomQueues.get(roomId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.roomQueues.set(roomId, next);
+    next.catch(() => undefined).finally(() => {
+      if (this.roomQueues.get(roomId) === next) {
+        this.roomQueues.delete(roomId);
+      }
+    });
+    return next;
+  }
+
+  private loadRoom(roomId: string): Promise<Room | null> {
+    return roomRepository.getRoom(roomId);
+  }
+
+  private buildAnsweringState(room: Room, questionIndex: number, now: number): GameState {
+    const question = room.questions[questionIndex];
+    return {
+      phase: 'answering',
+      questionStartTime: now,
+      questionEndTime: now + question.timeLimit * 1000,
+      allPlayersAnswered: false
+    };
+  }
+
+  private getDeadline(gameState: GameState): number | undefined {
+    return gameState.phase === 'answering' ? gameState.questionEndTime : gameState.autoAdvanceAt;
+  }
+
+  /**
+   * Answering closes after the grace period, so answers sent just before the deadline still land
+   */
+  private getAdvanceTime(gameState: GameState): number | undefined {
+    const deadline = this.getDeadline(gameState);
+    if (deadline === undefined || gameState.phase !== 'answering') return deadline;
+    return deadline + ANSWER_GRACE_PERIOD_MS;
+  }
+
+  /**
+   * Players who let a question run out lose their streak
+   */
+  private buildStreakResets(room: Room, questionIndex: number): PlayerChanges {
+    const resets: PlayerChanges = {};
+    for (const [playerId, player] of Object.entries(room.players || {})) {
+      if (!player.answers?.[questionIndex] && player.streak) {
+        resets[playerId] = { streak: 0 };
+      }
+    }
+    return resets;
+  }
+
+  private haveAllPlayersAnswered(room: Room, questionIndex: number): boolean {
+    const players = Object.values(room.players || {});
+    return players.length > 0 && players.every(player => player.answers?.[questionIndex]);
+  }
+
+  /**
+   * Drop pause bookkeeping (Firebase rejects undefined values, so omit the keys entirely)
+   */
+  private stripTransientFields(gameState: GameState): GameState {
+    const { pausedAt, remainingMs, ...rest } = gameState;
+    return rest;
+  }
+}
+
+// Single engine instance shared by the HTTP routes and socket handlers
+export const gameEngine = new GameEngine();
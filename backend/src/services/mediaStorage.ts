@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import env from '../config/environment';
+import { QuestionMedia } from '../types/types';
+
+/**
+ * File types accepted for question media, by MIME type
+ */
+export const MEDIA_TYPES: Record<string, { type: QuestionMedia['type']; extension: string }> = {
+  'image/png': { type: 'image', extension: '.png' },
+  'image/jpeg': { type: 'image', extension: '.jpg' },
+  'image/gif': { type: 'image', extension: '.gif' },
+  'image/webp': { type: 'image', extension: '.webp' },
+  'audio/mpeg': { type: 'audio', extension: '.mp3' },
+  'audio/ogg': { type: 'audio', extension: '.ogg' },
+  'audio/wav': { type: 'audio', extension: '.wav' },
+  'audio/webm': { type: 'audio', extension: '.webm' },
+  'audio/mp4': { type: 'audio', extension: '.m4a' }
+};
+
+export interface StoredMedia {
+  id: string;
+  type: QuestionMedia['type'];
+  url: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Where uploaded question media lives. Implementations return the url players load the file from.
+ */
+export interface MediaStorage {
+  save(buffer: Buffer, mimeType: string): Promise<StoredMedia>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Stores media on the local filesystem; the server exposes the directory under publicPath
+ */
+export class LocalMediaStorage implements MediaStorage {
+  constructor(
+    public readonly directory: string,
+    public readonly publicPath: string = '/media'
+  ) {}
+
+  async save(buffer: Buffer, mimeType: string): Promise<StoredMedia> {
+    const mediaType = MEDIA_TYPES[mimeType];
+    if (!mediaType) {
+      throw new Error(`Unsupported media type: ${mimeType}`);
+    }
+
+    const id = `${randomUUID()}${mediaType.extension}`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, id), buffer);
+
+    return {
+      id,
+      type: mediaType.type,
+      url: `${this.publicPath}/${id}`,
+      mimeType,
+      size: buffer.length
+    };
+  }
+
+  async delete(id: string): Promise<void> {
+    // Ids are generated file names; refuse anything that could leave the directory
+    if (path.basename(id) !== id) {
+      throw new Error(`Invalid media id: ${id}`);
+    }
+    await fs.rm(path.join(this.directory, id), { force: true });
+  }
+}
+
+export const mediaStorage = new LocalMediaStorage(env.mediaDir);
@@ -0,0 +1,222 @@
+import { createHash } from 'crypto';
+import { db } from '../config/firebase';
+import env from '../config/environment';
+import { QUESTION_PROMPT_VERSION } from '../config/prompts';
+import { DifficultyLevel, Question } from '../types/types';
+import { normalizeAnswerText } from '../../../shared/questions';
+
+/**
+ * What cached questions were generated for: questions are only reused for the same key
+ */
+export interface QuestionCacheKey {
+  topic: string; // Normalized: case, accents and punctuation do not matter
+  difficulty: DifficultyLevel;
+  language: string; // Language code, or "auto" when the questions follow the topic's language
+  promptVersion: number;
+}
+
+export interface QuestionCacheStats {
+  kind: QuestionCacheStore['kind'];
+  reuse: number;
+  hits: number; // Lookups that served at least one cached question
+  misses: number;
+  hitRate: number;
+  questionsServed: number;
+  questionsStored: number;
+}
+
+// Questions kept per key; the oldest are dropped beyond it
+const MAX_QUESTIONS_PER_KEY = 200;
+
+export const questionCacheKey = (topic: string, difficulty: DifficultyLevel, language?: string): QuestionCacheKey => ({
+  topic: normalizeAnswerText(topic),
+  difficulty,
+  language: language?.toLowerCase() ?? 'auto',
+  promptVersion: QUESTION_PROMPT_VERSION
+});
+
+/**
+ * Where cached questions are kept, per key
+ */
+export interface QuestionCacheStore {
+  readonly kind: 'firebase' | 'memory';
+  getQuestions(key: QuestionCacheKey): Promise<Question[]>;
+  addQuestions(key: QuestionCacheKey, questions: Question[]): Promise<void>;
+  invalidate(topic?: string): Promise<number>; // Removes the normalized topic's keys (every key when missing); returns how many
+}
+
+type FirebaseDatabase = NonNullable<typeof db>;
+
+const entryId = (key: QuestionCacheKey): string =>
+  createHash('sha256').update(JSON.stringify([key.topic, key.difficulty, key.language, key.promptVersion])).digest('hex').slice(0, 32);
+
+/**
+ * Cached questions stored under questionCache/<entryId> in the Firebase Realtime Database, so they
+ * survive restarts and are shared by every backend instance
+ */
+export class FirebaseQuestionCacheStore implements QuestionCacheStore {
+  readonly kind = 'firebase';
+
+  constructor(private readonly database: FirebaseDatabase) {}
+
+  async getQuestions(key: QuestionCacheKey): Promise<Question[]> {
+    const snapshot = await this.database.ref(`questionCache/${entryId(key)}/questions`).once('value');
+    return (snapshot.val() as Question[] | null) ?? [];
+  }
+
+  async addQuestions(key: QuestionCacheKey, questions: Question[]): Promise<void> {
+    // Firebase rejects undefined values
+    const added = JSON.parse(JSON.stringify(questions)) as Question[];
+    await this.database.ref(`questionCache/${entryId(key)}`).transaction((entry: { questions?: Question[] } | null) => ({
+      ...key,
+      questions: [...(entry?.questions ?? []), ...added].slice(-MAX_QUESTIONS_PER_KEY),
+      updatedAt: Date.now()
+    }));
+  }
+
+  async invalidate(topic?: string): Promise<number> {
+    const ref = this.database.ref('questionCache');
+    const snapshot = await (topic !== undefined ? ref.orderByChild('topic').equalTo(topic) : ref).once('value');
+    const ids = Object.keys(snapshot.val() || {});
+    if (ids.length > 0) {
+      await ref.update(Object.fromEntries(ids.map((id) => [id, null])));
+    }
+    return ids.length;
+  }
+}
+
+/**
+ * Cached questions kept in process memory; nothing survives a restart
+ */
+export class InMemoryQuestionCacheStore implements QuestionCacheStore {
+  readonly kind = 'memory';
+  private entries = new Map<string, { key: QuestionCacheKey; questions: Question[] }>();
+
+  async getQuestions(key: QuestionCacheKey): Promise<Question[]> {
+    return [...(this.entries.get(entryId(key))?.questions ?? [])];
+  }
+
+  async addQuestions(key: QuestionCacheKey, questions: Question[]): Promise<void> {
+    const existing = this.entries.get(entryId(key))?.questions ?? [];
+    this.entries.set(entryId(key), { key, questions: [...existing, ...questions].slice(-MAX_QUESTIONS_PER_KEY) });
+  }
+
+  async invalidate(topic?: string): Promise<number> {
+    let removed = 0;
+    for (const [id, entry] of this.entries) {
+      if (topic === undefined || entry.key.topic === topic) {
+        this.entries.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * Generated topic questions kept for reuse, so popular topics do not pay for a full generation
+ * every time. Up to the reuse share of a request is served from the cache, picked at random;
+ * the rest is generated fresh and added to the cache. Cache failures never fail a generation.
+ */
+export class QuestionCache {
+  private hits = 0;
+  private misses = 0;
+  private questionsServed = 0;
+  private questionsStored = 0;
+
+  constructor(
+    private readonly store: QuestionCacheStore,
+    readonly reuse: number,
+    private readonly random: () => number = Math.random
+  ) {}
+
+  /**
+   * Up to count cached questions for the key that pass accept, in random order
+   */
+  async take(key: QuestionCacheKey, count: number, accept: (question: Question) => boolean = () => true): Promise<Question[]> {
+    if (count <= 0) return [];
+
+    let candidates: Question[];
+    try {
+      candidates = (await this.store.getQuestions(key)).filter(accept);
+    } catch (error) {
+      console.warn('⚠️ Question cache lookup failed:', error instanceof Error ? error.message : error);
+      return [];
+    }
+
+    // Partial Fisher-Yates shuffle: only the picked questions need to be random
+    const picked = Math.min(count, candidates.length);
+    for (let i = 0; i < picked; i++) {
+      const j = i + Math.floor(this.random() * (candidates.length - i));
+      [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
+    }
+
+    if (picked > 0) {
+      this.hits++;
+      this.questionsServed += picked;
+      console.log(`♻️ Served ${picked} cached question(s) about "${key.topic}"`);
+    } else {
+      this.misses++;
+    }
+    return candidates.slice(0, picked);
+  }
+
+  /**
+   * Add freshly generated questions for the key
+   */
+  async add(key: QuestionCacheKey, questions: Question[]): Promise<void> {
+    if (questions.length === 0) return;
+    try {
+      await this.store.addQuestions(key, questions);
+      this.questionsStored += questions.length;
+    } catch (error) {
+      console.warn('⚠️ Question cache update failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Forget the cached questions for a topic (any difficulty, language or prompt version), or all of them
+   */
+  async invalidate(topic?: string): Promise<number> {
+    const removed = await this.store.invalidate(topic !== undefined ? normalizeAnswerText(topic) : undefined);
+    console.log(`🗑️ Question cache invalidated${topic !== undefined ? ` for "${topic}"` : ''}: ${removed} key(s) removed`);
+    return removed;
+  }
+
+  getStats(): QuestionCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      kind: this.store.kind,
+      reuse: this.reuse,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      questionsServed: this.questionsServed,
+      questionsStored: this.questionsStored
+    };
+  }
+}
+
+/**
+ * Pick the store from QUESTION_CACHE; without it, Firebase when rooms are stored there, otherwise memory.
+ * QUESTION_CACHE=off turns caching off.
+ */
+const createQuestionCache = (): QuestionCache | null => {
+  if (env.questionCache === 'off') {
+    console.log('🧊 Question cache is off');
+    return null;
+  }
+
+  const useFirebase = env.questionCache === 'firebase' || (env.questionCache === undefined && env.roomStore !== 'memory');
+  if (useFirebase && db) {
+    return new QuestionCache(new FirebaseQuestionCacheStore(db), env.questionCacheReuse);
+  }
+
+  if (env.questionCache === 'firebase') {
+    console.warn('⚠️ QUESTION_CACHE=firebase but Firebase is not initialized, caching questions in memory');
+  }
+  return new QuestionCache(new InMemoryQuestionCacheStore(), env.questionCacheReuse);
+};
+
+// Single cache shared by the question and room routes
+export const questionCache = createQuestionCache();
@@ -0,0 +1,209 @@
+import { QuestionModelProvider } from './questionModelProvider';
+import { Question } from '../types/types';
+import { formatCorrectAnswer, normalizeAnswerText } from '../../../shared/questions';
+
+/**
+ * Similarity thresholds (0-1) above which two questions count as the same question
+ */
+export const DEDUP_CONFIG = {
+  textSimilarity: 0.8, // Same key words, however the question is phrased
+  sameAnswerTextSimilarity: 0.75, // Same correct answer, most key words shared...
+  sameAnswerOptionSimilarity: 0.5, // ...and, for choice questions, mostly the same options
+  embeddingSimilarity: 0.92 // Cosine similarity of the question embeddings
+} as const;
+
+// Words that only phrase a question; what remains tells questions apart
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'in', 'on', 'at', 'to', 'for', 'by', 'with', 'from', 'as', 'and', 'or',
+  'is', 'are', 'was', 'were', 'be', 'been', 'do', 'does', 'did', 'has', 'have', 'had', 'it', 'its',
+  'this', 'that', 'these', 'those', 'which', 'what', 'who', 'whom', 'whose', 'when', 'where', 'how',
+  'following', 'called', 'known', 'name', 'named', 's'
+]);
+
+type DuplicateReason = 'text' | 'answer' | 'embedding';
+
+export interface DuplicateMatch {
+  reason: DuplicateReason;
+  duplicateOf: string; // Text of the question it repeats
+}
+
+interface Entry {
+  text: string;
+  words: Set<string>; // Key words of the text
+  answer?: string; // Normalized correct answer (generated questions other than true/false)
+  options?: Set<string>;
+  embedding?: number[];
+}
+
+const toWords = (text: string): Set<string> => {
+  const words = normalizeAnswerText(text).split(' ').filter(Boolean);
+  const keyWords = words.filter((word) => !FILLER_WORDS.has(word));
+  return new Set(keyWords.length > 0 ? keyWords : words);
+};
+
+const countShared = (a: Set<string>, b: Set<string>): number => {
+  let shared = 0;
+  a.forEach((item) => {
+    if (b.has(item)) shared++;
+  });
+  return shared;
+};
+
+/**
+ * Share of items two sets have in common (Jaccard index)
+ */
+export const setSimilarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 1;
+  const shared = countShared(a, b);
+  return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Key-word overlap of two question texts, ignoring case, accents, punctuation and filler words
+ */
+export const textSimilarity = (a: string, b: string): number => setSimilarity(toWords(a), toWords(b));
+
+/**
+ * Share of the shorter text's key words the other text has too
+ */
+const textContainment = (a: Set<string>, b: Set<string>): number => {
+  const smaller = Math.min(a.size, b.size);
+  return smaller === 0 ? 0 : countShared(a, b) / smaller;
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const toEntry = (question: Question): Entry => ({
+  text: question.text,
+  words: toWords(question.text),
+  // Every true/false question shares one of two answers
+  ...(question.type === 'true-false' ? {} : { answer: normalizeAnswerText(formatCorrectAnswer(question)) }),
+  ...(question.type === undefined || question.type === 'single' || question.type === 'multiple'
+    ? { options: new Set(question.options.map(normalizeAnswerText)) }
+    : {})
+});
+
+/**
+ * How a question repeats an earlier one by its wording, answer and options, if it does
+ */
+const compareContent = (candidate: Entry, earlier: Entry): DuplicateReason | null => {
+  if (setSimilarity(candidate.words, earlier.words) >= DEDUP_CONFIG.textSimilarity) {
+    return 'text';
+  }
+
+  // The same fact asked again: "What is the capital of France?" / "Which city is France's capital?"
+  const sameAnswer = !!candidate.answer && candidate.answer === earlier.answer;
+  const similarOptions = !candidate.options || !earlier.options ||
+    setSimilarity(candidate.options, earlier.options) >= DEDUP_CONFIG.sameAnswerOptionSimilarity;
+  if (sameAnswer && similarOptions && textContainment(candidate.words, earlier.words) >= DEDUP_CONFIG.sameAnswerTextSimilarity) {
+    return 'answer';
+  }
+
+  return null;
+};
+
+const compareEmbeddings = (candidate: Entry, earlier: Entry): DuplicateReason | null => {
+  return candidate.embedding && earlier.embedding &&
+    cosineSimilarity(candidate.embedding, earlier.embedding) >= DEDUP_CONFIG.embeddingSimilarity
+    ? 'embedding'
+    : null;
+};
+
+/**
+ * Collects the questions of one generation and rejects repeats: texts with the same key words,
+ * the same answer to a similarly worded question with (nearly) the same options, and, when the
+ * model provider has an embedding model, questions whose embeddings are close. Existing quiz
+ * questions can be added as texts.
+ */
+export class QuestionDeduplicator {
+  private entries: Entry[] = [];
+  private useEmbeddings: boolean;
+
+  constructor(private readonly model?: QuestionModelProvider) {
+    this.useEmbeddings = !!model;
+  }
+
+  /**
+   * Texts of questions the quiz already has (compared by wording only)
+   */
+  addExisting(texts: string[]): void {
+    this.entries.push(...texts.map((text) => ({ text, words: toWords(text) })));
+  }
+
+  /**
+   * Add the question unless it repeats one already collected; resolves with the match for a repeat
+   */
+  async add(question: Question): Promise<DuplicateMatch | null> {
+    const entry = toEntry(question);
+
+    const match = this.findMatch(entry, compareContent);
+    if (match) {
+      return match;
+    }
+
+    // Reworded repeats the checks above miss
+    entry.embedding = await this.embed(question.text);
+    const semanticMatch = entry.embedding && this.findMatch(entry, compareEmbeddings);
+    if (semanticMatch) {
+      return semanticMatch;
+    }
+
+    this.entries.push(entry);
+    return null;
+  }
+
+  /**
+   * Keep the first of each group of repeated questions
+   */
+  async filter(questions: Question[]): Promise<Question[]> {
+    const unique: Question[] = [];
+    for (const question of questions) {
+      if (!(await this.add(question))) {
+        unique.push(question);
+      }
+    }
+    return unique;
+  }
+
+  private findMatch(entry: Entry, compare: (candidate: Entry, earlier: Entry) => DuplicateReason | null): DuplicateMatch | null {
+    for (const earlier of this.entries) {
+      const reason = compare(entry, earlier);
+      if (reason) {
+        return { reason, duplicateOf: earlier.text };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Embedding of a question text; without an embedding model (or after a failure) none is used
+   */
+  private async embed(text: string): Promise<number[] | undefined> {
+    if (!this.model || !this.useEmbeddings) {
+      return undefined;
+    }
+
+    try {
+      const vectors = await this.model.embed([text]);
+      if (!vectors) {
+        this.useEmbeddings = false;
+        return undefined;
+      }
+      return vectors[0];
+    } catch (error) {
+      console.warn('⚠️ Question embeddings failed, checking duplicates by text only:', error instanceof Error ? error.message : error);
+      this.useEmbeddings = false;
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,361 @@
+import OpenAI from 'openai';
+import env, { ModelProviderName } from '../config/environment';
+import { GENERATION_CONFIG } from '../config/prompts';
+
+export interface ModelMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// JSON schema the reply must follow (structured output)
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  messages: ModelMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  responseSchema?: ResponseSchema;
+}
+
+/**
+ * response_format body field of the chat completions API
+ */
+const toResponseFormat = (responseSchema?: ResponseSchema) =>
+  responseSchema
+    ? { type: 'json_schema' as const, json_schema: { name: responseSchema.name, schema: responseSchema.schema, strict: false } }
+    : undefined;
+
+export interface ModelConnectionTest {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Language model the question services prompt. complete() resolves with the reply text
+ * and rejects when the model fails or replies with nothing; stream() yields the reply text
+ * in pieces as the model produces it. embed() resolves with one vector per text, or null
+ * when no embedding model is configured.
+ */
+export interface QuestionModelProvider {
+  readonly name: ModelProviderName;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<string>;
+  stream(request: CompletionRequest): AsyncIterable<string>;
+  embed(texts: string[]): Promise<number[][] | null>;
+  testConnection(): Promise<ModelConnectionTest>;
+}
+
+const CONNECTION_TEST_REQUEST: CompletionRequest = {
+  messages: [{ role: 'user', content: 'Respond with just the word "test" to verify connection.' }],
+  maxTokens: 10,
+  temperature: 0
+};
+
+/**
+ * OpenAI chat completions through the official SDK
+ */
+export class OpenAIModelProvider implements QuestionModelProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly client: OpenAI,
+    public readonly model: string,
+    private readonly embeddingModel?: string
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      response_format: toResponseFormat(request.responseSchema)
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('No content in model response');
+    }
+    return content;
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const chunks = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      response_format: toResponseFormat(request.responseSchema),
+      stream: true
+    });
+
+    for await (const chunk of chunks) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][] | null> {
+    if (!this.embeddingModel) {
+      return null;
+    }
+    const response = await this.client.embeddings.create({ model: this.embeddingModel, input: texts });
+    return response.data.map((item) => item.embedding);
+  }
+
+  async testConnection(): Promise<ModelConnectionTest> {
+    try {
+      await this.complete(CONNECTION_TEST_REQUEST);
+      return { success: true };
+    } catch (error: any) {
+      // Provide specific error messages for common issues
+      if (error.code === 'invalid_api_key') {
+        return { success: false, error: 'Invalid OpenAI API key' };
+      } else if (error.code === 'insufficient_quota') {
+        return { success: false, error: 'OpenAI API quota exceeded' };
+      } else if (error.message?.includes('rate limit')) {
+        return { success: false, error: 'OpenAI API rate limit reached' };
+      }
+      return { success: false, error: `OpenAI API error: ${error.message}` };
+    }
+  }
+}
+
+/**
+ * Any server exposing the OpenAI chat completions endpoint over HTTP (Ollama, llama.cpp server, vLLM)
+ */
+export class OpenAICompatibleModelProvider implements QuestionModelProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(
+    private readonly baseUrl: string,
+    public readonly model: string,
+    private readonly apiKey?: string,
+    private readonly embeddingModel?: string,
+    private readonly timeoutMs: number = GENERATION_CONFIG.timeout
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.post('chat/completions', this.toBody(request, false), controller.signal);
+      const data: any = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string' || !content) {
+        throw new Error('No content in model response');
+      }
+      return content;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Read the server-sent events of a streamed completion. The timeout applies to silence:
+   * it restarts with every chunk, so long replies are not cut off while the model is producing them.
+   */
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const controller = new AbortController();
+    let timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.post('chat/completions', this.toBody(request, true), controller.signal);
+      if (!response.body) {
+        throw new Error('No content in model response');
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for await (const chunk of response.body) {
+        clearTimeout(timer);
+        timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) continue;
+
+          const payload = data.slice('data:'.length).trim();
+          if (payload === '[DONE]') return;
+
+          const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (typeof delta === 'string' && delta) {
+            yield delta;
+          }
+        }
+      }
+    } finally {
+      clearTimeout(timer);
+      controller.abort(); // Release the connection when the caller stops reading early
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][] | null> {
+    if (!this.embeddingModel) {
+      return null;
+    }
+
+    const response = await this.post('embeddings', { model: this.embeddingModel, input: texts }, AbortSignal.timeout(this.timeoutMs));
+    const data: any = await response.json();
+    if (!Array.isArray(data?.data) || data.data.length !== texts.length) {
+      throw new Error('Unexpected embeddings response');
+    }
+    return data.data.map((item: any) => item.embedding as number[]);
+  }
+
+  async testConnection(): Promise<ModelConnectionTest> {
+    try {
+      await this.complete(CONNECTION_TEST_REQUEST);
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, error: `Model server error: ${error.message}` };
+    }
+  }
+
+  private toBody(request: CompletionRequest, stream: boolean): Record<string, unknown> {
+    return {
+      model: this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      response_format: toResponseFormat(request.responseSchema),
+      stream
+    };
+  }
+
+  private async post(endpoint: string, body: Record<string, unknown>, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new Error(`Model server responded with ${response.status}${details ? `: ${details.slice(0, 200)}` : ''}`);
+    }
+    return response;
+  }
+}
+
+// Reply text, or an error to fail the request with
+export type OfflineReply = string | Error;
+
+// Characters per streamed piece of an offline reply
+const OFFLINE_STREAM_CHUNK = 40;
+
+/**
+ * Deterministic provider that never leaves the process. Replies come from the queue (tests)
+ * or the responder; with neither every request fails, so the services use their fallbacks.
+ */
+export class OfflineModelProvider implements QuestionModelProvider {
+  readonly name = 'offline';
+  readonly model = 'offline';
+  readonly requests: CompletionRequest[] = [];
+  private replies: OfflineReply[] = [];
+
+  constructor(private readonly responder?: (request: CompletionRequest) => OfflineReply) {}
+
+  /**
+   * Queue replies for the next requests, in order
+   */
+  reply(...replies: OfflineReply[]): void {
+    this.replies.push(...replies);
+  }
+
+  reset(): void {
+    this.replies = [];
+    this.requests.length = 0;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    this.requests.push(request);
+
+    const reply = this.replies.shift() ?? this.responder?.(request) ?? new Error('No language model configured');
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    if (!reply) {
+      throw new Error('No content in model response');
+    }
+    return reply;
+  }
+
+  /**
+   * Hands the reply out in small pieces, like a model streaming tokens
+   */
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const reply = await this.complete(request);
+    for (let i = 0; i < reply.length; i += OFFLINE_STREAM_CHUNK) {
+      yield reply.slice(i, i + OFFLINE_STREAM_CHUNK);
+    }
+  }
+
+  async embed(_texts: string[]): Promise<number[][] | null> {
+    return null;
+  }
+
+  async testConnection(): Promise<ModelConnectionTest> {
+    return { success: true };
+  }
+}
+
+/**
+ * Build the provider chosen in the environment config (MODEL_PROVIDER, or inferred from the other settings)
+ */
+const createQuestionModelProvider = (): QuestionModelProvider => {
+  switch (env.modelProvider) {
+    case 'openai':
+      if (!env.openaiApiKey?.startsWith('sk-')) {
+        console.error('❌ Invalid OpenAI API key format');
+        console.error('🔑 API key should start with "sk-"');
+        break;
+      }
+      console.log(`🤖 AI question generation with OpenAI (${env.modelName})`);
+      return new OpenAIModelProvider(new OpenAI({ apiKey: env.openaiApiKey }), env.modelName, env.embeddingModel);
+
+    case 'openai-compatible':
+      if (!env.modelBaseUrl || !env.modelName) {
+        console.error('❌ MODEL_BASE_URL and MODEL_NAME are required for an OpenAI-compatible model server');
+        break;
+      }
+      console.log(`🤖 AI question generation with ${env.modelName} at ${env.modelBaseUrl}`);
+      return new OpenAICompatibleModelProvider(env.modelBaseUrl, env.modelName, env.modelApiKey, env.embeddingModel);
+  }
+
+  console.warn('⚠️ No language model configured, questions will come from the sample sets');
+  console.warn('🔧 Set OPENAI_API_KEY, or MODEL_BASE_URL and MODEL_NAME, to enable AI features');
+  return new OfflineModelProvider();
+};
+
+// Single provider shared by the question services
+export const questionModelProvider = createQuestionModelProvider();
+
+// Rough OpenAI costs in USD (gpt-4o-mini prices); self-hosted and offline models cost nothing per request
+const OPENAI_COST_ESTIMATES = {
+  estimatedCostPerQuestion: 0.00026, // ~100 output tokens per generated question
+  estimatedVerificationCostPerQuestion: 0.00004 // ~150 prompt and 20 output tokens per blind answer check
+};
+
+/**
+ * Model details and per-question cost estimates, including the optional answer verification pass
+ */
+export const getQuestionModelInfo = (model: QuestionModelProvider = questionModelProvider) => ({
+  provider: model.name,
+  model: model.model,
+  ...(model.name === 'openai' ? OPENAI_COST_ESTIMATES : { estimatedCostPerQuestion: 0, estimatedVerificationCostPerQuestion: 0 })
+});
@@ -0,0 +1,164 @@
+import { roomRepository } from './roomRepository';
+import { QuizStore, quizStore, StoredQuiz } from './quizStore';
+import { DifficultyLevel, LibraryQuiz, LibraryQuizSummary, SaveQuizRequest, UpdateQuizRequest } from '../types/types';
+
+/**
+ * Error raised for library operations that cannot be carried out (missing quiz, not the host, ...)
+ */
+export class QuizLibraryError extends Error {
+  public code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'QuizLibraryError';
+    this.code = code;
+  }
+}
+
+export interface QuizListFilters {
+  tag?: string;
+  language?: string;
+  difficulty?: DifficultyLevel;
+  search?: string; // Matched against title, description and tags
+}
+
+export const DEFAULT_QUIZ_LANGUAGE = 'en';
+
+/**
+ * Quiz library: reusable question sets kept in the quiz store, independent of rooms.
+ * Rooms are created from a library quiz by passing its questions as pre-generated questions.
+ * Only the host who saved a quiz can change or delete it.
+ */
+export class QuizLibraryService {
+  constructor(private readonly store: QuizStore) {}
+
+  /**
+   * List quizzes (without their questions), most recently updated first
+   */
+  async listQuizzes(filters: QuizListFilters = {}): Promise<LibraryQuizSummary[]> {
+    const search = filters.search?.trim().toLowerCase();
+
+    return (await this.store.listQuizzes())
+      .map((quiz) => this.toQuiz(quiz))
+      .filter((quiz) =>
+        (!filters.tag || quiz.tags.includes(filters.tag.toLowerCase())) &&
+        (!filters.language || quiz.language === filters.language) &&
+        (!filters.difficulty || quiz.difficulty === filters.difficulty) &&
+        (!search || [quiz.title, quiz.description ?? '', ...quiz.tags].some((field) => field.toLowerCase().includes(search)))
+      )
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(({ questions, ...summary }) => summary);
+  }
+
+  /**
+   * Get a quiz with its questions
+   */
+  async getQuiz(quizId: string): Promise<LibraryQuiz | null> {
+    const quiz = await this.store.getQuiz(quizId);
+    return quiz ? this.toQuiz(quiz) : null;
+  }
+
+  /**
+   * Save a quiz from the given questions, or from a room's questions (host only)
+   */
+  async createQuiz(request: SaveQuizRequest): Promise<LibraryQuiz> {
+    let questions = request.questions;
+    let difficulty = request.difficulty;
+
+    if (request.roomId) {
+      const room = await roomRepository.getRoom(request.roomId);
+      if (!room) {
+        throw new QuizLibraryError('Room not found', 'ROOM_NOT_FOUND');
+      }
+      if (room.hostId !== request.hostId) {
+        throw new QuizLibraryError('Only the room host can save its questions', 'INSUFFICIENT_PERMISSIONS');
+      }
+
+      questions = room.questions;
+      difficulty = difficulty ?? room.difficulty;
+    }
+
+    if (!questions || questions.length === 0) {
+      throw new QuizLibraryError('A quiz needs at least one question', 'NO_QUESTIONS');
+    }
+
+    const now = Date.now();
+    const quiz: StoredQuiz = {
+      id: this.store.generateQuizId(),
+      title: request.title.trim(),
+      ...(request.description?.trim() ? { description: request.description.trim() } : {}),
+      tags: this.normalizeTags(request.tags),
+      language: request.language || DEFAULT_QUIZ_LANGUAGE,
+      difficulty: difficulty || 'medium',
+      questions,
+      questionCount: questions.length,
+      ...(request.roomId ? { sourceRoomId: request.roomId } : {}),
+      ownerId: request.ownerId,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.saveQuiz(quiz);
+    console.log(`📚 Quiz "${quiz.title}" saved to the library (${quiz.questionCount} questions)`);
+
+    return this.toQuiz(quiz);
+  }
+
+  /**
+   * Update a quiz's details or questions (its owner only)
+   */
+  async updateQuiz(quizId: string, ownerId: string, changes: Omit<UpdateQuizRequest, 'ownerId'>): Promise<LibraryQuiz> {
+    const existing = await this.getOwnedQuiz(quizId, ownerId, 'change');
+
+    const { description, ...rest } = existing;
+    const updatedDescription = changes.description !== undefined ? changes.description.trim() : description;
+    const quiz: StoredQuiz = {
+      ...rest,
+      ...(changes.title !== undefined ? { title: changes.title.trim() } : {}),
+      ...(updatedDescription ? { description: updatedDescription } : {}),
+      ...(changes.tags !== undefined ? { tags: this.normalizeTags(changes.tags) } : {}),
+      ...(changes.language !== undefined ? { language: changes.language } : {}),
+      ...(changes.difficulty !== undefined ? { difficulty: changes.difficulty } : {}),
+      ...(changes.questions !== undefined ? { questions: changes.questions, questionCount: changes.questions.length } : {}),
+      updatedAt: Date.now()
+    };
+
+    await this.store.saveQuiz(quiz);
+    console.log(`📚 Quiz ${quizId} updated`);
+
+    return this.toQuiz(quiz);
+  }
+
+  /**
+   * Delete a quiz (its owner only)
+   */
+  async deleteQuiz(quizId: string, ownerId: string): Promise<void> {
+    await this.getOwnedQuiz(quizId, ownerId, 'delete');
+
+    await this.store.deleteQuiz(quizId);
+    console.log(`🗑️ Quiz ${quizId} deleted from the library`);
+  }
+
+  private async getOwnedQuiz(quizId: string, ownerId: string, action: string): Promise<StoredQuiz> {
+    const quiz = await this.store.getQuiz(quizId);
+    if (!quiz) {
+      throw new QuizLibraryError('Quiz not found', 'QUIZ_NOT_FOUND');
+    }
+    if (quiz.ownerId !== ownerId) {
+      throw new QuizLibraryError(`Only the host who saved a quiz can ${action} it`, 'INSUFFICIENT_PERMISSIONS');
+    }
+    return quiz;
+  }
+
+  // Tags are stored lowercase and without duplicates
+  private normalizeTags(tags: string[] = []): string[] {
+    return Array.from(new Set(tags.map((tag) => tag.trim().toLowerCase()).filter((tag) => tag.length > 0)));
+  }
+
+  // The owner id is what lets a host change their quizzes, so it stays on the server
+  private toQuiz({ ownerId, ...quiz }: StoredQuiz): LibraryQuiz {
+    return quiz;
+  }
+}
+
+export const quizLibraryService = new QuizLibraryService(quizStore);
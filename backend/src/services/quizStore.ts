@@ -0,0 +1,112 @@
+import { randomUUID } from 'crypto';
+import { db } from '../config/firebase';
+import env from '../config/environment';
+import { LibraryQuiz } from '../types/types';
+
+/**
+ * A library quiz as stored: the quiz and the host who owns it, which is never sent to clients
+ */
+export interface StoredQuiz extends LibraryQuiz {
+  ownerId: string; // Browser-generated id of the host who saved it
+}
+
+/**
+ * Where library quizzes are kept, keyed by quiz id.
+ * Quizzes returned by the store are copies; write changes back with saveQuiz.
+ */
+export interface QuizStore {
+  readonly kind: 'firebase' | 'memory';
+  generateQuizId(): string;
+  saveQuiz(quiz: StoredQuiz): Promise<void>;
+  getQuiz(quizId: string): Promise<StoredQuiz | null>;
+  listQuizzes(): Promise<StoredQuiz[]>;
+  deleteQuiz(quizId: string): Promise<void>;
+}
+
+type FirebaseDatabase = NonNullable<typeof db>;
+
+// Firebase drops empty arrays, so restore them when reading
+const fromFirebase = (stored: any): StoredQuiz => ({
+  ...stored,
+  tags: stored.tags || [],
+  questions: stored.questions || []
+});
+
+/**
+ * Quizzes stored under quizzes/<quizId> in the Firebase Realtime Database (backend access only)
+ */
+export class FirebaseQuizStore implements QuizStore {
+  readonly kind = 'firebase';
+
+  constructor(private readonly database: FirebaseDatabase) {}
+
+  generateQuizId(): string {
+    return this.database.ref('quizzes').push().key!;
+  }
+
+  async saveQuiz(quiz: StoredQuiz): Promise<void> {
+    await this.database.ref(`quizzes/${quiz.id}`).set(quiz);
+  }
+
+  async getQuiz(quizId: string): Promise<StoredQuiz | null> {
+    const snapshot = await this.database.ref(`quizzes/${quizId}`).once('value');
+    return snapshot.exists() ? fromFirebase(snapshot.val()) : null;
+  }
+
+  async listQuizzes(): Promise<StoredQuiz[]> {
+    const snapshot = await this.database.ref('quizzes').once('value');
+    return Object.values(snapshot.val() || {}).map(fromFirebase);
+  }
+
+  async deleteQuiz(quizId: string): Promise<void> {
+    await this.database.ref(`quizzes/${quizId}`).remove();
+  }
+}
+
+/**
+ * Quizzes kept in process memory; nothing survives a restart
+ */
+export class InMemoryQuizStore implements QuizStore {
+  readonly kind = 'memory';
+  private quizzes = new Map<string, StoredQuiz>();
+
+  generateQuizId(): string {
+    return randomUUID();
+  }
+
+  async saveQuiz(quiz: StoredQuiz): Promise<void> {
+    this.quizzes.set(quiz.id, structuredClone(quiz));
+  }
+
+  async getQuiz(quizId: string): Promise<StoredQuiz | null> {
+    const quiz = this.quizzes.get(quizId);
+    return quiz ? structuredClone(quiz) : null;
+  }
+
+  async listQuizzes(): Promise<StoredQuiz[]> {
+    return Array.from(this.quizzes.values(), (quiz) => structuredClone(quiz));
+  }
+
+  async deleteQuiz(quizId: string): Promise<void> {
+    this.quizzes.delete(quizId);
+  }
+
+  clear(): void {
+    this.quizzes.clear();
+  }
+}
+
+/**
+ * Keep quizzes next to the rooms: in Firebase when rooms are stored there, otherwise in memory
+ */
+const createQuizStore = (): QuizStore => {
+  if (env.roomStore !== 'memory' && db) {
+    return new FirebaseQuizStore(db);
+  }
+
+  console.log('📚 Keeping the quiz library in memory (not persisted across restarts)');
+  return new InMemoryQuizStore();
+};
+
+// Single store shared by the quiz library
+export const quizStore = createQuizStore();
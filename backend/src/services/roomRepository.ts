@@ -0,0 +1,295 @@
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { db } from '../config/firebase';
+import env from '../config/environment';
+import { Room, Player, Answer, GameState } from '../types/types';
+
+export type RoomStatus = Room['status'];
+
+// Top-level room fields; players are changed through the player methods or playerChanges
+export type RoomChanges = Partial<Omit<Room, 'id' | 'players'>>;
+
+// Per-player field changes applied together with a room update, keyed by player id
+export type PlayerChanges = Record<string, Partial<Pick<Player, 'score' | 'streak'>>>;
+
+export interface RoomListFilters {
+  status?: RoomStatus;
+}
+
+/**
+ * Where rooms, their players, answers and game state are stored.
+ * Rooms returned by the repository are copies; write changes back through its methods.
+ */
+export interface RoomRepository {
+  readonly kind: 'firebase' | 'memory';
+  generateRoomId(): string;
+  createRoom(room: Room): Promise<void>;
+  getRoom(roomId: string): Promise<Room | null>;
+  getRoomByCode(roomCode: string): Promise<Room | null>;
+  roomExists(roomId: string): Promise<boolean>;
+  listRooms(filters?: RoomListFilters): Promise<Room[]>;
+  updateRoom(roomId: string, changes: RoomChanges, playerChanges?: PlayerChanges): Promise<void>;
+  // Compare-and-set: change sees the current room and returns the changes, or null to leave it; returns the applied changes
+  updateRoomIf(roomId: string, change: (room: Room) => RoomChanges | null): Promise<RoomChanges | null>;
+  setGameState(roomId: string, gameState: GameState): Promise<void>;
+  addPlayer(roomId: string, player: Player): Promise<void>;
+  removePlayer(roomId: string, playerId: string): Promise<void>;
+  recordAnswer(roomId: string, playerId: string, questionIndex: number, answer: Answer, score: number, streak: number): Promise<void>;
+  // Secret handed to the player at create/join, kept apart from the room because rooms are public
+  setPlayerToken(roomId: string, playerId: string, token: string): Promise<void>;
+  getPlayerToken(roomId: string, playerId: string): Promise<string | null>;
+  deleteRoom(roomId: string): Promise<void>;
+}
+
+type FirebaseDatabase = NonNullable<typeof db>;
+
+/**
+ * Rooms stored under rooms/<roomId> in the Firebase Realtime Database (the frontend listens there)
+ */
+export class FirebaseRoomRepository implements RoomRepository {
+  readonly kind = 'firebase';
+
+  constructor(private readonly database: FirebaseDatabase) {}
+
+  generateRoomId(): string {
+    return this.database.ref('rooms').push().key!;
+  }
+
+  async createRoom(room: Room): Promise<void> {
+    await this.database.ref(`rooms/${room.id}`).set(room);
+  }
+
+  async getRoom(roomId: string): Promise<Room | null> {
+    const snapshot = await this.database.ref(`rooms/${roomId}`).once('value');
+    return snapshot.exists() ? (snapshot.val() as Room) : null;
+  }
+
+  async getRoomByCode(roomCode: string): Promise<Room | null> {
+    const snapshot = await this.database.ref('rooms')
+      .orderByChild('roomCode')
+      .equalTo(roomCode)
+      .limitToFirst(1)
+      .once('value');
+
+    const rooms = snapshot.val();
+    if (!rooms) return null;
+
+    const roomId = Object.keys(rooms)[0];
+    return { ...rooms[roomId], id: roomId } as Room;
+  }
+
+  async roomExists(roomId: string): Promise<boolean> {
+    const snapshot = await this.database.ref(`rooms/${roomId}`).once('value');
+    return snapshot.exists();
+  }
+
+  async listRooms(filters: RoomListFilters = {}): Promise<Room[]> {
+    const query = filters.status
+      ? this.database.ref('rooms').orderByChild('status').equalTo(filters.status)
+      : this.database.ref('rooms');
+    const snapshot = await query.once('value');
+    const rooms = (snapshot.val() || {}) as Record<string, Room>;
+    return Object.entries(rooms).map(([roomId, room]) => ({ ...room, id: roomId }));
+  }
+
+  async updateRoom(roomId: string, changes: RoomChanges, playerChanges: PlayerChanges = {}): Promise<void> {
+    // One multi-path update so room and player changes land together
+    const update: Record<string, unknown> = { ...changes };
+    for (const [playerId, fields] of Object.entries(playerChanges)) {
+      for (const [field, value] of Object.entries(fields)) {
+        update[`players/${playerId}/${field}`] = value;
+      }
+    }
+    await this.database.ref(`rooms/${roomId}`).update(update);
+  }
+
+  async updateRoomIf(roomId: string, change: (room: Room) => RoomChanges | null): Promise<RoomChanges | null> {
+    let applied: RoomChanges | null = null;
+    // The transaction is retried whenever the room changed underneath it, so change always sees the stored room
+    const { committed } = await this.database.ref(`rooms/${roomId}`).transaction((room: Room | null) => {
+      applied = null;
+      // No local copy yet: Firebase retries with the stored room, or there is no room to change
+      if (room === null) return room;
+      applied = change(room);
+      if (!applied) return undefined;
+      // Firebase rejects undefined values
+      return { ...room, ...JSON.parse(JSON.stringify(applied)) };
+    });
+    return committed ? applied : null;
+  }
+
+  async setGameState(roomId: string, gameState: GameState): Promise<void> {
+    await this.database.ref(`rooms/${roomId}/gameState`).set(gameState);
+  }
+
+  async addPlayer(roomId: string, player: Player): Promise<void> {
+    await this.database.ref(`rooms/${roomId}/players/${player.id}`).set(player);
+  }
+
+  async removePlayer(roomId: string, playerId: string): Promise<void> {
+    await this.database.ref().update({
+      [`rooms/${roomId}/players/${playerId}`]: null,
+      [`playerTokens/${roomId}/${playerId}`]: null
+    });
+  }
+
+  async recordAnswer(roomId: string, playerId: string, questionIndex: number, answer: Answer, score: number, streak: number): Promise<void> {
+    await this.database.ref(`rooms/${roomId}/players/${playerId}`).update({
+      [`answers/${questionIndex}`]: answer,
+      score,
+      streak
+    });
+  }
+
+  async setPlayerToken(roomId: string, playerId: string, token: string): Promise<void> {
+    await this.database.ref(`playerTokens/${roomId}/${playerId}`).set(token);
+  }
+
+  async getPlayerToken(roomId: string, playerId: string): Promise<string | null> {
+    const snapshot = await this.database.ref(`playerTokens/${roomId}/${playerId}`).once('value');
+    return snapshot.exists() ? (snapshot.val() as string) : null;
+  }
+
+  async deleteRoom(roomId: string): Promise<void> {
+    await this.database.ref().update({
+      [`rooms/${roomId}`]: null,
+      [`playerTokens/${roomId}`]: null
+    });
+  }
+}
+
+/**
+ * Rooms kept in process memory: for running without Firebase credentials and for tests.
+ * Nothing survives a restart, and the frontend's Firebase listeners do not see these rooms.
+ */
+export class InMemoryRoomRepository implements RoomRepository {
+  readonly kind = 'memory';
+  private rooms = new Map<string, Room>();
+  private playerTokens = new Map<string, string>(); // "<roomId>/<playerId>" -> token
+
+  generateRoomId(): string {
+    return randomUUID();
+  }
+
+  async createRoom(room: Room): Promise<void> {
+    this.rooms.set(room.id, structuredClone(room));
+  }
+
+  async getRoom(roomId: string): Promise<Room | null> {
+    const room = this.rooms.get(roomId);
+    return room ? structuredClone(room) : null;
+  }
+
+  async getRoomByCode(roomCode: string): Promise<Room | null> {
+    for (const room of this.rooms.values()) {
+      if (room.roomCode === roomCode) return structuredClone(room);
+    }
+    return null;
+  }
+
+  async roomExists(roomId: string): Promise<boolean> {
+    return this.rooms.has(roomId);
+  }
+
+  async listRooms(filters: RoomListFilters = {}): Promise<Room[]> {
+    return Array.from(this.rooms.values())
+      .filter((room) => !filters.status || room.status === filters.status)
+      .map((room) => structuredClone(room));
+  }
+
+  async updateRoom(roomId: string, changes: RoomChanges, playerChanges: PlayerChanges = {}): Promise<void> {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    Object.assign(room, structuredClone(changes));
+    for (const [playerId, fields] of Object.entries(playerChanges)) {
+      const player = room.players?.[playerId];
+      if (player) Object.assign(player, fields);
+    }
+  }
+
+  async updateRoomIf(roomId: string, change: (room: Room) => RoomChanges | null): Promise<RoomChanges | null> {
+    const room = this.rooms.get(roomId);
+    const changes = room ? change(structuredClone(room)) : null;
+    if (room && changes) Object.assign(room, structuredClone(changes));
+    return changes;
+  }
+
+  async setGameState(roomId: string, gameState: GameState): Promise<void> {
+    const room = this.rooms.get(roomId);
+    if (room) room.gameState = structuredClone(gameState);
+  }
+
+  async addPlayer(roomId: string, player: Player): Promise<void> {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+    room.players = { ...(room.players || {}), [player.id]: structuredClone(player) };
+  }
+
+  async removePlayer(roomId: string, playerId: string): Promise<void> {
+    const room = this.rooms.get(roomId);
+    if (room?.players) delete room.players[playerId];
+    this.playerTokens.delete(`${roomId}/${playerId}`);
+  }
+
+  async recordAnswer(roomId: string, playerId: string, questionIndex: number, answer: Answer, score: number, streak: number): Promise<void> {
+    const player = this.rooms.get(roomId)?.players?.[playerId];
+    if (!player) return;
+    player.answers = { ...(player.answers || {}), [questionIndex]: structuredClone(answer) };
+    player.score = score;
+    player.streak = streak;
+  }
+
+  async setPlayerToken(roomId: string, playerId: string, token: string): Promise<void> {
+    this.playerTokens.set(`${roomId}/${playerId}`, token);
+  }
+
+  async getPlayerToken(roomId: string, playerId: string): Promise<string | null> {
+    return this.playerTokens.get(`${roomId}/${playerId}`) ?? null;
+  }
+
+  async deleteRoom(roomId: string): Promise<void> {
+    this.rooms.delete(roomId);
+    for (const key of Array.from(this.playerTokens.keys())) {
+      if (key.startsWith(`${roomId}/`)) this.playerTokens.delete(key);
+    }
+  }
+
+  /**
+   * Drop every room (tests)
+   */
+  clear(): void {
+    this.rooms.clear();
+    this.playerTokens.clear();
+  }
+}
+
+/**
+ * Pick the store from ROOM_STORE; without it, Firebase when credentials are configured, otherwise memory
+ */
+const createRoomRepository = (): RoomRepository => {
+  if (env.roomStore !== 'memory' && db) {
+    return new FirebaseRoomRepository(db);
+  }
+
+  if (env.roomStore === 'firebase') {
+    console.warn('⚠️ ROOM_STORE=firebase but Firebase is not initialized, keeping rooms in memory');
+  } else {
+    console.log('🗄️ Keeping rooms in memory (not persisted across restarts)');
+  }
+  return new InMemoryRoomRepository();
+};
+
+// Single repository shared by the HTTP routes, socket handlers and game engine
+export const roomRepository = createRoomRepository();
+
+/**
+ * Check the secret a player sends with an answer against the one issued when they joined
+ */
+export const isValidPlayerToken = async (roomId: string, playerId: string, token: unknown): Promise<boolean> => {
+  if (typeof token !== 'string' || !token) return false;
+  const stored = await roomRepository.getPlayerToken(roomId, playerId);
+  if (!stored) return false;
+  const expected = Buffer.from(stored);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,384 @@
+import { buildExclusionInstructions, buildQuestionListSchema, GENERATION_CONFIG } from '../config/prompts';
+import { ModelMessage, QuestionModelProvider } from './questionModelProvider';
+import { QuestionDeduplicator } from './questionDeduplicator';
+import { verifyAnswer } from './answerVerifier';
+import { AnswerVerificationMode, Question, QuestionType } from '../types/types';
+import { formatCorrectAnswer, normalizeAnswerText } from '../../../shared/questions';
+
+// Result of checking one (repaired) generated question; errors are sent back to the model
+export type QuestionCheck = { question?: Question; errors: string[] };
+
+export interface StructuredGenerationOptions {
+  prompt: string;
+  count: number; // Valid questions wanted
+  questionTypes?: QuestionType[];
+  citations?: boolean; // Document questions cite their source passage
+  maxTokens?: number;
+  temperature?: number;
+  maxAttempts?: number;
+  existingQuestions?: string[]; // Texts of questions the quiz already has; near-repeats are rejected
+  verifyAnswers?: AnswerVerificationMode; // Answer each question again blind before accepting it
+  check: (raw: any) => QuestionCheck; // Validation and the service's own rules (types, exclusions)
+}
+
+export interface StructuredGenerationResult {
+  questions: Question[];
+  attempts: number;
+  rejected: number; // Generated items that could not be repaired, repeated another question or failed verification
+}
+
+/**
+ * Find the JSON value in a model reply: fenced code blocks and prose around it are ignored
+ */
+export const extractJson = (content: string): any => {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = (fenced ? fenced[1] : content).trim();
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Fall through to scanning for the first balanced array or object
+  }
+
+  for (let start = 0; start < text.length; start++) {
+    if (text[start] !== '[' && text[start] !== '{') continue;
+
+    const end = findClosingBracket(text, start);
+    if (end === -1) continue;
+    try {
+      return JSON.parse(text.slice(start, end + 1));
+    } catch {
+      // Not JSON after all ("[citation needed]"), keep looking
+    }
+  }
+
+  throw new Error('Invalid JSON format in model response');
+};
+
+/**
+ * Index of the bracket closing the one at start (brackets inside strings are skipped), or -1
+ */
+const findClosingBracket = (text: string, start: number): number => {
+  const closing: string[] = [];
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '[' || char === '{') {
+      closing.push(char === '[' ? ']' : '}');
+    } else if (char === ']' || char === '}') {
+      if (closing.pop() !== char) return -1;
+      if (closing.length === 0) return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * The question list in a parsed reply: {"questions": [...]}, a bare array or a single question
+ */
+export const parseQuestionList = (content: string): any[] => {
+  const parsed = extractJson(content);
+
+  if (Array.isArray(parsed)) return parsed;
+  if (parsed && typeof parsed === 'object') {
+    if (Array.isArray(parsed.questions)) return parsed.questions;
+    if ('text' in parsed || 'question' in parsed) return [parsed];
+  }
+  throw new Error('Model response does not contain a question list');
+};
+
+// Names models use for question types other than ours
+const TYPE_ALIASES: Record<string, QuestionType> = {
+  'multiple-choice': 'single',
+  'single-choice': 'single',
+  'multiple-select': 'multiple',
+  'multi-select': 'multiple',
+  'true/false': 'true-false',
+  truefalse: 'true-false',
+  boolean: 'true-false',
+  'short-answer': 'text',
+  number: 'numeric',
+  order: 'ordering',
+  match: 'matching'
+};
+
+// "A) Paris", "b. Rome", "3) Madrid"
+const OPTION_LABEL = /^(?:[A-Fa-f]|[1-6])[.):]\s+/;
+
+/**
+ * Point a loosely given correct option at the exact option text: "Paris", "C", "C) Paris" or "paris"
+ */
+export const resolveOption = (value: any, options: string[]): any => {
+  if (typeof value !== 'string') return value;
+
+  const answer = value.trim();
+  if (options.includes(answer)) return answer;
+
+  if (/^[A-Fa-f]$/.test(answer)) {
+    const index = answer.toUpperCase().charCodeAt(0) - 65;
+    if (index < options.length) return options[index];
+  }
+
+  const normalized = normalizeAnswerText(answer.replace(OPTION_LABEL, ''));
+  return options.find((option) => normalizeAnswerText(option) === normalized) ?? value;
+};
+
+/**
+ * Fix the mistakes models commonly make before a generated question is validated:
+ * other field names, a missing or differently spelled type, lettered options and
+ * correct answers given as a letter or with different casing.
+ */
+export const repairQuestion = (raw: any): any => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return raw;
+  }
+
+  const question = { ...raw };
+
+  if (question.text === undefined && typeof question.question === 'string') {
+    question.text = question.question;
+    delete question.question;
+  }
+  if (question.options === undefined && Array.isArray(question.choices)) {
+    question.options = question.choices;
+    delete question.choices;
+  }
+
+  // Type: normalize the spelling, or infer it from the answer fields
+  if (typeof question.type === 'string') {
+    const type = question.type.trim().toLowerCase().replace(/[_\s]+/g, '-');
+    question.type = TYPE_ALIASES[type] ?? type;
+  } else if (question.type === undefined) {
+    if (Array.isArray(question.correctOptions) && question.correctOptions.length > 1) question.type = 'multiple';
+    else if (question.correctAnswer !== undefined && question.options === undefined) question.type = 'true-false';
+    else if (Array.isArray(question.acceptedAnswers)) question.type = 'text';
+    else if (question.correctValue !== undefined) question.type = 'numeric';
+    else if (Array.isArray(question.items)) question.type = 'ordering';
+    else if (Array.isArray(question.pairs)) question.type = 'matching';
+  }
+
+  if (Array.isArray(question.options)) {
+    // Strip "A) " style labels, but only when every option has one
+    if (question.options.length > 0 && question.options.every((option: any) => typeof option === 'string' && OPTION_LABEL.test(option.trim()))) {
+      question.options = question.options.map((option: string) => option.trim().replace(OPTION_LABEL, ''));
+    }
+
+    if (question.correctOption === undefined && question.answer !== undefined) {
+      question.correctOption = question.answer;
+      delete question.answer;
+    }
+    // A single correct option listed as correctOptions
+    if ((question.type ?? 'single') === 'single' && question.correctOption === undefined && Array.isArray(question.correctOptions) && question.correctOptions.length === 1) {
+      question.correctOption = question.correctOptions[0];
+      delete question.correctOptions;
+    }
+
+    if (question.correctOption !== undefined) {
+      question.correctOption = resolveOption(question.correctOption, question.options);
+    }
+    if (Array.isArray(question.correctOptions)) {
+      question.correctOptions = question.correctOptions.map((option: any) => resolveOption(option, question.options));
+    }
+  }
+
+  return question;
+};
+
+/**
+ * Follow-up message asking the model to fix or replace the questions that were rejected
+ */
+const buildRepromptMessage = (problems: string[], missing: number, accepted: Question[]): string => {
+  const exclusions = buildExclusionInstructions(accepted.map((q) => q.text));
+
+  return `Your reply could not be fully used:
+${problems.map((problem) => `- ${problem}`).join('\n')}
+
+Reply with ${missing} more question${missing === 1 ? '' : 's'} in the same JSON format ({"questions": [...]}): corrected versions of the rejected questions, or new ones. Follow the field rules for each question type exactly.${exclusions ? `\n\n${exclusions}` : ''}`;
+};
+
+/**
+ * Picks complete items out of the first JSON array of a reply while it is still streaming in
+ * (the "questions" array, or a bare array). Each item is parsed as soon as its closing bracket
+ * arrives; an item that is not valid JSON comes out as null.
+ */
+export class QuestionStreamParser {
+  private text = '';
+  private position = 0;
+  private inArray = false;
+  private finished = false;
+  private depth = 0; // Nesting below the array
+  private inString = false;
+  private escaped = false;
+  private itemStart = -1;
+  itemCount = 0;
+
+  push(delta: string): any[] {
+    this.text += delta;
+    const items: any[] = [];
+
+    for (; this.position < this.text.length && !this.finished; this.position++) {
+      const char = this.text[this.position];
+
+      if (!this.inArray) {
+        this.inArray = char === '[';
+      } else if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') this.inString = false;
+      } else if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        if (this.depth === 0) this.itemStart = this.position;
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        if (this.depth === 0) {
+          this.finished = true; // End of the array
+        } else if (--this.depth === 0 && this.itemStart !== -1) {
+          items.push(this.parseItem(this.text.slice(this.itemStart, this.position + 1)));
+          this.itemStart = -1;
+        }
+      }
+    }
+
+    this.itemCount += items.length;
+    return items;
+  }
+
+  private parseItem(json: string): any {
+    try {
+      return JSON.parse(json);
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Called with each accepted question as soon as it is validated; returning false stops generation
+export type QuestionListener = (question: Question) => boolean | void | Promise<boolean | void>;
+
+/**
+ * Generate questions with a JSON schema response format. Replies are streamed, parsed leniently
+ * and repaired, and the model is re-prompted with the problems until count valid questions are
+ * collected or maxAttempts requests were made. Questions are handed to onQuestion as they arrive.
+ * With verifyAnswers, each question is first answered again blind (see verifyAnswer) and disputed
+ * answer keys are either marked on the question or sent back for a replacement.
+ *
+ * Rejects when the first request fails before any question arrived, or when no valid question
+ * could be collected; otherwise resolves with what was collected, which may be fewer than count.
+ */
+export const generateStructuredQuestions = async (
+  model: QuestionModelProvider,
+  options: StructuredGenerationOptions,
+  onQuestion?: QuestionListener
+): Promise<StructuredGenerationResult> => {
+  const maxAttempts = options.maxAttempts ?? GENERATION_CONFIG.maxAttempts;
+  const responseSchema = {
+    name: 'quiz_questions',
+    schema: buildQuestionListSchema(options.questionTypes, { citations: options.citations })
+  };
+  const prompt: ModelMessage = { role: 'user', content: options.prompt };
+
+  const questions: Question[] = [];
+  const deduplicator = new QuestionDeduplicator(model);
+  deduplicator.addExisting(options.existingQuestions ?? []);
+  let messages: ModelMessage[] = [prompt];
+  let rejected = 0;
+  let attempts = 0;
+  let stopped = false;
+  let lastProblem = 'No valid questions generated by the model';
+
+  while (questions.length < options.count && attempts < maxAttempts && !stopped) {
+    attempts++;
+    const problems: string[] = [];
+
+    // Check one generated item; resolves false once no more questions are wanted
+    const handleItem = async (raw: any, index: number): Promise<boolean> => {
+      const { question, errors } = options.check(repairQuestion(raw));
+      if (!question) {
+        problems.push(`Question ${index + 1}: ${errors.join('; ')}`);
+        return true;
+      }
+
+      const duplicate = await deduplicator.add(question);
+      if (duplicate) {
+        problems.push(`Question ${index + 1}: asks the same thing as "${duplicate.duplicateOf}", replace it with a question about something else`);
+        return true;
+      }
+
+      if (options.verifyAnswers) {
+        const verification = await verifyAnswer(model, question);
+        if (verification.status === 'disputed' && options.verifyAnswers === 'regenerate') {
+          problems.push(`Question ${index + 1}: an independent check answered "${verification.modelAnswer}" instead of "${formatCorrectAnswer(question)}", replace it with a question whose answer is certain`);
+          return true;
+        }
+        question.verification = verification;
+      }
+
+      questions.push(question);
+      if (onQuestion && (await onQuestion(question)) === false) {
+        stopped = true;
+      }
+      return !stopped && questions.length < options.count;
+    };
+
+    let content = '';
+    const parser = new QuestionStreamParser();
+    try {
+      stream: for await (const delta of model.stream({
+        messages,
+        maxTokens: options.maxTokens,
+        temperature: options.temperature,
+        responseSchema
+      })) {
+        content += delta;
+        for (const raw of parser.push(delta)) {
+          if (!(await handleItem(raw, parser.itemCount - 1))) break stream;
+        }
+      }
+    } catch (error) {
+      if (attempts === 1 && questions.length === 0) throw error;
+      // Keep the questions collected so far
+      console.warn(`⚠️ Generation request ${attempts} failed:`, error instanceof Error ? error.message : error);
+      break;
+    }
+
+    if (parser.itemCount > 0) {
+      lastProblem = 'No valid questions generated by the model';
+    } else {
+      // Nothing recognisable while streaming (prose, a single object...): parse the whole reply
+      try {
+        const list = parseQuestionList(content);
+        lastProblem = 'No valid questions generated by the model';
+        for (let index = 0; index < list.length; index++) {
+          if (!(await handleItem(list[index], index))) break;
+        }
+      } catch (error) {
+        problems.push(`The reply was not valid JSON (${error instanceof Error ? error.message : 'parse error'})`);
+        lastProblem = 'Invalid JSON format in model response';
+      }
+    }
+
+    rejected += problems.length;
+    const missing = options.count - questions.length;
+    console.log(`🧩 Attempt ${attempts}: ${questions.length}/${options.count} valid questions, ${problems.length} rejected`);
+
+    if (missing > 0 && !stopped) {
+      if (problems.length === 0) {
+        problems.push(`Only ${options.count - missing} of the ${options.count} requested questions were returned`);
+      }
+      messages = [prompt, { role: 'assistant', content }, { role: 'user', content: buildRepromptMessage(problems, missing, questions) }];
+    }
+  }
+
+  if (questions.length === 0) {
+    throw new Error(lastProblem);
+  }
+
+  return { questions: questions.slice(0, options.count), attempts, rejected };
+};
@@ -1,346 +1,198 @@
-import OpenAI from 'openai';
-import { getOpenAIClient, generateQuestionPrompt, validateOpenAIResponse, OPENAI_CONFIG } from '../config/openai';
-import { Question, DifficultyLevel } from '../types/types';
+import { generateQuestionPrompt, GENERATION_CONFIG } from '../config/prompts';
+import { questionModelProvider, QuestionModelProvider } from './questionModelProvider';
+import { generateStructuredQuestions, QuestionCheck, QuestionListener } from './structuredQuestionGenerator';
+import { QuestionDeduplicator } from './questionDeduplicator';
+import { QuestionCache, questionCache, questionCacheKey } from './questionCache';
+import { getSampleQuestions } from '../config/sampleQuestions';
+import { AnswerVerificationMode, Question, QuestionType, DifficultyLevel } from '../types/types';
+import { normalizeQuestion, normalizeAnswerText, getQuestionType, DEFAULT_QUESTION_TYPES } from '../../../shared/questions';
 
 export interface TopicQuestionGenerationParams {
   topic: string;
   difficulty: DifficultyLevel;
   count: number;
+  questionTypes?: QuestionType[]; // Defaults to single choice
+  excludeQuestions?: string[]; // Question texts not to repeat (single-question regeneration)
+  verifyAnswers?: AnswerVerificationMode; // Optional second model pass over the answer keys
+  language?: string; // Language code for the questions; the topic's language when missing
 }
 
 export interface TopicQuestionGenerationResponse {
   questions: Question[];
-  aiGenerated: boolean;
+  aiGenerated: boolean; // No sample questions were needed: every question came from the model or the cache
+  cachedQuestions?: number; // How many of the questions came from the question cache
+  sampleQuestions?: number; // How many of the questions are sample questions
   fallbackReason?: string;
 }
 
 export class TopicQuestionService {
-  private openai: OpenAI;
-
-  constructor() {
-    const client = getOpenAIClient();
-    if (!client) {
-      throw new Error('OpenAI client not available');
-    }
-    this.openai = client;
-  }
+  constructor(
+    private readonly model: QuestionModelProvider = questionModelProvider,
+    private readonly cache: QuestionCache | null = questionCache
+  ) {}
 
   /**
-   * Sample fallback questions organized by difficulty
+   * Sample questions for the difficulty, of the requested types, that repeat neither excludeQuestions
+   * nor the chosen questions
    */
-  private getSampleQuestions(difficulty: DifficultyLevel): Question[] {
-    const questions = {
-      easy: [
-        {
-          text: "What is the capital of France?",
-          options: ["London", "Berlin", "Paris", "Madrid"],
-          correctOption: "Paris",
-          timeLimit: 15,
-          difficulty: "easy" as DifficultyLevel
-        },
-        {
-          text: "Which planet is closest to the Sun?",
-          options: ["Venus", "Mercury", "Earth", "Mars"],
-          correctOption: "Mercury",
-          timeLimit: 12,
-          difficulty: "easy" as DifficultyLevel
-        },
-        {
-          text: "What color do you get when you mix red and white?",
-          options: ["Purple", "Orange", "Pink", "Yellow"],
-          correctOption: "Pink",
-          timeLimit: 10,
-          difficulty: "easy" as DifficultyLevel
-        },
-        {
-          text: "How many sides does a triangle have?",
-          options: ["2", "3", "4", "5"],
-          correctOption: "3",
-          timeLimit: 8,
-          difficulty: "easy" as DifficultyLevel
-        },
-        {
-          text: "Which animal is known as the 'King of the Jungle'?",
-          options: ["Tiger", "Elephant", "Lion", "Bear"],
-          correctOption: "Lion",
-          timeLimit: 12,
-          difficulty: "easy" as DifficultyLevel
-        }
-      ],
-      medium: [
-        {
-          text: "What is the chemical symbol for gold?",
-          options: ["Go", "Gd", "Au", "Ag"],
-          correctOption: "Au",
-          timeLimit: 20,
-          difficulty: "medium" as DifficultyLevel
-        },
-        {
-          text: "In which year did World War II end?",
-          options: ["1944", "1945", "1946", "1947"],
-          correctOption: "1945",
-          timeLimit: 25,
-          difficulty: "medium" as DifficultyLevel
-        },
-        {
-          text: "What is the largest mammal in the world?",
-          options: ["African Elephant", "Blue Whale", "Giraffe", "Hippopotamus"],
-          correctOption: "Blue Whale",
-          timeLimit: 18,
-          difficulty: "medium" as DifficultyLevel
-        },
-        {
-          text: "Which programming language is known for its use in data science?",
-          options: ["JavaScript", "Python", "C++", "PHP"],
-          correctOption: "Python",
-          timeLimit: 22,
-          difficulty: "medium" as DifficultyLevel
-        },
-        {
-          text: "What is the square root of 144?",
-          options: ["10", "11", "12", "13"],
-          correctOption: "12",
-          timeLimit: 15,
-          difficulty: "medium" as DifficultyLevel
-        }
-      ],
-      hard: [
-        {
-          text: "What is the time complexity of binary search?",
-          options: ["O(n)", "O(log n)", "O(n log n)", "O(n²)"],
-          correctOption: "O(log n)",
-          timeLimit: 35,
-          difficulty: "hard" as DifficultyLevel
-        },
-        {
-          text: "Which of the following is NOT a principle of object-oriented programming?",
-          options: ["Encapsulation", "Inheritance", "Polymorphism", "Compilation"],
-          correctOption: "Compilation",
-          timeLimit: 30,
-          difficulty: "hard" as DifficultyLevel
-        },
-        {
-          text: "In quantum mechanics, what does Schrödinger's equation describe?",
-          options: ["Wave function evolution", "Particle position", "Energy levels", "Spin states"],
-          correctOption: "Wave function evolution",
-          timeLimit: 40,
-          difficulty: "hard" as DifficultyLevel
-        },
-        {
-          text: "What is the primary cause of ocean acidification?",
-          options: ["Industrial pollution", "CO2 absorption", "Temperature rise", "Overfishing"],
-          correctOption: "CO2 absorption",
-          timeLimit: 35,
-          difficulty: "hard" as DifficultyLevel
-        },
-        {
-          text: "Which algorithm is commonly used for finding shortest paths in graphs?",
-          options: ["Bubble Sort", "Dijkstra's Algorithm", "Quick Sort", "Binary Search"],
-          correctOption: "Dijkstra's Algorithm",
-          timeLimit: 30,
-          difficulty: "hard" as DifficultyLevel
-        }
-      ]
-    };
-
-    return questions[difficulty] || questions.easy;
+  private async getUnusedSampleQuestions(params: TopicQuestionGenerationParams, chosen: Question[] = []): Promise<Question[]> {
+    const deduplicator = new QuestionDeduplicator();
+    deduplicator.addExisting(params.excludeQuestions ?? []);
+    await deduplicator.filter(chosen);
+    return deduplicator.filter(getSampleQuestions(params.difficulty, params.questionTypes));
   }
 
   /**
-   * Validate and enhance generated questions
+   * Validate a generated question against the request; errors go back to the model
    */
-  private validateAndEnhanceQuestions(
-    questions: any[], 
-    params: TopicQuestionGenerationParams
-  ): Question[] {
-    const validQuestions: Question[] = [];
-    let totalProcessed = 0;
-    let validationFailures = 0;
-
-    console.log(`🔍 Validating ${questions.length} AI-generated questions...`);
-
-    for (const q of questions) {
-      totalProcessed++;
-      try {
-        // Validate basic structure
-        if (!q.text || !Array.isArray(q.options) || !q.correctOption) {
-          console.warn(`⚠️ Question ${totalProcessed} failed: Missing required fields`, {
-            hasText: !!q.text,
-            hasOptions: Array.isArray(q.options),
-            hasCorrectOption: !!q.correctOption,
-            question: q
-          });
-          validationFailures++;
-          continue;
-        }
-
-        // Clean and validate text
-        const cleanText = q.text.trim();
-        if (!cleanText || cleanText.length < 10) {
-          console.warn(`⚠️ Question ${totalProcessed} failed: Text too short or empty`, {
-            text: cleanText,
-            length: cleanText.length
-          });
-          validationFailures++;
-          continue;
-        }
-
-        // Validate options
-        if (q.options.length !== 4) {
-          console.warn(`⚠️ Question ${totalProcessed} failed: Must have exactly 4 options`, {
-            optionsCount: q.options.length,
-            options: q.options
-          });
-          validationFailures++;
-          continue;
-        }
-
-        // Clean options
-        const cleanOptions = q.options.map((opt: string) => opt.trim()).filter(Boolean);
-        if (cleanOptions.length !== 4) {
-          console.warn(`⚠️ Question ${totalProcessed} failed: Invalid options after cleaning`, {
-            originalOptions: q.options,
-            cleanOptions: cleanOptions
-          });
-          validationFailures++;
-          continue;
-        }
-
-        // Validate correct option
-        const cleanCorrectOption = q.correctOption.trim();
-        if (!cleanOptions.includes(cleanCorrectOption)) {
-          console.warn(`⚠️ Question ${totalProcessed} failed: Correct option not in options list`, {
-            correctOption: cleanCorrectOption,
-            options: cleanOptions
-          });
-          validationFailures++;
-          continue;
-        }
-
-        // Set appropriate time limit based on difficulty
-        let timeLimit: number;
-        switch (params.difficulty) {
-          case 'easy':
-            timeLimit = q.timeLimit || 15;
-            break;
-          case 'medium':
-            timeLimit = q.timeLimit || 25;
-            break;
-          case 'hard':
-            timeLimit = q.timeLimit || 35;
-            break;
-          default:
-            timeLimit = q.timeLimit || 20;
-        }
-
-        // Create valid question
-        const validQuestion: Question = {
-          text: cleanText,
-          options: cleanOptions,
-          correctOption: cleanCorrectOption,
-          timeLimit: timeLimit,
-          difficulty: params.difficulty
-        };
+  private checkGeneratedQuestion(raw: any, params: TopicQuestionGenerationParams): QuestionCheck {
+    // Clean and validate text
+    const cleanText = typeof raw?.text === 'string' ? raw.text.trim() : '';
+    if (!cleanText || cleanText.length < 10) {
+      return { errors: ['text is too short or empty'] };
+    }
 
-        validQuestions.push(validQuestion);
-        console.log(`✅ Question ${totalProcessed} validated successfully`);
+    // Default time limit based on difficulty (used when the AI did not set one)
+    let timeLimit: number;
+    switch (params.difficulty) {
+      case 'easy':
+        timeLimit = 15;
+        break;
+      case 'medium':
+        timeLimit = 25;
+        break;
+      case 'hard':
+        timeLimit = 35;
+        break;
+      default:
+        timeLimit = 20;
+    }
 
-      } catch (error) {
-        console.error(`❌ Question ${totalProcessed} validation error:`, error);
-        validationFailures++;
-      }
+    // Validate the fields for the question's type (options, correct answers, tolerance...)
+    const { question, errors } = normalizeQuestion(raw, { timeLimit, difficulty: params.difficulty });
+    if (!question) {
+      return { errors };
     }
 
-    console.log(`📊 Validation complete: ${validQuestions.length} valid, ${validationFailures} failed`);
+    // Only keep the kinds of questions that were asked for
+    const allowedTypes = params.questionTypes?.length ? params.questionTypes : DEFAULT_QUESTION_TYPES;
+    if (!allowedTypes.includes(getQuestionType(question))) {
+      return { errors: [`type "${getQuestionType(question)}" was not requested`] };
+    }
 
-    return validQuestions;
+    return { question, errors: [] };
   }
 
   /**
-   * Generate questions from topic using AI or fallback to samples
+   * Generate questions from topic using AI or fallback to samples.
+   * Up to the cache's reuse share comes from earlier generations for the same topic, difficulty and
+   * language; the rest is generated and cached. AI questions are passed to onQuestion as soon as
+   * each one is validated.
    */
-  async generateQuestionsFromTopic(params: TopicQuestionGenerationParams): Promise<TopicQuestionGenerationResponse> {
-    try {
-      console.log(`🧠 Generating ${params.count} ${params.difficulty} questions about "${params.topic}"...`);
+  async generateQuestionsFromTopic(
+    params: TopicQuestionGenerationParams,
+    onQuestion?: QuestionListener
+  ): Promise<TopicQuestionGenerationResponse> {
+    const cacheKey = questionCacheKey(params.topic, params.difficulty, params.language);
+    const allowedTypes = params.questionTypes?.length ? params.questionTypes : DEFAULT_QUESTION_TYPES;
+    const excluded = new Set((params.excludeQuestions ?? []).map(normalizeAnswerText));
+    const chosen: Question[] = [];
+
+    // Cached questions of the requested types that repeat neither excludeQuestions nor the chosen questions.
+    // With answer verification on, only questions whose answer key passed the check are reused.
+    const takeCached = async (count: number): Promise<Question[]> => {
+      if (!this.cache) return [];
+      const taken = await this.cache.take(cacheKey, count, (question) =>
+        allowedTypes.includes(getQuestionType(question)) &&
+        (params.verifyAnswers ? question.verification?.status === 'verified' : question.verification?.status !== 'disputed') &&
+        !excluded.has(normalizeAnswerText(question.text)) &&
+        !chosen.some((existing) => normalizeAnswerText(existing.text) === normalizeAnswerText(question.text)));
+      for (const question of taken) {
+        chosen.push(question);
+        await onQuestion?.(question);
+      }
+      return taken;
+    };
 
-      const openai = getOpenAIClient()!;
-      
+    let cachedCount = (await takeCached(Math.floor(params.count * (this.cache?.reuse ?? 0)))).length;
+    if (cachedCount === params.count) {
+      console.log(`✅ Served all ${cachedCount} questions about "${params.topic}" from the cache`);
+      return { questions: chosen, aiGenerated: true, cachedQuestions: cachedCount };
+    }
+
+    try {
       // Request extra questions to account for potential validation losses
-      const requestedCount = params.count;
+      const requestedCount = params.count - cachedCount;
+      console.log(`🧠 Generating ${requestedCount} ${params.difficulty} questions about "${params.topic}"...`);
+
       const bufferCount = Math.ceil(requestedCount * 1.1); // Request 10% more
       
       console.log(`🧠 Requesting ${bufferCount} questions from AI (target: ${requestedCount}, buffer: ${bufferCount - requestedCount})`);
       
-      const prompt = generateQuestionPrompt(params.topic, params.difficulty, bufferCount);
-
-      console.log('🧠 Sending request to OpenAI...');
-      const response = await openai.chat.completions.create({
-        model: OPENAI_CONFIG.model,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: OPENAI_CONFIG.max_tokens,
-        temperature: OPENAI_CONFIG.temperature,
-      });
-
-      // Validate OpenAI response
-      const validation = validateOpenAIResponse(response);
-      if (!validation.valid) {
-        throw new Error(`OpenAI response validation failed: ${validation.error}`);
+      const existingQuestions = [...(params.excludeQuestions ?? []), ...chosen.map((question) => question.text)];
+      const prompt = generateQuestionPrompt(params.topic, params.difficulty, bufferCount, params.questionTypes, existingQuestions, params.language);
+
+      console.log(`🧠 Sending request to ${this.model.name} model ${this.model.model}...`);
+      const { questions: validQuestions, attempts, rejected } = await generateStructuredQuestions(this.model, {
+        prompt,
+        count: requestedCount,
+        questionTypes: params.questionTypes,
+        maxTokens: GENERATION_CONFIG.maxTokens,
+        temperature: GENERATION_CONFIG.temperature,
+        existingQuestions,
+        verifyAnswers: params.verifyAnswers,
+        check: (raw) => this.checkGeneratedQuestion(raw, params)
+      }, onQuestion);
+      console.log(`📊 Validation complete: ${validQuestions.length} valid, ${rejected} rejected in ${attempts} request(s)`);
+
+      // Questions the answer check disagreed with are kept for this quiz only
+      await this.cache?.add(cacheKey, validQuestions.filter((question) => question.verification?.status !== 'disputed'));
+      chosen.push(...validQuestions);
+
+      // Then more cached questions, and sample questions as the last resort, once the model has had
+      // every attempt; never repeated, so the quiz may end up shorter than requested
+      if (chosen.length < params.count) {
+        cachedCount += (await takeCached(params.count - chosen.length)).length;
       }
-
-      const content = response.choices[0].message.content!;
-      console.log('📝 Raw OpenAI response length:', content.length);
-
-      // Parse JSON response
-      let parsedQuestions;
-      try {
-        // Clean content (remove any markdown formatting or extra text)
-        const cleanContent = content.replace(/```json\s*|\s*```/g, '').trim();
-        parsedQuestions = JSON.parse(cleanContent);
-      } catch (parseError) {
-        console.error('❌ Failed to parse OpenAI JSON response:', parseError);
-        console.error('Response content:', content);
-        throw new Error('Invalid JSON format in OpenAI response');
+      let sampleCount = 0;
+      if (chosen.length < params.count) {
+        const sampleQuestions = await this.getUnusedSampleQuestions(params, chosen);
+        const padding = sampleQuestions.slice(0, params.count - chosen.length);
+        chosen.push(...padding);
+        sampleCount = padding.length;
+        console.log(`📝 Padded with ${padding.length} sample questions`);
       }
 
-      // Validate and enhance questions
-      const validQuestions = this.validateAndEnhanceQuestions(parsedQuestions, params);
-
-      if (validQuestions.length === 0) {
-        throw new Error('No valid questions generated by OpenAI');
-      }
-
-      // If we don't have enough valid questions, pad with samples
-      if (validQuestions.length < requestedCount) {
-        const sampleQuestions = this.getSampleQuestions(params.difficulty);
-        const needed = requestedCount - validQuestions.length;
-        validQuestions.push(...sampleQuestions.slice(0, needed));
-        console.log(`📝 Padded with ${needed} sample questions`);
-      }
-
-      console.log(`✅ Successfully generated ${validQuestions.length} questions about "${params.topic}"`);
+      console.log(`✅ Successfully generated ${chosen.length} questions about "${params.topic}"`);
 
       return {
-        questions: validQuestions.slice(0, requestedCount),
-        aiGenerated: true
+        questions: chosen.slice(0, params.count),
+        aiGenerated: sampleCount === 0,
+        ...(cachedCount > 0 ? { cachedQuestions: cachedCount } : {}),
+        ...(sampleCount > 0 ? { sampleQuestions: sampleCount } : {})
       };
 
     } catch (error: any) {
       console.error('❌ AI question generation failed:', error);
+
+      // Earlier AI questions for the topic beat samples
+      cachedCount += (await takeCached(params.count - chosen.length)).length;
+      if (cachedCount > 0) {
+        console.log(`♻️ Using ${cachedCount} cached questions`);
+      }
       
       // Use fallback sample questions
       console.log('🔄 Using fallback sample questions');
-      const sampleQuestions = this.getSampleQuestions(params.difficulty);
-      
+      const sampleQuestions = await this.getUnusedSampleQuestions(params, chosen);
+      const padding = sampleQuestions.slice(0, params.count - chosen.length);
+
       return {
-        questions: sampleQuestions.slice(0, params.count),
-        aiGenerated: false,
+        questions: [...chosen, ...padding],
+        aiGenerated: padding.length === 0 && chosen.length > 0,
+        ...(cachedCount > 0 ? { cachedQuestions: cachedCount } : {}),
+        ...(padding.length > 0 ? { sampleQuestions: padding.length } : {}),
         fallbackReason: error.message
       };
     }
   }
-} 
\ No newline at end of file
+}
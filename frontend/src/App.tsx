@@ -5,6 +5,7 @@ import JoinRoomPage from "./pages/JoinRoomPage";
 import LobbyPage from "./pages/LobbyPage";
 import QuizPage from "./pages/QuizPage";
 import ResultsPage from "./pages/ResultsPage";
+import QuizLibraryPage from "./pages/QuizLibraryPage";
 import HealthMonitor from "./components/HealthMonitor";
 import LanguageSwitcher from "./components/LanguageSwitcher";
 import AnalyticsDashboard from "./components/AnalyticsDashboard";
@@ -57,6 +58,7 @@ function App() {
         <Route path="/lobby/:id" element={<LobbyPage />} />
         <Route path="/quiz/:id" element={<QuizPage />} />
         <Route path="/results/:roomId" element={<ResultsPage />} />
+        <Route path="/library" element={<QuizLibraryPage />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
       
@@ -1,6 +1,6 @@
 import { ref, push, update } from "firebase/database";
 import { db } from "../lib/firebase";
-import type { Room, Player, DifficultyLevel } from "../../../shared/types";
+import type { Room, Player, DifficultyLevel, ScoringStrategy, ComboSettings, QuestionType, AnswerVerificationMode } from "../../../shared/types";
 import { getSampleQuestions } from "../utils/sampleQuiz";
 import { generateQuestions, validateTopic } from "../services/questionGeneration";
 
@@ -8,11 +8,20 @@ import { generateQuestions, validateTopic } from "../services/questionGeneration
 import { MIGRATION_FLAGS } from "../config/environment";
 import { createRoom as createRoomBackend, isBackendHealthy } from "../services/apiClient";
 
+// Room settings beyond the basics (all optional; the server applies the defaults)
+export interface CreateRoomOptions {
+  scoringStrategy?: ScoringStrategy;
+  combo?: ComboSettings;
+  questionTypes?: QuestionType[]; // Kinds of questions to generate (topic-based rooms only)
+  verifyAnswers?: AnswerVerificationMode; // Second model pass over the answer keys (backend generation only)
+}
+
 export async function createRoom(
   nickname: string,
   topic: string,
   difficulty: DifficultyLevel,
-  questionCount: number
+  questionCount: number,
+  options: CreateRoomOptions = {}
 ): Promise<{roomId: string, playerId: string, aiGenerated: boolean, fallbackReason?: string}> {
   
   // Dynamic feature flag check - check current flag value at runtime
@@ -28,7 +37,7 @@ export async function createRoom(
       // Check backend health before attempting
       if (!isBackendHealthy()) {
         console.warn('⚠️ Backend not healthy, falling back to Firebase');
-        return await createRoomFirebase(nickname, topic, difficulty, questionCount);
+        return await createRoomFirebase(nickname, topic, difficulty, questionCount, options);
       }
       
       // Try backend room creation
@@ -36,13 +45,19 @@ export async function createRoom(
         nickname: nickname.trim(),
         topic: topic.trim(),
         difficulty,
-        questionCount
+        questionCount,
+        scoringStrategy: options.scoringStrategy,
+        combo: options.combo,
+        questionTypes: options.questionTypes,
+        verifyAnswers: options.verifyAnswers
       });
       
       console.log('✅ Room created successfully via backend:', result.roomId);
       
       // Store player ID in localStorage for consistency with Firebase approach
       localStorage.setItem("userId", result.playerId);
+      // Proves this player's identity when answering
+      localStorage.setItem("playerToken", result.playerToken);
       
       return result;
       
@@ -50,13 +65,13 @@ export async function createRoom(
       console.warn('🔄 Backend room creation failed, falling back to Firebase:', error.message);
       
       // Automatic fallback to Firebase on any backend error
-      return await createRoomFirebase(nickname, topic, difficulty, questionCount);
+      return await createRoomFirebase(nickname, topic, difficulty, questionCount, options);
     }
   }
   
   // Default: Use Firebase (original implementation)
   console.log('🔥 Creating room via Firebase (default)');
-  return await createRoomFirebase(nickname, topic, difficulty, questionCount);
+  return await createRoomFirebase(nickname, topic, difficulty, questionCount, options);
 }
 
 // Original Firebase implementation (unchanged, moved to separate function)
@@ -64,7 +79,8 @@ async function createRoomFirebase(
   nickname: string,
   topic: string,
   difficulty: DifficultyLevel,
-  questionCount: number
+  questionCount: number,
+  options: CreateRoomOptions = {}
 ): Promise<{roomId: string, playerId: string, aiGenerated: boolean, fallbackReason?: string}> {
   
   // Validate inputs
@@ -99,7 +115,8 @@ async function createRoomFirebase(
     questions = await generateQuestions({
       topic: topic.trim(),
       difficulty,
-      count: questionCount
+      count: questionCount,
+      questionTypes: options.questionTypes
     });
     aiGenerated = true;
     console.log(`✅ Successfully generated ${questions.length} AI questions`);
@@ -124,14 +141,8 @@ async function createRoomFirebase(
     }
   }
 
-  // Ensure we have enough questions
-  if (questions.length < questionCount) {
-    // Repeat questions if we don't have enough
-    const originalQuestions = [...questions];
-    while (questions.length < questionCount) {
-      questions.push(...originalQuestions.slice(0, questionCount - questions.length));
-    }
-  }
+  // Never pad with repeated questions: the quiz is shorter when fewer unique questions came back
+  questions = questions.slice(0, questionCount);
 
   const hostPlayer: Player = {
     id: hostId,
@@ -152,9 +163,11 @@ async function createRoomFirebase(
     createdAt: Date.now(),
     currentQuestionIndex: 0,
     players: { [hostId]: hostPlayer },
-    questions: questions.slice(0, questionCount), // Ensure exact count
-    totalQuestions: questionCount,
+    questions,
+    totalQuestions: questions.length,
     isGameComplete: false,
+    scoringStrategy: options.scoringStrategy ?? "classic",
+    ...(options.combo ? { combo: options.combo } : {}),
   };
 
   const roomRef = push(ref(db, "rooms"));
@@ -183,7 +196,8 @@ export async function createRoomWithQuestions(
   topic: string,
   difficulty: DifficultyLevel,
   questionCount: number,
-  questions: any[]
+  questions: any[],
+  options: CreateRoomOptions = {}
 ): Promise<{roomId: string, playerId: string, aiGenerated: boolean, fallbackReason?: string}> {
   
   // Dynamic feature flag check - check current flag value at runtime
@@ -199,7 +213,7 @@ export async function createRoomWithQuestions(
       // Check backend health before attempting
       if (!isBackendHealthy()) {
         console.warn('⚠️ Backend not healthy, falling back to Firebase');
-        return await createRoomFirebaseWithQuestions(nickname, topic, difficulty, questionCount, questions);
+        return await createRoomFirebaseWithQuestions(nickname, topic, difficulty, questionCount, questions, options);
       }
       
       // Try backend room creation with pre-generated questions
@@ -208,13 +222,17 @@ export async function createRoomWithQuestions(
         topic: topic.trim(),
         difficulty,
         questionCount,
-        questions // Pass the pre-generated questions
+        questions, // Pass the pre-generated questions
+        scoringStrategy: options.scoringStrategy,
+        combo: options.combo
       });
       
       console.log('✅ Room created successfully with pre-generated questions via backend:', result.roomId);
       
       // Store player ID in localStorage for consistency with Firebase approach
       localStorage.setItem("userId", result.playerId);
+      // Proves this player's identity when answering
+      localStorage.setItem("playerToken", result.playerToken);
       
       return result;
       
@@ -222,13 +240,13 @@ export async function createRoomWithQuestions(
       console.warn('🔄 Backend room creation with pre-generated questions failed, falling back to Firebase:', error.message);
       
       // Automatic fallback to Firebase on any backend error
-      return await createRoomFirebaseWithQuestions(nickname, topic, difficulty, questionCount, questions);
+      return await createRoomFirebaseWithQuestions(nickname, topic, difficulty, questionCount, questions, options);
     }
   }
   
   // Default: Use Firebase (original implementation)
   console.log('🔥 Creating room with pre-generated questions via Firebase (default)');
-  return await createRoomFirebaseWithQuestions(nickname, topic, difficulty, questionCount, questions);
+  return await createRoomFirebaseWithQuestions(nickname, topic, difficulty, questionCount, questions, options);
 }
 
 // Firebase implementation for creating room with pre-generated questions
@@ -237,7 +255,8 @@ async function createRoomFirebaseWithQuestions(
   topic: string,
   difficulty: DifficultyLevel,
   questionCount: number,
-  questions: any[]
+  questions: any[],
+  options: CreateRoomOptions = {}
 ): Promise<{roomId: string, playerId: string, aiGenerated: boolean, fallbackReason?: string}> {
   
   // Validate inputs
@@ -290,7 +309,9 @@ async function createRoomFirebaseWithQuestions(
     totalQuestions: questionCount,
     isGameComplete: false,
     aiGenerated: true, // Pre-generated questions are considered AI-generated
-    questionsGenerating: false // Questions are already available
+    questionsGenerating: false, // Questions are already available
+    scoringStrategy: options.scoringStrategy ?? "classic",
+    ...(options.combo ? { combo: options.combo } : {})
   };
 
   await update(ref(db, `rooms/${roomId}`), roomData);
@@ -0,0 +1,31 @@
+import axios from "axios";
+import type { GameIntent } from "../../../shared/types";
+import { sendGameIntent as sendGameIntentBackend, isBackendHealthy } from "../services/apiClient";
+import socketClient from "../services/socketClient";
+
+// The game loop runs on the server, so there is no Firebase-only path for intents.
+// The REST endpoint is preferred; the socket connection is used when the API is unreachable.
+export async function sendGameIntent(roomId: string, hostId: string, intent: GameIntent): Promise<void> {
+  if (isBackendHealthy()) {
+    try {
+      await sendGameIntentBackend(roomId, hostId, intent);
+      console.log(`✅ Game intent "${intent}" accepted by backend`);
+      return;
+    } catch (error) {
+      const code = axios.isAxiosError(error) ? error.response?.data?.code : undefined;
+      if (code) {
+        // The server rejected the intent (e.g. the phase already moved on) - nothing to retry
+        console.warn(`⚠️ Game intent "${intent}" rejected: ${code}`);
+        return;
+      }
+      console.warn('🔄 Backend game intent failed, falling back to socket:', (error as Error).message);
+    }
+  }
+
+  if (socketClient.isConnected()) {
+    socketClient.sendGameIntent(roomId, hostId, intent);
+    return;
+  }
+
+  throw new Error('Game server not reachable');
+}
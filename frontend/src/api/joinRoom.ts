@@ -34,6 +34,8 @@ export async function joinRoom(roomCode: string, nickname: string): Promise<{fou
       
       // Store player ID in localStorage for consistency with Firebase approach
       localStorage.setItem("userId", result.playerId);
+      // Proves this player's identity when answering
+      localStorage.setItem("playerToken", result.playerToken);
       
       return {
         foundRoomId: result.roomId,
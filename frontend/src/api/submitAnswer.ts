@@ -0,0 +1,41 @@
+import axios from "axios";
+import type { AnswerValue, SubmitAnswerResponse } from "../../../shared/types";
+import { submitAnswer as submitAnswerBackend, isBackendHealthy } from "../services/apiClient";
+import socketClient from "../services/socketClient";
+
+// Answers are validated and scored by the server; clients can no longer write answers or scores
+// to Firebase. The REST endpoint is preferred; the socket connection is used when the API is unreachable.
+// Both send the player token the server issued when this player created or joined the room.
+export async function submitAnswer(
+  roomId: string,
+  playerId: string,
+  questionIndex: number,
+  response: AnswerValue,
+  wager?: number
+): Promise<SubmitAnswerResponse | null> {
+  const playerToken = localStorage.getItem("playerToken") ?? "";
+
+  if (isBackendHealthy()) {
+    try {
+      const result = await submitAnswerBackend(roomId, { playerId, playerToken, questionIndex, response, wager });
+      console.log(`✅ Answer recorded: ${result.isCorrect ? 'correct' : 'incorrect'} (+${result.scoreEarned})`);
+      return result;
+    } catch (error) {
+      const code = axios.isAxiosError(error) ? error.response?.data?.code : undefined;
+      if (code) {
+        // The server rejected the answer (late, duplicate, wrong question) - nothing to retry
+        console.warn(`⚠️ Answer rejected: ${code}`);
+        return null;
+      }
+      console.warn('🔄 Backend answer submission failed, falling back to socket:', (error as Error).message);
+    }
+  }
+
+  if (socketClient.isConnected()) {
+    // The result arrives asynchronously through the room listener
+    socketClient.submitAnswer(roomId, playerId, playerToken, questionIndex, response, wager);
+    return null;
+  }
+
+  throw new Error('Game server not reachable');
+}
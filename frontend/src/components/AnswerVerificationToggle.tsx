@@ -0,0 +1,28 @@
+import { useTranslation } from 'react-i18next';
+
+interface AnswerVerificationToggleProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  disabled?: boolean;
+}
+
+// Opt-in second AI pass that answers each generated question blind to catch wrong answer keys
+export default function AnswerVerificationToggle({ checked, onChange, disabled = false }: AnswerVerificationToggleProps) {
+  const { t } = useTranslation();
+
+  return (
+    <label className="flex items-start gap-3 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        disabled={disabled}
+        className="mt-1 h-4 w-4 accent-[#10A3A2] cursor-pointer disabled:cursor-not-allowed"
+      />
+      <span>
+        <span className="block text-sm font-medium text-[#4E342E]">{t('Double-check answers')}</span>
+        <span className="block text-[#6D4C41] text-xs">{t('A second AI pass answers every question on its own; questions it disagrees with are replaced or flagged. Slower and uses more AI requests.')}</span>
+      </span>
+    </label>
+  );
+}
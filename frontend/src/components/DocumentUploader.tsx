@@ -1,23 +1,33 @@
 import React, { useState, useRef } from 'react';
 import { FaFileUpload, FaFile, FaTimes, FaSpinner } from 'react-icons/fa';
 import { useTranslation } from 'react-i18next';
+import type { DocumentStructure } from '../../../shared/types';
+import { SUPPORTED_DOCUMENT_TYPES } from '../utils/documents';
 
 interface DocumentUploaderProps {
-  onFileUpload: (file: File) => void;
+  onFilesUpload: (files: File[]) => void; // Files picked together are processed as one document
   onFileRemove: () => void;
-  uploadedFile: File | null;
+  uploadedFiles: File[];
   isProcessing: boolean;
   supportedTypes?: string[];
-  maxSize?: number;
+  maxSize?: number; // Per file
+  maxFiles?: number;
+  structure?: DocumentStructure; // Table of contents of the processed document
+  selectedSections?: number[]; // Indexes of the sections to quiz on; none means the whole document
+  onSelectedSectionsChange?: (sections: number[]) => void;
 }
 
 export const DocumentUploader: React.FC<DocumentUploaderProps> = ({
-  onFileUpload,
+  onFilesUpload,
   onFileRemove,
-  uploadedFile,
+  uploadedFiles,
   isProcessing,
-  supportedTypes = ['pdf', 'docx', 'txt'],
-  maxSize = 10 * 1024 * 1024 // 10MB default
+  supportedTypes = SUPPORTED_DOCUMENT_TYPES,
+  maxSize = 10 * 1024 * 1024, // 10MB default
+  maxFiles = 5,
+  structure,
+  selectedSections = [],
+  onSelectedSectionsChange
 }) => {
   const { t } = useTranslation();
   const [dragActive, setDragActive] = useState(false);
@@ -42,32 +52,40 @@ export const DocumentUploader: React.FC<DocumentUploaderProps> = ({
 
     const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
-      processFile(files[0]);
+      processFiles(files);
     }
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     if (files.length > 0) {
-      processFile(files[0]);
+      processFiles(files);
     }
   };
 
-  const processFile = (file: File) => {
-    // Validate file type
-    const fileExtension = file.name.split('.').pop()?.toLowerCase();
-    if (!supportedTypes.includes(fileExtension || '')) {
-      setError(`${t('Unsupported file type. Please upload:')} ${supportedTypes.join(', ')}`);
+  const processFiles = (files: File[]) => {
+    if (files.length > maxFiles) {
+      setError(t('Upload at most {{count}} files at a time', { count: maxFiles }));
       return;
     }
 
-    // Validate file size
-    if (file.size > maxSize) {
-      setError(`${t('File too large. Maximum size:')} ${(maxSize / (1024 * 1024)).toFixed(0)}MB`);
-      return;
+    for (const file of files) {
+      // Validate file type
+      const fileExtension = file.name.split('.').pop()?.toLowerCase();
+      if (!supportedTypes.includes(fileExtension || '')) {
+        setError(`${t('Unsupported file type. Please upload:')} ${supportedTypes.join(', ')}`);
+        return;
+      }
+
+      // Validate file size
+      if (file.size > maxSize) {
+        setError(`${t('File too large. Maximum size:')} ${(maxSize / (1024 * 1024)).toFixed(0)}MB`);
+        return;
+      }
     }
 
-    onFileUpload(file);
+    setError('');
+    onFilesUpload(files);
   };
 
   const handleClick = () => {
@@ -82,17 +100,29 @@ export const DocumentUploader: React.FC<DocumentUploaderProps> = ({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  if (uploadedFile) {
+  const toggleSection = (index: number) => {
+    onSelectedSectionsChange?.(
+      selectedSections.includes(index)
+        ? selectedSections.filter((selected) => selected !== index)
+        : [...selectedSections, index].sort((a, b) => a - b)
+    );
+  };
+
+  if (uploadedFiles.length > 0) {
     return (
       <div className="bg-green-50 border border-green-200 rounded-lg p-4">
         <div className="flex items-center justify-between">
-          <div className="flex items-center space-x-3">
-            <FaFile className="text-green-600 text-xl" />
-            <div>
-              <p className="text-sm font-medium text-green-800">{uploadedFile.name}</p>
-              <p className="text-xs text-green-600">{formatFileSize(uploadedFile.size)}</p>
-            </div>
-          </div>
+          <ul className="space-y-2">
+            {uploadedFiles.map((file, index) => (
+              <li key={`${file.name}-${index}`} className="flex items-center space-x-3">
+                <FaFile className="text-green-600 text-xl" />
+                <div>
+                  <p className="text-sm font-medium text-green-800">{file.name}</p>
+                  <p className="text-xs text-green-600">{formatFileSize(file.size)}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
           <div className="flex items-center space-x-2">
             {isProcessing && (
               <FaSpinner className="text-green-600 animate-spin" />
@@ -106,6 +136,42 @@ export const DocumentUploader: React.FC<DocumentUploaderProps> = ({
             </button>
           </div>
         </div>
+
+        {structure && structure.sections.length > 0 && onSelectedSectionsChange && (
+          <div className="mt-4 border-t border-green-200 pt-3">
+            <p className="text-sm font-medium text-green-800">{t('Contents')}</p>
+            <p className="text-xs text-green-700 mb-2">
+              {selectedSections.length > 0
+                ? t('Questions will only come from the ticked sections.')
+                : t('Tick the chapters to quiz on, or leave them all unticked to use the whole document.')}
+            </p>
+            <ul className="max-h-64 overflow-y-auto space-y-1">
+              {structure.sections.map((section, index) => (
+                <li key={`${section.start}-${index}`} style={{ paddingLeft: `${(Math.min(section.level, 4) - 1) * 1.25}rem` }}>
+                  <label className="flex items-start gap-2 text-sm text-green-900 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedSections.includes(index)}
+                      onChange={() => toggleSection(index)}
+                      disabled={isProcessing}
+                      className="mt-0.5 h-4 w-4 accent-[#10A3A2] cursor-pointer"
+                    />
+                    <span className="flex-1">{section.title}</span>
+                    <span className="text-xs text-green-600 whitespace-nowrap">
+                      {section.slide !== undefined
+                        ? t('Slide {{slide}}', { slide: section.slide })
+                        : section.pages
+                          ? section.pages[0] === section.pages[1]
+                            ? t('Page {{page}}', { page: section.pages[0] })
+                            : t('Pages {{from}}–{{to}}', { from: section.pages[0], to: section.pages[1] })
+                          : null}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     );
   }
@@ -129,6 +195,7 @@ export const DocumentUploader: React.FC<DocumentUploaderProps> = ({
           type="file"
           className="hidden"
           accept={supportedTypes.map(type => `.${type}`).join(',')}
+          multiple={maxFiles > 1}
           onChange={handleFileSelect}
           disabled={isProcessing}
         />
@@ -147,6 +214,11 @@ export const DocumentUploader: React.FC<DocumentUploaderProps> = ({
             <p className="text-sm text-gray-500">
               {t('Supported:')} {supportedTypes.join(', ').toUpperCase()} (max {(maxSize / (1024 * 1024)).toFixed(0)}MB)
             </p>
+            {maxFiles > 1 && (
+              <p className="text-xs text-gray-500">
+                {t('Pick up to {{count}} files to quiz on them together', { count: maxFiles })}
+              </p>
+            )}
           </div>
         )}
       </div>
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { FaCrown, FaAward, FaStar, FaTrophy } from 'react-icons/fa';
+import StreakBadge from './StreakBadge';
 
 interface Player {
   id: string;
@@ -9,6 +10,7 @@ interface Player {
   totalAnswers: number;
   accuracy: number;
   avgResponseTime: number;
+  streak?: number;
 }
 
 interface LeaderboardChartProps {
@@ -84,6 +86,7 @@ export default function LeaderboardChart({ players, currentPlayerId, maxScore }:
                     <span className="font-medium ml-1 text-[#4E342E]">(You)</span>
                   )}
                 </span>
+                <StreakBadge streak={player.streak} />
               </div>
             </div>
 
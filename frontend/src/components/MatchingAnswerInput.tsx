@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FaLock } from 'react-icons/fa';
+import type { AnswerValue, MatchingQuestion } from '../../../shared/types';
+import { ANSWER_SUBMIT_CLASS, shuffleForDisplay } from '../utils/questionTypes';
+
+interface MatchingAnswerInputProps {
+  question: MatchingQuestion;
+  revealed: boolean;
+  response: string[] | null;
+  hasAnswered: boolean;
+  disabled?: boolean;
+  onSubmit: (response: AnswerValue) => void;
+}
+
+// Drag a match onto each term, or pick it from the term's dropdown with the keyboard.
+// The response lists the match picked for each pair in pair order ("" when left unmatched).
+export default function MatchingAnswerInput({
+  question,
+  revealed,
+  response,
+  hasAnswered,
+  disabled = false,
+  onSubmit
+}: MatchingAnswerInputProps) {
+  const { t } = useTranslation();
+  const [choices] = useState<string[]>(() => shuffleForDisplay(question.pairs.map((pair) => pair.right)));
+  const [matches, setMatches] = useState<string[]>(() => question.pairs.map(() => ''));
+  const [dragged, setDragged] = useState<string | null>(null);
+
+  const locked = hasAnswered || disabled || revealed;
+  const shownMatches = (hasAnswered || revealed) ? response ?? question.pairs.map(() => '') : matches;
+  const unmatched = choices.filter((choice) => !matches.includes(choice));
+
+  // A match can only sit on one term, so assigning it elsewhere moves it
+  const assign = (pairIndex: number, choice: string) => {
+    if (locked) return;
+    setMatches(matches.map((current, index) => {
+      if (index === pairIndex) return choice;
+      return current === choice ? '' : current;
+    }));
+  };
+
+  const getSlotClass = (pairIndex: number) => {
+    const base = "flex-1 min-w-0 border-2 rounded-xl px-3 py-2 text-sm sm:text-base transition-all duration-300 ";
+    if (revealed) {
+      return base + (shownMatches[pairIndex] === question.pairs[pairIndex].right
+        ? "bg-teal-100 border-teal-500 text-teal-800"
+        : "bg-red-100 border-red-500 text-red-800");
+    }
+    if (hasAnswered) return base + "bg-amber-100 border-amber-500 text-amber-800";
+    return base + (shownMatches[pairIndex] ? "bg-amber-50 border-amber-400 text-gray-800" : "bg-white border-dashed border-gray-300 text-gray-500");
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-3">{t('Match each term with its pair')}</p>
+
+      {/* Matches not placed yet */}
+      {!locked && (
+        <div className="flex flex-wrap gap-2 mb-4 min-h-[2.5rem]">
+          {unmatched.map((choice) => (
+            <span
+              key={choice}
+              draggable
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = 'move';
+                setDragged(choice);
+              }}
+              onDragEnd={() => setDragged(null)}
+              className="px-3 py-2 rounded-lg border-2 border-amber-300 bg-white text-gray-800 text-sm font-medium shadow-sm cursor-grab hover:bg-amber-50"
+            >
+              {choice}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 sm:space-y-3">
+        {question.pairs.map((pair, pairIndex) => (
+          <div key={pair.left} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3">
+            <span className="sm:w-2/5 font-semibold text-gray-800 text-sm sm:text-base">{pair.left}</span>
+            <div
+              className={getSlotClass(pairIndex)}
+              onDragOver={(event) => {
+                if (!locked && dragged) event.preventDefault();
+              }}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (dragged) assign(pairIndex, dragged);
+                setDragged(null);
+              }}
+            >
+              {locked ? (
+                <div className="flex items-center justify-between gap-2">
+                  <span>{shownMatches[pairIndex] || '—'}</span>
+                  {hasAnswered && !revealed && <FaLock className="text-amber-600 flex-shrink-0" />}
+                </div>
+              ) : (
+                <select
+                  value={matches[pairIndex]}
+                  onChange={(event) => assign(pairIndex, event.target.value)}
+                  aria-label={pair.left}
+                  className="w-full bg-transparent focus:outline-none cursor-pointer"
+                >
+                  <option value="">{t('Drop or choose a match')}</option>
+                  {choices.map((choice) => (
+                    <option key={choice} value={choice}>{choice}</option>
+                  ))}
+                </select>
+              )}
+              {revealed && shownMatches[pairIndex] !== pair.right && (
+                <p className="text-xs text-teal-700 mt-1">{t('Correct match')}: {pair.right}</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {!hasAnswered && !revealed && (
+        <div className="flex justify-center mt-4">
+          <button
+            onClick={() => onSubmit(matches)}
+            disabled={locked || matches.every((match) => match === '')}
+            className={ANSWER_SUBMIT_CLASS}
+          >
+            {t('Submit answer')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
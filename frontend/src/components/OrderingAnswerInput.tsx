@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FaArrowDown, FaArrowUp, FaGripVertical, FaLock } from 'react-icons/fa';
+import type { AnswerValue, OrderingQuestion } from '../../../shared/types';
+import { ANSWER_SUBMIT_CLASS, shuffleForDisplay } from '../utils/questionTypes';
+
+interface OrderingAnswerInputProps {
+  question: OrderingQuestion;
+  revealed: boolean;
+  response: string[] | null;
+  hasAnswered: boolean;
+  disabled?: boolean;
+  onSubmit: (response: AnswerValue) => void;
+}
+
+// Sortable list: drag items into place, or use the arrow buttons from the keyboard
+export default function OrderingAnswerInput({
+  question,
+  revealed,
+  response,
+  hasAnswered,
+  disabled = false,
+  onSubmit
+}: OrderingAnswerInputProps) {
+  const { t } = useTranslation();
+  const [order, setOrder] = useState<string[]>(() => shuffleForDisplay(question.items));
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const locked = hasAnswered || disabled || revealed;
+  // The submitted order once locked; the correct order is revealed to players who did not answer
+  const shownOrder = (hasAnswered || revealed) && response ? response : revealed ? question.items : order;
+
+  const moveItem = (from: number, to: number) => {
+    if (locked || to < 0 || to >= order.length || from === to) return;
+    const next = [...order];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    setOrder(next);
+  };
+
+  const getRowClass = (item: string, index: number) => {
+    const base = "flex items-center gap-3 p-3 sm:p-4 border-2 rounded-xl font-medium text-sm sm:text-base transition-all duration-300 ";
+    if (revealed) {
+      return base + (question.items[index] === item
+        ? "bg-teal-100 border-teal-500 text-teal-800"
+        : "bg-red-100 border-red-500 text-red-800");
+    }
+    if (hasAnswered) return base + "bg-amber-100 border-amber-500 text-amber-800";
+    if (dragIndex === index) return base + "bg-amber-50 border-amber-400 text-gray-800 opacity-60";
+    return base + "bg-white border-gray-300 text-gray-800 shadow-sm hover:border-amber-400 cursor-grab";
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-3">{t('Drag the items into the right order')}</p>
+      <ol className="space-y-2 sm:space-y-3">
+        {shownOrder.map((item, index) => (
+          <li
+            key={item}
+            className={getRowClass(item, index)}
+            draggable={!locked}
+            onDragStart={(event) => {
+              event.dataTransfer.effectAllowed = 'move';
+              setDragIndex(index);
+            }}
+            onDragOver={(event) => {
+              if (!locked && dragIndex !== null) event.preventDefault();
+            }}
+            onDrop={(event) => {
+              event.preventDefault();
+              if (dragIndex !== null) moveItem(dragIndex, index);
+              setDragIndex(null);
+            }}
+            onDragEnd={() => setDragIndex(null)}
+          >
+            {!locked && <FaGripVertical className="text-gray-400 flex-shrink-0" />}
+            <span className="font-bold text-gray-500 w-6 flex-shrink-0">{index + 1}.</span>
+            <span className="flex-1">{item}</span>
+            {!locked && (
+              <span className="flex gap-1 flex-shrink-0">
+                <button
+                  type="button"
+                  onClick={() => moveItem(index, index - 1)}
+                  disabled={index === 0}
+                  aria-label={t('Move up')}
+                  className="p-2 rounded-lg text-gray-600 hover:bg-amber-100 cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+                >
+                  <FaArrowUp />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveItem(index, index + 1)}
+                  disabled={index === shownOrder.length - 1}
+                  aria-label={t('Move down')}
+                  className="p-2 rounded-lg text-gray-600 hover:bg-amber-100 cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+                >
+                  <FaArrowDown />
+                </button>
+              </span>
+            )}
+            {hasAnswered && !revealed && <FaLock className="text-amber-600 flex-shrink-0" />}
+          </li>
+        ))}
+      </ol>
+      {!hasAnswered && !revealed && (
+        <div className="flex justify-center mt-4">
+          <button onClick={() => onSubmit(order)} disabled={locked} className={ANSWER_SUBMIT_CLASS}>
+            {t('Submit answer')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
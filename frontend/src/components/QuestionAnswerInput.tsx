@@ -0,0 +1,207 @@
+import { useState, type ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FaCheckSquare, FaLock, FaRegSquare } from 'react-icons/fa';
+import type { AnswerValue, Question } from '../../../shared/types';
+import { parseNumericResponse } from '../../../shared/questions';
+import { ANSWER_SUBMIT_CLASS } from '../utils/questionTypes';
+import { resolveMediaUrl } from '../utils/media';
+import OrderingAnswerInput from './OrderingAnswerInput';
+import MatchingAnswerInput from './MatchingAnswerInput';
+
+interface QuestionAnswerInputProps {
+  question: Question;
+  revealed: boolean; // The correct answer is being shown
+  response: AnswerValue | null; // What this player submitted
+  hasAnswered: boolean;
+  disabled?: boolean; // Paused or otherwise not accepting answers
+  onSubmit: (response: AnswerValue) => void;
+}
+
+const OPTION_BASE_CLASS = "w-full text-left p-3 sm:p-4 border-2 rounded-xl transition-all duration-300 font-medium transform hover:scale-[1.02] text-sm sm:text-base ";
+const FIELD_CLASS = "flex-1 border-2 border-amber-300 rounded-xl px-4 py-3 text-base sm:text-lg bg-white text-gray-800 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 disabled:bg-gray-100 disabled:text-gray-600";
+
+// Styling of a choice button for the current phase
+function getOptionClass(revealed: boolean, hasAnswered: boolean, isCorrect: boolean, isPicked: boolean): string {
+  if (revealed) {
+    if (isCorrect) return OPTION_BASE_CLASS + "bg-teal-100 border-teal-500 text-teal-800 shadow-lg"; // Correct answer in teal
+    if (isPicked) return OPTION_BASE_CLASS + "bg-red-100 border-red-500 text-red-800 shadow-lg"; // Wrong selection in red
+    return OPTION_BASE_CLASS + "bg-gray-100 border-gray-300 text-gray-600"; // Other options grayed out
+  }
+  if (isPicked) return OPTION_BASE_CLASS + "bg-amber-100 border-amber-500 text-amber-800 shadow-lg"; // Selected (and locked once submitted)
+  if (hasAnswered) return OPTION_BASE_CLASS + "bg-gray-100 border-gray-300 text-gray-400 opacity-50 cursor-not-allowed"; // Disabled options
+  return OPTION_BASE_CLASS + "bg-white border-gray-300 text-gray-800 hover:bg-amber-50 hover:border-amber-400 shadow-sm hover:shadow-md";
+}
+
+// Answer controls for every question kind: choice buttons, checkboxes, true/false, free text, numbers,
+// ordering and matching
+export default function QuestionAnswerInput({
+  question,
+  revealed,
+  response,
+  hasAnswered,
+  disabled = false,
+  onSubmit
+}: QuestionAnswerInputProps) {
+  const { t } = useTranslation();
+  const [picks, setPicks] = useState<string[]>([]);
+  const [draft, setDraft] = useState('');
+
+  const locked = hasAnswered || disabled || revealed;
+  const showLock = hasAnswered && !revealed;
+
+  // Options picked so far: the submitted response once locked or revealed, the local draft before
+  const pickedOptions = hasAnswered || revealed ? (Array.isArray(response) ? response : []) : picks;
+
+  const renderChoice = (
+    key: string,
+    label: string,
+    isCorrect: boolean,
+    isPicked: boolean,
+    onClick: () => void,
+    extras: { icon?: ReactNode; image?: string } = {}
+  ) => (
+    <button
+      key={key}
+      className={getOptionClass(revealed, hasAnswered, isCorrect, isPicked)}
+      disabled={locked}
+      onClick={() => !locked && onClick()}
+    >
+      {extras.image && (
+        <img
+          src={resolveMediaUrl(extras.image)}
+          alt={label}
+          className="w-full h-28 sm:h-36 object-contain rounded-lg bg-white mb-2"
+        />
+      )}
+      <div className="flex items-center justify-between">
+        <span className="flex items-center">
+          {extras.icon}
+          <span>{label}</span>
+        </span>
+        {/* Show lock icon for the selected answer after submission */}
+        {showLock && isPicked && (
+          <FaLock className="text-amber-600 text-lg flex-shrink-0 ml-2" />
+        )}
+      </div>
+    </button>
+  );
+
+  switch (question.type) {
+    case "multiple":
+      return (
+        <div>
+          <p className="text-sm text-gray-600 mb-3">{t('Select all that apply')}</p>
+          <div className={`grid gap-3 sm:gap-4 ${question.optionImages ? 'grid-cols-2' : ''}`}>
+            {question.options.map((opt, index) => {
+              const isPicked = pickedOptions.includes(opt);
+              const Icon = isPicked ? FaCheckSquare : FaRegSquare;
+              return renderChoice(
+                opt,
+                opt,
+                question.correctOptions.includes(opt),
+                isPicked,
+                () => setPicks(isPicked ? picks.filter((pick) => pick !== opt) : [...picks, opt]),
+                { icon: <Icon className="mr-3 flex-shrink-0" />, image: question.optionImages?.[index] }
+              );
+            })}
+          </div>
+          {!hasAnswered && !revealed && (
+            <div className="flex justify-center mt-4">
+              <button onClick={() => onSubmit(picks)} disabled={locked || picks.length === 0} className={ANSWER_SUBMIT_CLASS}>
+                {t('Submit answer')}
+              </button>
+            </div>
+          )}
+        </div>
+      );
+
+    case "true-false":
+      return (
+        <div className="grid grid-cols-2 gap-3 sm:gap-4">
+          {[true, false].map((value) =>
+            renderChoice(
+              String(value),
+              value ? t('True') : t('False'),
+              question.correctAnswer === value,
+              response === value,
+              () => onSubmit(value)
+            )
+          )}
+        </div>
+      );
+
+    case "text":
+    case "numeric": {
+      const isNumeric = question.type === "numeric";
+      const canSubmit = isNumeric ? parseNumericResponse(draft) !== null : draft.trim().length > 0;
+      const value = hasAnswered || revealed ? (response !== null ? String(response) : '') : draft;
+
+      return (
+        <form
+          className="flex flex-col sm:flex-row gap-3 sm:items-center"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!locked && canSubmit) onSubmit(isNumeric ? (parseNumericResponse(draft) as number) : draft.trim());
+          }}
+        >
+          <div className="flex flex-1 items-center gap-2">
+            <input
+              type="text"
+              inputMode={isNumeric ? "decimal" : "text"}
+              value={value}
+              onChange={(event) => setDraft(event.target.value)}
+              placeholder={isNumeric ? t('Enter a number') : t('Type your answer')}
+              maxLength={200}
+              disabled={locked}
+              className={FIELD_CLASS}
+            />
+            {isNumeric && question.unit && (
+              <span className="text-gray-700 font-medium">{question.unit}</span>
+            )}
+            {showLock && <FaLock className="text-amber-600 text-lg flex-shrink-0" />}
+          </div>
+          {!hasAnswered && !revealed && (
+            <button type="submit" disabled={locked || !canSubmit} className={ANSWER_SUBMIT_CLASS}>
+              {t('Submit answer')}
+            </button>
+          )}
+        </form>
+      );
+    }
+
+    case "ordering":
+      return (
+        <OrderingAnswerInput
+          question={question}
+          revealed={revealed}
+          response={Array.isArray(response) ? response : null}
+          hasAnswered={hasAnswered}
+          disabled={disabled}
+          onSubmit={onSubmit}
+        />
+      );
+
+    case "matching":
+      return (
+        <MatchingAnswerInput
+          question={question}
+          revealed={revealed}
+          response={Array.isArray(response) ? response : null}
+          hasAnswered={hasAnswered}
+          disabled={disabled}
+          onSubmit={onSubmit}
+        />
+      );
+
+    default:
+      return (
+        <div className={`grid gap-3 sm:gap-4 ${question.optionImages ? 'grid-cols-2' : ''}`}>
+          {question.options.map((opt, index) =>
+            renderChoice(opt, opt, opt === question.correctOption, response === opt, () => onSubmit(opt), {
+              image: question.optionImages?.[index]
+            })
+          )}
+        </div>
+      );
+  }
+}
@@ -0,0 +1,284 @@
+import { useTranslation } from 'react-i18next';
+import { FaArrowDown, FaArrowUp, FaPlus, FaTimes } from 'react-icons/fa';
+import type { Question } from '../../../shared/types';
+import {
+  MAX_MATCHING_PAIRS,
+  MAX_OPTIONS,
+  MAX_ORDERING_ITEMS,
+  MIN_MATCHING_PAIRS,
+  MIN_OPTIONS,
+  MIN_ORDERING_ITEMS
+} from '../../../shared/questions';
+import { addOption, moveItem, removeOption, renameOption, setOptionalText } from '../utils/questionEditor';
+
+interface QuestionEditFormProps {
+  question: Question;
+  onChange: (question: Question) => void;
+  disabled?: boolean;
+}
+
+const INPUT_CLASS = 'w-full border-2 border-[#4E342E]/30 rounded-lg px-3 py-2 focus:ring-2 focus:ring-[#10A3A2] focus:border-[#10A3A2] bg-white text-[#4E342E] placeholder-[#6D4C41]/60 text-sm';
+const ICON_BUTTON_CLASS = 'p-2 rounded-lg text-[#6D4C41] hover:text-[#4E342E] hover:bg-[#F7E2C0] cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed';
+const ADD_BUTTON_CLASS = 'flex items-center gap-1 text-sm font-medium text-[#05717B] hover:text-[#4E342E] cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed';
+
+interface StringListEditorProps {
+  values: string[];
+  onChange: (values: string[]) => void;
+  min: number;
+  max: number;
+  placeholder: string;
+  addLabel: string;
+  reorderable?: boolean;
+  disabled?: boolean;
+}
+
+// List of text fields with add/remove (and optionally up/down) buttons
+function StringListEditor({ values, onChange, min, max, placeholder, addLabel, reorderable = false, disabled = false }: StringListEditorProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-2">
+      {values.map((value, index) => (
+        <div key={index} className="flex items-center gap-1">
+          {reorderable && <span className="w-6 text-sm font-semibold text-[#6D4C41]">{index + 1}.</span>}
+          <input
+            value={value}
+            onChange={(e) => onChange(values.map((v, i) => (i === index ? e.target.value : v)))}
+            placeholder={placeholder}
+            className={INPUT_CLASS}
+            disabled={disabled}
+          />
+          {reorderable && (
+            <>
+              <button type="button" onClick={() => onChange(moveItem(values, index, index - 1))} disabled={disabled || index === 0} className={ICON_BUTTON_CLASS} aria-label={t('Move up')}>
+                <FaArrowUp />
+              </button>
+              <button type="button" onClick={() => onChange(moveItem(values, index, index + 1))} disabled={disabled || index === values.length - 1} className={ICON_BUTTON_CLASS} aria-label={t('Move down')}>
+                <FaArrowDown />
+              </button>
+            </>
+          )}
+          <button type="button" onClick={() => onChange(values.filter((_, i) => i !== index))} disabled={disabled || values.length <= min} className={ICON_BUTTON_CLASS} aria-label={t('Remove')}>
+            <FaTimes />
+          </button>
+        </div>
+      ))}
+      {values.length < max && (
+        <button type="button" onClick={() => onChange([...values, ''])} disabled={disabled} className={ADD_BUTTON_CLASS}>
+          <FaPlus />
+          {addLabel}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Editable fields of one question; the fields shown depend on the question type
+export default function QuestionEditForm({ question, onChange, disabled = false }: QuestionEditFormProps) {
+  const { t } = useTranslation();
+
+  const renderAnswerFields = () => {
+    switch (question.type) {
+      case undefined:
+      case 'single':
+      case 'multiple': {
+        const isMultiple = question.type === 'multiple';
+        const isCorrect = (option: string) => (question.type === 'multiple' ? question.correctOptions.includes(option) : question.correctOption === option);
+        const toggleCorrect = (option: string) => {
+          if (question.type === 'multiple') {
+            const correctOptions = isCorrect(option)
+              ? question.correctOptions.filter((o) => o !== option)
+              : [...question.correctOptions, option];
+            onChange({ ...question, correctOptions });
+          } else {
+            onChange({ ...question, correctOption: option });
+          }
+        };
+
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-[#6D4C41]">{isMultiple ? t('Tick every correct option') : t('Select the correct option')}</p>
+            {question.options.map((option, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type={isMultiple ? 'checkbox' : 'radio'}
+                  checked={option !== '' && isCorrect(option)}
+                  onChange={() => toggleCorrect(option)}
+                  disabled={disabled || option === ''}
+                  className="w-4 h-4 flex-shrink-0"
+                  style={{ accentColor: '#10A3A2' }}
+                  aria-label={t('Correct Answer')}
+                />
+                <input
+                  value={option}
+                  onChange={(e) => onChange(renameOption(question, index, e.target.value))}
+                  placeholder={t('Option {{number}}', { number: index + 1 })}
+                  className={INPUT_CLASS}
+                  disabled={disabled}
+                />
+                <button type="button" onClick={() => onChange(removeOption(question, index))} disabled={disabled || question.options.length <= MIN_OPTIONS} className={ICON_BUTTON_CLASS} aria-label={t('Remove')}>
+                  <FaTimes />
+                </button>
+              </div>
+            ))}
+            {question.options.length < MAX_OPTIONS && (
+              <button type="button" onClick={() => onChange(addOption(question))} disabled={disabled} className={ADD_BUTTON_CLASS}>
+                <FaPlus />
+                {t('Add option')}
+              </button>
+            )}
+          </div>
+        );
+      }
+
+      case 'true-false':
+        return (
+          <div className="flex gap-4">
+            {[true, false].map((value) => (
+              <label key={String(value)} className="flex items-center gap-2 text-sm text-[#4E342E] cursor-pointer">
+                <input
+                  type="radio"
+                  checked={question.correctAnswer === value}
+                  onChange={() => onChange({ ...question, correctAnswer: value })}
+                  disabled={disabled}
+                  style={{ accentColor: '#10A3A2' }}
+                />
+                {t(value ? 'True' : 'False')}
+              </label>
+            ))}
+          </div>
+        );
+
+      case 'text':
+        return (
+          <StringListEditor
+            values={question.acceptedAnswers}
+            onChange={(acceptedAnswers) => onChange({ ...question, acceptedAnswers })}
+            min={1}
+            max={10}
+            placeholder={t('Accepted answer')}
+            addLabel={t('Add accepted answer')}
+            disabled={disabled}
+          />
+        );
+
+      case 'numeric':
+        return (
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-xs text-[#6D4C41]">
+              {t('Correct value')}
+              <input
+                type="number"
+                value={Number.isFinite(question.correctValue) ? question.correctValue : ''}
+                onChange={(e) => onChange({ ...question, correctValue: e.target.valueAsNumber })}
+                className={INPUT_CLASS}
+                disabled={disabled}
+              />
+            </label>
+            <label className="text-xs text-[#6D4C41]">
+              {t('Tolerance (±)')}
+              <input
+                type="number"
+                min={0}
+                value={Number.isFinite(question.tolerance) ? question.tolerance : ''}
+                onChange={(e) => onChange({ ...question, tolerance: e.target.valueAsNumber })}
+                className={INPUT_CLASS}
+                disabled={disabled}
+              />
+            </label>
+            <label className="text-xs text-[#6D4C41]">
+              {t('Unit')}
+              <input
+                value={question.unit ?? ''}
+                onChange={(e) => onChange(setOptionalText(question, 'unit', e.target.value))}
+                className={INPUT_CLASS}
+                disabled={disabled}
+              />
+            </label>
+          </div>
+        );
+
+      case 'ordering':
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-[#6D4C41]">{t('List the items in the correct order')}</p>
+            <StringListEditor
+              values={question.items}
+              onChange={(items) => onChange({ ...question, items })}
+              min={MIN_ORDERING_ITEMS}
+              max={MAX_ORDERING_ITEMS}
+              placeholder={t('Item')}
+              addLabel={t('Add item')}
+              reorderable
+              disabled={disabled}
+            />
+          </div>
+        );
+
+      case 'matching':
+        return (
+          <div className="space-y-2">
+            {question.pairs.map((pair, index) => (
+              <div key={index} className="flex items-center gap-1">
+                <input
+                  value={pair.left}
+                  onChange={(e) => onChange({ ...question, pairs: question.pairs.map((p, i) => (i === index ? { ...p, left: e.target.value } : p)) })}
+                  placeholder={t('Term')}
+                  className={INPUT_CLASS}
+                  disabled={disabled}
+                />
+                <span className="text-[#6D4C41]">→</span>
+                <input
+                  value={pair.right}
+                  onChange={(e) => onChange({ ...question, pairs: question.pairs.map((p, i) => (i === index ? { ...p, right: e.target.value } : p)) })}
+                  placeholder={t('Match')}
+                  className={INPUT_CLASS}
+                  disabled={disabled}
+                />
+                <button type="button" onClick={() => onChange({ ...question, pairs: question.pairs.filter((_, i) => i !== index) })} disabled={disabled || question.pairs.length <= MIN_MATCHING_PAIRS} className={ICON_BUTTON_CLASS} aria-label={t('Remove')}>
+                  <FaTimes />
+                </button>
+              </div>
+            ))}
+            {question.pairs.length < MAX_MATCHING_PAIRS && (
+              <button type="button" onClick={() => onChange({ ...question, pairs: [...question.pairs, { left: '', right: '' }] })} disabled={disabled} className={ADD_BUTTON_CLASS}>
+                <FaPlus />
+                {t('Add pair')}
+              </button>
+            )}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-xs font-medium text-[#6D4C41]">
+        {t('Question')}
+        <textarea
+          value={question.text}
+          onChange={(e) => onChange({ ...question, text: e.target.value })}
+          rows={2}
+          className={`${INPUT_CLASS} mt-1`}
+          disabled={disabled}
+        />
+      </label>
+
+      <div>
+        <p className="text-xs font-medium text-[#6D4C41] mb-1">{t('Correct Answer')}</p>
+        {renderAnswerFields()}
+      </div>
+
+      <label className="block text-xs font-medium text-[#6D4C41]">
+        {t('Explanation (optional)')}
+        <textarea
+          value={question.explanation ?? ''}
+          onChange={(e) => onChange(setOptionalText(question, 'explanation', e.target.value))}
+          rows={2}
+          className={`${INPUT_CLASS} mt-1`}
+          disabled={disabled}
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  FaArrowDown,
+  FaArrowLeft,
+  FaArrowUp,
+  FaBookOpen,
+  FaCheck,
+  FaClock,
+  FaExclamationTriangle,
+  FaFileAlt,
+  FaPen,
+  FaPlay,
+  FaPlus,
+  FaSpinner,
+  FaSyncAlt,
+  FaTrash
+} from 'react-icons/fa';
+import type { DifficultyLevel, Question, QuestionType } from '../../../shared/types';
+import {
+  formatCorrectAnswer,
+  getQuestionType,
+  MAX_QUIZ_QUESTIONS,
+  QUESTION_TYPES,
+  validateQuestion,
+  validateQuestionSet
+} from '../../../shared/questions';
+import { QUESTION_TYPE_DETAILS } from '../utils/questionTypes';
+import { resolveMediaUrl } from '../utils/media';
+import { createBlankQuestion, moveItem } from '../utils/questionEditor';
+import QuestionMediaView from './QuestionMediaView';
+import QuestionExplanation from './QuestionExplanation';
+import QuestionEditForm from './QuestionEditForm';
+
+interface QuestionEditorProps {
+  questions: Question[];
+  onChange: (questions: Question[]) => void;
+  onRegenerate: (index: number) => Promise<Question>; // New question to replace questions[index]
+  difficulty: DifficultyLevel; // Used for questions the host adds
+  onConfirm: () => void;
+  onBack: () => void;
+  isProcessing?: boolean;
+}
+
+const ACTION_BUTTON_CLASS = 'p-2 rounded-lg text-[#6D4C41] hover:text-[#4E342E] hover:bg-[#F7E2C0] cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed';
+
+// Generated questions the host checks and edits before the room is created
+export default function QuestionEditor({
+  questions,
+  onChange,
+  onRegenerate,
+  difficulty,
+  onConfirm,
+  onBack,
+  isProcessing = false
+}: QuestionEditorProps) {
+  const { t } = useTranslation();
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
+  const [regenerateError, setRegenerateError] = useState('');
+  const [newQuestionType, setNewQuestionType] = useState<QuestionType>('single');
+
+  // Same rules the server applies when the room is created
+  const setErrors = validateQuestionSet(questions);
+  const isBusy = isProcessing || regeneratingIndex !== null;
+
+  const updateQuestion = (index: number, question: Question) => {
+    onChange(questions.map((q, i) => (i === index ? question : q)));
+  };
+
+  // The host has reviewed an edited question, so a disputed answer key is no longer flagged
+  const handleEdit = (index: number, question: Question) => {
+    const edited = { ...question };
+    delete edited.verification;
+    updateQuestion(index, edited);
+  };
+
+  const handleMove = (from: number, to: number) => {
+    onChange(moveItem(questions, from, to));
+    if (editingIndex === from) setEditingIndex(to);
+    else if (editingIndex === to) setEditingIndex(from);
+  };
+
+  const handleDelete = (index: number) => {
+    onChange(questions.filter((_, i) => i !== index));
+    if (editingIndex === index) setEditingIndex(null);
+    else if (editingIndex !== null && editingIndex > index) setEditingIndex(editingIndex - 1);
+  };
+
+  const handleAdd = () => {
+    onChange([...questions, createBlankQuestion(newQuestionType, difficulty)]);
+    setEditingIndex(questions.length);
+  };
+
+  const handleRegenerate = async (index: number) => {
+    setRegeneratingIndex(index);
+    setRegenerateError('');
+    try {
+      const question = await onRegenerate(index);
+      updateQuestion(index, question);
+    } catch (error) {
+      console.error('Failed to regenerate question:', error);
+      setRegenerateError(t('Could not regenerate the question. Please try again.'));
+    } finally {
+      setRegeneratingIndex(null);
+    }
+  };
+
+  const renderPreview = (question: Question) => {
+    const isChoice = question.type === undefined || question.type === 'single' || question.type === 'multiple';
+    const correctOptions = question.type === 'multiple' ? question.correctOptions : isChoice ? [question.correctOption] : [];
+
+    return (
+      <>
+        <p className="font-semibold text-[#4E342E] mb-2">{question.text || <span className="italic text-[#6D4C41]">{t('No question text')}</span>}</p>
+
+        {question.media && <QuestionMediaView media={question.media} className="mb-2" />}
+
+        {isChoice ? (
+          <ul className={`grid gap-2 ${question.optionImages ? 'grid-cols-2' : 'sm:grid-cols-2'}`}>
+            {question.options.map((option, optionIndex) => {
+              const isCorrect = correctOptions.includes(option);
+              const image = question.optionImages?.[optionIndex];
+              return (
+                <li
+                  key={optionIndex}
+                  className={`text-sm rounded-lg px-3 py-2 border ${
+                    isCorrect ? 'border-[#10A3A2] bg-[#10A3A2]/10 text-[#05717B] font-medium' : 'border-[#4E342E]/20 bg-white text-[#4E342E]'
+                  }`}
+                >
+                  {image && (
+                    <img src={resolveMediaUrl(image)} alt={option} className="w-full h-20 object-contain mb-1" />
+                  )}
+                  <span className="flex items-center gap-1">
+                    {isCorrect && <FaCheck className="flex-shrink-0" />}
+                    {option}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-[#05717B]">
+            <span className="font-medium">{t('Correct Answer')}:</span>{' '}
+            {question.type === 'true-false' ? t(formatCorrectAnswer(question)) : formatCorrectAnswer(question)}
+          </p>
+        )}
+
+        <QuestionExplanation question={question} className="mt-2" />
+      </>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-4 sm:p-6 border border-[#4E342E]/10">
+      <h3 className="text-xl font-bold text-[#4E342E] mb-1">{t('Question Preview')}</h3>
+      <p className="text-sm text-[#6D4C41] mb-4">
+        {t('{{count}} questions ready', { count: questions.length })} · {t('Edit, reorder, remove or regenerate questions before creating the room')}
+      </p>
+
+      {regenerateError && <p className="text-sm text-red-700 mb-3">{regenerateError}</p>}
+
+      <ol className="space-y-3 mb-4">
+        {questions.map((question, index) => {
+          const details = QUESTION_TYPE_DETAILS[getQuestionType(question)];
+          const errors = validateQuestion(question);
+          const isEditing = editingIndex === index;
+          const isRegenerating = regeneratingIndex === index;
+
+          return (
+            <li
+              key={index}
+              className={`bg-[#FDF0DC] rounded-lg p-3 sm:p-4 border ${errors.length > 0 ? 'border-red-400' : 'border-[#4E342E]/20'}`}
+            >
+              <div className="flex items-center justify-between gap-2 mb-2 text-xs text-[#6D4C41]">
+                <span className="flex items-center gap-1">
+                  <span className="font-semibold text-[#4E342E]">{index + 1}.</span>
+                  <details.icon className="text-[#05717B]" />
+                  {t(details.title)}
+                  <FaClock className="ml-2" />
+                  {question.timeLimit}s
+                  {question.source?.file && (
+                    <>
+                      <FaFileAlt className="ml-2" />
+                      <span className="truncate max-w-[12rem]" title={question.source.file}>{question.source.file}</span>
+                    </>
+                  )}
+                  {question.source?.pages && (
+                    <>
+                      <FaBookOpen className="ml-2" />
+                      {question.source.pages[0] === question.source.pages[1]
+                        ? t('Page {{page}}', { page: question.source.pages[0] })
+                        : t('Pages {{from}}–{{to}}', { from: question.source.pages[0], to: question.source.pages[1] })}
+                    </>
+                  )}
+                  {question.source?.section && <span className="ml-2 truncate max-w-[12rem]" title={question.source.section}>{question.source.section}</span>}
+                  {question.source?.topic && <span className="ml-2 italic">{question.source.topic}</span>}
+                </span>
+                <span className="flex items-center">
+                  <button onClick={() => handleMove(index, index - 1)} disabled={isBusy || index === 0} className={ACTION_BUTTON_CLASS} aria-label={t('Move up')} title={t('Move up')}>
+                    <FaArrowUp />
+                  </button>
+                  <button onClick={() => handleMove(index, index + 1)} disabled={isBusy || index === questions.length - 1} className={ACTION_BUTTON_CLASS} aria-label={t('Move down')} title={t('Move down')}>
+                    <FaArrowDown />
+                  </button>
+                  <button onClick={() => setEditingIndex(isEditing ? null : index)} disabled={isBusy} className={ACTION_BUTTON_CLASS} aria-label={isEditing ? t('Done') : t('Edit')} title={isEditing ? t('Done') : t('Edit')}>
+                    {isEditing ? <FaCheck /> : <FaPen />}
+                  </button>
+                  <button onClick={() => handleRegenerate(index)} disabled={isBusy} className={ACTION_BUTTON_CLASS} aria-label={t('Regenerate')} title={t('Regenerate')}>
+                    <FaSyncAlt className={isRegenerating ? 'animate-spin' : ''} />
+                  </button>
+                  <button onClick={() => handleDelete(index)} disabled={isBusy || questions.length <= 1} className={ACTION_BUTTON_CLASS} aria-label={t('Delete')} title={t('Delete')}>
+                    <FaTrash />
+                  </button>
+                </span>
+              </div>
+
+              {isEditing ? (
+                <QuestionEditForm question={question} onChange={(q) => handleEdit(index, q)} disabled={isBusy} />
+              ) : (
+                renderPreview(question)
+              )}
+
+              {question.verification?.status === 'disputed' && (
+                <div className="mt-2 text-xs text-amber-800 flex items-start gap-1">
+                  <FaExclamationTriangle className="mt-0.5 flex-shrink-0" />
+                  <span>{t('An AI check answered "{{answer}}". Make sure the correct answer is right.', { answer: question.verification.modelAnswer })}</span>
+                </div>
+              )}
+
+              {errors.length > 0 && (
+                <div className="mt-2 text-xs text-red-700 flex items-start gap-1">
+                  <FaExclamationTriangle className="mt-0.5 flex-shrink-0" />
+                  <span>{errors.join('; ')}</span>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {questions.length < MAX_QUIZ_QUESTIONS && (
+        <div className="flex flex-col sm:flex-row gap-2 mb-6">
+          <select
+            value={newQuestionType}
+            onChange={(e) => setNewQuestionType(e.target.value as QuestionType)}
+            disabled={isBusy}
+            className="border-2 border-[#4E342E]/30 rounded-lg px-3 py-2 bg-[#FDF0DC] text-[#4E342E] text-sm"
+          >
+            {QUESTION_TYPES.map((type) => (
+              <option key={type} value={type}>{t(QUESTION_TYPE_DETAILS[type].title)}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={isBusy}
+            className="flex items-center justify-center gap-2 border-2 border-dashed border-[#10A3A2] text-[#05717B] py-2 px-4 rounded-lg font-medium hover:bg-[#10A3A2]/10 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FaPlus />
+            {t('Add question')}
+          </button>
+        </div>
+      )}
+
+      {setErrors.length > 0 && (
+        <p className="text-sm text-red-700 mb-3">{t('Fix the highlighted questions before creating the room')}</p>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <button
+          onClick={onBack}
+          disabled={isBusy}
+          className="flex-1 flex items-center justify-center gap-2 border-2 border-[#4E342E]/30 text-[#4E342E] py-3 px-4 rounded-lg font-medium hover:bg-[#F7E2C0] transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <FaArrowLeft />
+          {t('Back')}
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={isBusy || setErrors.length > 0}
+          className="flex-1 flex items-center justify-center gap-2 bg-[#10A3A2] text-white py-3 px-4 rounded-lg font-medium hover:bg-[#0D8A89] transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isProcessing ? <FaSpinner className="animate-spin" /> : <FaPlay />}
+          {isProcessing ? t('Creating Room...') : t('createRoom')}
+        </button>
+      </div>
+    </div>
+  );
+}
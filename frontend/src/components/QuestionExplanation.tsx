@@ -0,0 +1,37 @@
+import { useTranslation } from 'react-i18next';
+import { FaBookOpen, FaLightbulb } from 'react-icons/fa';
+import type { Question } from '../../../shared/types';
+
+interface QuestionExplanationProps {
+  question: Pick<Question, 'explanation' | 'citation'>;
+  className?: string;
+}
+
+// Why the answer is correct and, for document quizzes, the passage it comes from
+export default function QuestionExplanation({ question, className = '' }: QuestionExplanationProps) {
+  const { t } = useTranslation();
+
+  if (!question.explanation && !question.citation) return null;
+
+  return (
+    <div className={`bg-amber-50 border border-amber-200 rounded-xl p-3 sm:p-4 text-left ${className}`}>
+      {question.explanation && (
+        <div className="flex items-start gap-2">
+          <FaLightbulb className="text-amber-500 mt-1 flex-shrink-0" />
+          <p className="text-sm sm:text-base text-gray-800">{question.explanation}</p>
+        </div>
+      )}
+      {question.citation && (
+        <div className={`flex items-start gap-2 ${question.explanation ? 'mt-3' : ''}`}>
+          <FaBookOpen className="text-teal-600 mt-1 flex-shrink-0" />
+          <div className="text-sm text-gray-700">
+            <p className="italic">“{question.citation.quote}”</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {t('Source')}{question.citation.location ? `: ${question.citation.location}` : ''}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
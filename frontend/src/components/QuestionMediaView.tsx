@@ -0,0 +1,61 @@
+import { useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { QuestionMedia } from '../../../shared/types';
+import { resolveMediaUrl } from '../utils/media';
+
+interface QuestionMediaViewProps {
+  media: QuestionMedia;
+  className?: string;
+}
+
+// Image or audio clip attached to a question; audio only plays between its start and end offsets
+export default function QuestionMediaView({ media, className = '' }: QuestionMediaViewProps) {
+  const { t } = useTranslation();
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  if (media.type === 'image') {
+    return (
+      <div className={`flex justify-center ${className}`}>
+        <img
+          src={resolveMediaUrl(media.url)}
+          alt={media.alt || t('Question image')}
+          className="max-h-64 sm:max-h-80 w-auto rounded-xl border border-amber-200 shadow-sm object-contain bg-white"
+        />
+      </div>
+    );
+  }
+
+  const startTime = media.startTime ?? 0;
+
+  // Keep playback inside the clip: start at the offset and stop at the end offset
+  const clampToClip = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.currentTime < startTime || (media.endTime !== undefined && audio.currentTime >= media.endTime)) {
+      audio.currentTime = startTime;
+    }
+  };
+
+  return (
+    <div className={`flex justify-center ${className}`}>
+      <audio
+        ref={audioRef}
+        src={resolveMediaUrl(media.url)}
+        controls
+        preload="metadata"
+        onLoadedMetadata={clampToClip}
+        onPlay={clampToClip}
+        onTimeUpdate={() => {
+          const audio = audioRef.current;
+          if (audio && media.endTime !== undefined && audio.currentTime >= media.endTime) {
+            audio.pause();
+            audio.currentTime = startTime;
+          }
+        }}
+        className="w-full max-w-md"
+      >
+        {t('Your browser does not support audio playback')}
+      </audio>
+    </div>
+  );
+}
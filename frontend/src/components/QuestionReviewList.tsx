@@ -0,0 +1,64 @@
+import { useTranslation } from 'react-i18next';
+import { FaCheckCircle, FaMinusCircle, FaTimesCircle } from 'react-icons/fa';
+import type { Answer, Question } from '../../../shared/types';
+import { formatCorrectAnswer } from '../../../shared/questions';
+import QuestionExplanation from './QuestionExplanation';
+
+interface QuestionReviewListProps {
+  questions: Question[];
+  answers: Record<number, Answer>; // The current player's answers by question index
+}
+
+// Per-question review for the results page: correct answer, the player's answer and the explanation
+export default function QuestionReviewList({ questions, answers }: QuestionReviewListProps) {
+  const { t } = useTranslation();
+
+  // True/false answers are stored as "True"/"False" and translated for display
+  const display = (question: Question, value: string) => (question.type === 'true-false' ? t(value) : value);
+
+  return (
+    <ol className="space-y-3">
+      {questions.map((question, index) => {
+        const answer = answers[index];
+        const credit = answer?.credit ?? (answer?.isCorrect ? 1 : 0);
+        const isPartial = answer && !answer.isCorrect && credit > 0;
+
+        return (
+          <li key={index} className="bg-white rounded-xl p-3 sm:p-4 border border-[#6D4C41]/30">
+            <div className="flex items-start gap-2 mb-2">
+              {!answer ? (
+                <FaMinusCircle className="text-[#6D4C41] mt-1 flex-shrink-0" />
+              ) : answer.isCorrect ? (
+                <FaCheckCircle className="text-[#10A3A2] mt-1 flex-shrink-0" />
+              ) : isPartial ? (
+                <FaCheckCircle className="text-amber-500 mt-1 flex-shrink-0" />
+              ) : (
+                <FaTimesCircle className="text-red-600 mt-1 flex-shrink-0" />
+              )}
+              <p className="text-sm sm:text-base text-[#4E342E] font-medium">
+                <span className="font-semibold">{index + 1}.</span> {question.text}
+              </p>
+            </div>
+
+            <div className="text-sm space-y-1 ml-6">
+              <p className="text-[#05717B]">
+                <span className="font-medium">{t('Correct Answer')}:</span> {display(question, formatCorrectAnswer(question))}
+              </p>
+              <p className={!answer ? 'text-[#6D4C41]' : answer.isCorrect ? 'text-[#05717B]' : isPartial ? 'text-amber-700' : 'text-red-700'}>
+                <span className="font-medium">{t('Your answer')}:</span>{' '}
+                {answer ? display(question, answer.option) : t('No answer')}
+                {isPartial && (
+                  <span className="ml-2">
+                    {t('{{percent}}% credit', { percent: Math.round(credit * 100) })}
+                  </span>
+                )}
+              </p>
+            </div>
+
+            <QuestionExplanation question={question} className="mt-3" />
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
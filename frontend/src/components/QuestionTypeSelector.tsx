@@ -0,0 +1,57 @@
+import { useTranslation } from 'react-i18next';
+import type { QuestionType } from '../../../shared/types';
+import { QUESTION_TYPES } from '../../../shared/questions';
+import { QUESTION_TYPE_DETAILS } from '../utils/questionTypes';
+
+interface QuestionTypeSelectorProps {
+  value: QuestionType[];
+  onChange: (questionTypes: QuestionType[]) => void;
+  disabled?: boolean;
+}
+
+// Toggle chips for the question kinds a quiz mixes; at least one stays selected
+export default function QuestionTypeSelector({ value, onChange, disabled = false }: QuestionTypeSelectorProps) {
+  const { t } = useTranslation();
+
+  const toggle = (type: QuestionType) => {
+    if (value.includes(type)) {
+      if (value.length > 1) {
+        onChange(value.filter((selected) => selected !== type));
+      }
+    } else {
+      // Keep the canonical order so prompts and previews are stable
+      onChange(QUESTION_TYPES.filter((candidate) => candidate === type || value.includes(candidate)));
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-[#4E342E] mb-3 sm:mb-4">{t('Question types')}</label>
+      <div className="flex flex-wrap gap-2">
+        {QUESTION_TYPES.map((type) => {
+          const details = QUESTION_TYPE_DETAILS[type];
+          const selected = value.includes(type);
+          return (
+            <button
+              key={type}
+              type="button"
+              onClick={() => toggle(type)}
+              disabled={disabled}
+              aria-pressed={selected}
+              title={t(details.description)}
+              className={`flex items-center px-3 py-1.5 rounded-lg border-2 text-xs sm:text-sm font-medium transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed ${
+                selected
+                  ? 'border-[#10A3A2] bg-[#10A3A2]/10 text-[#05717B]'
+                  : 'border-[#4E342E]/30 bg-[#FDF0DC] text-[#4E342E] hover:border-[#4E342E]/50'
+              }`}
+            >
+              <details.icon className="mr-2" />
+              {t(details.title)}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-[#6D4C41] text-xs mt-2">{t('Questions are generated in a mix of the selected types')}</p>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { FaRobot, FaCog, FaChartBar, FaFileAlt, FaBrain, FaQuestionCircle, FaCheckCircle, FaClock, FaRocket } from 'react-icons/fa';
 import { MdAccessTime } from 'react-icons/md';
-import type { DifficultyLevel, Question } from '../../../shared/types';
+import type { DifficultyLevel, DocumentStructure, DocumentTopicCount, Question } from '../../../shared/types';
 import { useTranslation } from 'react-i18next';
 
 interface DocumentAnalysis {
@@ -12,7 +12,8 @@ interface DocumentAnalysis {
   difficultyLevel: string;
   wordCount: number;
   uploadedAt: Date;
-  extractedText: string;
+  structure: DocumentStructure;
+  expiresAt: Date;
 }
 
 interface QuizConfigurationSectionProps {
@@ -21,7 +22,8 @@ interface QuizConfigurationSectionProps {
   isProcessing?: boolean;
   generateQuestionsFromDocument?: (
     difficulty: DifficultyLevel,
-    questionCount: number
+    questionCount: number,
+    topics?: DocumentTopicCount[] // Only these topics, this many questions each
   ) => Promise<Question[]>;
 }
 
@@ -36,6 +38,23 @@ export const QuizConfigurationSection: React.FC<QuizConfigurationSectionProps> =
   const [questionCount, setQuestionCount] = useState("10");
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string>('');
+  const [topicCounts, setTopicCounts] = useState<Record<string, number>>({}); // Picked topics and their question counts
+
+  const pickedTopics: DocumentTopicCount[] = Object.entries(topicCounts).map(([topic, count]) => ({ topic, count }));
+  const topicQuestionTotal = pickedTopics.reduce((sum, entry) => sum + entry.count, 0);
+  const totalQuestions = pickedTopics.length > 0 ? topicQuestionTotal : Number(questionCount);
+
+  const toggleTopic = (topic: string) => {
+    setTopicCounts((current) => {
+      const { [topic]: picked, ...rest } = current;
+      return picked === undefined ? { ...current, [topic]: 2 } : rest;
+    });
+  };
+
+  const setTopicCount = (topic: string, value: string) => {
+    const count = Math.min(10, Math.max(1, Number(value.replace(/[^0-9]/g, '')) || 1));
+    setTopicCounts((current) => ({ ...current, [topic]: count }));
+  };
 
   // Handle question count input changes - only allow numbers
   const handleQuestionCountChange = (value: string) => {
@@ -103,9 +122,10 @@ export const QuizConfigurationSection: React.FC<QuizConfigurationSectionProps> =
     try {
       const questions = await generateQuestionsFromDocument(
         difficulty,
-        Number(questionCount)
+        totalQuestions,
+        pickedTopics.length > 0 ? pickedTopics : undefined
       );
-      onGenerateAndCreate(questions, { topic: 'Document Content', difficulty, questionCount: Number(questionCount) });
+      onGenerateAndCreate(questions, { topic: 'Document Content', difficulty, questionCount: totalQuestions });
     } catch (error) {
       console.error('Question generation failed:', error);
       setError(error instanceof Error ? error.message : t('Failed to generate questions'));
@@ -149,9 +169,46 @@ export const QuizConfigurationSection: React.FC<QuizConfigurationSectionProps> =
                 <span className="ml-2 font-medium text-[#4E342E]">{document.topics.length}</span>
               </div>
             </div>
+            {document.topics.length > 0 && (
+              <ul className="mt-3 space-y-2">
+                {document.topics.map((topic) => {
+                  const picked = topicCounts[topic] !== undefined;
+                  return (
+                    <li key={topic} className="flex items-center justify-between gap-2 text-sm">
+                      <label className="flex items-center gap-2 cursor-pointer text-[#4E342E]">
+                        <input
+                          type="checkbox"
+                          checked={picked}
+                          onChange={() => toggleTopic(topic)}
+                          disabled={isProcessing || isGenerating}
+                          className="h-4 w-4 accent-[#10A3A2] cursor-pointer"
+                        />
+                        {topic}
+                      </label>
+                      {picked && (
+                        <input
+                          type="number"
+                          value={topicCounts[topic]}
+                          onChange={(e) => setTopicCount(topic, e.target.value)}
+                          min={1}
+                          max={10}
+                          aria-label={t('Questions about {{topic}}', { topic })}
+                          className="w-16 border-2 border-[#4E342E]/30 rounded-lg px-2 py-1 bg-[#FDF0DC] text-[#4E342E]"
+                          disabled={isProcessing || isGenerating}
+                        />
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
             <div className="mt-2 text-xs text-[#6D4C41] flex items-start gap-1">
               <FaQuestionCircle className="text-[#8D6E63] mt-0.5 flex-shrink-0" />
-              <span>{t('Questions will be generated from the entire document content, not filtered by specific topics.')}</span>
+              <span>
+                {pickedTopics.length > 0
+                  ? t('Questions will only cover the ticked topics.')
+                  : t('Tick topics to quiz on them only, or leave them all unticked to cover the entire document.')}
+              </span>
             </div>
           </div>
         )}
@@ -207,16 +264,18 @@ export const QuizConfigurationSection: React.FC<QuizConfigurationSectionProps> =
           <label className="block text-sm font-medium text-[#4E342E] mb-2">{t('numberOfQuestions')}</label>
           <input
             type="number"
-            value={questionCount}
+            value={pickedTopics.length > 0 ? String(topicQuestionTotal) : questionCount}
             onChange={(e) => handleQuestionCountChange(e.target.value)}
             onBlur={handleQuestionCountBlur}
             min={1}
             max={30}
             className="w-full border-2 border-[#4E342E]/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-[#10A3A2] focus:border-[#10A3A2]
                      text-base sm:text-lg min-h-[44px] sm:min-h-[48px] bg-[#FDF0DC] text-[#4E342E]"
-            disabled={isProcessing || isGenerating}
+            disabled={isProcessing || isGenerating || pickedTopics.length > 0}
           />
-          <p className="text-[#6D4C41] text-sm mt-1">{t('Choose between 1-30 questions')}</p>
+          <p className="text-[#6D4C41] text-sm mt-1">
+            {pickedTopics.length > 0 ? t('The total of the questions per topic') : t('Choose between 1-30 questions')}
+          </p>
         </div>
 
         {/* Error Display */}
@@ -230,7 +289,7 @@ export const QuizConfigurationSection: React.FC<QuizConfigurationSectionProps> =
         <div className="pt-2">
           <button
             onClick={handleGenerateAndCreate}
-            disabled={isProcessing || isGenerating}
+            disabled={isProcessing || isGenerating || totalQuestions > 25}
             className="w-full flex items-center justify-center gap-2 bg-[#10A3A2] text-white py-3 px-4 rounded-lg font-medium hover:bg-[#0D8A89] transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isGenerating ? (
@@ -241,7 +300,7 @@ export const QuizConfigurationSection: React.FC<QuizConfigurationSectionProps> =
             ) : (
               <>
                 <FaRobot />
-                {t('Generate & Create Room')}
+                {t('Generate & Preview Questions')}
               </>
             )}
           </button>
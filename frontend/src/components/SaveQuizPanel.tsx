@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import axios from 'axios';
+import { useTranslation } from 'react-i18next';
+import { FaBookmark, FaCheckCircle, FaSpinner } from 'react-icons/fa';
+import { saveQuiz } from '../services/apiClient';
+import { getOwnerId } from '../utils/owner';
+
+interface SaveQuizPanelProps {
+  roomId: string;
+  hostId: string;
+  defaultTitle: string;
+}
+
+// Tags are typed as a comma-separated list
+const parseTags = (value: string) => value.split(',').map((tag) => tag.trim()).filter((tag) => tag.length > 0);
+
+// Lets the host keep the room's questions in the quiz library to play them again later
+export default function SaveQuizPanel({ roomId, hostId, defaultTitle }: SaveQuizPanelProps) {
+  const { t, i18n } = useTranslation();
+  const [title, setTitle] = useState(defaultTitle.slice(0, 100));
+  const [tags, setTags] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSave = async () => {
+    if (!title.trim() || isSaving) return;
+    setIsSaving(true);
+    setError('');
+
+    try {
+      await saveQuiz({
+        ownerId: getOwnerId(),
+        title: title.trim(),
+        tags: parseTags(tags),
+        language: i18n.language,
+        roomId,
+        hostId
+      });
+      setIsSaved(true);
+    } catch (err) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.error : undefined;
+      setError(message || t('Failed to save the quiz. Please try again.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isSaved) {
+    return (
+      <p className="flex items-center justify-center gap-2 text-[#05717B] font-medium">
+        <FaCheckCircle />
+        {t('Saved to your quiz library')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-[#4E342E] mb-1">{t('Quiz title')}</label>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          maxLength={100}
+          className="w-full px-3 py-2 border-2 border-[#4E342E]/30 rounded-lg bg-white text-[#4E342E] focus:outline-none focus:border-[#10A3A2]"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-[#4E342E] mb-1">{t('Tags')}</label>
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder={t('e.g. history, europe')}
+          className="w-full px-3 py-2 border-2 border-[#4E342E]/30 rounded-lg bg-white text-[#4E342E] focus:outline-none focus:border-[#10A3A2]"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving || !title.trim()}
+        className="w-full flex items-center justify-center gap-2 bg-[#10A3A2] text-white py-3 px-4 rounded-lg font-medium hover:bg-[#05717B] transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSaving ? <FaSpinner className="animate-spin" /> : <FaBookmark />}
+        {isSaving ? t('Saving...') : t('Save to library')}
+      </button>
+    </div>
+  );
+}
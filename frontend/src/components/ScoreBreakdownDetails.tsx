@@ -0,0 +1,31 @@
+import { useTranslation } from 'react-i18next';
+import type { ScoreBreakdown } from '../../../shared/types';
+
+interface ScoreBreakdownDetailsProps {
+  breakdown: ScoreBreakdown;
+  className?: string;
+}
+
+// Lists the parts of an answer's score; parts that did not apply are left out
+export default function ScoreBreakdownDetails({ breakdown, className = '' }: ScoreBreakdownDetailsProps) {
+  const { t } = useTranslation();
+
+  const parts = [
+    breakdown.base > 0 && { label: breakdown.strategy === 'wager' ? t('Wager won') : t('Correct answer'), value: `+${breakdown.base}`, color: 'text-teal-700' },
+    breakdown.speedBonus > 0 && { label: t('Speed bonus'), value: `+${breakdown.speedBonus}`, color: 'text-teal-700' },
+    breakdown.multiplier !== 1 && { label: t('Streak multiplier'), value: `×${breakdown.multiplier}`, color: 'text-amber-700' },
+    breakdown.penalty < 0 && { label: breakdown.strategy === 'wager' ? t('Wager lost') : t('Wrong answer penalty'), value: `${breakdown.penalty}`, color: 'text-red-700' }
+  ].filter((part): part is { label: string; value: string; color: string } => Boolean(part));
+
+  if (parts.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap justify-center gap-2 text-xs sm:text-sm ${className}`}>
+      {parts.map((part) => (
+        <span key={part.label} className="bg-white border border-gray-200 rounded-full px-3 py-1 text-gray-700">
+          {part.label}: <span className={`font-semibold ${part.color}`}>{part.value}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useTranslation } from 'react-i18next';
+import { FaFire } from 'react-icons/fa';
+import type { ComboSettings, ScoringStrategy } from '../../../shared/types';
+import { SCORING_STRATEGIES } from '../../../shared/scoring';
+import { COMBO_PRESETS, SCORING_STRATEGY_DETAILS } from '../utils/scoringStrategies';
+
+interface ScoringStrategySelectorProps {
+  value: ScoringStrategy;
+  onChange: (strategy: ScoringStrategy) => void;
+  combo?: ComboSettings;
+  onComboChange: (combo: ComboSettings | undefined) => void;
+  disabled?: boolean;
+}
+
+export default function ScoringStrategySelector({
+  value,
+  onChange,
+  combo,
+  onComboChange,
+  disabled = false
+}: ScoringStrategySelectorProps) {
+  const { t } = useTranslation();
+
+  // Streak rooms always multiply, so "Off" falls back to the standard combo there
+  const comboPresets = value === 'streak' ? COMBO_PRESETS.filter((preset) => preset.combo) : COMBO_PRESETS;
+  const selectedPreset =
+    (combo && COMBO_PRESETS.find((preset) => preset.combo?.step === combo.step && preset.combo?.max === combo.max)?.id)
+    || (value === 'streak' ? 'standard' : 'off');
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-[#4E342E] mb-3 sm:mb-4">{t('Scoring')}</label>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {SCORING_STRATEGIES.map((strategy) => {
+          const details = SCORING_STRATEGY_DETAILS[strategy];
+          return (
+            <div
+              key={strategy}
+              className={`relative rounded-lg border-2 p-3 cursor-pointer transition-all ${
+                value === strategy
+                  ? 'border-[#10A3A2] bg-[#10A3A2]/10'
+                  : 'border-[#4E342E]/30 hover:border-[#4E342E]/50 bg-[#FDF0DC]'
+              }`}
+              onClick={() => !disabled && onChange(strategy)}
+            >
+              <div className="flex items-start">
+                <input
+                  type="radio"
+                  checked={value === strategy}
+                  onChange={() => onChange(strategy)}
+                  className="mt-1 mr-3 w-4 h-4 focus:ring-[#10A3A2]"
+                  style={{ accentColor: '#10A3A2' }}
+                  disabled={disabled}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center mb-1">
+                    <details.icon className="text-[#05717B] mr-2" />
+                    <span className="font-semibold text-sm sm:text-base text-[#4E342E]">{t(details.title)}</span>
+                  </div>
+                  <p className="text-[#6D4C41] text-xs sm:text-sm">{t(details.description)}</p>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Combo multiplier - the stake already is the bonus in wager rooms */}
+      {value !== 'wager' && (
+        <div className="mt-4">
+          <div className="flex items-center mb-2">
+            <FaFire className="text-orange-500 mr-2" />
+            <span className="text-sm font-medium text-[#4E342E]">{t('Combo bonus')}</span>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {comboPresets.map((preset) => (
+              <button
+                key={preset.id}
+                type="button"
+                onClick={() => onComboChange(preset.combo)}
+                disabled={disabled}
+                className={`px-3 py-1.5 rounded-lg border-2 text-xs sm:text-sm font-medium transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed ${
+                  selectedPreset === preset.id
+                    ? 'border-[#10A3A2] bg-[#10A3A2]/10 text-[#05717B]'
+                    : 'border-[#4E342E]/30 bg-[#FDF0DC] text-[#4E342E] hover:border-[#4E342E]/50'
+                }`}
+              >
+                {t(preset.label)}
+                {preset.combo && (
+                  <span className="ml-1 text-[#6D4C41]">+{preset.combo.step} / ×{preset.combo.max}</span>
+                )}
+              </button>
+            ))}
+          </div>
+          <p className="text-[#6D4C41] text-xs mt-2">{t('Each correct answer in a row raises the multiplier for the next one')}</p>
+        </div>
+      )}
+    </div>
+  );
+}
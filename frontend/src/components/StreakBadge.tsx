@@ -0,0 +1,29 @@
+import { FaFire } from 'react-icons/fa';
+import { useTranslation } from 'react-i18next';
+
+// Streaks shorter than this are not worth a badge
+const MIN_BADGE_STREAK = 2;
+
+interface StreakBadgeProps {
+  streak?: number;
+  multiplier?: number; // Combo multiplier the next correct answer earns (shown when above 1)
+}
+
+export default function StreakBadge({ streak = 0, multiplier }: StreakBadgeProps) {
+  const { t } = useTranslation();
+
+  if (streak < MIN_BADGE_STREAK) return null;
+
+  return (
+    <span
+      className="inline-flex items-center space-x-1 bg-orange-100 border border-orange-300 text-orange-700 rounded-full px-2 py-0.5 text-xs font-bold flex-shrink-0"
+      title={t('{{count}} correct answers in a row', { count: streak })}
+    >
+      <FaFire className="text-orange-500" />
+      <span>{streak}</span>
+      {multiplier !== undefined && multiplier > 1 && (
+        <span className="text-orange-600">×{multiplier}</span>
+      )}
+    </span>
+  );
+}
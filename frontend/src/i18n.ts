@@ -260,7 +260,6 @@ const resources = {
       'Difficulty:': 'Difficulty:',
       'Word Count:': 'Word Count:',
       'Topics Found:': 'Topics Found:',
-      'Questions will be generated from the entire document content, not filtered by specific topics.': 'Questions will be generated from the entire document content, not filtered by specific topics.',
       'Question generation function not available': 'Question generation function not available',
       'Failed to generate questions': 'Failed to generate questions',
       'Generate & Create Room': 'Generate & Create Room',
@@ -275,7 +274,7 @@ const resources = {
       'Small Documents:': 'Small Documents:',
       'Question Limit:': 'Question Limit:',
       'Up to 50MB': 'Up to 50MB',
-      'PDF, DOCX, TXT': 'PDF, DOCX, TXT',
+      'PDF, Word, PowerPoint, ODT, EPUB, Markdown, HTML, TXT': 'PDF, Word, PowerPoint, ODT, EPUB, Markdown, HTML, TXT',
       'We analyze up to ~4,000 words from your document': 'We analyze up to ~4,000 words from your document',
       'We analyze the beginning portion': 'We analyze the beginning portion',
       'We process the entire document': 'We process the entire document',
@@ -291,6 +290,153 @@ const resources = {
       'Processing document...': 'Processing document...',
       'Unsupported file type. Please upload:': 'Unsupported file type. Please upload:',
       'File too large. Maximum size:': 'File too large. Maximum size:',
+      'Pause': 'Pause',
+      'Resume': 'Resume',
+      'Game paused by host': 'Game paused by host',
+      'Continuing in': 'Continuing in',
+      'Scoring': 'Scoring',
+      'scoringClassicTitle': 'Classic',
+      'scoringClassicDescription': '1000 points per correct answer plus a bonus for answering quickly.',
+      'scoringAccuracyTitle': 'Accuracy only',
+      'scoringAccuracyDescription': '1000 points per correct answer. Speed does not matter.',
+      'scoringStreakTitle': 'Streak multiplier',
+      'scoringStreakDescription': 'Classic points with a combo multiplier that grows with every correct answer in a row.',
+      'scoringNegativeTitle': 'Negative marking',
+      'scoringNegativeDescription': 'Classic points, but every wrong answer costs 500 points.',
+      'scoringWagerTitle': 'Confidence wager',
+      'scoringWagerDescription': 'Bet 250, 500 or 1000 points before answering. Win the bet if correct, lose it if wrong.',
+      'Your wager': 'Your wager',
+      'Wager won': 'Wager won',
+      'Wager lost': 'Wager lost',
+      'Correct answer': 'Correct answer',
+      'Speed bonus': 'Speed bonus',
+      'Streak multiplier': 'Streak multiplier',
+      'Wrong answer penalty': 'Wrong answer penalty',
+      'How points were earned': 'How points were earned',
+      'No answer': 'No answer',
+      '{{count}} correct answers in a row': '{{count}} correct answers in a row',
+      'Combo bonus': 'Combo bonus',
+      'Off': 'Off',
+      'Gentle': 'Gentle',
+      'Standard': 'Standard',
+      'Wild': 'Wild',
+      'Each correct answer in a row raises the multiplier for the next one': 'Each correct answer in a row raises the multiplier for the next one',
+      'Combo bonus: +{{step}} per correct answer in a row, up to ×{{max}}': 'Combo bonus: +{{step}} per correct answer in a row, up to ×{{max}}',
+      'Question types': 'Question types',
+      'Questions are generated in a mix of the selected types': 'Questions are generated in a mix of the selected types',
+      'questionTypeSingleTitle': 'Single choice',
+      'questionTypeSingleDescription': 'Pick the one correct option',
+      'questionTypeMultipleTitle': 'Multiple select',
+      'questionTypeMultipleDescription': 'Pick every correct option; partial answers earn partial credit',
+      'questionTypeTrueFalseTitle': 'True / False',
+      'questionTypeTrueFalseDescription': 'Decide whether a statement is true',
+      'questionTypeTextTitle': 'Short answer',
+      'questionTypeTextDescription': 'Type the answer; small typos are forgiven',
+      'questionTypeNumericTitle': 'Numeric',
+      'questionTypeNumericDescription': 'Enter a number; answers within the tolerance count',
+      'Select all that apply': 'Select all that apply',
+      'Submit answer': 'Submit answer',
+      'True': 'True',
+      'False': 'False',
+      'Type your answer': 'Type your answer',
+      'Enter a number': 'Enter a number',
+      'Also accepted': 'Also accepted',
+      'Partially correct': 'Partially correct',
+      '{{percent}}% credit': '{{percent}}% credit',
+      'Your answer': 'Your answer',
+      'questionTypeOrderingTitle': 'Ordering',
+      'questionTypeOrderingDescription': 'Put steps or events in the right order; each item in place earns credit',
+      'questionTypeMatchingTitle': 'Matching',
+      'questionTypeMatchingDescription': 'Match each term to its definition; each correct pair earns credit',
+      'Drag the items into the right order': 'Drag the items into the right order',
+      'Move up': 'Move up',
+      'Move down': 'Move down',
+      'Match each term with its pair': 'Match each term with its pair',
+      'Drop or choose a match': 'Drop or choose a match',
+      'Correct match': 'Correct match',
+      'Generate & Preview Questions': 'Generate & Preview Questions',
+      'Question Preview': 'Question Preview',
+      '{{count}} questions ready': '{{count}} questions ready',
+      'Back': 'Back',
+      'Question image': 'Question image',
+      'Your browser does not support audio playback': 'Your browser does not support audio playback',
+      'Source': 'Source',
+      'Question review': 'Question review',
+      'Save to library': 'Save to library',
+      'Keep these questions to host this quiz again later.': 'Keep these questions to host this quiz again later.',
+      'Quiz title': 'Quiz title',
+      'Tags': 'Tags',
+      'e.g. history, europe': 'e.g. history, europe',
+      'Saving...': 'Saving...',
+      'Saved to your quiz library': 'Saved to your quiz library',
+      'Failed to save the quiz. Please try again.': 'Failed to save the quiz. Please try again.',
+      'Failed to start the quiz. Please try again.': 'Failed to start the quiz. Please try again.',
+      'Game server not reachable': 'Game server not reachable',
+      'Quiz Library': 'Quiz Library',
+      'Host a saved quiz again without generating new questions': 'Host a saved quiz again without generating new questions',
+      'Search by title, description or tag': 'Search by title, description or tag',
+      'Search': 'Search',
+      'Any difficulty': 'Any difficulty',
+      'Any language': 'Any language',
+      'easy': 'easy',
+      'medium': 'medium',
+      'hard': 'hard',
+      '{{count}} questions': '{{count}} questions',
+      'Loading quizzes...': 'Loading quizzes...',
+      'No saved quizzes yet. Save one from the results page after a game.': 'No saved quizzes yet. Save one from the results page after a game.',
+      'Use this quiz': 'Use this quiz',
+      'Delete': 'Delete',
+      'Delete "{{title}}" from the library?': 'Delete "{{title}}" from the library?',
+      'Failed to load the quiz library': 'Failed to load the quiz library',
+      'Failed to delete the quiz': 'Failed to delete the quiz',
+      'Browse the quiz library': 'Browse the quiz library',
+      'Or host a saved quiz from the library': 'Or host a saved quiz from the library',
+      'From the quiz library': 'From the quiz library',
+      'Loading saved quiz...': 'Loading saved quiz...',
+      'Failed to load the saved quiz': 'Failed to load the saved quiz',
+      'Remove': 'Remove',
+      'Done': 'Done',
+      'Edit': 'Edit',
+      'Regenerate': 'Regenerate',
+      'Add option': 'Add option',
+      'Option {{number}}': 'Option {{number}}',
+      'Tick every correct option': 'Tick every correct option',
+      'Select the correct option': 'Select the correct option',
+      'Accepted answer': 'Accepted answer',
+      'Add accepted answer': 'Add accepted answer',
+      'Correct value': 'Correct value',
+      'Tolerance (±)': 'Tolerance (±)',
+      'Unit': 'Unit',
+      'List the items in the correct order': 'List the items in the correct order',
+      'Item': 'Item',
+      'Add item': 'Add item',
+      'Term': 'Term',
+      'Match': 'Match',
+      'Add pair': 'Add pair',
+      'Explanation (optional)': 'Explanation (optional)',
+      'No question text': 'No question text',
+      'Edit, reorder, remove or regenerate questions before creating the room': 'Edit, reorder, remove or regenerate questions before creating the room',
+      'Add question': 'Add question',
+      'Fix the highlighted questions before creating the room': 'Fix the highlighted questions before creating the room',
+      'Could not regenerate the question. Please try again.': 'Could not regenerate the question. Please try again.',
+      '{{generated}} of {{target}} questions ready': '{{generated}} of {{target}} questions ready',
+      'Start with {{count}} questions': 'Start with {{count}} questions',
+      'You can start now, or wait for the rest of the questions': 'You can start now, or wait for the rest of the questions',
+      'Double-check answers': 'Double-check answers',
+      'A second AI pass answers every question on its own; questions it disagrees with are replaced or flagged. Slower and uses more AI requests.': 'A second AI pass answers every question on its own; questions it disagrees with are replaced or flagged. Slower and uses more AI requests.',
+      'An AI check answered "{{answer}}". Make sure the correct answer is right.': 'An AI check answered "{{answer}}". Make sure the correct answer is right.',
+      'Page {{page}}': 'Page {{page}}',
+      'Pages {{from}}–{{to}}': 'Pages {{from}}–{{to}}',
+      'Questions about {{topic}}': 'Questions about {{topic}}',
+      'Questions will only cover the ticked topics.': 'Questions will only cover the ticked topics.',
+      'Tick topics to quiz on them only, or leave them all unticked to cover the entire document.': 'Tick topics to quiz on them only, or leave them all unticked to cover the entire document.',
+      'The total of the questions per topic': 'The total of the questions per topic',
+      'Contents': 'Contents',
+      'Questions will only come from the ticked sections.': 'Questions will only come from the ticked sections.',
+      'Tick the chapters to quiz on, or leave them all unticked to use the whole document.': 'Tick the chapters to quiz on, or leave them all unticked to use the whole document.',
+      'Slide {{slide}}': 'Slide {{slide}}',
+      'Upload at most {{count}} files at a time': 'Upload at most {{count}} files at a time',
+      'Pick up to {{count}} files to quiz on them together': 'Pick up to {{count}} files to quiz on them together',
     }
   },
   ru: {
@@ -549,7 +695,6 @@ const resources = {
       'Difficulty:': 'Сложность:',
       'Word Count:': 'Количество слов:',
       'Topics Found:': 'Найденные темы:',
-      'Questions will be generated from the entire document content, not filtered by specific topics.': 'Вопросы будут сгенерированы из всего содержимого документа, а не отфильтрованы по конкретным темам.',
       'Question generation function not available': 'Функция генерации вопросов недоступна',
       'Failed to generate questions': 'Не удалось сгенерировать вопросы',
       'Generate & Create Room': 'Сгенерировать и создать комнату',
@@ -564,7 +709,7 @@ const resources = {
       'Small Documents:': 'Небольшие документы:',
       'Question Limit:': 'Лимит вопросов:',
       'Up to 50MB': 'До 50 МБ',
-      'PDF, DOCX, TXT': 'PDF, DOCX, TXT',
+      'PDF, Word, PowerPoint, ODT, EPUB, Markdown, HTML, TXT': 'PDF, Word, PowerPoint, ODT, EPUB, Markdown, HTML, TXT',
       'We analyze up to ~4,000 words from your document': 'Мы анализируем до ~4,000 слов из вашего документа',
       'We analyze the beginning portion': 'Мы анализируем начальную часть',
       'We process the entire document': 'Мы обрабатываем весь документ',
@@ -580,6 +725,153 @@ const resources = {
       'Processing document...': 'Обработка документа...',
       'Unsupported file type. Please upload:': 'Неподдерживаемый тип файла. Пожалуйста, загрузите:',
       'File too large. Maximum size:': 'Файл слишком большой. Максимальный размер:',
+      'Pause': 'Пауза',
+      'Resume': 'Продолжить',
+      'Game paused by host': 'Ведущий приостановил игру',
+      'Continuing in': 'Продолжение через',
+      'Scoring': 'Подсчёт очков',
+      'scoringClassicTitle': 'Классический',
+      'scoringClassicDescription': '1000 очков за правильный ответ плюс бонус за скорость.',
+      'scoringAccuracyTitle': 'Только точность',
+      'scoringAccuracyDescription': '1000 очков за правильный ответ. Скорость не важна.',
+      'scoringStreakTitle': 'Множитель серии',
+      'scoringStreakDescription': 'Классические очки с комбо-множителем, который растёт с каждым правильным ответом подряд.',
+      'scoringNegativeTitle': 'Штраф за ошибки',
+      'scoringNegativeDescription': 'Классические очки, но каждый неверный ответ отнимает 500 очков.',
+      'scoringWagerTitle': 'Ставка на уверенность',
+      'scoringWagerDescription': 'Поставьте 250, 500 или 1000 очков перед ответом. Верный ответ выигрывает ставку, неверный — проигрывает.',
+      'Your wager': 'Ваша ставка',
+      'Wager won': 'Ставка выиграна',
+      'Wager lost': 'Ставка проиграна',
+      'Correct answer': 'Правильный ответ',
+      'Speed bonus': 'Бонус за скорость',
+      'Streak multiplier': 'Множитель серии',
+      'Wrong answer penalty': 'Штраф за ошибку',
+      'How points were earned': 'Как начислялись очки',
+      'No answer': 'Нет ответа',
+      '{{count}} correct answers in a row': '{{count}} правильных ответов подряд',
+      'Combo bonus': 'Комбо-бонус',
+      'Off': 'Выкл.',
+      'Gentle': 'Мягкий',
+      'Standard': 'Стандартный',
+      'Wild': 'Безумный',
+      'Each correct answer in a row raises the multiplier for the next one': 'Каждый правильный ответ подряд увеличивает множитель для следующего',
+      'Combo bonus: +{{step}} per correct answer in a row, up to ×{{max}}': 'Комбо-бонус: +{{step}} за каждый правильный ответ подряд, до ×{{max}}',
+      'Question types': 'Типы вопросов',
+      'Questions are generated in a mix of the selected types': 'Вопросы генерируются вперемешку из выбранных типов',
+      'questionTypeSingleTitle': 'Один вариант',
+      'questionTypeSingleDescription': 'Выберите один правильный вариант',
+      'questionTypeMultipleTitle': 'Несколько вариантов',
+      'questionTypeMultipleDescription': 'Выберите все правильные варианты; частичный ответ даёт часть очков',
+      'questionTypeTrueFalseTitle': 'Верно / Неверно',
+      'questionTypeTrueFalseDescription': 'Решите, верно ли утверждение',
+      'questionTypeTextTitle': 'Краткий ответ',
+      'questionTypeTextDescription': 'Введите ответ; мелкие опечатки прощаются',
+      'questionTypeNumericTitle': 'Числовой',
+      'questionTypeNumericDescription': 'Введите число; засчитываются ответы в пределах допуска',
+      'Select all that apply': 'Выберите все подходящие варианты',
+      'Submit answer': 'Отправить ответ',
+      'True': 'Верно',
+      'False': 'Неверно',
+      'Type your answer': 'Введите ответ',
+      'Enter a number': 'Введите число',
+      'Also accepted': 'Также принимается',
+      'Partially correct': 'Частично верно',
+      '{{percent}}% credit': 'Засчитано {{percent}}%',
+      'Your answer': 'Ваш ответ',
+      'questionTypeOrderingTitle': 'Порядок',
+      'questionTypeOrderingDescription': 'Расставьте шаги или события по порядку; каждый элемент на своём месте приносит очки',
+      'questionTypeMatchingTitle': 'Сопоставление',
+      'questionTypeMatchingDescription': 'Сопоставьте каждый термин с определением; каждая верная пара приносит очки',
+      'Drag the items into the right order': 'Перетащите элементы в правильном порядке',
+      'Move up': 'Переместить вверх',
+      'Move down': 'Переместить вниз',
+      'Match each term with its pair': 'Сопоставьте каждый термин с его парой',
+      'Drop or choose a match': 'Перетащите или выберите пару',
+      'Correct match': 'Верная пара',
+      'Generate & Preview Questions': 'Сгенерировать и просмотреть вопросы',
+      'Question Preview': 'Предпросмотр вопросов',
+      '{{count}} questions ready': 'Готово вопросов: {{count}}',
+      'Back': 'Назад',
+      'Question image': 'Изображение к вопросу',
+      'Your browser does not support audio playback': 'Ваш браузер не поддерживает воспроизведение аудио',
+      'Source': 'Источник',
+      'Question review': 'Разбор вопросов',
+      'Save to library': 'Сохранить в библиотеку',
+      'Keep these questions to host this quiz again later.': 'Сохраните эти вопросы, чтобы провести викторину ещё раз.',
+      'Quiz title': 'Название викторины',
+      'Tags': 'Теги',
+      'e.g. history, europe': 'например: история, европа',
+      'Saving...': 'Сохранение...',
+      'Saved to your quiz library': 'Сохранено в библиотеку викторин',
+      'Failed to save the quiz. Please try again.': 'Не удалось сохранить викторину. Попробуйте ещё раз.',
+      'Failed to start the quiz. Please try again.': 'Не удалось начать викторину. Попробуйте ещё раз.',
+      'Game server not reachable': 'Игровой сервер недоступен',
+      'Quiz Library': 'Библиотека викторин',
+      'Host a saved quiz again without generating new questions': 'Проведите сохранённую викторину снова без генерации новых вопросов',
+      'Search by title, description or tag': 'Поиск по названию, описанию или тегу',
+      'Search': 'Поиск',
+      'Any difficulty': 'Любая сложность',
+      'Any language': 'Любой язык',
+      'easy': 'легко',
+      'medium': 'средне',
+      'hard': 'сложно',
+      '{{count}} questions': 'Вопросов: {{count}}',
+      'Loading quizzes...': 'Загрузка викторин...',
+      'No saved quizzes yet. Save one from the results page after a game.': 'Сохранённых викторин пока нет. Сохраните викторину на странице результатов после игры.',
+      'Use this quiz': 'Использовать',
+      'Delete': 'Удалить',
+      'Delete "{{title}}" from the library?': 'Удалить «{{title}}» из библиотеки?',
+      'Failed to load the quiz library': 'Не удалось загрузить библиотеку викторин',
+      'Failed to delete the quiz': 'Не удалось удалить викторину',
+      'Browse the quiz library': 'Открыть библиотеку викторин',
+      'Or host a saved quiz from the library': 'Или проведите сохранённую викторину из библиотеки',
+      'From the quiz library': 'Из библиотеки викторин',
+      'Loading saved quiz...': 'Загрузка сохранённой викторины...',
+      'Failed to load the saved quiz': 'Не удалось загрузить сохранённую викторину',
+      'Remove': 'Убрать',
+      'Done': 'Готово',
+      'Edit': 'Редактировать',
+      'Regenerate': 'Сгенерировать заново',
+      'Add option': 'Добавить вариант',
+      'Option {{number}}': 'Вариант {{number}}',
+      'Tick every correct option': 'Отметьте все правильные варианты',
+      'Select the correct option': 'Выберите правильный вариант',
+      'Accepted answer': 'Допустимый ответ',
+      'Add accepted answer': 'Добавить допустимый ответ',
+      'Correct value': 'Правильное значение',
+      'Tolerance (±)': 'Допуск (±)',
+      'Unit': 'Единица',
+      'List the items in the correct order': 'Перечислите элементы в правильном порядке',
+      'Item': 'Элемент',
+      'Add item': 'Добавить элемент',
+      'Term': 'Термин',
+      'Match': 'Соответствие',
+      'Add pair': 'Добавить пару',
+      'Explanation (optional)': 'Пояснение (необязательно)',
+      'No question text': 'Нет текста вопроса',
+      'Edit, reorder, remove or regenerate questions before creating the room': 'Отредактируйте, переставьте, удалите или сгенерируйте вопросы заново перед созданием комнаты',
+      'Add question': 'Добавить вопрос',
+      'Fix the highlighted questions before creating the room': 'Исправьте выделенные вопросы перед созданием комнаты',
+      'Could not regenerate the question. Please try again.': 'Не удалось сгенерировать вопрос заново. Попробуйте ещё раз.',
+      '{{generated}} of {{target}} questions ready': 'Готово вопросов: {{generated}} из {{target}}',
+      'Start with {{count}} questions': 'Начать с {{count}} вопросами',
+      'You can start now, or wait for the rest of the questions': 'Можно начать сейчас или дождаться остальных вопросов',
+      'Double-check answers': 'Перепроверять ответы',
+      'A second AI pass answers every question on its own; questions it disagrees with are replaced or flagged. Slower and uses more AI requests.': 'ИИ отвечает на каждый вопрос повторно и независимо; вопросы, где ответы расходятся, заменяются или помечаются. Медленнее и требует больше запросов к ИИ.',
+      'An AI check answered "{{answer}}". Make sure the correct answer is right.': 'Проверка ИИ ответила «{{answer}}». Убедитесь, что правильный ответ указан верно.',
+      'Page {{page}}': 'Стр. {{page}}',
+      'Pages {{from}}–{{to}}': 'Стр. {{from}}–{{to}}',
+      'Questions about {{topic}}': 'Вопросов по теме {{topic}}',
+      'Questions will only cover the ticked topics.': 'Вопросы будут только по отмеченным темам.',
+      'Tick topics to quiz on them only, or leave them all unticked to cover the entire document.': 'Отметьте темы, чтобы спрашивать только по ним, или оставьте все без отметки, чтобы охватить весь документ.',
+      'The total of the questions per topic': 'Сумма вопросов по темам',
+      'Contents': 'Содержание',
+      'Questions will only come from the ticked sections.': 'Вопросы будут только из отмеченных разделов.',
+      'Tick the chapters to quiz on, or leave them all unticked to use the whole document.': 'Отметьте главы для викторины или оставьте все без отметки, чтобы использовать весь документ.',
+      'Slide {{slide}}': 'Слайд {{slide}}',
+      'Upload at most {{count}} files at a time': 'Можно загрузить не более {{count}} файлов за раз',
+      'Pick up to {{count}} files to quiz on them together': 'Выберите до {{count}} файлов, чтобы составить по ним один квиз',
     }
   },
   fr: {
@@ -840,7 +1132,6 @@ const resources = {
       'Difficulty:': 'Difficulté :',
       'Word Count:': 'Nombre de mots :',
       'Topics Found:': 'Sujets trouvés :',
-      'Questions will be generated from the entire document content, not filtered by specific topics.': 'Les questions seront générées à partir de tout le contenu du document, et non filtrées par des sujets spécifiques.',
       'Question generation function not available': 'Fonction de génération de questions non disponible',
       'Failed to generate questions': 'Échec de la génération de questions',
       'Generate & Create Room': 'Générer et créer une salle',
@@ -855,7 +1146,7 @@ const resources = {
       'Small Documents:': 'Petits documents :',
       'Question Limit:': 'Limite de questions :',
       'Up to 50MB': 'Jusqu\'à 50 Mo',
-      'PDF, DOCX, TXT': 'PDF, DOCX, TXT',
+      'PDF, Word, PowerPoint, ODT, EPUB, Markdown, HTML, TXT': 'PDF, Word, PowerPoint, ODT, EPUB, Markdown, HTML, TXT',
       'We analyze up to ~4,000 words from your document': 'Nous analysons jusqu\'à ~4 000 mots de votre document',
       'We analyze the beginning portion': 'Nous analysons la partie initiale',
       'We process the entire document': 'Nous traitons l\'ensemble du document',
@@ -871,6 +1162,153 @@ const resources = {
       'Processing document...': 'Traitement du document...',
       'Unsupported file type. Please upload:': 'Type de fichier non pris en charge. Veuillez télécharger :',
       'File too large. Maximum size:': 'Fichier trop volumineux. Taille maximale :',
+      'Pause': 'Pause',
+      'Resume': 'Reprendre',
+      'Game paused by host': 'Partie mise en pause par l\'hôte',
+      'Continuing in': 'Suite dans',
+      'Scoring': 'Calcul des points',
+      'scoringClassicTitle': 'Classique',
+      'scoringClassicDescription': '1000 points par bonne réponse plus un bonus de rapidité.',
+      'scoringAccuracyTitle': 'Précision seulement',
+      'scoringAccuracyDescription': '1000 points par bonne réponse. La vitesse ne compte pas.',
+      'scoringStreakTitle': 'Multiplicateur de série',
+      'scoringStreakDescription': 'Points classiques avec un multiplicateur combo qui augmente à chaque bonne réponse consécutive.',
+      'scoringNegativeTitle': 'Points négatifs',
+      'scoringNegativeDescription': 'Points classiques, mais chaque mauvaise réponse coûte 500 points.',
+      'scoringWagerTitle': 'Pari de confiance',
+      'scoringWagerDescription': 'Misez 250, 500 ou 1000 points avant de répondre. Gagnez la mise si c\'est juste, perdez-la sinon.',
+      'Your wager': 'Votre mise',
+      'Wager won': 'Mise gagnée',
+      'Wager lost': 'Mise perdue',
+      'Correct answer': 'Bonne réponse',
+      'Speed bonus': 'Bonus de rapidité',
+      'Streak multiplier': 'Multiplicateur de série',
+      'Wrong answer penalty': 'Pénalité de mauvaise réponse',
+      'How points were earned': 'Comment les points ont été gagnés',
+      'No answer': 'Pas de réponse',
+      '{{count}} correct answers in a row': '{{count}} bonnes réponses d\'affilée',
+      'Combo bonus': 'Bonus combo',
+      'Off': 'Désactivé',
+      'Gentle': 'Doux',
+      'Standard': 'Standard',
+      'Wild': 'Fou',
+      'Each correct answer in a row raises the multiplier for the next one': 'Chaque bonne réponse consécutive augmente le multiplicateur de la suivante',
+      'Combo bonus: +{{step}} per correct answer in a row, up to ×{{max}}': 'Bonus combo : +{{step}} par bonne réponse consécutive, jusqu\'à ×{{max}}',
+      'Question types': 'Types de questions',
+      'Questions are generated in a mix of the selected types': 'Les questions mélangent les types sélectionnés',
+      'questionTypeSingleTitle': 'Choix unique',
+      'questionTypeSingleDescription': 'Choisissez la seule bonne option',
+      'questionTypeMultipleTitle': 'Choix multiples',
+      'questionTypeMultipleDescription': 'Choisissez toutes les bonnes options ; une réponse partielle rapporte une partie des points',
+      'questionTypeTrueFalseTitle': 'Vrai / Faux',
+      'questionTypeTrueFalseDescription': 'Décidez si une affirmation est vraie',
+      'questionTypeTextTitle': 'Réponse courte',
+      'questionTypeTextDescription': 'Tapez la réponse ; les petites fautes de frappe sont tolérées',
+      'questionTypeNumericTitle': 'Numérique',
+      'questionTypeNumericDescription': 'Saisissez un nombre ; les réponses dans la tolérance comptent',
+      'Select all that apply': 'Sélectionnez toutes les réponses correctes',
+      'Submit answer': 'Envoyer la réponse',
+      'True': 'Vrai',
+      'False': 'Faux',
+      'Type your answer': 'Tapez votre réponse',
+      'Enter a number': 'Saisissez un nombre',
+      'Also accepted': 'Également accepté',
+      'Partially correct': 'Partiellement correct',
+      '{{percent}}% credit': '{{percent}} % des points',
+      'Your answer': 'Votre réponse',
+      'questionTypeOrderingTitle': 'Remise en ordre',
+      'questionTypeOrderingDescription': 'Remettez les étapes ou événements dans l\'ordre ; chaque élément bien placé rapporte des points',
+      'questionTypeMatchingTitle': 'Association',
+      'questionTypeMatchingDescription': 'Associez chaque terme à sa définition ; chaque paire correcte rapporte des points',
+      'Drag the items into the right order': 'Faites glisser les éléments dans le bon ordre',
+      'Move up': 'Monter',
+      'Move down': 'Descendre',
+      'Match each term with its pair': 'Associez chaque terme à sa paire',
+      'Drop or choose a match': 'Déposez ou choisissez une correspondance',
+      'Correct match': 'Bonne correspondance',
+      'Generate & Preview Questions': 'Générer et prévisualiser les questions',
+      'Question Preview': 'Aperçu des questions',
+      '{{count}} questions ready': '{{count}} questions prêtes',
+      'Back': 'Retour',
+      'Question image': 'Image de la question',
+      'Your browser does not support audio playback': 'Votre navigateur ne prend pas en charge la lecture audio',
+      'Source': 'Source',
+      'Question review': 'Revue des questions',
+      'Save to library': 'Enregistrer dans la bibliothèque',
+      'Keep these questions to host this quiz again later.': 'Conservez ces questions pour relancer ce quiz plus tard.',
+      'Quiz title': 'Titre du quiz',
+      'Tags': 'Tags',
+      'e.g. history, europe': 'ex. histoire, europe',
+      'Saving...': 'Enregistrement...',
+      'Saved to your quiz library': 'Enregistré dans la bibliothèque de quiz',
+      'Failed to save the quiz. Please try again.': 'Impossible d\'enregistrer le quiz. Veuillez réessayer.',
+      'Failed to start the quiz. Please try again.': 'Impossible de démarrer le quiz. Veuillez réessayer.',
+      'Game server not reachable': 'Serveur de jeu injoignable',
+      'Quiz Library': 'Bibliothèque de quiz',
+      'Host a saved quiz again without generating new questions': 'Relancez un quiz enregistré sans générer de nouvelles questions',
+      'Search by title, description or tag': 'Rechercher par titre, description ou tag',
+      'Search': 'Rechercher',
+      'Any difficulty': 'Toute difficulté',
+      'Any language': 'Toute langue',
+      'easy': 'facile',
+      'medium': 'moyen',
+      'hard': 'difficile',
+      '{{count}} questions': '{{count}} questions',
+      'Loading quizzes...': 'Chargement des quiz...',
+      'No saved quizzes yet. Save one from the results page after a game.': 'Aucun quiz enregistré pour l\'instant. Enregistrez-en un depuis la page des résultats après une partie.',
+      'Use this quiz': 'Utiliser ce quiz',
+      'Delete': 'Supprimer',
+      'Delete "{{title}}" from the library?': 'Supprimer « {{title}} » de la bibliothèque ?',
+      'Failed to load the quiz library': 'Impossible de charger la bibliothèque de quiz',
+      'Failed to delete the quiz': 'Impossible de supprimer le quiz',
+      'Browse the quiz library': 'Parcourir la bibliothèque de quiz',
+      'Or host a saved quiz from the library': 'Ou lancez un quiz enregistré de la bibliothèque',
+      'From the quiz library': 'De la bibliothèque de quiz',
+      'Loading saved quiz...': 'Chargement du quiz enregistré...',
+      'Failed to load the saved quiz': 'Impossible de charger le quiz enregistré',
+      'Remove': 'Retirer',
+      'Done': 'Terminé',
+      'Edit': 'Modifier',
+      'Regenerate': 'Régénérer',
+      'Add option': 'Ajouter une option',
+      'Option {{number}}': 'Option {{number}}',
+      'Tick every correct option': 'Cochez toutes les bonnes options',
+      'Select the correct option': 'Sélectionnez la bonne option',
+      'Accepted answer': 'Réponse acceptée',
+      'Add accepted answer': 'Ajouter une réponse acceptée',
+      'Correct value': 'Valeur correcte',
+      'Tolerance (±)': 'Tolérance (±)',
+      'Unit': 'Unité',
+      'List the items in the correct order': 'Listez les éléments dans le bon ordre',
+      'Item': 'Élément',
+      'Add item': 'Ajouter un élément',
+      'Term': 'Terme',
+      'Match': 'Correspondance',
+      'Add pair': 'Ajouter une paire',
+      'Explanation (optional)': 'Explication (facultatif)',
+      'No question text': 'Aucun texte de question',
+      'Edit, reorder, remove or regenerate questions before creating the room': 'Modifiez, réordonnez, supprimez ou régénérez les questions avant de créer la salle',
+      'Add question': 'Ajouter une question',
+      'Fix the highlighted questions before creating the room': 'Corrigez les questions signalées avant de créer la salle',
+      'Could not regenerate the question. Please try again.': 'Impossible de régénérer la question. Veuillez réessayer.',
+      '{{generated}} of {{target}} questions ready': '{{generated}} questions prêtes sur {{target}}',
+      'Start with {{count}} questions': 'Commencer avec {{count}} questions',
+      'You can start now, or wait for the rest of the questions': 'Vous pouvez commencer maintenant ou attendre les autres questions',
+      'Double-check answers': 'Revérifier les réponses',
+      'A second AI pass answers every question on its own; questions it disagrees with are replaced or flagged. Slower and uses more AI requests.': 'Une seconde passe de l\'IA répond seule à chaque question ; les questions où elle n\'est pas d\'accord sont remplacées ou signalées. Plus lent et utilise plus de requêtes IA.',
+      'An AI check answered "{{answer}}". Make sure the correct answer is right.': 'Une vérification par l\'IA a répondu « {{answer}} ». Assurez-vous que la bonne réponse est correcte.',
+      'Page {{page}}': 'Page {{page}}',
+      'Pages {{from}}–{{to}}': 'Pages {{from}}–{{to}}',
+      'Questions about {{topic}}': 'Questions sur {{topic}}',
+      'Questions will only cover the ticked topics.': 'Les questions ne porteront que sur les thèmes cochés.',
+      'Tick topics to quiz on them only, or leave them all unticked to cover the entire document.': 'Cochez des thèmes pour ne poser des questions que sur eux, ou laissez-les tous décochés pour couvrir tout le document.',
+      'The total of the questions per topic': 'Le total des questions par thème',
+      'Contents': 'Sommaire',
+      'Questions will only come from the ticked sections.': 'Les questions viendront uniquement des sections cochées.',
+      'Tick the chapters to quiz on, or leave them all unticked to use the whole document.': 'Cochez les chapitres sur lesquels interroger, ou laissez-les tous décochés pour utiliser tout le document.',
+      'Slide {{slide}}': 'Diapositive {{slide}}',
+      'Upload at most {{count}} files at a time': 'Importez au maximum {{count}} fichiers à la fois',
+      'Pick up to {{count}} files to quiz on them together': 'Choisissez jusqu\'à {{count}} fichiers pour un quiz commun',
     }
   },
   kz: {
@@ -1131,7 +1569,6 @@ const resources = {
       'Difficulty:': 'Қиындық:',
       'Word Count:': 'Сөздер саны:',
       'Topics Found:': 'Табылған тақырыптар:',
-      'Questions will be generated from the entire document content, not filtered by specific topics.': 'Сұрақтар құжаттың барлық мазмұнынан жасалады, нақты тақырыптар бойынша сүзгіленбейді.',
       'Question generation function not available': 'Сұрақ жасау функциясы қолжетімді емес',
       'Failed to generate questions': 'Сұрақтар жасау сәтсіз',
       'Generate & Create Room': 'Жасау және бөлме құру',
@@ -1146,7 +1583,7 @@ const resources = {
       'Small Documents:': 'Кіші құжаттар:',
       'Question Limit:': 'Сұрақ шегі:',
       'Up to 50MB': '50 МБ-ға дейін',
-      'PDF, DOCX, TXT': 'PDF, DOCX, TXT',
+      'PDF, Word, PowerPoint, ODT, EPUB, Markdown, HTML, TXT': 'PDF, Word, PowerPoint, ODT, EPUB, Markdown, HTML, TXT',
       'We analyze up to ~4,000 words from your document': 'Біз сіздің құжатыңыздан ~4,000 сөзге дейін талдаймыз',
       'We analyze the beginning portion': 'Біз бастапқы бөлігін талдаймыз',
       'We process the entire document': 'Біз бүкіл құжатты өңдейміз',
@@ -1162,6 +1599,153 @@ const resources = {
       'Processing document...': 'Құжат өңделуде...',
       'Unsupported file type. Please upload:': 'Қолдау көрсетілмейтін файл түрі. Жүктеңіз:',
       'File too large. Maximum size:': 'Файл тым үлкен. Максималды өлшем:',
+      'Pause': 'Үзіліс',
+      'Resume': 'Жалғастыру',
+      'Game paused by host': 'Жүргізуші ойынды тоқтатты',
+      'Continuing in': 'Жалғасуына',
+      'Scoring': 'Ұпай есептеу',
+      'scoringClassicTitle': 'Классикалық',
+      'scoringClassicDescription': 'Дұрыс жауап үшін 1000 ұпай және жылдамдық бонусы.',
+      'scoringAccuracyTitle': 'Тек дәлдік',
+      'scoringAccuracyDescription': 'Дұрыс жауап үшін 1000 ұпай. Жылдамдық маңызды емес.',
+      'scoringStreakTitle': 'Серия көбейткіші',
+      'scoringStreakDescription': 'Классикалық ұпайлар және қатарынан әр дұрыс жауаппен өсетін комбо көбейткіші.',
+      'scoringNegativeTitle': 'Қате үшін айып',
+      'scoringNegativeDescription': 'Классикалық ұпайлар, бірақ әр қате жауап 500 ұпай алады.',
+      'scoringWagerTitle': 'Сенімділік бәсі',
+      'scoringWagerDescription': 'Жауап бермес бұрын 250, 500 немесе 1000 ұпай қойыңыз. Дұрыс болса ұтасыз, қате болса жоғалтасыз.',
+      'Your wager': 'Сіздің бәсіңіз',
+      'Wager won': 'Бәс ұтылды',
+      'Wager lost': 'Бәс жоғалды',
+      'Correct answer': 'Дұрыс жауап',
+      'Speed bonus': 'Жылдамдық бонусы',
+      'Streak multiplier': 'Серия көбейткіші',
+      'Wrong answer penalty': 'Қате жауап айыбы',
+      'How points were earned': 'Ұпайлар қалай жиналды',
+      'No answer': 'Жауап жоқ',
+      '{{count}} correct answers in a row': 'Қатарынан {{count}} дұрыс жауап',
+      'Combo bonus': 'Комбо бонусы',
+      'Off': 'Өшірулі',
+      'Gentle': 'Жұмсақ',
+      'Standard': 'Стандартты',
+      'Wild': 'Қызу',
+      'Each correct answer in a row raises the multiplier for the next one': 'Қатарынан әр дұрыс жауап келесісінің көбейткішін арттырады',
+      'Combo bonus: +{{step}} per correct answer in a row, up to ×{{max}}': 'Комбо бонусы: қатарынан әр дұрыс жауап үшін +{{step}}, ×{{max}} дейін',
+      'Question types': 'Сұрақ түрлері',
+      'Questions are generated in a mix of the selected types': 'Сұрақтар таңдалған түрлерді араластырып жасалады',
+      'questionTypeSingleTitle': 'Бір жауап',
+      'questionTypeSingleDescription': 'Бір дұрыс нұсқаны таңдаңыз',
+      'questionTypeMultipleTitle': 'Бірнеше жауап',
+      'questionTypeMultipleDescription': 'Барлық дұрыс нұсқаларды таңдаңыз; жартылай жауап ұпайдың бір бөлігін береді',
+      'questionTypeTrueFalseTitle': 'Дұрыс / Бұрыс',
+      'questionTypeTrueFalseDescription': 'Тұжырымның дұрыс екенін анықтаңыз',
+      'questionTypeTextTitle': 'Қысқа жауап',
+      'questionTypeTextDescription': 'Жауапты жазыңыз; ұсақ қателер кешіріледі',
+      'questionTypeNumericTitle': 'Сандық',
+      'questionTypeNumericDescription': 'Сан енгізіңіз; рұқсат етілген ауытқу ішіндегі жауаптар есептеледі',
+      'Select all that apply': 'Барлық сәйкес нұсқаларды таңдаңыз',
+      'Submit answer': 'Жауапты жіберу',
+      'True': 'Дұрыс',
+      'False': 'Бұрыс',
+      'Type your answer': 'Жауабыңызды жазыңыз',
+      'Enter a number': 'Сан енгізіңіз',
+      'Also accepted': 'Сондай-ақ қабылданады',
+      'Partially correct': 'Жартылай дұрыс',
+      '{{percent}}% credit': '{{percent}}% есептелді',
+      'Your answer': 'Сіздің жауабыңыз',
+      'questionTypeOrderingTitle': 'Ретке келтіру',
+      'questionTypeOrderingDescription': 'Қадамдарды немесе оқиғаларды дұрыс ретке қойыңыз; орнындағы әр элемент ұпай береді',
+      'questionTypeMatchingTitle': 'Сәйкестендіру',
+      'questionTypeMatchingDescription': 'Әр терминді анықтамасымен сәйкестендіріңіз; әр дұрыс жұп ұпай береді',
+      'Drag the items into the right order': 'Элементтерді дұрыс ретпен сүйреңіз',
+      'Move up': 'Жоғары жылжыту',
+      'Move down': 'Төмен жылжыту',
+      'Match each term with its pair': 'Әр терминді жұбымен сәйкестендіріңіз',
+      'Drop or choose a match': 'Сүйреп әкеліңіз немесе жұбын таңдаңыз',
+      'Correct match': 'Дұрыс жұп',
+      'Generate & Preview Questions': 'Сұрақтарды жасау және қарау',
+      'Question Preview': 'Сұрақтарды алдын ала қарау',
+      '{{count}} questions ready': '{{count}} сұрақ дайын',
+      'Back': 'Артқа',
+      'Question image': 'Сұрақ суреті',
+      'Your browser does not support audio playback': 'Браузеріңіз аудио ойнатуды қолдамайды',
+      'Source': 'Дереккөз',
+      'Question review': 'Сұрақтарды талдау',
+      'Save to library': 'Кітапханаға сақтау',
+      'Keep these questions to host this quiz again later.': 'Викторинаны кейін қайта өткізу үшін осы сұрақтарды сақтаңыз.',
+      'Quiz title': 'Викторина атауы',
+      'Tags': 'Тегтер',
+      'e.g. history, europe': 'мысалы: тарих, еуропа',
+      'Saving...': 'Сақталуда...',
+      'Saved to your quiz library': 'Викториналар кітапханасына сақталды',
+      'Failed to save the quiz. Please try again.': 'Викторинаны сақтау мүмкін болмады. Қайталап көріңіз.',
+      'Failed to start the quiz. Please try again.': 'Викторинаны бастау мүмкін болмады. Қайталап көріңіз.',
+      'Game server not reachable': 'Ойын серверіне қосылу мүмкін емес',
+      'Quiz Library': 'Викториналар кітапханасы',
+      'Host a saved quiz again without generating new questions': 'Жаңа сұрақтар жасамай, сақталған викторинаны қайта өткізіңіз',
+      'Search by title, description or tag': 'Атауы, сипаттамасы немесе тегі бойынша іздеу',
+      'Search': 'Іздеу',
+      'Any difficulty': 'Кез келген қиындық',
+      'Any language': 'Кез келген тіл',
+      'easy': 'оңай',
+      'medium': 'орташа',
+      'hard': 'қиын',
+      '{{count}} questions': '{{count}} сұрақ',
+      'Loading quizzes...': 'Викториналар жүктелуде...',
+      'No saved quizzes yet. Save one from the results page after a game.': 'Сақталған викториналар әлі жоқ. Ойыннан кейін нәтижелер бетінен сақтаңыз.',
+      'Use this quiz': 'Осы викторинаны қолдану',
+      'Delete': 'Жою',
+      'Delete "{{title}}" from the library?': '«{{title}}» кітапханадан жойылсын ба?',
+      'Failed to load the quiz library': 'Викториналар кітапханасын жүктеу мүмкін болмады',
+      'Failed to delete the quiz': 'Викторинаны жою мүмкін болмады',
+      'Browse the quiz library': 'Викториналар кітапханасын ашу',
+      'Or host a saved quiz from the library': 'Немесе кітапханадағы сақталған викторинаны өткізіңіз',
+      'From the quiz library': 'Викториналар кітапханасынан',
+      'Loading saved quiz...': 'Сақталған викторина жүктелуде...',
+      'Failed to load the saved quiz': 'Сақталған викторинаны жүктеу мүмкін болмады',
+      'Remove': 'Алып тастау',
+      'Done': 'Дайын',
+      'Edit': 'Өңдеу',
+      'Regenerate': 'Қайта жасау',
+      'Add option': 'Нұсқа қосу',
+      'Option {{number}}': '{{number}}-нұсқа',
+      'Tick every correct option': 'Барлық дұрыс нұсқаларды белгілеңіз',
+      'Select the correct option': 'Дұрыс нұсқаны таңдаңыз',
+      'Accepted answer': 'Қабылданатын жауап',
+      'Add accepted answer': 'Қабылданатын жауап қосу',
+      'Correct value': 'Дұрыс мән',
+      'Tolerance (±)': 'Рұқсат етілген ауытқу (±)',
+      'Unit': 'Өлшем бірлігі',
+      'List the items in the correct order': 'Элементтерді дұрыс ретпен жазыңыз',
+      'Item': 'Элемент',
+      'Add item': 'Элемент қосу',
+      'Term': 'Термин',
+      'Match': 'Сәйкестік',
+      'Add pair': 'Жұп қосу',
+      'Explanation (optional)': 'Түсініктеме (міндетті емес)',
+      'No question text': 'Сұрақ мәтіні жоқ',
+      'Edit, reorder, remove or regenerate questions before creating the room': 'Бөлме құрмас бұрын сұрақтарды өңдеңіз, ретін өзгертіңіз, жойыңыз немесе қайта жасаңыз',
+      'Add question': 'Сұрақ қосу',
+      'Fix the highlighted questions before creating the room': 'Бөлме құрмас бұрын белгіленген сұрақтарды түзетіңіз',
+      'Could not regenerate the question. Please try again.': 'Сұрақты қайта жасау мүмкін болмады. Қайталап көріңіз.',
+      '{{generated}} of {{target}} questions ready': '{{target}} сұрақтың {{generated}} дайын',
+      'Start with {{count}} questions': '{{count}} сұрақпен бастау',
+      'You can start now, or wait for the rest of the questions': 'Қазір бастауға немесе қалған сұрақтарды күтуге болады',
+      'Double-check answers': 'Жауаптарды қайта тексеру',
+      'A second AI pass answers every question on its own; questions it disagrees with are replaced or flagged. Slower and uses more AI requests.': 'ЖИ әр сұраққа қайта, өз бетінше жауап береді; жауаптар сәйкес келмейтін сұрақтар ауыстырылады немесе белгіленеді. Баяуырақ және ЖИ-ге көбірек сұраныс жібереді.',
+      'An AI check answered "{{answer}}". Make sure the correct answer is right.': 'ЖИ тексеруі «{{answer}}» деп жауап берді. Дұрыс жауаптың рас екеніне көз жеткізіңіз.',
+      'Page {{page}}': '{{page}}-бет',
+      'Pages {{from}}–{{to}}': '{{from}}–{{to}} беттер',
+      'Questions about {{topic}}': '{{topic}} тақырыбы бойынша сұрақтар',
+      'Questions will only cover the ticked topics.': 'Сұрақтар тек белгіленген тақырыптар бойынша болады.',
+      'Tick topics to quiz on them only, or leave them all unticked to cover the entire document.': 'Тек солар бойынша сұрақ қою үшін тақырыптарды белгілеңіз немесе бүкіл құжатты қамту үшін ешқайсысын белгілемеңіз.',
+      'The total of the questions per topic': 'Тақырыптар бойынша сұрақтардың жиыны',
+      'Contents': 'Мазмұны',
+      'Questions will only come from the ticked sections.': 'Сұрақтар тек белгіленген бөлімдерден алынады.',
+      'Tick the chapters to quiz on, or leave them all unticked to use the whole document.': 'Викторинаға арналған тарауларды белгілеңіз немесе бүкіл құжатты пайдалану үшін ешқайсысын белгілемеңіз.',
+      'Slide {{slide}}': '{{slide}}-слайд',
+      'Upload at most {{count}} files at a time': 'Бір уақытта ең көбі {{count}} файл жүктеуге болады',
+      'Pick up to {{count}} files to quiz on them together': 'Бір викторина құру үшін {{count}} файлға дейін таңдаңыз',
     }
   },
   es: {
@@ -1422,7 +2006,6 @@ const resources = {
       'Difficulty:': 'Dificultad:',
       'Word Count:': 'Recuento de palabras:',
       'Topics Found:': 'Temas encontrados:',
-      'Questions will be generated from the entire document content, not filtered by specific topics.': 'Las preguntas se generarán a partir de todo el contenido del documento, no filtradas por temas específicos.',
       'Question generation function not available': 'Función de generación de preguntas no disponible',
       'Failed to generate questions': 'Error al generar preguntas',
       'Generate & Create Room': 'Generar y crear sala',
@@ -1437,7 +2020,7 @@ const resources = {
       'Small Documents:': 'Documentos pequeños:',
       'Question Limit:': 'Límite de preguntas:',
       'Up to 50MB': 'Hasta 50MB',
-      'PDF, DOCX, TXT': 'PDF, DOCX, TXT',
+      'PDF, Word, PowerPoint, ODT, EPUB, Markdown, HTML, TXT': 'PDF, Word, PowerPoint, ODT, EPUB, Markdown, HTML, TXT',
       'We analyze up to ~4,000 words from your document': 'Analizamos hasta ~4,000 palabras de tu documento',
       'We analyze the beginning portion': 'Analizamos la parte inicial',
       'We process the entire document': 'Procesamos todo el documento',
@@ -1453,6 +2036,153 @@ const resources = {
       'Processing document...': 'Procesando documento...',
       'Unsupported file type. Please upload:': 'Tipo de archivo no soportado. Por favor sube:',
       'File too large. Maximum size:': 'Archivo demasiado grande. Tamaño máximo:',
+      'Pause': 'Pausar',
+      'Resume': 'Reanudar',
+      'Game paused by host': 'Juego pausado por el anfitrión',
+      'Continuing in': 'Continuando en',
+      'Scoring': 'Puntuación',
+      'scoringClassicTitle': 'Clásico',
+      'scoringClassicDescription': '1000 puntos por respuesta correcta más un bono por rapidez.',
+      'scoringAccuracyTitle': 'Solo precisión',
+      'scoringAccuracyDescription': '1000 puntos por respuesta correcta. La velocidad no importa.',
+      'scoringStreakTitle': 'Multiplicador de racha',
+      'scoringStreakDescription': 'Puntos clásicos con un multiplicador combo que sube con cada acierto seguido.',
+      'scoringNegativeTitle': 'Penalización por error',
+      'scoringNegativeDescription': 'Puntos clásicos, pero cada respuesta incorrecta resta 500 puntos.',
+      'scoringWagerTitle': 'Apuesta de confianza',
+      'scoringWagerDescription': 'Apuesta 250, 500 o 1000 puntos antes de responder. Ganas la apuesta si aciertas y la pierdes si fallas.',
+      'Your wager': 'Tu apuesta',
+      'Wager won': 'Apuesta ganada',
+      'Wager lost': 'Apuesta perdida',
+      'Correct answer': 'Respuesta correcta',
+      'Speed bonus': 'Bono de rapidez',
+      'Streak multiplier': 'Multiplicador de racha',
+      'Wrong answer penalty': 'Penalización por error',
+      'How points were earned': 'Cómo se ganaron los puntos',
+      'No answer': 'Sin respuesta',
+      '{{count}} correct answers in a row': '{{count}} respuestas correctas seguidas',
+      'Combo bonus': 'Bono combo',
+      'Off': 'Desactivado',
+      'Gentle': 'Suave',
+      'Standard': 'Estándar',
+      'Wild': 'Salvaje',
+      'Each correct answer in a row raises the multiplier for the next one': 'Cada acierto seguido aumenta el multiplicador del siguiente',
+      'Combo bonus: +{{step}} per correct answer in a row, up to ×{{max}}': 'Bono combo: +{{step}} por cada acierto seguido, hasta ×{{max}}',
+      'Question types': 'Tipos de preguntas',
+      'Questions are generated in a mix of the selected types': 'Las preguntas mezclan los tipos seleccionados',
+      'questionTypeSingleTitle': 'Opción única',
+      'questionTypeSingleDescription': 'Elige la única opción correcta',
+      'questionTypeMultipleTitle': 'Selección múltiple',
+      'questionTypeMultipleDescription': 'Elige todas las opciones correctas; las respuestas parciales suman puntos parciales',
+      'questionTypeTrueFalseTitle': 'Verdadero / Falso',
+      'questionTypeTrueFalseDescription': 'Decide si una afirmación es verdadera',
+      'questionTypeTextTitle': 'Respuesta corta',
+      'questionTypeTextDescription': 'Escribe la respuesta; se perdonan pequeñas erratas',
+      'questionTypeNumericTitle': 'Numérica',
+      'questionTypeNumericDescription': 'Introduce un número; cuentan las respuestas dentro de la tolerancia',
+      'Select all that apply': 'Selecciona todas las que correspondan',
+      'Submit answer': 'Enviar respuesta',
+      'True': 'Verdadero',
+      'False': 'Falso',
+      'Type your answer': 'Escribe tu respuesta',
+      'Enter a number': 'Introduce un número',
+      'Also accepted': 'También se acepta',
+      'Partially correct': 'Parcialmente correcta',
+      '{{percent}}% credit': '{{percent}} % del crédito',
+      'Your answer': 'Tu respuesta',
+      'questionTypeOrderingTitle': 'Ordenar',
+      'questionTypeOrderingDescription': 'Pon los pasos o eventos en orden; cada elemento bien colocado suma puntos',
+      'questionTypeMatchingTitle': 'Emparejar',
+      'questionTypeMatchingDescription': 'Empareja cada término con su definición; cada pareja correcta suma puntos',
+      'Drag the items into the right order': 'Arrastra los elementos al orden correcto',
+      'Move up': 'Subir',
+      'Move down': 'Bajar',
+      'Match each term with its pair': 'Empareja cada término con su pareja',
+      'Drop or choose a match': 'Suelta o elige una pareja',
+      'Correct match': 'Pareja correcta',
+      'Generate & Preview Questions': 'Generar y previsualizar preguntas',
+      'Question Preview': 'Vista previa de preguntas',
+      '{{count}} questions ready': '{{count}} preguntas listas',
+      'Back': 'Atrás',
+      'Question image': 'Imagen de la pregunta',
+      'Your browser does not support audio playback': 'Tu navegador no admite la reproducción de audio',
+      'Source': 'Fuente',
+      'Question review': 'Repaso de preguntas',
+      'Save to library': 'Guardar en la biblioteca',
+      'Keep these questions to host this quiz again later.': 'Guarda estas preguntas para volver a organizar este quiz más tarde.',
+      'Quiz title': 'Título del quiz',
+      'Tags': 'Etiquetas',
+      'e.g. history, europe': 'p. ej. historia, europa',
+      'Saving...': 'Guardando...',
+      'Saved to your quiz library': 'Guardado en la biblioteca de quizzes',
+      'Failed to save the quiz. Please try again.': 'No se pudo guardar el quiz. Inténtalo de nuevo.',
+      'Failed to start the quiz. Please try again.': 'No se pudo iniciar el quiz. Inténtalo de nuevo.',
+      'Game server not reachable': 'No se puede conectar con el servidor de juego',
+      'Quiz Library': 'Biblioteca de quizzes',
+      'Host a saved quiz again without generating new questions': 'Vuelve a organizar un quiz guardado sin generar preguntas nuevas',
+      'Search by title, description or tag': 'Buscar por título, descripción o etiqueta',
+      'Search': 'Buscar',
+      'Any difficulty': 'Cualquier dificultad',
+      'Any language': 'Cualquier idioma',
+      'easy': 'fácil',
+      'medium': 'media',
+      'hard': 'difícil',
+      '{{count}} questions': '{{count}} preguntas',
+      'Loading quizzes...': 'Cargando quizzes...',
+      'No saved quizzes yet. Save one from the results page after a game.': 'Aún no hay quizzes guardados. Guarda uno desde la página de resultados después de una partida.',
+      'Use this quiz': 'Usar este quiz',
+      'Delete': 'Eliminar',
+      'Delete "{{title}}" from the library?': '¿Eliminar "{{title}}" de la biblioteca?',
+      'Failed to load the quiz library': 'No se pudo cargar la biblioteca de quizzes',
+      'Failed to delete the quiz': 'No se pudo eliminar el quiz',
+      'Browse the quiz library': 'Explorar la biblioteca de quizzes',
+      'Or host a saved quiz from the library': 'O usa un quiz guardado de la biblioteca',
+      'From the quiz library': 'De la biblioteca de quizzes',
+      'Loading saved quiz...': 'Cargando quiz guardado...',
+      'Failed to load the saved quiz': 'No se pudo cargar el quiz guardado',
+      'Remove': 'Quitar',
+      'Done': 'Listo',
+      'Edit': 'Editar',
+      'Regenerate': 'Regenerar',
+      'Add option': 'Añadir opción',
+      'Option {{number}}': 'Opción {{number}}',
+      'Tick every correct option': 'Marca todas las opciones correctas',
+      'Select the correct option': 'Selecciona la opción correcta',
+      'Accepted answer': 'Respuesta aceptada',
+      'Add accepted answer': 'Añadir respuesta aceptada',
+      'Correct value': 'Valor correcto',
+      'Tolerance (±)': 'Tolerancia (±)',
+      'Unit': 'Unidad',
+      'List the items in the correct order': 'Enumera los elementos en el orden correcto',
+      'Item': 'Elemento',
+      'Add item': 'Añadir elemento',
+      'Term': 'Término',
+      'Match': 'Pareja',
+      'Add pair': 'Añadir pareja',
+      'Explanation (optional)': 'Explicación (opcional)',
+      'No question text': 'Sin texto de pregunta',
+      'Edit, reorder, remove or regenerate questions before creating the room': 'Edita, reordena, elimina o regenera preguntas antes de crear la sala',
+      'Add question': 'Añadir pregunta',
+      'Fix the highlighted questions before creating the room': 'Corrige las preguntas resaltadas antes de crear la sala',
+      'Could not regenerate the question. Please try again.': 'No se pudo regenerar la pregunta. Inténtalo de nuevo.',
+      '{{generated}} of {{target}} questions ready': '{{generated}} de {{target}} preguntas listas',
+      'Start with {{count}} questions': 'Empezar con {{count}} preguntas',
+      'You can start now, or wait for the rest of the questions': 'Puedes empezar ahora o esperar al resto de las preguntas',
+      'Double-check answers': 'Verificar las respuestas',
+      'A second AI pass answers every question on its own; questions it disagrees with are replaced or flagged. Slower and uses more AI requests.': 'Una segunda pasada de la IA responde cada pregunta por su cuenta; las preguntas en las que no coincide se reemplazan o se marcan. Más lento y usa más solicitudes de IA.',
+      'An AI check answered "{{answer}}". Make sure the correct answer is right.': 'Una verificación de la IA respondió «{{answer}}». Asegúrate de que la respuesta correcta sea la adecuada.',
+      'Page {{page}}': 'Página {{page}}',
+      'Pages {{from}}–{{to}}': 'Páginas {{from}}–{{to}}',
+      'Questions about {{topic}}': 'Preguntas sobre {{topic}}',
+      'Questions will only cover the ticked topics.': 'Las preguntas solo cubrirán los temas marcados.',
+      'Tick topics to quiz on them only, or leave them all unticked to cover the entire document.': 'Marca temas para preguntar solo sobre ellos, o déjalos todos sin marcar para cubrir todo el documento.',
+      'The total of the questions per topic': 'El total de preguntas por tema',
+      'Contents': 'Contenido',
+      'Questions will only come from the ticked sections.': 'Las preguntas solo saldrán de las secciones marcadas.',
+      'Tick the chapters to quiz on, or leave them all unticked to use the whole document.': 'Marca los capítulos sobre los que preguntar, o déjalos todos sin marcar para usar todo el documento.',
+      'Slide {{slide}}': 'Diapositiva {{slide}}',
+      'Upload at most {{count}} files at a time': 'Sube como máximo {{count}} archivos a la vez',
+      'Pick up to {{count}} files to quiz on them together': 'Elige hasta {{count}} archivos para un cuestionario conjunto',
     }
   }
 };
@@ -1,48 +1,74 @@
 import { useState, useEffect } from 'react';
 import { createRoom, createRoomWithQuestions } from '../api/createRoom';
-import type { Question } from '../../../shared/types';
-import { useNavigate, Link } from 'react-router-dom';
+import type { LibraryQuiz, Question } from '../../../shared/types';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { presenceManager } from '../api/presenceManager';
 import { validateTopic } from '../services/questionGeneration';
-import { FaCheckCircle, FaClock, FaRocket, FaRobot, FaFileAlt, FaCheck, FaBook, FaBullseye, FaHome, FaQuestionCircle } from 'react-icons/fa';
+import { FaCheckCircle, FaClock, FaRocket, FaRobot, FaFileAlt, FaCheck, FaBook, FaBullseye, FaHome, FaQuestionCircle, FaTimes } from 'react-icons/fa';
 import { MdAccessTime } from 'react-icons/md';
-import type { DifficultyLevel } from '../../../shared/types';
+import type { ComboSettings, DifficultyLevel, DocumentFile, DocumentStructure, DocumentTopicCount, QuestionType, ScoringStrategy } from '../../../shared/types';
+import { DEFAULT_QUESTION_TYPES } from '../../../shared/questions';
 import quizDojoLogo from '/logo-lockup.png';
 import { useTranslation } from 'react-i18next';
 import { trackQuizEvent, trackEngagement } from '../utils/analytics';
 import { DocumentUploader } from '../components/DocumentUploader';
 import { QuizConfigurationSection } from '../components/QuizConfigurationSection';
+import ScoringStrategySelector from '../components/ScoringStrategySelector';
+import QuestionTypeSelector from '../components/QuestionTypeSelector';
+import AnswerVerificationToggle from '../components/AnswerVerificationToggle';
+import QuestionEditor from '../components/QuestionEditor';
 import { BACKEND_CONFIG } from '../config/environment';
+import { deleteDocument } from '../utils/documents';
+import { getOwnerId } from '../utils/owner';
+import { getQuiz, regenerateQuestion } from '../services/apiClient';
+
+// Settings the document questions were generated with
+interface DocumentQuizConfig {
+  topic: string;
+  difficulty: DifficultyLevel;
+  questionCount: number;
+}
 
 // Document analysis interface
 interface DocumentAnalysis {
   fileId: string;
   filename: string;
   topics: string[];
+  files: DocumentFile[]; // One per uploaded file, with its own topics
   contentType: string;
   difficultyLevel: string;
   wordCount: number;
   uploadedAt: Date;
-  extractedText: string;
+  structure: DocumentStructure;
+  expiresAt: Date; // The backend keeps the document's text until then
 }
 
 export default function CreateRoomPage() {
   const { t } = useTranslation();
   const navigate = useNavigate();
+  const location = useLocation();
+
+  // Set when the host picks "Use this quiz" in the quiz library
+  const libraryQuizId = (location.state as { libraryQuizId?: string } | null)?.libraryQuizId;
 
   // Form state
   const [nickname, setNickname] = useState('');
   const [topic, setTopic] = useState('');
   const [difficulty, setDifficulty] = useState<DifficultyLevel>('medium');
   const [questionCount, setQuestionCount] = useState("10"); // Keep as string
+  const [scoringStrategy, setScoringStrategy] = useState<ScoringStrategy>('classic');
+  const [combo, setCombo] = useState<ComboSettings | undefined>(undefined);
+  const [questionTypes, setQuestionTypes] = useState<QuestionType[]>(DEFAULT_QUESTION_TYPES);
+  const [verifyAnswers, setVerifyAnswers] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
   // Document upload state
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [isProcessingDocument, setIsProcessingDocument] = useState(false);
   const [showDocumentSection, setShowDocumentSection] = useState(false);
   const [documentAnalysis, setDocumentAnalysis] = useState<DocumentAnalysis | null>(null);
+  const [selectedSections, setSelectedSections] = useState<number[]>([]); // Indexes into documentAnalysis.structure.sections
   
   // Toggle between regular quiz and document-based quiz
   const [isDocumentMode, setIsDocumentMode] = useState(false);
@@ -50,7 +76,29 @@ export default function CreateRoomPage() {
   // Question preview state
   const [generatedQuestions, setGeneratedQuestions] = useState<Question[]>([]);
   const [showQuestionPreview, setShowQuestionPreview] = useState(false);
-  const [questionConfig, setQuestionConfig] = useState<any>(null);
+  const [questionConfig, setQuestionConfig] = useState<DocumentQuizConfig | null>(null);
+
+  // Saved quiz from the library (replaces topic-based generation)
+  const [libraryQuiz, setLibraryQuiz] = useState<LibraryQuiz | null>(null);
+  const [isLoadingLibraryQuiz, setIsLoadingLibraryQuiz] = useState(false);
+
+  useEffect(() => {
+    if (!libraryQuizId) return;
+
+    setIsLoadingLibraryQuiz(true);
+    getQuiz(libraryQuizId)
+      .then((quiz) => setLibraryQuiz(quiz))
+      .catch((error) => {
+        console.error('Failed to load library quiz:', error);
+        setError(t('Failed to load the saved quiz'));
+      })
+      .finally(() => setIsLoadingLibraryQuiz(false));
+  }, [libraryQuizId, t]);
+
+  const handleLibraryQuizRemove = () => {
+    setLibraryQuiz(null);
+    navigate('/create-room', { replace: true, state: null });
+  };
 
   // Handle count input change - only allow numbers
   const handleCountChange = (value: string) => {
@@ -72,14 +120,15 @@ export default function CreateRoomPage() {
   };
 
   // Document upload handlers
-  const handleFileUpload = async (file: File) => {
-    setUploadedFile(file);
+  const handleFilesUpload = async (files: File[]) => {
+    setUploadedFiles(files);
     setIsProcessingDocument(true);
     setError('');
 
     try {
       const formData = new FormData();
-      formData.append('document', file);
+      formData.append('ownerId', getOwnerId());
+      files.forEach((file) => formData.append('documents', file));
 
       console.log('Uploading document to:', `${BACKEND_CONFIG.URL}/api/documents/upload`);
       
@@ -96,6 +145,7 @@ export default function CreateRoomPage() {
 
       if (result.success) {
         setDocumentAnalysis(result.documentAnalysis);
+        setSelectedSections([]);
         setShowDocumentSection(true);
         setIsDocumentMode(true);
         
@@ -110,17 +160,22 @@ export default function CreateRoomPage() {
       console.error('Document upload failed:', error);
       console.error('Backend URL:', BACKEND_CONFIG.URL);
       setError(error instanceof Error ? error.message : 'Document upload failed');
-      setUploadedFile(null);
+      setUploadedFiles([]);
     } finally {
       setIsProcessingDocument(false);
     }
   };
 
   const handleFileRemove = () => {
-    setUploadedFile(null);
+    if (documentAnalysis) {
+      void deleteDocument(documentAnalysis.fileId);
+    }
+    setUploadedFiles([]);
     setDocumentAnalysis(null);
+    setSelectedSections([]);
     setShowDocumentSection(false);
     setIsDocumentMode(false);
+    setShowQuestionPreview(false);
   };
 
 
@@ -128,7 +183,8 @@ export default function CreateRoomPage() {
   // Generate questions from document
   const generateQuestionsFromDocument = async (
     difficulty: DifficultyLevel,
-    questionCount: number
+    questionCount: number,
+    topics?: DocumentTopicCount[]
   ): Promise<Question[]> => {
     if (!documentAnalysis) {
       throw new Error('No document analysis available');
@@ -144,9 +200,16 @@ export default function CreateRoomPage() {
           },
           body: JSON.stringify({
             fileId: documentAnalysis.fileId,
+            ownerId: getOwnerId(),
             difficulty,
             count: questionCount,
-            extractedText: documentAnalysis.extractedText
+            questionTypes,
+            ...(topics ? { topics } : {}),
+            ...(selectedSections.length > 0
+              ? { sections: selectedSections.map((index) => documentAnalysis.structure.sections[index]).map(({ start, end }) => ({ start, end })) }
+              : {}),
+            // The host reviews document questions in the editor, so disputed answers are flagged there
+            ...(verifyAnswers ? { verifyAnswers: 'flag' } : {})
           }),
         });
 
@@ -168,10 +231,13 @@ export default function CreateRoomPage() {
     }
   };
 
+  // The combo multiplier does not apply to wager rooms
+  const roomCombo = scoringStrategy === 'wager' ? undefined : combo;
+
   // Handle document-based quiz creation
   const handleDocumentQuizCreation = async (
     questions: Question[],
-    config: { topic: string; difficulty: DifficultyLevel; questionCount: number }
+    config: DocumentQuizConfig
   ) => {
     if (!nickname.trim()) {
       alert(t('Please enter a nickname'));
@@ -197,8 +263,9 @@ export default function CreateRoomPage() {
         nickname,
         topicName,
         config.difficulty,
-        config.questionCount,
-        questions
+        questions.length, // The host may have added or removed questions in the editor
+        questions,
+        { scoringStrategy, combo: roomCombo }
       );
 
       navigate(`/lobby/${roomData.roomId}`, { 
@@ -218,14 +285,33 @@ export default function CreateRoomPage() {
   // Handle document question generation (for "Generate Questions" button)
   const handleDocumentQuestionGeneration = async (
     questions: Question[],
-    config: { topic: string; difficulty: DifficultyLevel; questionCount: number }
+    config: DocumentQuizConfig
   ) => {
-    // For now, just show the questions in a preview
+    // Let the host check the questions (and their media) before the room is created
     setGeneratedQuestions(questions);
     setQuestionConfig(config);
     setShowQuestionPreview(true);
   };
 
+  // Replace one question in the editor with a newly generated one from the document
+  const handleQuestionRegeneration = async (index: number): Promise<Question> => {
+    const question = generatedQuestions[index];
+    const result = await regenerateQuestion({
+      topic: questionConfig?.topic || documentAnalysis?.topics[0] || 'Document Quiz',
+      difficulty: questionConfig?.difficulty || difficulty,
+      questionType: question.type ?? 'single',
+      excludeQuestions: generatedQuestions.map((q) => q.text).filter((text) => text.trim().length > 0),
+      ...(documentAnalysis ? { fileId: documentAnalysis.fileId, ownerId: getOwnerId() } : {}),
+      // Stay within the chapters the quiz covers, and on the replaced question's topic when it had one
+      ...(documentAnalysis && selectedSections.length > 0
+        ? { sections: selectedSections.map((index) => documentAnalysis.structure.sections[index]).map(({ start, end }) => ({ start, end })) }
+        : {}),
+      ...(documentAnalysis && question.source?.topic ? { topics: [{ topic: question.source.topic, count: 1 }] } : {}),
+      ...(verifyAnswers ? { verifyAnswers: 'flag' as const } : {})
+    });
+    return result.question;
+  };
+
   // Real-time topic validation
   const handleTopicChange = (value: string) => {
     setTopic(value);
@@ -249,6 +335,32 @@ export default function CreateRoomPage() {
       setError(t('Please enter your nickname'));
       return;
     }
+
+    if (libraryQuiz) {
+      setIsLoading(true);
+      try {
+        trackEngagement.buttonClick('create_room_from_library', 'create_room_page');
+
+        const roomData = await createRoomWithQuestions(
+          nickname,
+          libraryQuiz.title,
+          libraryQuiz.difficulty,
+          libraryQuiz.questionCount,
+          libraryQuiz.questions,
+          { scoringStrategy, combo: roomCombo }
+        );
+
+        localStorage.setItem("userId", roomData.playerId);
+        presenceManager.setupDisconnectCleanup(roomData.roomId, roomData.playerId, true);
+        navigate(`/lobby/${roomData.roomId}`);
+      } catch (error) {
+        console.error('Error creating room from library quiz:', error);
+        setError(error instanceof Error ? error.message : t('Failed to create room. Please try again.'));
+      } finally {
+        setIsLoading(false);
+      }
+      return;
+    }
     
     if (!topic.trim()) {
       setError(t('Please enter a quiz topic'));
@@ -277,7 +389,7 @@ export default function CreateRoomPage() {
       let roomData;
 
       // Check if we have a document to process
-      if (documentAnalysis && uploadedFile) {
+      if (documentAnalysis && uploadedFiles.length > 0) {
         // Generate questions from document
         // setGenerationStatus(t('Generating questions from document...')); // This state was removed, so this line is removed
         
@@ -286,10 +398,11 @@ export default function CreateRoomPage() {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             fileId: documentAnalysis.fileId,
+            ownerId: getOwnerId(),
             difficulty: customization?.difficulty || difficulty,
             count: customization?.questionCount || questionCountNum, // Use number here
-            extractedText: documentAnalysis.extractedText,
-            questionMode: 'document-only' // Always use document-only mode
+            questionMode: 'document-only', // Always use document-only mode
+            questionTypes
           })
         });
 
@@ -301,7 +414,8 @@ export default function CreateRoomPage() {
             nickname,
             'Document Content', // Use generic topic name for document-based quizzes
             customization?.difficulty || difficulty as DifficultyLevel,
-            customization?.questionCount || questionCountNum // Use number here
+            customization?.questionCount || questionCountNum, // Use number here
+            { scoringStrategy, combo: roomCombo, questionTypes }
           );
           
           // setGenerationStatus(t('Successfully generated {{count}} questions from document!', { // This state was removed, so this line is removed
@@ -321,7 +435,13 @@ export default function CreateRoomPage() {
       trackQuizEvent.roomCreated(topic, difficulty as DifficultyLevel, questionCountNum); // Use number here
       trackEngagement.buttonClick('create_room', 'create_room_page');
 
-        roomData = await createRoom(nickname, topic, difficulty as DifficultyLevel, questionCountNum); // Use number here
+        roomData = await createRoom(nickname, topic, difficulty as DifficultyLevel, questionCountNum, { // Use number here
+          scoringStrategy,
+          combo: roomCombo,
+          questionTypes,
+          // Topic questions go straight into the room, so disputed ones are replaced
+          ...(verifyAnswers ? { verifyAnswers: 'regenerate' as const } : {})
+        });
       
       // Show success message with generation result
       if (roomData.aiGenerated) {
@@ -419,6 +539,7 @@ export default function CreateRoomPage() {
         )}
 
         {/* Mode Toggle */}
+        {!libraryQuiz && (
         <div className="bg-white rounded-xl shadow-lg p-4 sm:p-6 mb-6 border border-[#4E342E]/10">
           <div className="flex items-center justify-between">
             <div>
@@ -447,7 +568,7 @@ export default function CreateRoomPage() {
                 setIsDocumentMode(!isDocumentMode);
                 if (!isDocumentMode) {
                   // Switching to document mode - clear any existing document data
-                  setUploadedFile(null);
+                  setUploadedFiles([]);
                   setDocumentAnalysis(null);
                   setShowDocumentSection(false);
                 }
@@ -472,7 +593,17 @@ export default function CreateRoomPage() {
               )}
             </button>
           </div>
+          {!isDocumentMode && (
+            <Link
+              to="/library"
+              className="inline-flex items-center gap-2 mt-3 text-sm font-medium text-[#05717B] hover:text-[#4E342E] transition-colors"
+            >
+              <FaBook />
+              {t('Or host a saved quiz from the library')}
+            </Link>
+          )}
         </div>
+        )}
 
         {/* Document Upload Section - Only show in document mode */}
         {isDocumentMode && (
@@ -488,7 +619,7 @@ export default function CreateRoomPage() {
                     {t('Document Processing Limits')}
                   </h3>
                   <div className="text-sm text-[#6D4C41] space-y-1">
-                    <p>• <strong>{t('File Size:')}</strong> {t('Up to 10MB')} • <strong>{t('Formats:')}</strong> {t('PDF, DOCX, TXT')}</p>
+                    <p>• <strong>{t('File Size:')}</strong> {t('Up to 10MB')} • <strong>{t('Formats:')}</strong> {t('PDF, Word, PowerPoint, ODT, EPUB, Markdown, HTML, TXT')}</p>
                     <p>• <strong>{t('Processing:')}</strong> {t('Analyzes up to 4,000 words')} • <strong>{t('Questions:')}</strong> {t('1-30 per quiz')}</p>
                   </div>
                 </div>
@@ -496,12 +627,14 @@ export default function CreateRoomPage() {
             </div>
 
             <DocumentUploader
-              onFileUpload={handleFileUpload}
+              onFilesUpload={handleFilesUpload}
               onFileRemove={handleFileRemove}
-              uploadedFile={uploadedFile}
+              uploadedFiles={uploadedFiles}
               isProcessing={isProcessingDocument}
-              supportedTypes={['pdf', 'docx', 'txt']}
               maxSize={10 * 1024 * 1024} // 10MB
+              structure={documentAnalysis?.structure}
+              selectedSections={selectedSections}
+              onSelectedSectionsChange={setSelectedSections}
             />
 
             {/* Document Analysis Results */}
@@ -532,16 +665,36 @@ export default function CreateRoomPage() {
 
                 <div className="bg-[#F7E2C0] rounded-lg p-3 border border-[#4E342E]/10">
                   <div className="text-sm text-[#6D4C41] mb-2">{t('Extracted Topics')}</div>
-                  <div className="flex flex-wrap gap-2">
-                    {documentAnalysis.topics.map((topic, index) => (
-                      <span
-                        key={index}
-                        className="bg-[#8D6E63] text-white text-xs px-2 py-1 rounded-full"
-                      >
-                        {topic}
-                      </span>
-                    ))}
-                  </div>
+                  {documentAnalysis.files.length > 1 ? (
+                    <div className="space-y-3">
+                      {documentAnalysis.files.map((file, fileIndex) => (
+                        <div key={fileIndex}>
+                          <div className="text-xs font-medium text-[#4E342E] mb-1">{file.filename}</div>
+                          <div className="flex flex-wrap gap-2">
+                            {file.topics.map((topic, index) => (
+                              <span
+                                key={index}
+                                className="bg-[#8D6E63] text-white text-xs px-2 py-1 rounded-full"
+                              >
+                                {topic}
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {documentAnalysis.topics.map((topic, index) => (
+                        <span
+                          key={index}
+                          className="bg-[#8D6E63] text-white text-xs px-2 py-1 rounded-full"
+                        >
+                          {topic}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -559,14 +712,49 @@ export default function CreateRoomPage() {
                     placeholder={t('Enter your nickname')}
                     className="w-full border-2 border-[#4E342E]/30 rounded-lg px-3 sm:px-4 py-2 sm:py-3 focus:ring-2 focus:ring-[#10A3A2] focus:border-[#10A3A2] bg-[#FDF0DC] text-[#4E342E] placeholder-[#6D4C41]/60"
                   />
+                  <div className="mt-4">
+                    <QuestionTypeSelector
+                      value={questionTypes}
+                      onChange={setQuestionTypes}
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <div className="mt-4">
+                    <AnswerVerificationToggle
+                      checked={verifyAnswers}
+                      onChange={setVerifyAnswers}
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <div className="mt-4">
+                    <ScoringStrategySelector
+                      value={scoringStrategy}
+                      onChange={setScoringStrategy}
+                      combo={combo}
+                      onComboChange={setCombo}
+                      disabled={isLoading}
+                    />
+                  </div>
                 </div>
                 
-                <QuizConfigurationSection
-                  document={documentAnalysis}
-                  onGenerateAndCreate={handleDocumentQuizCreation}
-                  isProcessing={isLoading}
-                  generateQuestionsFromDocument={generateQuestionsFromDocument}
-                />
+                {showQuestionPreview && questionConfig ? (
+                  <QuestionEditor
+                    questions={generatedQuestions}
+                    onChange={setGeneratedQuestions}
+                    onRegenerate={handleQuestionRegeneration}
+                    difficulty={questionConfig.difficulty}
+                    onConfirm={() => handleDocumentQuizCreation(generatedQuestions, questionConfig)}
+                    onBack={() => setShowQuestionPreview(false)}
+                    isProcessing={isLoading}
+                  />
+                ) : (
+                  <QuizConfigurationSection
+                    document={documentAnalysis}
+                    onGenerateAndCreate={handleDocumentQuestionGeneration}
+                    isProcessing={isLoading}
+                    generateQuestionsFromDocument={generateQuestionsFromDocument}
+                  />
+                )}
               </div>
             )}
           </div>
@@ -589,6 +777,31 @@ export default function CreateRoomPage() {
               />
             </div>
             
+            {isLoadingLibraryQuiz ? (
+              <p className="text-sm text-[#6D4C41]">{t('Loading saved quiz...')}</p>
+            ) : libraryQuiz ? (
+              <div className="flex items-start justify-between gap-3 bg-white rounded-lg p-3 sm:p-4 border-2 border-[#10A3A2]">
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-[#05717B] flex items-center gap-1 mb-1">
+                    <FaBook />
+                    {t('From the quiz library')}
+                  </p>
+                  <p className="font-semibold text-[#4E342E] truncate">{libraryQuiz.title}</p>
+                  <p className="text-xs text-[#6D4C41]">
+                    {t('{{count}} questions', { count: libraryQuiz.questionCount })} · <span className="capitalize">{t(libraryQuiz.difficulty)}</span>
+                  </p>
+                </div>
+                <button
+                  onClick={handleLibraryQuizRemove}
+                  disabled={isLoading}
+                  aria-label={t('Remove')}
+                  title={t('Remove')}
+                  className="text-[#6D4C41] hover:text-[#4E342E] p-1 cursor-pointer disabled:opacity-50"
+                >
+                  <FaTimes />
+                </button>
+              </div>
+            ) : (
             <div>
               <label className="block text-sm font-medium text-[#4E342E] mb-2">{t('quizTopic')}</label>
               <input
@@ -601,8 +814,12 @@ export default function CreateRoomPage() {
               />
               {/* This error message was removed, so it's removed from the JSX */}
             </div>
+            )}
           </div>
 
+          {/* Topic settings do not apply to saved quizzes */}
+          {!libraryQuiz && (
+          <>
           {/* Difficulty Selection */}
           <div>
             <label className="block text-sm font-medium text-[#4E342E] mb-3 sm:mb-4">{t('difficulty')}</label>
@@ -666,6 +883,30 @@ export default function CreateRoomPage() {
             <p className="text-[#6D4C41] text-sm mt-1">{t('Choose between 1-30 questions')}</p>
           </div>
 
+          {/* Question Types */}
+          <QuestionTypeSelector
+            value={questionTypes}
+            onChange={setQuestionTypes}
+            disabled={isLoading}
+          />
+
+          <AnswerVerificationToggle
+            checked={verifyAnswers}
+            onChange={setVerifyAnswers}
+            disabled={isLoading}
+          />
+          </>
+          )}
+
+          {/* Scoring Strategy */}
+          <ScoringStrategySelector
+            value={scoringStrategy}
+            onChange={setScoringStrategy}
+            combo={combo}
+            onComboChange={setCombo}
+            disabled={isLoading}
+          />
+
           {/* Create Button */}
           <button 
             onClick={handleCreate} 
@@ -675,7 +916,7 @@ export default function CreateRoomPage() {
                 ? 'bg-[#6D4C41] cursor-not-allowed' 
                 : 'bg-[#10A3A2] hover:bg-[#05717B]'
             } text-white disabled:opacity-50 disabled:cursor-not-allowed`}
-            disabled={isLoading || false} // topicError state was removed, so this line is simplified
+            disabled={isLoading || isLoadingLibraryQuiz} // topicError state was removed, so this line is simplified
           >
             {isLoading 
               ? t('Creating Room...') 
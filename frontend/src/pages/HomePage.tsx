@@ -14,7 +14,8 @@ import {
   FaUsers,
   FaRocket,
   FaCheckCircle,
-  FaTimesCircle
+  FaTimesCircle,
+  FaBook
 } from 'react-icons/fa';
 import { IoSparklesSharp } from 'react-icons/io5';
 import { MdQuiz, MdAccessTime } from 'react-icons/md';
@@ -76,6 +77,16 @@ export default function HomePage() {
             </Link>
           </div>
 
+          <div className="text-center -mt-8 sm:-mt-12 mb-12 sm:mb-16">
+            <Link
+              to="/library"
+              className="inline-flex items-center space-x-2 text-[#05717B] hover:text-[#4E342E] transition-colors duration-300 font-medium py-2 px-4 rounded-lg hover:bg-[#F7E2C0]/50"
+            >
+              <FaBook />
+              <span>{t('Browse the quiz library')}</span>
+            </Link>
+          </div>
+
           {/* How to Play Section */}
           <div className="bg-[#F7E2C0] rounded-2xl shadow-xl p-6 sm:p-8 mb-12 sm:mb-16 mx-4 border border-[#4E342E]/20">
             <div className="text-center mb-6 sm:mb-8">
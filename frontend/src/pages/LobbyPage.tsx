@@ -2,7 +2,7 @@ import { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { db } from "../lib/firebase";
 import { onValue, ref, update } from "firebase/database";
-import type { Room, Player, DifficultyLevel } from "../../../shared/types";
+import type { Room, Player, DifficultyLevel, QuestionsProgress } from "../../../shared/types";
 import { startGame } from "../api/startGame";
 import { presenceManager } from "../api/presenceManager";
 import { kickPlayer } from "../api/kickPlayer";
@@ -36,6 +36,9 @@ import quizDojoLogo from '/logo-lockup.png';
 import { useTranslation } from 'react-i18next';
 import { trackQuizEvent, trackEngagement } from '../utils/analytics';
 import KickConfirmationModal from '../components/KickConfirmationModal';
+import { DEFAULT_SCORING_STRATEGY, getRoomCombo } from '../../../shared/scoring';
+import { SCORING_STRATEGY_DETAILS } from '../utils/scoringStrategies';
+import { getMinQuestionsToStart } from '../../../shared/questions';
 
 export default function LobbyPage() {
   const { id } = useParams<{ id: string }>();
@@ -46,6 +49,8 @@ export default function LobbyPage() {
   const [isKickConfirmationOpen, setIsKickConfirmationOpen] = useState(false);
   const [playerToKick, setPlayerToKick] = useState<Player | null>(null);
   const [showGameRules, setShowGameRules] = useState(false);
+  const [questionsProgress, setQuestionsProgress] = useState<QuestionsProgress | null>(null);
+  const [startError, setStartError] = useState('');
   const { t } = useTranslation();
 
   useEffect(() => {
@@ -115,6 +120,26 @@ export default function LobbyPage() {
     };
   }, [id, navigate]);
 
+  // Join the socket room so question generation progress reaches the lobby
+  const playerNickname = player?.nickname;
+  useEffect(() => {
+    if (!id || !player?.id || !playerNickname) return;
+    if (socketClient.isConnected()) {
+      socketClient.joinRoom(id, player.id, playerNickname);
+    }
+  }, [id, player?.id, playerNickname]);
+
+  useEffect(() => {
+    const handleQuestionsProgress = (data: QuestionsProgress) => {
+      if (data.roomId === id) {
+        setQuestionsProgress(data);
+      }
+    };
+
+    socketClient.on('questions-progress', handleQuestionsProgress);
+    return () => socketClient.off('questions-progress', handleQuestionsProgress);
+  }, [id]);
+
   // Cleanup on component unmount (but not on legitimate navigation)
   useEffect(() => {
     return () => {
@@ -192,8 +217,42 @@ export default function LobbyPage() {
 
   const isHost = room && player && player.id === room.hostId;
 
+  // Generated questions are appended to the room as they arrive; progress events can run ahead of the room listener
+  const generatedCount = Math.max(room.questions?.length ?? 0, questionsProgress?.generated ?? 0);
+  const generationPercent = room.questionCount > 0 ? Math.min(100, Math.round((generatedCount / room.questionCount) * 100)) : 0;
+  const canStartEarly = !!room.questionsGenerating && (room.questions?.length ?? 0) >= getMinQuestionsToStart(room.questionCount);
+
+  const generationProgressBar = (
+    <div className="max-w-md mx-auto mb-4 sm:mb-6 px-4">
+      <div className="flex items-center justify-between text-sm text-[#6D4C41] mb-2">
+        <span className="flex items-center space-x-2">
+          <FaSpinner className="text-[#10A3A2] animate-spin" />
+          <span>{t('Creating your quiz...')}</span>
+        </span>
+        <span className="font-medium text-[#10A3A2]">
+          {t('{{generated}} of {{target}} questions ready', { generated: generatedCount, target: room.questionCount })}
+        </span>
+      </div>
+      <div
+        className="h-3 bg-[#FDF0DC] rounded-full overflow-hidden border border-[#4E342E]/20"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={room.questionCount}
+        aria-valuenow={generatedCount}
+      >
+        <div
+          className="h-full bg-[#10A3A2] transition-all duration-500"
+          style={{ width: `${generationPercent}%` }}
+        />
+      </div>
+    </div>
+  );
+  const scoringDetails = SCORING_STRATEGY_DETAILS[room.scoringStrategy ?? DEFAULT_SCORING_STRATEGY];
+  const combo = getRoomCombo(room);
+
   const handleStartQuiz = async () => {
     if (!room || !isHost) return;
+    setStartError('');
 
     try {
       // Track quiz start event
@@ -204,6 +263,7 @@ export default function LobbyPage() {
       await startGame(room.id, room.hostId);
     } catch (error) {
       console.error("Failed to start quiz:", error);
+      setStartError(error instanceof Error ? error.message : 'Failed to start the quiz. Please try again.');
     }
   };
 
@@ -350,10 +410,11 @@ export default function LobbyPage() {
                       <h4 className="font-semibold text-[#4E342E]">{t('Scoring System')}</h4>
                     </div>
                     <div className="space-y-2 text-sm text-[#6D4C41]">
-                      <p>• {t('Faster answers earn more points')}</p>
-                      <p>• {t('Correct answers: 100-500 points based on speed')}</p>
-                      <p>• {t('Wrong answers: 0 points')}</p>
-                      <p>• {t('Difficulty multipliers: Easy (1x), Medium (1.5x), Hard (2x)')}</p>
+                      <p className="font-medium text-[#4E342E]">{t(scoringDetails.title)}</p>
+                      <p>{t(scoringDetails.description)}</p>
+                      {combo && (
+                        <p>• {t('Combo bonus: +{{step}} per correct answer in a row, up to ×{{max}}', { step: combo.step, max: combo.max })}</p>
+                      )}
                     </div>
                   </div>
 
@@ -493,22 +554,29 @@ export default function LobbyPage() {
                   {/* Show different content based on question generation status */}
                   {room.questionsGenerating ? (
                     <>
-                      <p className="text-sm sm:text-base text-[#6D4C41] mb-4 sm:mb-6 px-4">
-                        {t('Generating questions... Please wait.')}
-                      </p>
-                      <div className="flex items-center justify-center space-x-3 mb-4">
-                        <FaSpinner className="text-xl sm:text-2xl text-[#10A3A2] animate-spin" />
-                        <span className="text-[#10A3A2] font-medium">{t('Creating your quiz...')}</span>
-                      </div>
-                      <button 
-                        disabled
-                        className="bg-[#6D4C41]/30 text-[#6D4C41]/50 font-bold py-3 sm:py-4 px-6 sm:px-8 rounded-xl 
-                                 text-base sm:text-xl shadow-lg cursor-not-allowed
-                                 flex items-center space-x-2 sm:space-x-3 mx-auto min-h-[48px] sm:min-h-[56px]"
-                      >
-                        <FaSpinner className="text-lg sm:text-2xl animate-spin" />
-                        <span>{t('Generating Questions...')}</span>
-                      </button>
+                      {generationProgressBar}
+                      {canStartEarly ? (
+                        <button 
+                          onClick={handleStartQuiz}
+                          className="bg-[#10A3A2] hover:bg-[#05717B] 
+                                   text-white font-bold py-3 sm:py-4 px-6 sm:px-8 rounded-xl transition-all duration-300 cursor-pointer
+                                   text-base sm:text-xl shadow-lg hover:shadow-xl transform hover:scale-105
+                                   flex items-center space-x-2 sm:space-x-3 mx-auto min-h-[48px] sm:min-h-[56px]"
+                        >
+                          <FaRocket className="text-lg sm:text-2xl" />
+                          <span>{t('Start with {{count}} questions', { count: room.questions?.length ?? 0 })}</span>
+                        </button>
+                      ) : (
+                        <button 
+                          disabled
+                          className="bg-[#6D4C41]/30 text-[#6D4C41]/50 font-bold py-3 sm:py-4 px-6 sm:px-8 rounded-xl 
+                                   text-base sm:text-xl shadow-lg cursor-not-allowed
+                                   flex items-center space-x-2 sm:space-x-3 mx-auto min-h-[48px] sm:min-h-[56px]"
+                        >
+                          <FaSpinner className="text-lg sm:text-2xl animate-spin" />
+                          <span>{t('Generating Questions...')}</span>
+                        </button>
+                      )}
                     </>
                   ) : (
                     <>
@@ -528,8 +596,12 @@ export default function LobbyPage() {
                     </>
                   )}
                   
+                  {startError && <p className="text-sm text-red-700 mt-3">{t(startError)}</p>}
+
                   <p className="text-[#6D4C41] text-xs sm:text-sm mt-3">
-                    {room.questionsGenerating ? t('Questions are being generated...') : t('Only the host can start the quiz')}
+                    {room.questionsGenerating
+                      ? (canStartEarly ? t('You can start now, or wait for the rest of the questions') : t('Questions are being generated...'))
+                      : t('Only the host can start the quiz')}
                   </p>
                 </div>
               )}
@@ -552,6 +624,7 @@ export default function LobbyPage() {
                       : t('Waiting for the host to start the quiz...')
                     }
                   </p>
+                  {room.questionsGenerating && generationProgressBar}
                   <div className="flex items-center justify-center space-x-2 text-[#10A3A2]">
                     <div className="w-2 h-2 bg-[#10A3A2] rounded-full animate-bounce"></div>
                     <div className="w-2 h-2 bg-[#10A3A2] rounded-full animate-bounce" style={{animationDelay: '0.1s'}}></div>
@@ -0,0 +1,242 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, Link } from "react-router-dom";
+import axios from "axios";
+import {
+  FaBook,
+  FaHome,
+  FaPlay,
+  FaSearch,
+  FaSpinner,
+  FaTags,
+  FaTimes,
+  FaTrash
+} from 'react-icons/fa';
+import type { DifficultyLevel, LibraryQuizSummary } from "../../../shared/types";
+import { deleteQuiz, listQuizzes } from "../services/apiClient";
+import { getOwnerId } from "../utils/owner";
+import quizDojoLogo from '/logo-lockup.png';
+import { useTranslation } from 'react-i18next';
+
+const LANGUAGE_OPTIONS = ['en', 'ru', 'fr', 'kz', 'es'];
+
+export default function QuizLibraryPage() {
+  const [quizzes, setQuizzes] = useState<LibraryQuizSummary[]>([]);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [tag, setTag] = useState("");
+  const [language, setLanguage] = useState("");
+  const [difficulty, setDifficulty] = useState<DifficultyLevel | "">("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  const loadQuizzes = useCallback(async () => {
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await listQuizzes({
+        ...(search ? { search } : {}),
+        ...(tag ? { tag } : {}),
+        ...(language ? { language } : {}),
+        ...(difficulty ? { difficulty } : {})
+      });
+      setQuizzes(response.quizzes);
+    } catch (err) {
+      console.error('❌ Error loading quiz library:', err);
+      const message = axios.isAxiosError(err) ? err.response?.data?.error : undefined;
+      setError(message || t('Failed to load the quiz library'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, tag, language, difficulty, t]);
+
+  useEffect(() => {
+    loadQuizzes();
+  }, [loadQuizzes]);
+
+  const handleDelete = async (quiz: LibraryQuizSummary) => {
+    if (!window.confirm(t('Delete "{{title}}" from the library?', { title: quiz.title }))) return;
+    setDeletingId(quiz.id);
+
+    try {
+      await deleteQuiz(quiz.id, getOwnerId());
+      setQuizzes((current) => current.filter((q) => q.id !== quiz.id));
+    } catch (err) {
+      console.error('❌ Error deleting quiz:', err);
+      const message = axios.isAxiosError(err) ? err.response?.data?.error : undefined;
+      setError(message || t('Failed to delete the quiz'));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleUseQuiz = (quiz: LibraryQuizSummary) => {
+    navigate('/create-room', { state: { libraryQuizId: quiz.id } });
+  };
+
+  return (
+    <div className="min-h-screen bg-[#FDF0DC]">
+      <div className="px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+        <div className="max-w-3xl mx-auto">
+          {/* Header Section */}
+          <div className="text-center mb-6 sm:mb-8">
+            <div className="flex items-center justify-center mb-6">
+              <img
+                src={quizDojoLogo}
+                alt="Quiz Dojo logo"
+                className="h-12 sm:h-16 lg:h-20 w-auto"
+              />
+              <span className="dojo-title ml-3 text-3xl sm:text-4xl font-bold text-[#4E342E]" style={{ fontFamily: 'Baloo 2, cursive' }}>Quiz Dojo</span>
+            </div>
+            <div className="flex items-center justify-center space-x-2 mb-2">
+              <FaBook className="text-xl sm:text-2xl text-[#10A3A2]" />
+              <h2 className="text-xl sm:text-2xl font-bold text-[#4E342E]">{t('Quiz Library')}</h2>
+            </div>
+            <p className="text-sm sm:text-base text-[#6D4C41] px-4">
+              {t('Host a saved quiz again without generating new questions')}
+            </p>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-[#F7E2C0] rounded-2xl shadow-xl p-4 sm:p-6 mb-6 border border-[#4E342E]/20 space-y-3">
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                setSearch(searchInput.trim());
+              }}
+            >
+              <input
+                type="text"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder={t('Search by title, description or tag')}
+                className="flex-1 min-w-0 px-3 py-2 border-2 border-[#4E342E]/30 rounded-lg bg-[#FDF0DC] text-[#4E342E] focus:outline-none focus:border-[#10A3A2]"
+              />
+              <button
+                type="submit"
+                className="flex items-center gap-2 bg-[#10A3A2] text-white px-4 py-2 rounded-lg font-medium hover:bg-[#05717B] transition-colors cursor-pointer"
+              >
+                <FaSearch />
+                <span className="hidden sm:inline">{t('Search')}</span>
+              </button>
+            </form>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={difficulty}
+                onChange={(e) => setDifficulty(e.target.value as DifficultyLevel | "")}
+                className="px-3 py-2 border-2 border-[#4E342E]/30 rounded-lg bg-[#FDF0DC] text-[#4E342E] text-sm"
+              >
+                <option value="">{t('Any difficulty')}</option>
+                <option value="easy">{t('easy')}</option>
+                <option value="medium">{t('medium')}</option>
+                <option value="hard">{t('hard')}</option>
+              </select>
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value)}
+                className="px-3 py-2 border-2 border-[#4E342E]/30 rounded-lg bg-[#FDF0DC] text-[#4E342E] text-sm"
+              >
+                <option value="">{t('Any language')}</option>
+                {LANGUAGE_OPTIONS.map((code) => (
+                  <option key={code} value={code}>{code.toUpperCase()}</option>
+                ))}
+              </select>
+              {tag && (
+                <button
+                  onClick={() => setTag("")}
+                  className="flex items-center gap-1 bg-[#10A3A2]/10 border border-[#10A3A2] text-[#05717B] px-3 py-1 rounded-full text-sm cursor-pointer"
+                >
+                  <FaTags />
+                  {tag}
+                  <FaTimes />
+                </button>
+              )}
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-[#F4B46D]/20 border border-[#F4B46D] text-[#4E342E] px-4 py-3 rounded-lg mb-6">
+              <p className="font-medium text-sm sm:text-base">{error}</p>
+            </div>
+          )}
+
+          {/* Quiz list */}
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 text-[#6D4C41] py-8">
+              <FaSpinner className="animate-spin" />
+              {t('Loading quizzes...')}
+            </div>
+          ) : quizzes.length === 0 ? (
+            <p className="text-center text-[#6D4C41] py-8">
+              {t('No saved quizzes yet. Save one from the results page after a game.')}
+            </p>
+          ) : (
+            <ul className="space-y-3 mb-6">
+              {quizzes.map((quiz) => (
+                <li key={quiz.id} className="bg-white rounded-xl shadow-lg p-4 border border-[#4E342E]/10">
+                  <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                    <div className="min-w-0">
+                      <h3 className="font-bold text-[#4E342E] truncate">{quiz.title}</h3>
+                      {quiz.description && <p className="text-sm text-[#6D4C41]">{quiz.description}</p>}
+                      <p className="text-xs text-[#6D4C41] mt-1">
+                        {t('{{count}} questions', { count: quiz.questionCount })} · <span className="capitalize">{t(quiz.difficulty)}</span> · {quiz.language.toUpperCase()}
+                      </p>
+                      {quiz.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {quiz.tags.map((quizTag) => (
+                            <button
+                              key={quizTag}
+                              onClick={() => setTag(quizTag)}
+                              className="bg-[#F7E2C0] text-[#4E342E] px-2 py-0.5 rounded-full text-xs hover:bg-[#F4B46D] transition-colors cursor-pointer"
+                            >
+                              #{quizTag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => handleUseQuiz(quiz)}
+                        className="flex items-center gap-2 bg-[#10A3A2] text-white px-4 py-2 rounded-lg font-medium hover:bg-[#05717B] transition-colors cursor-pointer"
+                      >
+                        <FaPlay />
+                        {t('Use this quiz')}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(quiz)}
+                        disabled={deletingId === quiz.id}
+                        aria-label={t('Delete')}
+                        title={t('Delete')}
+                        className="flex items-center justify-center border-2 border-[#4E342E]/30 text-[#4E342E] px-3 py-2 rounded-lg hover:bg-[#F7E2C0] transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {deletingId === quiz.id ? <FaSpinner className="animate-spin" /> : <FaTrash />}
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Back to Home */}
+          <div className="text-center">
+            <Link
+              to="/"
+              className="inline-flex items-center space-x-2 text-[#6D4C41] hover:text-[#4E342E]
+                       transition-colors duration-300 font-medium text-sm sm:text-base py-2 px-4 rounded-lg hover:bg-[#F7E2C0]/50"
+            >
+              <FaHome className="text-sm sm:text-base" />
+              <span>{t('backToHome')}</span>
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
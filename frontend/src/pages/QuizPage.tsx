@@ -1,10 +1,14 @@
 import { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { db } from "../lib/firebase";
-import { onValue, ref, update } from "firebase/database";
-import type { Room, Question, Answer, GameState, DifficultyLevel } from "../../../shared/types";
+import { onValue, ref } from "firebase/database";
+import type { Room, Question, DifficultyLevel, GameIntent, AnswerValue } from "../../../shared/types";
 import { presenceManager } from "../api/presenceManager";
-import { calculateScore, calculateTimeUsed } from "../utils/scoreCalculation";
+import { sendGameIntent } from "../api/gameIntent";
+import { submitAnswer as submitAnswerToServer } from "../api/submitAnswer";
+import socketClient from "../services/socketClient";
+import { calculateScore, calculateTimeUsed, getRoomCombo, getStreakMultiplier, gradeAnswer, WAGER_OPTIONS } from "../../../shared/scoring";
+import { formatCorrectAnswer } from "../../../shared/questions";
 import { 
   FaCheckCircle, 
   FaClock, 
@@ -13,12 +17,14 @@ import {
   FaArrowRight,
   FaUsers,
   FaTrophy,
-  FaArrowLeft,
   FaFlag,
   FaSpinner,
   FaStop,
   FaTimesCircle,
-  FaLock
+  FaLock,
+  FaPause,
+  FaPlay,
+  FaCoins
 } from 'react-icons/fa';
 import { 
   MdQuiz, 
@@ -30,18 +36,27 @@ import {
 } from 'react-icons/io5';
 import { useTranslation } from 'react-i18next';
 import { trackQuizEvent } from '../utils/analytics';
+import ScoreBreakdownDetails from '../components/ScoreBreakdownDetails';
+import StreakBadge from '../components/StreakBadge';
+import QuestionAnswerInput from '../components/QuestionAnswerInput';
+import QuestionMediaView from '../components/QuestionMediaView';
+import QuestionExplanation from '../components/QuestionExplanation';
 
 export default function QuizPage() {
   const { t } = useTranslation();
   const { id } = useParams<{ id: string }>();
   const [room, setRoom] = useState<Room | null>(null);
   const [timeLeft, setTimeLeft] = useState<number>(0);
-  const [selectedOption, setSelectedOption] = useState<string | null>(null);
+  const [advanceIn, setAdvanceIn] = useState<number | null>(null);
+  const [intentPending, setIntentPending] = useState<boolean>(false);
+  const [response, setResponse] = useState<AnswerValue | null>(null);
   const [hasAnswered, setHasAnswered] = useState<boolean>(false);
+  const [wager, setWager] = useState<number>(WAGER_OPTIONS[1]);
   const navigate = useNavigate();
 
   const playerId = localStorage.getItem("userId");
   const isHost = room?.players[playerId || ""]?.isHost || false;
+  const nickname = room?.players[playerId || ""]?.nickname;
 
   // Fetch room and handle game completion
   useEffect(() => {
@@ -53,8 +68,11 @@ export default function QuizPage() {
       if (data) {
         setRoom(data);
         
-        // Check if game is finished
+        // Check if game is finished (the server ends the game after the last scoreboard)
         if (data.status === "finished") {
+          if (playerId && data.players?.[playerId]?.isHost) {
+            trackQuizEvent.quizCompleted(data.roomCode, Object.keys(data.players).length, data.questions.length);
+          }
           navigate(`/results/${id}`); // Go to results page when game ends
         }
         
@@ -80,159 +98,72 @@ export default function QuizPage() {
     };
   }, []);
 
-  // Synchronized timer based on Firebase gameState
+  // Join the socket room so game loop broadcasts (and socket intents) reach this client
   useEffect(() => {
-    if (!room || !room.gameState) return;
-
-    const interval = setInterval(() => {
-      const now = Date.now(); // Get current timestamp in milliseconds
-      const gameState = room.gameState!; // Get game state from room data
-      
-      // Only run timer logic if:
-      // 1. We are in the "answering" phase where players can submit answers
-      // 2. We have a questionEndTime set (when the question should end)
-      if (gameState.phase === "answering" && gameState.questionEndTime) {
-        // Calculate remaining time in seconds by:
-        // 1. Taking difference between end time and current time
-        // 2. Converting milliseconds to seconds by dividing by 1000
-        // 3. Using Math.max to ensure we don't go below 0
-        // 4. Using Math.floor to round down to nearest second
-        const remaining = Math.max(0, Math.floor((gameState.questionEndTime - now) / 1000));
-        
-        // Update the timeLeft state with remaining seconds
-        setTimeLeft(remaining);
-        
-        // Check if all players have answered (auto-advance logic)
-        if (isHost && !gameState.allPlayersAnswered) {
-          const allAnswered = Object.values(room.players).every(player => 
-            player.answers && player.answers[room.currentQuestionIndex]
-          );
-          
-          if (allAnswered) {
-            // Auto-advance when all players have answered
-            endCurrentQuestion();
-          }
-        }
-        
-        // If time has run out (remaining = 0) and this client is the host
-        // Then trigger the end of the current question
-        if (remaining === 0 && isHost) {
-          endCurrentQuestion();
+    if (!id || !playerId || !nickname) return;
+    if (socketClient.isConnected()) {
+      socketClient.joinRoom(id, playerId, nickname);
+    }
+  }, [id, playerId, nickname]);
+
+  // Countdown display based on the deadlines the server stores in gameState.
+  // Phase changes themselves are driven by the server-side game loop.
+  const liveGameState = room?.gameState;
+  useEffect(() => {
+    if (!liveGameState) return;
+
+    const updateCountdowns = () => {
+      const now = Date.now();
+      const gameState = liveGameState;
+
+      if (gameState.pausedAt) {
+        // Deadlines are frozen while paused - show the time that was left
+        const remaining = Math.ceil((gameState.remainingMs ?? 0) / 1000);
+        if (gameState.phase === "answering") {
+          setTimeLeft(remaining);
+          setAdvanceIn(null);
+        } else {
+          setAdvanceIn(remaining);
         }
+        return;
       }
-    }, 100); // Run every 100ms for a smooth countdown display
+
+      if (gameState.phase === "answering" && gameState.questionEndTime) {
+        setTimeLeft(Math.max(0, Math.floor((gameState.questionEndTime - now) / 1000)));
+        setAdvanceIn(null);
+      } else if (gameState.autoAdvanceAt) {
+        setAdvanceIn(Math.max(0, Math.ceil((gameState.autoAdvanceAt - now) / 1000)));
+      }
+    };
+
+    updateCountdowns();
+    const interval = setInterval(updateCountdowns, 100); // Run every 100ms for a smooth countdown display
 
     return () => clearInterval(interval);
-  }, [room?.gameState, isHost, room?.players, room?.currentQuestionIndex]);
+  }, [liveGameState]);
 
   // Reset answer state when question changes
   useEffect(() => {
     setHasAnswered(false);
-    setSelectedOption(null);
+    setResponse(null);
   }, [room?.currentQuestionIndex]);
 
-  // Initialize game state when host enters quiz page
-  useEffect(() => {
-    if (isHost && room && !room.gameState) {
-      console.log('🎮 Host initializing game state...');
-      initializeQuestion();
-    }
-  }, [isHost, room, room?.gameState]);
-
-  // Initialize game state when starting quiz (host only)
-  const initializeQuestion = async () => {
-    if (!room || !isHost) return;
-    
-    const now = Date.now();
-    const currentQuestion = room.questions[room.currentQuestionIndex];
-    
-    const gameState: GameState = {
-      phase: "answering",
-      questionStartTime: now,
-      questionEndTime: now + (currentQuestion.timeLimit * 1000),
-      allPlayersAnswered: false,
-    };
-
-    await update(ref(db, `rooms/${id}/gameState`), gameState);
-  };
-
-  // End current question and show results (host only)
-  const endCurrentQuestion = async () => {
-    if (!room || !isHost) return;
-
-    const gameState: GameState = {
-      ...room.gameState!,
-      phase: "showing-answer",
-      questionEndTime: Date.now(),
-      awaitingHostAction: "next-question"
-    };
-
-    await update(ref(db, `rooms/${id}/gameState`), gameState);
-  };
-
-  // Show mid-quiz scoreboard (host only)
-  const showScoreboard = async () => {
-    if (!room || !isHost) return;
-
-    const gameState: GameState = {
-      ...room.gameState!,
-      phase: "showing-scoreboard",
-      awaitingHostAction: "next-question"
-    };
-
-    await update(ref(db, `rooms/${id}/gameState`), gameState);
-  };
-
-  // Hide scoreboard and return to answer view (host only)
-  const hideScoreboard = async () => {
-    if (!room || !isHost) return;
-
-    const gameState: GameState = {
-      ...room.gameState!,
-      phase: "showing-answer",
-      awaitingHostAction: "next-question"
-    };
-
-    await update(ref(db, `rooms/${id}/gameState`), gameState);
-  };
-
-  // Advance to next question (host only)
-  const nextQuestion = async () => {
-    if (!room || !isHost) return;
-
-    const nextIndex = room.currentQuestionIndex + 1;
-    
-    if (nextIndex >= room.questions.length) {
-      // End game - track quiz completion
-      const playerCount = Object.keys(room.players).length;
-      const questionsAnswered = room.questions.length;
-      trackQuizEvent.quizCompleted(room.roomCode, playerCount, questionsAnswered);
-      
-      await update(ref(db, `rooms/${room.id}`), { 
-        status: "finished",
-        finishedAt: Date.now() 
-      });
-    } else {
-      // Start next question
-      const now = Date.now();
-      const nextQ = room.questions[nextIndex];
-      
-      const gameState: GameState = {
-        phase: "answering",
-        questionStartTime: now,
-        questionEndTime: now + (nextQ.timeLimit * 1000),
-        allPlayersAnswered: false,
-      };
-
-      await update(ref(db, `rooms/${room.id}`), {
-        currentQuestionIndex: nextIndex,
-        gameState
-      });
+  // Send a host intent to the server-side game loop (host only)
+  const sendIntent = async (intent: GameIntent) => {
+    if (!room || !isHost || !playerId || intentPending) return;
+
+    setIntentPending(true);
+    try {
+      await sendGameIntent(room.id, playerId, intent);
+    } catch (error) {
+      console.error(`❌ Failed to send game intent "${intent}":`, error);
+    } finally {
+      setIntentPending(false);
     }
   };
 
-  // Submit answer
-  const submitAnswer = (option: string, isCorrect: boolean) => {
+  // Submit answer - the server validates the submission and records the score
+  const submitAnswer = async (answer: AnswerValue) => {
     // Don't submit answer if:
     // - Room data isn't loaded yet
     // - Player ID isn't set
@@ -241,32 +172,28 @@ export default function QuizPage() {
     // - No game state exists
     if (!room || !playerId || hasAnswered || !question || !room.gameState) return;
 
-    // Calculate precise time used based on game state
-    const timeUsedMs = calculateTimeUsed(room.gameState.questionStartTime);
-    
-    // Calculate score using centralized utility
-    const scoreEarned = calculateScore(isCorrect, timeUsedMs, question.timeLimit);
-
-    // Track question answered event
-    trackQuizEvent.questionAnswered(isCorrect, timeUsedMs);
-
-    const answer: Answer = {
-      option,
-      isCorrect,
-      timeToAnswer: timeUsedMs,
-      scoreEarned, // Store the calculated score
-    };
-
-    const currentPlayer = room.players[playerId];
-    const newScore = currentPlayer.score + scoreEarned;
-
-    const updates: Record<string, Answer | number> = {};
-    updates[`rooms/${room.id}/players/${playerId}/answers/${room.currentQuestionIndex}`] = answer;
-    updates[`rooms/${room.id}/players/${playerId}/score`] = newScore;
-
-    update(ref(db), updates);
-    setSelectedOption(option);
+    // Lock the selection immediately; the server is the judge of timing and correctness
+    setResponse(answer);
     setHasAnswered(true);
+
+    try {
+      const result = await submitAnswerToServer(
+        room.id,
+        playerId,
+        room.currentQuestionIndex,
+        answer,
+        room.scoringStrategy === "wager" ? wager : undefined
+      );
+      if (result) {
+        // Track question answered event
+        trackQuizEvent.questionAnswered(result.isCorrect, calculateTimeUsed(room.gameState.questionStartTime));
+      }
+    } catch (error) {
+      console.error('❌ Failed to submit answer:', error);
+      // Let the player try again if the server could not be reached
+      setResponse(null);
+      setHasAnswered(false);
+    }
   };
 
   // Check if all players have answered the current question
@@ -294,11 +221,14 @@ export default function QuizPage() {
 
   if (!question) return <div>{t('No question found.')}</div>;
 
-  // Initialize game state if host and no game state exists
-  if (isHost && !gameState) {
+  // Wait for the server to publish the first game state
+  if (!gameState) {
     return <div>{t('Initializing game...')}</div>;
   }
 
+  const isPaused = !!gameState.pausedAt;
+  const combo = getRoomCombo(room);
+
   // Difficulty display helper
   const getDifficultyDisplay = (difficulty: DifficultyLevel) => {
     const difficultyMap = {
@@ -329,6 +259,44 @@ export default function QuizPage() {
 
   const difficultyInfo = getDifficultyDisplay(room.difficulty);
 
+  // Host pause/resume toggle shared by every phase
+  const renderPauseToggle = () => (
+    <button
+      onClick={() => sendIntent(isPaused ? "resume" : "pause")}
+      disabled={intentPending}
+      className="bg-gradient-to-r from-gray-600 to-gray-700 text-white px-6 py-3 rounded-xl cursor-pointer
+               hover:from-gray-700 hover:to-gray-800 transition-all duration-300 
+               flex items-center justify-center space-x-2 shadow-lg hover:shadow-xl
+               transform hover:scale-105 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isPaused ? <FaPlay className="text-lg" /> : <FaPause className="text-lg" />}
+      <span>{isPaused ? t('Resume') : t('Pause')}</span>
+    </button>
+  );
+
+  // Status line telling everyone when the game loop moves on
+  const renderAutoAdvanceNotice = () => (
+    <div className="text-center mb-4">
+      <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
+        <div className="flex items-center justify-center space-x-2">
+          {isPaused ? (
+            <>
+              <FaPause className="text-amber-600" />
+              <p className="text-amber-700 font-medium">{t('Game paused by host')}</p>
+            </>
+          ) : (
+            <>
+              <FaSpinner className="text-amber-600 animate-spin" />
+              <p className="text-amber-700 font-medium">
+                {t('Continuing in')} {advanceIn ?? 0}s
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-amber-50 via-orange-50 to-yellow-50">
       <div className="px-4 sm:px-6 lg:px-8 py-4 sm:py-6">
@@ -374,7 +342,9 @@ export default function QuizPage() {
                       {timeLeft}s
                     </p>
                   </div>
-                  <p className="text-xs sm:text-sm text-gray-600 font-medium">{t('Time Remaining')}</p>
+                  <p className="text-xs sm:text-sm text-gray-600 font-medium">
+                    {isPaused ? t('Game paused by host') : t('Time Remaining')}
+                  </p>
                   
                   {/* Player answer status */}
                   <div className="mt-2 text-xs text-gray-600">
@@ -419,73 +389,55 @@ export default function QuizPage() {
             {/* Question Card */}
             <div className="bg-gradient-to-r from-amber-50 to-orange-50 border-2 border-amber-200 rounded-2xl p-4 sm:p-6 lg:p-8 mb-6 sm:mb-8">
               <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-800 mb-4 sm:mb-6 leading-relaxed">{question.text}</h2>
-              
-              <div className="grid gap-3 sm:gap-4">
-                {question.options.map((opt) => {
-                  let buttonClass = "w-full text-left p-3 sm:p-4 border-2 rounded-xl transition-all duration-300 font-medium transform hover:scale-[1.02] text-sm sm:text-base ";
-                  
-                  if (currentPhase === "showing-answer") {
-                    // Show results: highlight correct answer and user's selection
-                    if (opt === question.correctOption) {
-                      buttonClass += "bg-teal-100 border-teal-500 text-teal-800 shadow-lg"; // Correct answer in teal
-                    } else if (opt === selectedOption) {
-                      buttonClass += "bg-red-100 border-red-500 text-red-800 shadow-lg"; // Wrong selection in red
-                    } else {
-                      buttonClass += "bg-gray-100 border-gray-300 text-gray-600"; // Other options grayed out
-                    }
-                  } else {
-                    // Answering phase: handle different states
-                    if (hasAnswered) {
-                      // After submission: lock selected answer, disable others
-                      if (selectedOption === opt) {
-                        buttonClass += "bg-amber-100 border-amber-500 text-amber-800 shadow-lg relative"; // Selected and locked
-                      } else {
-                        buttonClass += "bg-gray-100 border-gray-300 text-gray-400 opacity-50 cursor-not-allowed"; // Disabled options
-                      }
-                    } else {
-                      // Before submission: normal interactive state
-                    if (selectedOption === opt) {
-                      buttonClass += "bg-amber-100 border-amber-500 text-amber-800 shadow-lg";
-                    } else {
-                      buttonClass += "bg-white border-gray-300 text-gray-800 hover:bg-amber-50 hover:border-amber-400 shadow-sm hover:shadow-md";
-                      }
-                    }
-                  }
 
-                  return (
+              {question.media && (
+                <QuestionMediaView key={qIndex} media={question.media} className="mb-4 sm:mb-6" />
+              )}
+
+              {/* Wager picker - confidence wagering rooms only */}
+              {room.scoringStrategy === "wager" && currentPhase === "answering" && (
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  <FaCoins className="text-amber-600" />
+                  <span className="text-sm font-medium text-gray-700">{t('Your wager')}:</span>
+                  {WAGER_OPTIONS.map((amount) => (
                     <button
-                      key={opt}
-                      className={buttonClass}
-                      disabled={hasAnswered || currentPhase !== "answering"} // Disable after answer or during results
-                      onClick={() => {
-                        if (!hasAnswered && currentPhase === "answering") {
-                          const isCorrect = opt === question.correctOption;
-                          submitAnswer(opt, isCorrect);
-                        }
-                      }}
+                      key={amount}
+                      onClick={() => setWager(amount)}
+                      disabled={hasAnswered || isPaused}
+                      className={`px-3 py-1 rounded-full border-2 text-sm font-semibold transition-colors cursor-pointer disabled:cursor-not-allowed ${
+                        wager === amount
+                          ? 'bg-amber-500 border-amber-500 text-white'
+                          : 'bg-white border-amber-300 text-amber-700 hover:bg-amber-50 disabled:opacity-50'
+                      }`}
                     >
-                      <div className="flex items-center justify-between">
-                        <span>{opt}</span>
-                        {/* Show lock icon for selected answer after submission */}
-                        {hasAnswered && selectedOption === opt && currentPhase === "answering" && (
-                          <FaLock className="text-amber-600 text-lg flex-shrink-0 ml-2" />
-                        )}
-                      </div>
+                      {amount}
                     </button>
-                  );
-                })}
-              </div>
+                  ))}
+                </div>
+              )}
+              
+              <QuestionAnswerInput
+                key={qIndex}
+                question={question}
+                revealed={currentPhase === "showing-answer"}
+                response={response}
+                hasAnswered={hasAnswered}
+                disabled={isPaused || currentPhase !== "answering"} // Disable while paused or during results
+                onSubmit={submitAnswer}
+              />
             </div>
 
             {/* Host End Question Button - Only show during answering phase */}
             {currentPhase === "answering" && isHost && (
-              <div className="flex justify-center mb-6">
+              <div className="flex flex-col sm:flex-row gap-4 justify-center mb-6">
+                {renderPauseToggle()}
                 <button 
-                  onClick={endCurrentQuestion}
+                  onClick={() => sendIntent("advance")}
+                  disabled={intentPending || isPaused}
                   className="bg-gradient-to-r from-red-600 to-orange-600 text-white px-6 py-3 rounded-xl cursor-pointer
                            hover:from-red-700 hover:to-orange-700 transition-all duration-300 
                            flex items-center justify-center space-x-2 shadow-lg hover:shadow-xl
-                           transform hover:scale-105 font-semibold"
+                           transform hover:scale-105 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <FaStop className="text-lg" />
                   <span>{t('End Question')}</span>
@@ -502,100 +454,97 @@ export default function QuizPage() {
                     <h3 className="text-2xl font-bold text-gray-800">{t('Correct Answer')}</h3>
                   </div>
                   <div className="bg-teal-100 border-2 border-teal-500 rounded-xl p-4 mb-6">
-                    <p className="text-lg font-bold text-teal-800">{question.correctOption}</p>
+                    <p className="text-lg font-bold text-teal-800">
+                      {question.type === "true-false" ? t(formatCorrectAnswer(question)) : formatCorrectAnswer(question)}
+                    </p>
+                    {question.type === "text" && question.acceptedAnswers.length > 1 && (
+                      <p className="text-sm text-teal-700 mt-1">
+                        {t('Also accepted')}: {question.acceptedAnswers.slice(1).join(", ")}
+                      </p>
+                    )}
                   </div>
+                  <QuestionExplanation question={question} className="mb-6" />
                 </div>
                 
                 {/* Show player's result */}
-                {selectedOption && (
-                  <div className="mb-6">
-                    <div className={`p-4 rounded-xl border-2 ${
-                      selectedOption === question.correctOption 
-                        ? "bg-teal-50 border-teal-300" 
-                        : "bg-red-50 border-red-300"
-                    }`}>
-                      <div className="flex items-center justify-center space-x-2 mb-2">
-                        {selectedOption === question.correctOption ? (
-                          <FaCheckCircle className="text-teal-600 text-xl" />
-                        ) : (
-                          <FaTimesCircle className="text-red-600 text-xl" />
+                {response !== null && (() => {
+                  // Prefer the server's grading; grade locally for answers stored before partial credit
+                  const playerAnswer = room.players[playerId || ""]?.answers?.[room.currentQuestionIndex];
+                  const { isCorrect, credit } = playerAnswer?.credit !== undefined
+                    ? { isCorrect: playerAnswer.isCorrect, credit: playerAnswer.credit }
+                    : gradeAnswer(question, response);
+                  const isPartial = !isCorrect && credit > 0;
+
+                  // Use stored score if available, fallback to calculation for backward compatibility
+                  let pointsEarned = playerAnswer?.scoreEarned;
+                  if (pointsEarned === undefined && isCorrect) {
+                    const timeUsedMs = room.gameState?.questionStartTime 
+                      ? calculateTimeUsed(room.gameState.questionStartTime)
+                      : (question.timeLimit - timeLeft) * 1000;
+                    pointsEarned = calculateScore(true, timeUsedMs, question.timeLimit);
+                  }
+                  const showPoints = pointsEarned !== undefined && (pointsEarned !== 0 || credit > 0);
+
+                  return (
+                    <div className="mb-6">
+                      <div className={`p-4 rounded-xl border-2 ${
+                        isCorrect 
+                          ? "bg-teal-50 border-teal-300" 
+                          : isPartial ? "bg-amber-50 border-amber-300" : "bg-red-50 border-red-300"
+                      }`}>
+                        <div className="flex items-center justify-center space-x-2 mb-2">
+                          {isCorrect || isPartial ? (
+                            <FaCheckCircle className={`${isCorrect ? "text-teal-600" : "text-amber-600"} text-xl`} />
+                          ) : (
+                            <FaTimesCircle className="text-red-600 text-xl" />
+                          )}
+                          <p className={`font-bold text-lg ${
+                            isCorrect ? "text-teal-700" : isPartial ? "text-amber-700" : "text-red-700"
+                          }`}>
+                            {t('Your answer is')} {isCorrect ? t('Correct!') : isPartial ? t('Partially correct') : t('Incorrect')}
+                          </p>
+                        </div>
+                        {isPartial && (
+                          <p className="text-center text-sm text-amber-700 mb-2">
+                            {t('{{percent}}% credit', { percent: Math.round(credit * 100) })}
+                          </p>
                         )}
-                        <p className={`font-bold text-lg ${
-                          selectedOption === question.correctOption ? "text-teal-700" : "text-red-700"
-                        }`}>
-                          {t('Your answer is')} {selectedOption === question.correctOption ? t('Correct!') : t('Incorrect')}
-                        </p>
-                      </div>
-                      {selectedOption === question.correctOption && (
-                        <div className="text-center">
-                          <div className="flex items-center justify-center space-x-2">
-                            <FaTrophy className="text-amber-600" />
-                            <p className="text-amber-700 font-semibold">
-                              {t('Points earned')}: {(() => {
-                                // Use stored score if available, fallback to calculation for backward compatibility
-                                const playerAnswer = room.players[playerId || ""]?.answers?.[room.currentQuestionIndex];
-                                if (playerAnswer?.scoreEarned !== undefined) {
-                                  return playerAnswer.scoreEarned;
-                                }
-                                
-                                // Fallback calculation for backward compatibility
-                                const timeUsedMs = room.gameState?.questionStartTime 
-                                  ? calculateTimeUsed(room.gameState.questionStartTime)
-                                  : (question.timeLimit - timeLeft) * 1000;
-                                return calculateScore(true, timeUsedMs, question.timeLimit);
-                              })()}
-                            </p>
+                        {showPoints && pointsEarned !== undefined && (
+                          <div className="text-center">
+                            <div className="flex items-center justify-center space-x-2">
+                              <FaTrophy className="text-amber-600" />
+                              <p className={`font-semibold ${pointsEarned < 0 ? "text-red-700" : "text-amber-700"}`}>
+                                {t('Points earned')}: {pointsEarned}
+                              </p>
+                            </div>
+                            {playerAnswer?.scoreBreakdown && (
+                              <ScoreBreakdownDetails breakdown={playerAnswer.scoreBreakdown} className="mt-3" />
+                            )}
                           </div>
-                        </div>
-                      )}
+                        )}
+                      </div>
                     </div>
-                  </div>
-                )}
+                  );
+                })()}
+                
+                {/* The scoreboard follows automatically */}
+                {renderAutoAdvanceNotice()}
                 
                 {/* Host Controls */}
                 {isHost && (
                   <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                    {renderPauseToggle()}
                     <button 
-                      onClick={showScoreboard}
+                      onClick={() => sendIntent("advance")}
+                      disabled={intentPending || isPaused}
                       className="bg-gradient-to-r from-amber-600 to-orange-600 text-white px-6 py-3 rounded-xl cursor-pointer
                                hover:from-amber-700 hover:to-orange-700 transition-all duration-300 
                                flex items-center justify-center space-x-2 shadow-lg hover:shadow-xl
-                               transform hover:scale-105 font-semibold"
+                               transform hover:scale-105 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       <FaChartLine className="text-lg" />
                       <span>{t('Show Scoreboard')}</span>
                     </button>
-                    <button 
-                      onClick={nextQuestion}
-                      className="bg-[#10A3A2] hover:bg-[#05717B] text-white px-6 py-3 rounded-xl cursor-pointer
-                               transition-all duration-300 
-                               flex items-center justify-center space-x-2 shadow-lg hover:shadow-xl
-                               transform hover:scale-105 font-semibold"
-                    >
-                      {qIndex + 1 >= room.questions.length ? (
-                        <>
-                          <FaFlag className="text-lg" />
-                          <span>{t('End Quiz')}</span>
-                        </>
-                      ) : (
-                        <>
-                          <FaArrowRight className="text-lg" />
-                          <span>{t('Next Question')}</span>
-                        </>
-                      )}
-                    </button>
-                  </div>
-                )}
-                
-                {/* Non-host waiting message */}
-                {!isHost && (
-                  <div className="text-center">
-                    <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
-                      <div className="flex items-center justify-center space-x-2">
-                        <FaSpinner className="text-amber-600 animate-spin" />
-                        <p className="text-amber-700 font-medium">{t('Waiting for host to continue...')}</p>
-                      </div>
-                    </div>
                   </div>
                 )}
               </div>
@@ -637,6 +586,10 @@ export default function QuizPage() {
                             {player.nickname}
                             {player.id === playerId && " (You)"}
                           </span>
+                          <StreakBadge
+                            streak={player.streak}
+                            multiplier={combo && getStreakMultiplier(player.streak || 0, combo)}
+                          />
                         </div>
                         <div className="flex items-center space-x-2">
                           <FaTrophy className="text-amber-600" />
@@ -660,25 +613,20 @@ export default function QuizPage() {
                   </div>
                 </div>
                 
+                {/* The next question follows automatically */}
+                {renderAutoAdvanceNotice()}
+                
                 {/* Host Controls */}
                 {isHost && (
                   <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                    {renderPauseToggle()}
                     <button 
-                      onClick={hideScoreboard}
-                      className="bg-gradient-to-r from-gray-600 to-gray-700 text-white px-6 py-3 rounded-xl 
-                               hover:from-gray-700 hover:to-gray-800 transition-all duration-300 
-                               flex items-center justify-center space-x-2 shadow-lg hover:shadow-xl
-                               transform hover:scale-105 font-semibold"
-                    >
-                      <FaArrowLeft className="text-lg" />
-                      <span>{t('Back to Answer')}</span>
-                    </button>
-                    <button 
-                      onClick={nextQuestion}
+                      onClick={() => sendIntent("advance")}
+                      disabled={intentPending || isPaused}
                       className="bg-gradient-to-r from-teal-600 to-amber-600 text-white px-6 py-3 rounded-xl 
                                hover:from-teal-700 hover:to-amber-700 transition-all duration-300 
                                flex items-center justify-center space-x-2 shadow-lg hover:shadow-xl
-                               transform hover:scale-105 font-semibold"
+                               transform hover:scale-105 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       {qIndex + 1 >= room.questions.length ? (
                         <>
@@ -694,18 +642,6 @@ export default function QuizPage() {
                     </button>
                   </div>
                 )}
-                
-                {/* Non-host waiting message */}
-                {!isHost && (
-                  <div className="text-center">
-                    <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
-                      <div className="flex items-center justify-center space-x-2">
-                        <FaSpinner className="text-amber-600 animate-spin" />
-                        <p className="text-amber-700 font-medium">{t('Waiting for host to continue...')}</p>
-                      </div>
-                    </div>
-                  </div>
-                )}
               </div>
             )}
           </div>
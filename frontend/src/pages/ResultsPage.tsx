@@ -5,6 +5,11 @@ import { get, ref, remove } from "firebase/database";
 import type { Room } from "../../../shared/types";
 import { presenceManager } from "../api/presenceManager";
 import LeaderboardChart from "../components/LeaderboardChart";
+import ScoreBreakdownDetails from "../components/ScoreBreakdownDetails";
+import QuestionReviewList from "../components/QuestionReviewList";
+import SaveQuizPanel from "../components/SaveQuizPanel";
+import { DEFAULT_SCORING_STRATEGY } from "../../../shared/scoring";
+import { SCORING_STRATEGY_DETAILS } from "../utils/scoringStrategies";
 import { 
   FaTrophy, 
   FaCrown, 
@@ -21,7 +26,8 @@ import {
   FaUserFriends,
   FaLightbulb,
   FaCheckCircle,
-  FaRocket
+  FaRocket,
+  FaBookmark
 } from 'react-icons/fa';
 import { 
   MdCelebration 
@@ -151,6 +157,8 @@ export default function ResultsPage() {
   const winner = sortedPlayers[0];
   const isCurrentPlayerWinner = winner?.id === playerId;
   const maxScore = Math.max(...sortedPlayers.map(p => p.score));
+  const scoringDetails = SCORING_STRATEGY_DETAILS[room.scoringStrategy ?? DEFAULT_SCORING_STRATEGY];
+  const currentPlayerAnswers = room.players[playerId || ""]?.answers || {};
 
   return (
     <div className="min-h-screen bg-[#FDF0DC] p-4 sm:p-6 lg:p-8">
@@ -411,6 +419,64 @@ export default function ResultsPage() {
           </div>
         </div>
 
+        {/* How points were earned */}
+        <div className="bg-[#F7E2C0] rounded-2xl shadow-xl p-4 sm:p-6 mb-6 sm:mb-8 border-2 border-[#4E342E]">
+          <div className="flex items-center justify-center mb-4">
+            <scoringDetails.icon className="text-2xl sm:text-3xl text-[#10A3A2] mr-2 sm:mr-3" />
+            <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold text-[#4E342E]">{t('How points were earned')}</h2>
+          </div>
+          <p className="text-center text-[#4E342E] font-semibold">{t(scoringDetails.title)}</p>
+          <p className="text-center text-sm text-[#6D4C41] mb-4">{t(scoringDetails.description)}</p>
+
+          {Object.keys(currentPlayerAnswers).length > 0 && (
+            <div className="space-y-2">
+              {room.questions.map((question, index) => {
+                const answer = currentPlayerAnswers[index];
+                return (
+                  <div key={index} className="bg-white rounded-xl p-3 border border-[#6D4C41]/30">
+                    <div className="flex items-start justify-between gap-3">
+                      <p className="text-sm text-[#4E342E]">
+                        <span className="font-semibold">{index + 1}.</span> {question.text}
+                      </p>
+                      <span className={`text-sm font-bold whitespace-nowrap ${
+                        !answer ? 'text-[#6D4C41]' : (answer.scoreEarned ?? 0) < 0 ? 'text-red-700' : 'text-[#05717B]'
+                      }`}>
+                        {answer ? answer.scoreEarned ?? 0 : t('No answer')}
+                      </span>
+                    </div>
+                    {answer?.scoreBreakdown && (
+                      <ScoreBreakdownDetails breakdown={answer.scoreBreakdown} className="mt-2 sm:justify-start" />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Question review */}
+        {room.questions.length > 0 && (
+          <div className="bg-[#F7E2C0] rounded-2xl shadow-xl p-4 sm:p-6 mb-6 sm:mb-8 border-2 border-[#4E342E]">
+            <div className="flex items-center justify-center mb-4">
+              <FaLightbulb className="text-2xl sm:text-3xl text-[#F4B46D] mr-2 sm:mr-3" />
+              <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold text-[#4E342E]">{t('Question review')}</h2>
+            </div>
+            <QuestionReviewList questions={room.questions} answers={currentPlayerAnswers} />
+          </div>
+        )}
+
+        {/* Save to library (host only) */}
+        {roomId && playerId && room.hostId === playerId && room.questions.length > 0 && (
+          <div className="bg-[#F7E2C0] rounded-2xl shadow-xl p-4 sm:p-6 mb-6 sm:mb-8 border-2 border-[#4E342E]">
+            <div className="flex items-center justify-center mb-2">
+              <FaBookmark className="text-2xl sm:text-3xl text-[#10A3A2] mr-2 sm:mr-3" />
+              <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold text-[#4E342E]">{t('Save to library')}</h2>
+            </div>
+            <p className="text-center text-sm text-[#6D4C41] mb-4">{t('Keep these questions to host this quiz again later.')}</p>
+            <SaveQuizPanel roomId={roomId} hostId={playerId} defaultTitle={room.topic} />
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="text-center space-y-3 sm:space-y-4">
           <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 justify-center">
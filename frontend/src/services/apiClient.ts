@@ -1,7 +1,7 @@
 import axios from 'axios';
 import type { AxiosInstance, AxiosResponse } from 'axios';
 import { BACKEND_CONFIG, HEALTH_CONFIG, PERFORMANCE_THRESHOLDS, LOG_CONFIG, emergencyRollback } from '../config/environment';
-import type { DifficultyLevel } from '../../../shared/types';
+import type { AnswerVerificationMode, DifficultyLevel, GameIntent, GameState, ComboSettings, DeleteQuizRequest, LibraryQuiz, QuestionType, QuizListResponse, RegenerateQuestionRequest, RegenerateQuestionResponse, SaveQuizRequest, ScoringStrategy, SubmitAnswerRequest, SubmitAnswerResponse, UpdateQuizRequest } from '../../../shared/types';
 
 // Health monitoring state
 interface HealthStatus {
@@ -245,7 +245,11 @@ class BackendAPIClient {
     difficulty: DifficultyLevel;
     questionCount: number;
     questions?: any[];
-  }): Promise<{ roomId: string; playerId: string; aiGenerated: boolean; fallbackReason?: string }> {
+    scoringStrategy?: ScoringStrategy;
+    combo?: ComboSettings;
+    questionTypes?: QuestionType[];
+    verifyAnswers?: AnswerVerificationMode;
+  }): Promise<{ roomId: string; playerId: string; playerToken: string; aiGenerated: boolean; fallbackReason?: string }> {
     return this.retryRequest(() => 
       this.client.post('/api/rooms', data).then(response => response.data)
     );
@@ -254,7 +258,7 @@ class BackendAPIClient {
   async joinRoom(data: {
     roomCode: string;
     nickname: string;
-  }): Promise<{ roomId: string; playerId: string; room: any }> {
+  }): Promise<{ roomId: string; playerId: string; playerToken: string; room: any }> {
     return this.retryRequest(() =>
       this.client.post('/api/rooms/join', data).then(response => response.data)
     );
@@ -282,6 +286,7 @@ class BackendAPIClient {
     topic: string;
     difficulty: DifficultyLevel;
     count: number;
+    questionTypes?: QuestionType[];
   }): Promise<{ questions: any[]; aiGenerated: boolean; fallbackReason?: string }> {
     return this.retryRequest(async () => {
       const response = await this.client.post('/questions/generate', data);
@@ -289,6 +294,14 @@ class BackendAPIClient {
     });
   }
 
+  async regenerateQuestion(data: RegenerateQuestionRequest): Promise<RegenerateQuestionResponse> {
+    // Single attempt: each try is a full AI generation, the host can click again
+    return this.retryRequest(async () => {
+      const response = await this.client.post('/api/questions/regenerate', data);
+      return response.data;
+    }, 1);
+  }
+
   async kickPlayer(roomId: string, hostId: string, playerIdToKick: string): Promise<{ success: boolean; kickedPlayer: { id: string; nickname: string }; message: string }> {
     return this.retryRequest(async () => {
       const response = await this.client.post(`/api/rooms/${roomId}/kick-player`, {
@@ -299,6 +312,69 @@ class BackendAPIClient {
     });
   }
 
+  async submitAnswer(roomId: string, data: SubmitAnswerRequest): Promise<SubmitAnswerResponse> {
+    // Single attempt: a retried submission would be rejected as a duplicate anyway
+    return this.retryRequest(async () => {
+      const response = await this.client.post(`/api/rooms/${roomId}/answers`, data);
+      return response.data;
+    }, 1);
+  }
+
+  async sendGameIntent(roomId: string, hostId: string, intent: GameIntent): Promise<{ success: boolean; gameState: GameState | null }> {
+    // Single attempt: intents are not idempotent, a retried "advance" could skip a phase
+    return this.retryRequest(async () => {
+      const response = await this.client.post(`/api/rooms/${roomId}/intent`, {
+        hostId,
+        intent
+      });
+      return response.data;
+    }, 1);
+  }
+
+  // Quiz library
+
+  async listQuizzes(filters: {
+    tag?: string;
+    language?: string;
+    difficulty?: DifficultyLevel;
+    search?: string;
+  } = {}): Promise<QuizListResponse> {
+    return this.retryRequest(async () => {
+      const response = await this.client.get('/api/quizzes', { params: filters });
+      return response.data;
+    });
+  }
+
+  async getQuiz(quizId: string): Promise<LibraryQuiz> {
+    return this.retryRequest(async () => {
+      const response = await this.client.get(`/api/quizzes/${quizId}`);
+      return response.data;
+    });
+  }
+
+  async saveQuiz(data: SaveQuizRequest): Promise<LibraryQuiz> {
+    // Single attempt: a retried save could store the quiz twice
+    return this.retryRequest(async () => {
+      const response = await this.client.post('/api/quizzes', data);
+      return response.data;
+    }, 1);
+  }
+
+  async updateQuiz(quizId: string, changes: UpdateQuizRequest): Promise<LibraryQuiz> {
+    return this.retryRequest(async () => {
+      const response = await this.client.put(`/api/quizzes/${quizId}`, changes);
+      return response.data;
+    });
+  }
+
+  async deleteQuiz(quizId: string, ownerId: string): Promise<{ success: boolean }> {
+    return this.retryRequest(async () => {
+      const data: DeleteQuizRequest = { ownerId };
+      const response = await this.client.delete(`/api/quizzes/${quizId}`, { data });
+      return response.data;
+    }, 1);
+  }
+
   // Health and monitoring methods
 
   isHealthy(): boolean {
@@ -337,7 +413,15 @@ export const startGame = apiClient.startGame.bind(apiClient);
 export const getRoom = apiClient.getRoom.bind(apiClient);
 export const getSampleQuestions = apiClient.getSampleQuestions.bind(apiClient);
 export const generateQuestions = apiClient.generateQuestions.bind(apiClient);
+export const regenerateQuestion = apiClient.regenerateQuestion.bind(apiClient);
 export const kickPlayer = apiClient.kickPlayer.bind(apiClient);
+export const submitAnswer = apiClient.submitAnswer.bind(apiClient);
+export const sendGameIntent = apiClient.sendGameIntent.bind(apiClient);
+export const listQuizzes = apiClient.listQuizzes.bind(apiClient);
+export const getQuiz = apiClient.getQuiz.bind(apiClient);
+export const saveQuiz = apiClient.saveQuiz.bind(apiClient);
+export const updateQuiz = apiClient.updateQuiz.bind(apiClient);
+export const deleteQuiz = apiClient.deleteQuiz.bind(apiClient);
 
 // Export health monitoring functions
 export const isBackendHealthy = apiClient.isHealthy.bind(apiClient);
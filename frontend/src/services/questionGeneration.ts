@@ -1,4 +1,4 @@
-import type { Question, DifficultyLevel } from '../../../shared/types';
+import type { Question, DifficultyLevel, QuestionType } from '../../../shared/types';
 import { getSampleQuestions } from '../utils/sampleQuiz';
 import apiClient from '../services/apiClient';
 
@@ -6,6 +6,7 @@ export interface QuestionGenerationParams {
   topic: string;
   difficulty: DifficultyLevel;
   count: number;
+  questionTypes?: QuestionType[];
 }
 
 // Simplified error types as string constants
@@ -47,7 +48,8 @@ export async function generateQuestions(params: QuestionGenerationParams): Promi
     const result = await apiClient.generateQuestions({
       topic: params.topic,
       difficulty: params.difficulty,
-      count: params.count
+      count: params.count,
+      questionTypes: params.questionTypes
     });
 
     console.log('✅ Received response from backend API');
@@ -1,6 +1,6 @@
 import { io, Socket } from 'socket.io-client';
 import { BACKEND_CONFIG, LOG_CONFIG, emergencyRollback } from '../config/environment';
-import type { Room, Player, Question, Answer, GameState } from '../../../shared/types';
+import type { Room, Player, Question, Answer, AnswerValue, GameState, GameIntent, QuestionsProgress } from '../../../shared/types';
 
 // Socket event types for type safety
 interface ServerToClientEvents {
@@ -27,6 +27,7 @@ interface ServerToClientEvents {
   // Room events
   'room-updated': (data: { room: Room }) => void;
   'room-deleted': (data: { roomId: string; reason: string }) => void;
+  'questions-progress': (data: QuestionsProgress & { timestamp: string }) => void;
   
   // Answer events
   'answer-submitted': (data: { playerId: string; answer: Answer; newScore: number; room: Room }) => void;
@@ -44,15 +45,15 @@ interface ClientToServerEvents {
   'submit-answer': (data: { 
     roomId: string; 
     playerId: string; 
+    playerToken: string;
     questionIndex: number; 
-    selectedOption: string; 
-    timeToAnswer: number 
+    response: AnswerValue;
+    wager?: number;
   }) => void;
-  'game-state-change': (data: { 
-    roomId: string; 
-    hostId: string; 
-    action: string; 
-    gameState?: Partial<GameState> 
+  'game-intent': (data: {
+    roomId: string;
+    hostId: string;
+    intent: GameIntent;
   }) => void;
   'kick-player': (data: {
     roomId: string;
@@ -195,6 +196,7 @@ class SocketIOClient {
       'game-state-updated',
       'room-updated',
       'room-deleted',
+      'questions-progress',
       'answer-submitted',
     ];
 
@@ -331,12 +333,12 @@ class SocketIOClient {
     this.emit('leave-room', { roomId, playerId });
   }
 
-  submitAnswer(roomId: string, playerId: string, questionIndex: number, selectedOption: string, timeToAnswer: number): void {
-    this.emit('submit-answer', { roomId, playerId, questionIndex, selectedOption, timeToAnswer });
+  submitAnswer(roomId: string, playerId: string, playerToken: string, questionIndex: number, response: AnswerValue, wager?: number): void {
+    this.emit('submit-answer', { roomId, playerId, playerToken, questionIndex, response, wager });
   }
 
-  updateGameState(roomId: string, hostId: string, action: string, gameState?: Partial<GameState>): void {
-    this.emit('game-state-change', { roomId, hostId, action, gameState });
+  sendGameIntent(roomId: string, hostId: string, intent: GameIntent): void {
+    this.emit('game-intent', { roomId, hostId, intent });
   }
 
   kickPlayer(roomId: string, hostId: string, playerIdToKick: string): void {
@@ -388,7 +390,7 @@ export const emitSocketEvent = socketClient.emit.bind(socketClient);
 export const joinRoom = socketClient.joinRoom.bind(socketClient);
 export const leaveRoom = socketClient.leaveRoom.bind(socketClient);
 export const submitAnswer = socketClient.submitAnswer.bind(socketClient);
-export const updateGameState = socketClient.updateGameState.bind(socketClient);
+export const sendGameIntent = socketClient.sendGameIntent.bind(socketClient);
 
 // Export the client instance
 export default socketClient; 
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { BACKEND_CONFIG } from '../config/environment';
+import { getOwnerId } from './owner';
+
+// File extensions the backend has extractors for
+export const SUPPORTED_DOCUMENT_TYPES = ['pdf', 'docx', 'pptx', 'odt', 'epub', 'md', 'html', 'htm', 'mhtml', 'txt'];
+
+/**
+ * Delete an uploaded document from the backend; it expires on its own if this fails
+ */
+export async function deleteDocument(fileId: string): Promise<void> {
+  try {
+    await fetch(`${BACKEND_CONFIG.URL}/api/documents/${encodeURIComponent(fileId)}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ownerId: getOwnerId() })
+    });
+  } catch (error) {
+    console.warn('Document deletion failed:', error);
+  }
+}
@@ -0,0 +1,9 @@
+import { BACKEND_CONFIG } from '../config/environment';
+
+/**
+ * Turn a stored media url into one the browser can load: paths such as /media/<id>
+ * are served by the backend, absolute urls are used as they are
+ */
+export function resolveMediaUrl(url: string): string {
+  return url.startsWith('/') && !url.startsWith('//') ? `${BACKEND_CONFIG.URL}${url}` : url;
+}
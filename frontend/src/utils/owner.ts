@@ -0,0 +1,14 @@
+// Kept under its original key so hosts keep access to documents uploaded before quizzes used it too
+const OWNER_ID_KEY = 'documentOwnerId';
+
+/**
+ * Id the backend files this browser's uploaded documents and saved quizzes under, created on first use
+ */
+export function getOwnerId(): string {
+  let ownerId = localStorage.getItem(OWNER_ID_KEY);
+  if (!ownerId) {
+    ownerId = crypto.randomUUID();
+    localStorage.setItem(OWNER_ID_KEY, ownerId);
+  }
+  return ownerId;
+}
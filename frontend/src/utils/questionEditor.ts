@@ -0,0 +1,95 @@
+import type { DifficultyLevel, Question, QuestionType } from '../../../shared/types';
+import { MIN_MATCHING_PAIRS, MIN_ORDERING_ITEMS } from '../../../shared/questions';
+
+// Time limits used for questions the host adds by hand (same defaults as generated questions)
+export const DEFAULT_TIME_LIMITS: Record<DifficultyLevel, number> = { easy: 15, medium: 25, hard: 35 };
+
+/**
+ * Empty question of the given type for the editor; the host fills in the fields
+ */
+export function createBlankQuestion(type: QuestionType, difficulty: DifficultyLevel): Question {
+  const base = { text: '', timeLimit: DEFAULT_TIME_LIMITS[difficulty], difficulty };
+
+  switch (type) {
+    case 'multiple':
+      return { ...base, type, options: ['', ''], correctOptions: [] };
+    case 'true-false':
+      return { ...base, type, correctAnswer: true };
+    case 'text':
+      return { ...base, type, acceptedAnswers: [''] };
+    case 'numeric':
+      return { ...base, type, correctValue: 0, tolerance: 0 };
+    case 'ordering':
+      return { ...base, type, items: Array(MIN_ORDERING_ITEMS).fill('') };
+    case 'matching':
+      return { ...base, type, pairs: Array.from({ length: MIN_MATCHING_PAIRS }, () => ({ left: '', right: '' })) };
+    default:
+      return { ...base, type: 'single', options: ['', ''], correctOption: '' };
+  }
+}
+
+/**
+ * Set an optional text field, leaving it out when empty (the Firebase fallback rejects undefined fields)
+ */
+export function setOptionalText<T extends object, K extends keyof T>(value: T, key: K, text: string): T {
+  const next = { ...value };
+  if (text) {
+    next[key] = text as T[K];
+  } else {
+    delete next[key];
+  }
+  return next;
+}
+
+/**
+ * Copy of a list with one entry moved (used to reorder questions and ordering items)
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/**
+ * Rename a choice option, keeping the correct answer pointing at it
+ */
+export function renameOption(question: Question, index: number, value: string): Question {
+  if (question.type !== undefined && question.type !== 'single' && question.type !== 'multiple') return question;
+
+  const previous = question.options[index];
+  const options = question.options.map((option, i) => (i === index ? value : option));
+
+  if (question.type === 'multiple') {
+    return { ...question, options, correctOptions: question.correctOptions.map((option) => (option === previous ? value : option)) };
+  }
+  return { ...question, options, correctOption: question.correctOption === previous ? value : question.correctOption };
+}
+
+/**
+ * Add or remove a choice option. Option images must cover every option, so adding an
+ * option drops them; removing one keeps the others aligned. (No undefined fields:
+ * the Firebase fallback rejects them.)
+ */
+export function addOption(question: Question): Question {
+  if (question.type !== undefined && question.type !== 'single' && question.type !== 'multiple') return question;
+
+  const next = { ...question, options: [...question.options, ''] };
+  delete next.optionImages;
+  return next;
+}
+
+export function removeOption(question: Question, index: number): Question {
+  if (question.type !== undefined && question.type !== 'single' && question.type !== 'multiple') return question;
+
+  const removed = question.options[index];
+  const { optionImages, ...rest } = question;
+  const options = question.options.filter((_, i) => i !== index);
+  const images = optionImages ? { optionImages: optionImages.filter((_, i) => i !== index) } : {};
+
+  if (rest.type === 'multiple') {
+    return { ...rest, ...images, options, correctOptions: rest.correctOptions.filter((option) => option !== removed) };
+  }
+  return { ...rest, ...images, options, correctOption: rest.correctOption === removed ? '' : rest.correctOption };
+}
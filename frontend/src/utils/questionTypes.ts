@@ -0,0 +1,32 @@
+import type { IconType } from 'react-icons';
+import { FaCheckSquare, FaDotCircle, FaHashtag, FaKeyboard, FaLink, FaSortAmountDown, FaToggleOn } from 'react-icons/fa';
+import type { QuestionType } from '../../../shared/types';
+
+// Display details for each question kind (titles and descriptions are i18n keys)
+export const QUESTION_TYPE_DETAILS: Record<QuestionType, { icon: IconType; title: string; description: string }> = {
+  single: { icon: FaDotCircle, title: 'questionTypeSingleTitle', description: 'questionTypeSingleDescription' },
+  multiple: { icon: FaCheckSquare, title: 'questionTypeMultipleTitle', description: 'questionTypeMultipleDescription' },
+  'true-false': { icon: FaToggleOn, title: 'questionTypeTrueFalseTitle', description: 'questionTypeTrueFalseDescription' },
+  text: { icon: FaKeyboard, title: 'questionTypeTextTitle', description: 'questionTypeTextDescription' },
+  numeric: { icon: FaHashtag, title: 'questionTypeNumericTitle', description: 'questionTypeNumericDescription' },
+  ordering: { icon: FaSortAmountDown, title: 'questionTypeOrderingTitle', description: 'questionTypeOrderingDescription' },
+  matching: { icon: FaLink, title: 'questionTypeMatchingTitle', description: 'questionTypeMatchingDescription' }
+};
+
+// Button that sends an answer for question kinds that are not answered with a single click
+export const ANSWER_SUBMIT_CLASS = "w-full sm:w-auto bg-gradient-to-r from-teal-600 to-teal-700 text-white px-6 py-3 rounded-xl cursor-pointer hover:from-teal-700 hover:to-teal-800 transition-all duration-300 shadow-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Shuffle a copy of a list for display, avoiding the original order when possible
+ */
+export function shuffleForDisplay<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let attempt = 0; attempt < 5; attempt++) {
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    if (shuffled.some((item, index) => item !== items[index])) break;
+  }
+  return shuffled;
+}
@@ -0,0 +1,21 @@
+import type { IconType } from 'react-icons';
+import { FaBolt, FaBullseye, FaCoins, FaFire, FaMinusCircle } from 'react-icons/fa';
+import type { ComboSettings, ScoringStrategy } from '../../../shared/types';
+import { DEFAULT_COMBO } from '../../../shared/scoring';
+
+// Display details for each scoring strategy (titles and descriptions are i18n keys)
+export const SCORING_STRATEGY_DETAILS: Record<ScoringStrategy, { icon: IconType; title: string; description: string }> = {
+  classic: { icon: FaBolt, title: 'scoringClassicTitle', description: 'scoringClassicDescription' },
+  accuracy: { icon: FaBullseye, title: 'scoringAccuracyTitle', description: 'scoringAccuracyDescription' },
+  streak: { icon: FaFire, title: 'scoringStreakTitle', description: 'scoringStreakDescription' },
+  negative: { icon: FaMinusCircle, title: 'scoringNegativeTitle', description: 'scoringNegativeDescription' },
+  wager: { icon: FaCoins, title: 'scoringWagerTitle', description: 'scoringWagerDescription' }
+};
+
+// Combo multiplier presets offered when creating a room (labels are i18n keys)
+export const COMBO_PRESETS: { id: string; label: string; combo?: ComboSettings }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'gentle', label: 'Gentle', combo: { step: 0.25, max: 2 } },
+  { id: 'standard', label: 'Standard', combo: DEFAULT_COMBO },
+  { id: 'wild', label: 'Wild', combo: { step: 1, max: 5 } }
+];
@@ -24,6 +24,10 @@ export default defineConfig({
   server: {
     port: 5173,
     host: true,
+    fs: {
+      // Allow runtime imports from ../shared (e.g. shared/scoring.ts)
+      allow: ['..'],
+    },
     proxy: {
       '/api': {
         target: 'http://localhost:3001',
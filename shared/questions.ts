@@ -0,0 +1,489 @@
+/**
+ * Question kinds shared by the backend and the frontend: validation of generated or
+ * submitted questions, response checks and display helpers.
+ */
+
+import type { AnswerValue, AnswerVerificationMode, DifficultyLevel, Question, QuestionCitation, QuestionType, QuestionVerification } from "./types";
+
+export const QUESTION_TYPES: QuestionType[] = ["single", "multiple", "true-false", "text", "numeric", "ordering", "matching"];
+export const DEFAULT_QUESTION_TYPES: QuestionType[] = ["single"];
+
+// Choice questions (single and multiple) offer this many options
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 6;
+
+// Ordering questions sort this many items, matching questions pair up this many terms
+export const MIN_ORDERING_ITEMS = 3;
+export const MAX_ORDERING_ITEMS = 8;
+export const MIN_MATCHING_PAIRS = 2;
+export const MAX_MATCHING_PAIRS = 6;
+
+// Answer key checks for generated questions (see AnswerVerificationMode)
+export const ANSWER_VERIFICATION_MODES: AnswerVerificationMode[] = ["flag", "regenerate"];
+const VERIFICATION_STATUSES: QuestionVerification["status"][] = ["verified", "disputed", "unchecked"];
+
+const isNonEmptyString = (value: any) => typeof value === "string" && value.trim().length > 0;
+
+// Media urls are absolute http(s) urls or paths served by the backend (/media/...)
+const isMediaUrl = (value: any) => typeof value === "string" && /^(https?:\/\/|\/)\S+$/.test(value);
+
+/**
+ * Validate a question's media attachment
+ */
+function validateMedia(media: any): string[] {
+  if (!media || typeof media !== "object") {
+    return ["media must be an object"];
+  }
+  if (!isMediaUrl(media.url)) {
+    return ["media url must be an http(s) url or a /media path"];
+  }
+
+  switch (media.type) {
+    case "image":
+      return media.alt === undefined || typeof media.alt === "string" ? [] : ["media alt must be a string"];
+    case "audio": {
+      const { startTime, endTime } = media;
+      const isOffset = (value: any) => value === undefined || (typeof value === "number" && Number.isFinite(value) && value >= 0);
+      if (!isOffset(startTime) || !isOffset(endTime)) {
+        return ["audio offsets must be numbers of 0 or more"];
+      }
+      if (endTime !== undefined && endTime <= (startTime ?? 0)) {
+        return ["audio endTime must be after startTime"];
+      }
+      return [];
+    }
+    default:
+      return ["media type must be image or audio"];
+  }
+}
+
+/**
+ * Kind of a question (questions stored before question kinds are single choice)
+ */
+export function getQuestionType(question: Pick<Question, "type">): QuestionType {
+  return question.type ?? "single";
+}
+
+/**
+ * Lowercase, strip accents and punctuation, collapse whitespace
+ */
+export function normalizeAnswerText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Edit distance between two strings
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Typos allowed for an accepted answer: none for short words, more for longer phrases
+ */
+function getAllowedTypos(accepted: string): number {
+  if (accepted.length <= 4) return 0;
+  if (accepted.length <= 8) return 1;
+  return 2;
+}
+
+/**
+ * Check typed text against a list of accepted answers (case, accents, punctuation and small typos are ignored)
+ */
+export function matchesAcceptedAnswer(input: string, acceptedAnswers: string[]): boolean {
+  const normalizedInput = normalizeAnswerText(input);
+  if (!normalizedInput) return false;
+
+  return acceptedAnswers.some((accepted) => {
+    const normalizedAccepted = normalizeAnswerText(accepted);
+    return normalizedAccepted.length > 0 &&
+      levenshteinDistance(normalizedInput, normalizedAccepted) <= getAllowedTypos(normalizedAccepted);
+  });
+}
+
+/**
+ * Read a number typed by a player ("3,5" and " 42 " are accepted)
+ */
+export function parseNumericResponse(response: AnswerValue): number | null {
+  if (typeof response === "number") return Number.isFinite(response) ? response : null;
+  if (typeof response !== "string" || response.trim() === "") return null;
+
+  const value = Number(response.trim().replace(",", "."));
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Validate a question object; returns human-readable errors (empty when valid)
+ */
+export function validateQuestion(question: any): string[] {
+  const errors: string[] = [];
+
+  if (!question || typeof question !== "object") {
+    return ["must be an object"];
+  }
+
+  if (typeof question.text !== "string" || question.text.trim().length === 0) {
+    errors.push("text is required");
+  }
+
+  if (question.media !== undefined) {
+    errors.push(...validateMedia(question.media));
+  }
+
+  if (question.explanation !== undefined && typeof question.explanation !== "string") {
+    errors.push("explanation must be a string");
+  }
+
+  if (
+    question.citation !== undefined &&
+    (!question.citation ||
+      !isNonEmptyString(question.citation.quote) ||
+      (question.citation.location !== undefined && typeof question.citation.location !== "string"))
+  ) {
+    errors.push("citation must have a quote and an optional location");
+  }
+
+  if (
+    question.source !== undefined &&
+    (!question.source ||
+      !Number.isInteger(question.source.chunk) ||
+      !Number.isInteger(question.source.start) ||
+      !Number.isInteger(question.source.end) ||
+      (question.source.pages !== undefined && !(Array.isArray(question.source.pages) && question.source.pages.length === 2)) ||
+      (question.source.topic !== undefined && typeof question.source.topic !== "string") ||
+      (question.source.section !== undefined && typeof question.source.section !== "string") ||
+      (question.source.file !== undefined && typeof question.source.file !== "string"))
+  ) {
+    errors.push("source must have a chunk index, a character range, and optional pages, topic, section and file");
+  }
+
+  if (
+    question.verification !== undefined &&
+    (!question.verification ||
+      !VERIFICATION_STATUSES.includes(question.verification.status) ||
+      (question.verification.modelAnswer !== undefined && typeof question.verification.modelAnswer !== "string"))
+  ) {
+    errors.push(`verification status must be one of: ${VERIFICATION_STATUSES.join(", ")}`);
+  }
+
+  const type = question.type ?? "single";
+  if (!QUESTION_TYPES.includes(type)) {
+    return [...errors, `type must be one of: ${QUESTION_TYPES.join(", ")}`];
+  }
+
+  switch (type as QuestionType) {
+    case "single":
+    case "multiple": {
+      const options = question.options;
+      if (!Array.isArray(options) || options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+        errors.push(`must have ${MIN_OPTIONS}-${MAX_OPTIONS} options`);
+        break;
+      }
+      if (!options.every(isNonEmptyString)) {
+        errors.push("options must be non-empty strings");
+        break;
+      }
+      if (new Set(options).size !== options.length) {
+        errors.push("options must be unique");
+      }
+      if (
+        question.optionImages !== undefined &&
+        (!Array.isArray(question.optionImages) ||
+          question.optionImages.length !== options.length ||
+          !question.optionImages.every(isMediaUrl))
+      ) {
+        errors.push("optionImages must have one image url per option");
+      }
+
+      if (type === "single" && !options.includes(question.correctOption)) {
+        errors.push("correctOption must match one of the provided options");
+      }
+      if (type === "multiple") {
+        const correctOptions = question.correctOptions;
+        if (!Array.isArray(correctOptions) || correctOptions.length === 0) {
+          errors.push("correctOptions must list at least one option");
+        } else if (correctOptions.some((option: any) => !options.includes(option))) {
+          errors.push("correctOptions must match the provided options");
+        }
+      }
+      break;
+    }
+
+    case "true-false":
+      if (typeof question.correctAnswer !== "boolean") {
+        errors.push("correctAnswer must be true or false");
+      }
+      break;
+
+    case "text":
+      if (
+        !Array.isArray(question.acceptedAnswers) ||
+        question.acceptedAnswers.length === 0 ||
+        !question.acceptedAnswers.every(isNonEmptyString)
+      ) {
+        errors.push("acceptedAnswers must list at least one non-empty answer");
+      }
+      break;
+
+    case "numeric":
+      if (typeof question.correctValue !== "number" || !Number.isFinite(question.correctValue)) {
+        errors.push("correctValue must be a number");
+      }
+      if (typeof question.tolerance !== "number" || !Number.isFinite(question.tolerance) || question.tolerance < 0) {
+        errors.push("tolerance must be a number of 0 or more");
+      }
+      break;
+
+    case "ordering": {
+      const items = question.items;
+      if (!Array.isArray(items) || items.length < MIN_ORDERING_ITEMS || items.length > MAX_ORDERING_ITEMS) {
+        errors.push(`must have ${MIN_ORDERING_ITEMS}-${MAX_ORDERING_ITEMS} items`);
+      } else if (!items.every(isNonEmptyString)) {
+        errors.push("items must be non-empty strings");
+      } else if (new Set(items).size !== items.length) {
+        errors.push("items must be unique");
+      }
+      break;
+    }
+
+    case "matching": {
+      const pairs = question.pairs;
+      if (!Array.isArray(pairs) || pairs.length < MIN_MATCHING_PAIRS || pairs.length > MAX_MATCHING_PAIRS) {
+        errors.push(`must have ${MIN_MATCHING_PAIRS}-${MAX_MATCHING_PAIRS} pairs`);
+      } else if (!pairs.every((pair: any) => pair && isNonEmptyString(pair.left) && isNonEmptyString(pair.right))) {
+        errors.push("pairs must have a non-empty left and right");
+      } else if (
+        new Set(pairs.map((pair: any) => pair.left)).size !== pairs.length ||
+        new Set(pairs.map((pair: any) => pair.right)).size !== pairs.length
+      ) {
+        errors.push("pair sides must be unique");
+      }
+      break;
+    }
+  }
+
+  return errors;
+}
+
+// Rooms (and saved quizzes) hold at most this many questions
+export const MAX_QUIZ_QUESTIONS = 35;
+
+// While questions are still generating, the host can start once this many exist
+export const MIN_QUESTIONS_TO_START = 3;
+
+/**
+ * Questions a room needs before the host can start it early (all of them for shorter quizzes)
+ */
+export function getMinQuestionsToStart(questionCount: number): number {
+  return Math.min(MIN_QUESTIONS_TO_START, questionCount);
+}
+
+/**
+ * Validate a full question list (room creation, saved quizzes, the host's editor);
+ * errors are prefixed with the question number
+ */
+export function validateQuestionSet(questions: any): string[] {
+  if (!Array.isArray(questions)) {
+    return ["Questions must be an array"];
+  }
+  if (questions.length === 0 || questions.length > MAX_QUIZ_QUESTIONS) {
+    return [`Questions must be a list of 1-${MAX_QUIZ_QUESTIONS} questions`];
+  }
+  return questions.flatMap((question, i) => validateQuestion(question).map((error) => `Question ${i + 1}: ${error}`));
+}
+
+/**
+ * Keep a citation only when it has a quote; a missing citation is not an error
+ */
+function normalizeCitation(citation: any): { citation?: QuestionCitation } {
+  if (!citation || typeof citation !== "object" || !isNonEmptyString(citation.quote)) {
+    return {};
+  }
+  return {
+    citation: {
+      quote: citation.quote.trim(),
+      ...(isNonEmptyString(citation.location) ? { location: citation.location.trim() } : {})
+    }
+  };
+}
+
+/**
+ * Clean up a loosely formatted question (AI output, editor input) and validate it.
+ * Strings are trimmed and obvious encodings are coerced ("true" -> true, "42" -> 42).
+ */
+export function normalizeQuestion(
+  raw: any,
+  defaults: { timeLimit: number; difficulty?: DifficultyLevel }
+): { question?: Question; errors: string[] } {
+  if (!raw || typeof raw !== "object") {
+    return { errors: ["must be an object"] };
+  }
+
+  const trim = (value: any) => (typeof value === "string" ? value.trim() : value);
+  const trimList = (value: any) => (Array.isArray(value) ? value.map(trim).filter((item: any) => item !== "") : value);
+  const toNumber = (value: any) => (typeof value === "string" && value.trim() !== "" ? Number(value) : value);
+
+  const type = trim(raw.type) || "single";
+  const timeLimit = Number(raw.timeLimit) > 0 ? Number(raw.timeLimit) : defaults.timeLimit;
+  const difficulty = defaults.difficulty ?? (["easy", "medium", "hard"].includes(raw.difficulty) ? raw.difficulty : undefined);
+  const base = {
+    text: trim(raw.text),
+    timeLimit,
+    ...(difficulty ? { difficulty } : {}),
+    ...(typeof raw.timeReasoning === "string" ? { timeReasoning: raw.timeReasoning } : {}),
+    ...(raw.media && typeof raw.media === "object" ? { media: { ...raw.media, url: trim(raw.media.url) } } : {}),
+    ...(isNonEmptyString(raw.explanation) ? { explanation: raw.explanation.trim() } : {}),
+    ...normalizeCitation(raw.citation)
+  };
+  const optionImages = Array.isArray(raw.optionImages) ? { optionImages: raw.optionImages.map(trim) } : {};
+
+  let candidate: any;
+  switch (type) {
+    case "single":
+      candidate = { ...base, type, options: trimList(raw.options), ...optionImages, correctOption: trim(raw.correctOption) };
+      break;
+    case "multiple":
+      candidate = { ...base, type, options: trimList(raw.options), ...optionImages, correctOptions: trimList(raw.correctOptions) };
+      break;
+    case "true-false": {
+      const correctAnswer = typeof raw.correctAnswer === "string" ? raw.correctAnswer.trim().toLowerCase() : raw.correctAnswer;
+      candidate = {
+        ...base,
+        type,
+        correctAnswer: correctAnswer === "true" ? true : correctAnswer === "false" ? false : correctAnswer
+      };
+      break;
+    }
+    case "text":
+      candidate = { ...base, type, acceptedAnswers: trimList(raw.acceptedAnswers) };
+      break;
+    case "numeric":
+      candidate = {
+        ...base,
+        type,
+        correctValue: toNumber(raw.correctValue),
+        tolerance: toNumber(raw.tolerance ?? 0),
+        ...(typeof raw.unit === "string" && raw.unit.trim() ? { unit: raw.unit.trim() } : {})
+      };
+      break;
+    case "ordering":
+      candidate = { ...base, type, items: trimList(raw.items) };
+      break;
+    case "matching":
+      candidate = {
+        ...base,
+        type,
+        pairs: Array.isArray(raw.pairs)
+          ? raw.pairs.map((pair: any) => (pair && typeof pair === "object" ? { left: trim(pair.left), right: trim(pair.right) } : pair))
+          : raw.pairs
+      };
+      break;
+    default:
+      candidate = { ...base, type };
+  }
+
+  const errors = validateQuestion(candidate);
+  return errors.length > 0 ? { errors } : { question: candidate as Question, errors };
+}
+
+/**
+ * Check that a response has the right shape for the question
+ */
+export function isValidResponse(question: Question, response: AnswerValue): boolean {
+  switch (question.type) {
+    case "multiple":
+      return Array.isArray(response) &&
+        new Set(response).size === response.length &&
+        response.every((option) => question.options.includes(option));
+    case "true-false":
+      return typeof response === "boolean";
+    case "text":
+      return typeof response === "string" && response.trim().length > 0 && response.length <= 200;
+    case "numeric":
+      return parseNumericResponse(response) !== null;
+    case "ordering":
+      // A permutation of the items
+      return Array.isArray(response) &&
+        response.length === question.items.length &&
+        new Set(response).size === response.length &&
+        response.every((item) => question.items.includes(item));
+    case "matching": {
+      // One right side per pair; unmatched pairs are sent as empty strings
+      const rights = question.pairs.map((pair) => pair.right);
+      const picked = Array.isArray(response) ? response.filter((right) => right !== "") : [];
+      return Array.isArray(response) &&
+        response.length === question.pairs.length &&
+        new Set(picked).size === picked.length &&
+        picked.every((right) => rights.includes(right));
+    }
+    default:
+      return typeof response === "string" && question.options.includes(response);
+  }
+}
+
+/**
+ * Human-readable form of a response (stored with the answer for results and history)
+ */
+export function formatResponse(question: Question, response: AnswerValue): string {
+  switch (question.type) {
+    case "multiple":
+      return Array.isArray(response) ? response.join(", ") : String(response);
+    case "true-false":
+      return response ? "True" : "False";
+    case "numeric": {
+      const value = parseNumericResponse(response);
+      return value === null ? String(response) : `${value}${question.unit ? ` ${question.unit}` : ""}`;
+    }
+    case "ordering":
+      return Array.isArray(response) ? response.join(" → ") : String(response);
+    case "matching":
+      return Array.isArray(response)
+        ? question.pairs.map((pair, index) => `${pair.left}: ${response[index] || "—"}`).join("; ")
+        : String(response);
+    default:
+      return String(response).trim();
+  }
+}
+
+/**
+ * Human-readable correct answer for the reveal
+ */
+export function formatCorrectAnswer(question: Question): string {
+  switch (question.type) {
+    case "multiple":
+      return question.correctOptions.join(", ");
+    case "true-false":
+      return question.correctAnswer ? "True" : "False";
+    case "text":
+      return question.acceptedAnswers[0];
+    case "numeric": {
+      const unit = question.unit ? ` ${question.unit}` : "";
+      return question.tolerance > 0
+        ? `${question.correctValue}${unit} (± ${question.tolerance})`
+        : `${question.correctValue}${unit}`;
+    }
+    case "ordering":
+      return question.items.join(" → ");
+    case "matching":
+      return question.pairs.map((pair) => `${pair.left}: ${pair.right}`).join("; ");
+    default:
+      return question.correctOption;
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Score calculation shared by the backend and the frontend.
+ * The backend is the only place scores are recorded; the frontend uses these
+ * helpers for display (e.g. previews and backward-compatible fallbacks).
+ */
+
+import type { Answer, AnswerValue, ComboSettings, Question, Room, ScoreBreakdown, ScoringStrategy } from "./types";
+import { matchesAcceptedAnswer, parseNumericResponse } from "./questions";
+
+// Constants for scoring
+export const BASE_SCORE = 1000;
+export const TIME_BONUS_DIVISOR = 10; // 1 point per 10ms saved
+
+// Late answers are accepted for this long after the deadline to absorb network latency
+export const ANSWER_GRACE_PERIOD_MS = 1000;
+
+// Strategy tuning
+export const NEGATIVE_MARKING_PENALTY = 500; // Points lost per wrong answer
+export const DEFAULT_COMBO: ComboSettings = { step: 0.5, max: 3 }; // +0.5 per consecutive correct answer, up to x3
+export const COMBO_LIMITS = { maxStep: 2, maxMultiplier: 10 }; // Upper bounds accepted for a room's combo settings
+export const WAGER_OPTIONS = [250, 500, 1000] as const; // Stakes a player can pick in wagering rooms
+
+export const SCORING_STRATEGIES: ScoringStrategy[] = ["classic", "accuracy", "streak", "negative", "wager"];
+export const DEFAULT_SCORING_STRATEGY: ScoringStrategy = "classic";
+
+/**
+ * Calculate time bonus based on how quickly the answer was submitted
+ * @param timeUsedMs - Time taken to answer in milliseconds
+ * @param timeLimitMs - Maximum time allowed in milliseconds
+ * @returns Time bonus points (0 or positive)
+ */
+export function calculateTimeBonus(timeUsedMs: number, timeLimitMs: number): number {
+  // Ensure we don't go below 0 or above the time limit
+  const clampedTimeUsed = Math.max(0, Math.min(timeUsedMs, timeLimitMs));
+
+  // Calculate time saved
+  const timeSaved = Math.max(0, timeLimitMs - clampedTimeUsed);
+
+  // Convert to bonus points (1 point per 10ms saved)
+  return Math.round(timeSaved / TIME_BONUS_DIVISOR);
+}
+
+/**
+ * Calculate total score for an answer
+ * @param isCorrect - Whether the answer was correct
+ * @param timeUsedMs - Time taken to answer in milliseconds
+ * @param timeLimitSeconds - Question time limit in seconds
+ * @returns Total score earned (0 for incorrect, base + bonus for correct)
+ */
+export function calculateScore(
+  isCorrect: boolean,
+  timeUsedMs: number,
+  timeLimitSeconds: number
+): number {
+  if (!isCorrect) {
+    return 0;
+  }
+
+  const timeLimitMs = timeLimitSeconds * 1000;
+  const timeBonus = calculateTimeBonus(timeUsedMs, timeLimitMs);
+
+  return BASE_SCORE + timeBonus;
+}
+
+/**
+ * Calculate time used based on question start time
+ * @param questionStartTime - Timestamp when question started (milliseconds)
+ * @param currentTime - Current timestamp (milliseconds), defaults to Date.now()
+ * @returns Time used in milliseconds
+ */
+export function calculateTimeUsed(
+  questionStartTime: number,
+  currentTime: number = Date.now()
+): number {
+  return Math.max(0, currentTime - questionStartTime);
+}
+
+/**
+ * Grade a response. Credit is the share of the question's points earned (0-1);
+ * multi-select, ordering and matching questions give partial credit.
+ */
+export function gradeAnswer(question: Question, response: AnswerValue): { isCorrect: boolean; credit: number } {
+  let credit = 0;
+
+  switch (question.type) {
+    case "multiple": {
+      // Each correct pick earns its share, each wrong pick cancels one out
+      const picks = Array.isArray(response) ? response : [];
+      const hits = picks.filter((option) => question.correctOptions.includes(option)).length;
+      const misses = picks.length - hits;
+      credit = Math.max(0, (hits - misses) / question.correctOptions.length);
+      break;
+    }
+    case "true-false":
+      credit = response === question.correctAnswer ? 1 : 0;
+      break;
+    case "text":
+      credit = typeof response === "string" && matchesAcceptedAnswer(response, question.acceptedAnswers) ? 1 : 0;
+      break;
+    case "numeric": {
+      const value = parseNumericResponse(response);
+      credit = value !== null && Math.abs(value - question.correctValue) <= question.tolerance ? 1 : 0;
+      break;
+    }
+    case "ordering": {
+      // Each item placed in its correct position earns its share
+      const order = Array.isArray(response) ? response : [];
+      const placed = question.items.filter((item, index) => order[index] === item).length;
+      credit = placed / question.items.length;
+      break;
+    }
+    case "matching": {
+      // Each correctly matched pair earns its share
+      const matches = Array.isArray(response) ? response : [];
+      const matched = question.pairs.filter((pair, index) => matches[index] === pair.right).length;
+      credit = matched / question.pairs.length;
+      break;
+    }
+    default:
+      credit = response === question.correctOption ? 1 : 0;
+  }
+
+  credit = Math.round(credit * 100) / 100;
+  return { isCorrect: credit === 1, credit };
+}
+
+/**
+ * Everything a scoring strategy may look at
+ */
+export interface ScoringInput {
+  answer: Pick<Answer, "isCorrect" | "credit" | "timeToAnswer" | "wager">;
+  question: Pick<Question, "timeLimit">;
+  history: (Answer | undefined)[]; // Earlier answers in question order (undefined = not answered)
+  combo?: ComboSettings; // Room combo multiplier (off when missing, except in streak rooms)
+}
+
+export type ScoringFunction = (input: ScoringInput) => ScoreBreakdown;
+
+/**
+ * Build the player's answer history before a question
+ * @param answers - Player answers keyed by question index
+ * @param questionIndex - Index of the question being scored
+ */
+export function getAnswerHistory(
+  answers: Record<number, Answer> | undefined,
+  questionIndex: number
+): (Answer | undefined)[] {
+  return Array.from({ length: questionIndex }, (_, index) => answers?.[index]);
+}
+
+/**
+ * Count consecutive correct answers at the end of the history
+ */
+export function countCorrectStreak(history: (Answer | undefined)[]): number {
+  let streak = 0;
+  for (let i = history.length - 1; i >= 0 && history[i]?.isCorrect; i--) {
+    streak++;
+  }
+  return streak;
+}
+
+/**
+ * Multiplier for a correct answer that extends a streak of `previousStreak` correct answers
+ */
+export function getStreakMultiplier(previousStreak: number, combo: ComboSettings = DEFAULT_COMBO): number {
+  return Math.max(1, Math.min(combo.max, 1 + combo.step * previousStreak));
+}
+
+/**
+ * Combo settings in effect for a room (undefined when correct answers are not multiplied)
+ */
+export function getRoomCombo(room: Pick<Room, "scoringStrategy" | "combo">): ComboSettings | undefined {
+  if (room.scoringStrategy === "wager") return undefined;
+  return room.combo ?? (room.scoringStrategy === "streak" ? DEFAULT_COMBO : undefined);
+}
+
+/**
+ * Current streak of a player once a question has been answered (or closed)
+ * @param answers - Player answers keyed by question index
+ * @param questionIndex - Index of the latest closed question
+ */
+export function getPlayerStreak(answers: Record<number, Answer> | undefined, questionIndex: number): number {
+  return countCorrectStreak(getAnswerHistory(answers, questionIndex + 1));
+}
+
+const emptyBreakdown = (strategy: ScoringStrategy): ScoreBreakdown => ({
+  strategy,
+  base: 0,
+  speedBonus: 0,
+  multiplier: 1,
+  penalty: 0
+});
+
+// Share of the points earned (answers without credit are all or nothing)
+const creditFor = ({ answer }: ScoringInput): number => answer.credit ?? (answer.isCorrect ? 1 : 0);
+
+const baseFor = (input: ScoringInput): number => Math.round(BASE_SCORE * creditFor(input));
+
+const speedBonusFor = (input: ScoringInput): number =>
+  Math.round(calculateTimeBonus(input.answer.timeToAnswer, input.question.timeLimit * 1000) * creditFor(input));
+
+const comboMultiplierFor = ({ history, combo }: ScoringInput): number =>
+  combo ? getStreakMultiplier(countCorrectStreak(history), combo) : 1;
+
+/**
+ * Built-in strategies. Each one is a pure function of the answer, the question and the
+ * player's earlier answers so it can be tested in isolation. Partial credit scales the
+ * points earned; a partially correct answer does not extend a streak.
+ */
+export const scoringStrategies: Record<ScoringStrategy, ScoringFunction> = {
+  // Base points plus a bonus for answering quickly
+  classic: (input) => creditFor(input) > 0
+    ? { ...emptyBreakdown("classic"), base: baseFor(input), speedBonus: speedBonusFor(input), multiplier: comboMultiplierFor(input) }
+    : emptyBreakdown("classic"),
+
+  // Same points for every correct answer, speed does not matter
+  accuracy: (input) => creditFor(input) > 0
+    ? { ...emptyBreakdown("accuracy"), base: baseFor(input), multiplier: comboMultiplierFor(input) }
+    : emptyBreakdown("accuracy"),
+
+  // Classic points multiplied by the length of the current correct streak (combo always on)
+  streak: (input) => creditFor(input) > 0
+    ? {
+        ...emptyBreakdown("streak"),
+        base: baseFor(input),
+        speedBonus: speedBonusFor(input),
+        multiplier: comboMultiplierFor({ ...input, combo: input.combo ?? DEFAULT_COMBO })
+      }
+    : emptyBreakdown("streak"),
+
+  // Classic points, but wrong answers cost points
+  negative: (input) => creditFor(input) > 0
+    ? { ...emptyBreakdown("negative"), base: baseFor(input), speedBonus: speedBonusFor(input), multiplier: comboMultiplierFor(input) }
+    : { ...emptyBreakdown("negative"), penalty: -NEGATIVE_MARKING_PENALTY },
+
+  // Win the stake for a correct answer, lose it for a wrong one (no combo: the stake is the bonus)
+  wager: (input) => {
+    const stake = input.answer.wager ?? WAGER_OPTIONS[0];
+    return creditFor(input) > 0
+      ? { ...emptyBreakdown("wager"), base: Math.round(stake * creditFor(input)) }
+      : { ...emptyBreakdown("wager"), penalty: -stake };
+  }
+};
+
+/**
+ * Total points for a breakdown
+ */
+export function getBreakdownTotal(breakdown: ScoreBreakdown): number {
+  return Math.round((breakdown.base + breakdown.speedBonus) * breakdown.multiplier) + breakdown.penalty;
+}
+
+/**
+ * Score an answer with the room's strategy (classic when the room has none)
+ */
+export function scoreAnswer(
+  strategy: ScoringStrategy | undefined,
+  input: ScoringInput
+): { scoreEarned: number; scoreBreakdown: ScoreBreakdown } {
+  const scoringFunction = scoringStrategies[strategy ?? DEFAULT_SCORING_STRATEGY] ?? scoringStrategies.classic;
+  const scoreBreakdown = scoringFunction(input);
+  return { scoreEarned: getBreakdownTotal(scoreBreakdown), scoreBreakdown };
+}
@@ -1,8 +1,24 @@
 export type Answer = {
     option: string;
+    response?: AnswerValue;
     isCorrect: boolean;
+    credit?: number;
     timeToAnswer: number;
     scoreEarned?: number;
+    wager?: number;
+    scoreBreakdown?: ScoreBreakdown;
+};
+export type ScoringStrategy = "classic" | "accuracy" | "streak" | "negative" | "wager";
+export type ScoreBreakdown = {
+    strategy: ScoringStrategy;
+    base: number;
+    speedBonus: number;
+    multiplier: number;
+    penalty: number;
+};
+export type ComboSettings = {
+    step: number;
+    max: number;
 };
 export type Player = {
     id: string;
@@ -11,16 +27,112 @@ export type Player = {
     score: number;
     joinedAt: number;
     answers: Record<number, Answer>;
+    streak?: number;
 };
 export type DifficultyLevel = "easy" | "medium" | "hard";
-export type Question = {
+export type QuestionType = "single" | "multiple" | "true-false" | "text" | "numeric" | "ordering" | "matching";
+export type QuestionMedia = {
+    type: "image";
+    url: string;
+    alt?: string;
+} | {
+    type: "audio";
+    url: string;
+    startTime?: number;
+    endTime?: number;
+};
+export type QuestionCitation = {
+    quote: string;
+    location?: string;
+};
+export type QuestionSource = {
+    chunk: number;
+    start: number;
+    end: number;
+    pages?: [number, number];
+    topic?: string;
+    section?: string;
+    file?: string;
+};
+export type DocumentSection = {
+    title: string;
+    level: number;
+    start: number;
+    end: number;
+    pages?: [number, number];
+    slide?: number;
+};
+export type DocumentStructure = {
+    sections: DocumentSection[];
+    pageCount?: number;
+};
+export type DocumentFile = {
+    filename: string;
+    start: number;
+    end: number;
+    topics: string[];
+    wordCount: number;
+};
+export type DocumentTopicCount = {
+    topic: string;
+    count: number;
+};
+export type AnswerVerificationMode = "flag" | "regenerate";
+export type QuestionVerification = {
+    status: "verified" | "disputed" | "unchecked";
+    modelAnswer?: string;
+};
+type QuestionBase = {
     text: string;
-    options: string[];
-    correctOption: string;
     timeLimit: number;
+    media?: QuestionMedia;
+    explanation?: string;
+    citation?: QuestionCitation;
+    source?: QuestionSource;
+    verification?: QuestionVerification;
     difficulty?: DifficultyLevel;
     timeReasoning?: string;
 };
+export type SingleChoiceQuestion = QuestionBase & {
+    type?: "single";
+    options: string[];
+    optionImages?: string[];
+    correctOption: string;
+};
+export type MultipleChoiceQuestion = QuestionBase & {
+    type: "multiple";
+    options: string[];
+    optionImages?: string[];
+    correctOptions: string[];
+};
+export type TrueFalseQuestion = QuestionBase & {
+    type: "true-false";
+    correctAnswer: boolean;
+};
+export type TextQuestion = QuestionBase & {
+    type: "text";
+    acceptedAnswers: string[];
+};
+export type NumericQuestion = QuestionBase & {
+    type: "numeric";
+    correctValue: number;
+    tolerance: number;
+    unit?: string;
+};
+export type OrderingQuestion = QuestionBase & {
+    type: "ordering";
+    items: string[];
+};
+export type MatchingPair = {
+    left: string;
+    right: string;
+};
+export type MatchingQuestion = QuestionBase & {
+    type: "matching";
+    pairs: MatchingPair[];
+};
+export type Question = SingleChoiceQuestion | MultipleChoiceQuestion | TrueFalseQuestion | TextQuestion | NumericQuestion | OrderingQuestion | MatchingQuestion;
+export type AnswerValue = string | string[] | boolean | number;
 export type QuestionPhase = "answering" | "showing-answer" | "showing-scoreboard" | "waiting-next";
 export type GameState = {
     phase: QuestionPhase;
@@ -30,7 +142,10 @@ export type GameState = {
     resultsShownAt?: number;
     autoAdvanceAt?: number;
     awaitingHostAction?: "show-scoreboard" | "next-question";
+    pausedAt?: number;
+    remainingMs?: number;
 };
+export type GameIntent = "advance" | "pause" | "resume";
 export type Room = {
     id: string;
     roomCode: string;
@@ -48,16 +163,29 @@ export type Room = {
     finishedAt?: number;
     totalQuestions: number;
     isGameComplete: boolean;
+    questionsGenerating?: boolean;
+    aiGenerated?: boolean;
+    fallbackReason?: string;
+    scoringStrategy?: ScoringStrategy;
+    combo?: ComboSettings;
+    verifyAnswers?: AnswerVerificationMode;
 };
 export interface CreateRoomRequest {
     nickname: string;
     topic: string;
     difficulty: DifficultyLevel;
     questionCount: number;
+    questions?: Question[];
+    questionTypes?: QuestionType[];
+    scoringStrategy?: ScoringStrategy;
+    combo?: ComboSettings;
+    verifyAnswers?: AnswerVerificationMode;
+    language?: string;
 }
 export interface CreateRoomResponse {
     roomId: string;
     playerId: string;
+    playerToken: string;
     aiGenerated: boolean;
     fallbackReason?: string;
 }
@@ -68,6 +196,7 @@ export interface JoinRoomRequest {
 export interface JoinRoomResponse {
     roomId: string;
     playerId: string;
+    playerToken: string;
     room: Room;
 }
 export interface StartGameRequest {
@@ -76,36 +205,120 @@ export interface StartGameRequest {
 export interface StartGameResponse {
     success: boolean;
 }
+export interface GameIntentRequest {
+    hostId: string;
+    intent: GameIntent;
+}
+export interface GameIntentResponse {
+    success: boolean;
+    gameState: GameState | null;
+}
 export interface SubmitAnswerRequest {
-    roomId: string;
     playerId: string;
+    playerToken: string;
     questionIndex: number;
-    selectedOption: string;
-    timeToAnswer: number;
+    response: AnswerValue;
+    wager?: number;
 }
 export interface SubmitAnswerResponse {
     success: boolean;
     isCorrect: boolean;
+    credit: number;
     scoreEarned: number;
     newTotalScore: number;
+    scoreBreakdown: ScoreBreakdown;
+    streak: number;
 }
 export interface QuestionGenerationParams {
     topic: string;
     difficulty: DifficultyLevel;
     count: number;
+    questionTypes?: QuestionType[];
 }
 export interface QuestionGenerationResponse {
     questions: Question[];
     aiGenerated: boolean;
     fallbackReason?: string;
 }
+export interface RegenerateQuestionRequest {
+    topic: string;
+    difficulty: DifficultyLevel;
+    questionType?: QuestionType;
+    excludeQuestions?: string[];
+    fileId?: string;
+    ownerId?: string;
+    sections?: {
+        start: number;
+        end: number;
+    }[];
+    topics?: DocumentTopicCount[];
+    language?: string;
+    verifyAnswers?: AnswerVerificationMode;
+}
+export interface RegenerateQuestionResponse {
+    question: Question;
+    aiGenerated: boolean;
+    fallbackReason?: string;
+}
+export interface LibraryQuiz {
+    id: string;
+    title: string;
+    description?: string;
+    tags: string[];
+    language: string;
+    difficulty: DifficultyLevel;
+    questions: Question[];
+    questionCount: number;
+    sourceRoomId?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+export type LibraryQuizSummary = Omit<LibraryQuiz, "questions">;
+export interface SaveQuizRequest {
+    ownerId: string;
+    title: string;
+    description?: string;
+    tags?: string[];
+    language?: string;
+    difficulty?: DifficultyLevel;
+    questions?: Question[];
+    roomId?: string;
+    hostId?: string;
+}
+export type UpdateQuizRequest = Partial<Pick<LibraryQuiz, "title" | "description" | "tags" | "language" | "difficulty" | "questions">> & {
+    ownerId: string;
+};
+export interface DeleteQuizRequest {
+    ownerId: string;
+}
+export interface QuizListResponse {
+    quizzes: LibraryQuizSummary[];
+}
+export interface MediaUploadResponse {
+    success: boolean;
+    media: {
+        type: QuestionMedia["type"];
+        url: string;
+        mimeType: string;
+        size: number;
+    };
+}
+export interface QuestionsProgress {
+    roomId: string;
+    generated: number;
+    target: number;
+    done: boolean;
+}
 export interface SocketEvents {
     'join-room': (roomId: string) => void;
     'leave-room': (roomId: string) => void;
-    'submit-answer': (data: SubmitAnswerRequest) => void;
-    'game-state-change': (data: {
+    'submit-answer': (data: SubmitAnswerRequest & {
         roomId: string;
-        gameState: GameState;
+    }) => void;
+    'game-intent': (data: {
+        roomId: string;
+        hostId: string;
+        intent: GameIntent;
     }) => void;
     'player-joined': (data: {
         playerId: string;
@@ -124,9 +337,11 @@ export interface SocketEvents {
     'room-updated': (data: {
         room: Room;
     }) => void;
+    'questions-progress': (data: QuestionsProgress) => void;
 }
 export interface ErrorResponse {
     error: string;
     code?: string;
     details?: string | string[];
-}
\ No newline at end of file
+}
+export {};
@@ -1,8 +1,30 @@
 export type Answer = {
-  option: string;
-  isCorrect: boolean;
+  option: string; // Display form of the response
+  response?: AnswerValue; // Raw response as submitted (missing on answers stored before question kinds)
+  isCorrect: boolean; // Full credit
+  credit?: number; // Share of the points earned, 0-1 (partial credit for multi-select)
   timeToAnswer: number;
   scoreEarned?: number; // Optional for backward compatibility with existing data
+  wager?: number; // Points staked on this answer (confidence wagering rooms only)
+  scoreBreakdown?: ScoreBreakdown; // How scoreEarned was calculated
+};
+
+// Scoring rules a room can use (see shared/scoring.ts)
+export type ScoringStrategy = "classic" | "accuracy" | "streak" | "negative" | "wager";
+
+// Parts that make up an answer's score, kept so results can explain the points
+export type ScoreBreakdown = {
+  strategy: ScoringStrategy;
+  base: number; // Points for a correct answer (or the wager won)
+  speedBonus: number; // Points for answering quickly
+  multiplier: number; // Streak multiplier applied to base + speedBonus (1 = none)
+  penalty: number; // Points lost for a wrong answer (0 or negative)
+};
+
+// Combo multiplier for consecutive correct answers: 1 + step per answer in the streak, capped at max
+export type ComboSettings = {
+  step: number;
+  max: number;
 };
 
 export type Player = {
@@ -12,20 +34,157 @@ export type Player = {
   score: number;
   joinedAt: number;
   answers: Record<number, Answer>;
+  streak?: number; // Consecutive correct answers, computed by the server from answers
 };
 
 // Difficulty level for questions and rooms
 export type DifficultyLevel = "easy" | "medium" | "hard";
 
-export type Question = {
+// Question kinds (see shared/questions.ts for validation and grading)
+export type QuestionType = "single" | "multiple" | "true-false" | "text" | "numeric" | "ordering" | "matching";
+
+// Image or audio clip shown with a question (urls are absolute, or paths served by the backend)
+export type QuestionMedia =
+  | { type: "image"; url: string; alt?: string }
+  | { type: "audio"; url: string; startTime?: number; endTime?: number }; // Offsets in seconds
+
+// Where in the source document a question's answer comes from
+export type QuestionCitation = {
+  quote: string; // Short excerpt supporting the answer
+  location?: string; // Section heading or page, when known
+};
+
+// Part of the source document a question was generated from
+export type QuestionSource = {
+  chunk: number; // Index of the document chunk the question was generated from
+  start: number; // Character range of that chunk in the extracted text
+  end: number;
+  pages?: [number, number]; // First and last page of the chunk, for documents with pages
+  topic?: string; // Document topic the question was asked about, when the host picked topics
+  section?: string; // Title of the document section the chunk starts in
+  file?: string; // Name of the uploaded file the chunk is from, when several were uploaded together
+};
+
+// A chapter, heading or slide of an uploaded document, as a character range of its extracted text
+export type DocumentSection = {
+  title: string;
+  level: number; // 1 for chapters and slides, deeper for sub-headings
+  start: number;
+  end: number; // Where the next section of the same or a higher level starts
+  pages?: [number, number]; // First and last page, for documents with pages
+  slide?: number; // Slide number, for presentations
+};
+
+// Table of contents of an uploaded document, produced when its text is extracted
+export type DocumentStructure = {
+  sections: DocumentSection[]; // In document order, sub-sections after their parent
+  pageCount?: number; // For documents with pages
+};
+
+// One file of a multi-file upload: its character range of the combined text and its own topics
+export type DocumentFile = {
+  filename: string;
+  start: number;
+  end: number;
+  topics: string[];
+  wordCount: number;
+};
+
+// Questions wanted about one of the topics found in an uploaded document
+export type DocumentTopicCount = {
+  topic: string;
+  count: number;
+};
+
+// Second model pass that answers each generated question blind and compares with its answer key:
+// "flag" keeps disagreeing questions marked for review, "regenerate" replaces them
+export type AnswerVerificationMode = "flag" | "regenerate";
+
+// Result of the answer key check
+export type QuestionVerification = {
+  status: "verified" | "disputed" | "unchecked"; // unchecked: the check gave no usable answer
+  modelAnswer?: string; // What the checking pass answered, when it disagreed
+};
+
+type QuestionBase = {
   text: string;
-  options: string[];
-  correctOption: string;
   timeLimit: number;
+  media?: QuestionMedia;
+  explanation?: string; // Why the answer is correct, shown when the answer is revealed
+  citation?: QuestionCitation; // Document quizzes only
+  source?: QuestionSource; // Document quizzes only
+  verification?: QuestionVerification; // Generated with answer verification on
   difficulty?: DifficultyLevel; // Optional: for tracking question difficulty
   timeReasoning?: string; // Optional: AI explanation for time limit
 };
 
+// One correct option out of 2-6 (questions stored before question kinds have no type)
+export type SingleChoiceQuestion = QuestionBase & {
+  type?: "single";
+  options: string[];
+  optionImages?: string[]; // Optional image url per option, in option order
+  correctOption: string;
+};
+
+// Any number of correct options out of 2-6, scored with partial credit
+export type MultipleChoiceQuestion = QuestionBase & {
+  type: "multiple";
+  options: string[];
+  optionImages?: string[]; // Optional image url per option, in option order
+  correctOptions: string[];
+};
+
+export type TrueFalseQuestion = QuestionBase & {
+  type: "true-false";
+  correctAnswer: boolean;
+};
+
+// Short typed answer, matched against the accepted answers with typo tolerance
+export type TextQuestion = QuestionBase & {
+  type: "text";
+  acceptedAnswers: string[];
+};
+
+// Number within +/- tolerance of the correct value
+export type NumericQuestion = QuestionBase & {
+  type: "numeric";
+  correctValue: number;
+  tolerance: number;
+  unit?: string;
+};
+
+// Items listed in their correct order (shuffled for display), scored by items in the right position
+export type OrderingQuestion = QuestionBase & {
+  type: "ordering";
+  items: string[];
+};
+
+// A term matched to its definition
+export type MatchingPair = {
+  left: string;
+  right: string;
+};
+
+// Each left side matched to one right side (right sides shuffled for display), scored per pair
+export type MatchingQuestion = QuestionBase & {
+  type: "matching";
+  pairs: MatchingPair[];
+};
+
+export type Question =
+  | SingleChoiceQuestion
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | TextQuestion
+  | NumericQuestion
+  | OrderingQuestion
+  | MatchingQuestion;
+
+// A player's response: option text (single), option texts (multiple), boolean (true/false),
+// typed text (text), number (numeric), items in the chosen order (ordering) or the right side
+// picked for each pair, in pair order (matching)
+export type AnswerValue = string | string[] | boolean | number;
+
 // Game phase for question state management
 export type QuestionPhase = "answering" | "showing-answer" | "showing-scoreboard" | "waiting-next";
 
@@ -38,8 +197,13 @@ export type GameState = {
   resultsShownAt?: number; // When results were displayed
   autoAdvanceAt?: number; // When to auto-advance to next question
   awaitingHostAction?: "show-scoreboard" | "next-question"; // Host action required
+  pausedAt?: number; // When the host paused the game (deadlines are frozen while set)
+  remainingMs?: number; // Time left on the current deadline when paused
 };
 
+// Host intents handled by the server-side game loop
+export type GameIntent = "advance" | "pause" | "resume";
+
 export type Room = {
   id: string;
   roomCode: string;
@@ -62,6 +226,9 @@ export type Room = {
   questionsGenerating?: boolean; // Whether questions are currently being generated
   aiGenerated?: boolean; // Whether questions were generated by AI
   fallbackReason?: string; // Reason for fallback to sample questions
+  scoringStrategy?: ScoringStrategy; // Scoring rules for this room (classic when missing)
+  combo?: ComboSettings; // Combo multiplier for streaks (streak rooms use the default when missing)
+  verifyAnswers?: AnswerVerificationMode; // Answer key check used when generating this room's questions
 };
 
 // API Request/Response types for backend communication
@@ -71,11 +238,17 @@ export interface CreateRoomRequest {
   difficulty: DifficultyLevel;
   questionCount: number;
   questions?: Question[]; // Optional: pre-generated questions (for document-based quizzes)
+  questionTypes?: QuestionType[]; // Optional: kinds of questions to generate (single choice when missing)
+  scoringStrategy?: ScoringStrategy; // Optional: defaults to classic
+  combo?: ComboSettings; // Optional: enables the combo multiplier
+  verifyAnswers?: AnswerVerificationMode; // Optional: check generated answer keys with a second model pass
+  language?: string; // Optional: language code for generated questions (the topic's language when missing)
 }
 
 export interface CreateRoomResponse {
   roomId: string;
   playerId: string;
+  playerToken: string; // Sent with every answer to prove the player's identity
   aiGenerated: boolean;
   fallbackReason?: string;
 }
@@ -88,6 +261,7 @@ export interface JoinRoomRequest {
 export interface JoinRoomResponse {
   roomId: string;
   playerId: string;
+  playerToken: string; // Sent with every answer to prove the player's identity
   room: Room;
 }
 
@@ -99,19 +273,33 @@ export interface StartGameResponse {
   success: boolean;
 }
 
+export interface GameIntentRequest {
+  hostId: string;
+  intent: GameIntent;
+}
+
+export interface GameIntentResponse {
+  success: boolean;
+  gameState: GameState | null; // null once the game has finished
+}
+
+// Answer time is measured on the server from gameState.questionStartTime
 export interface SubmitAnswerRequest {
-  roomId: string;
   playerId: string;
+  playerToken: string; // Issued by create/join
   questionIndex: number;
-  selectedOption: string;
-  timeToAnswer: number;
+  response: AnswerValue;
+  wager?: number; // Required in confidence wagering rooms
 }
 
 export interface SubmitAnswerResponse {
   success: boolean;
   isCorrect: boolean;
+  credit: number;
   scoreEarned: number;
   newTotalScore: number;
+  scoreBreakdown: ScoreBreakdown;
+  streak: number;
 }
 
 // Question Generation types (for AI service)
@@ -119,6 +307,7 @@ export interface QuestionGenerationParams {
   topic: string;
   difficulty: DifficultyLevel;
   count: number;
+  questionTypes?: QuestionType[];
 }
 
 export interface QuestionGenerationResponse {
@@ -127,13 +316,96 @@ export interface QuestionGenerationResponse {
   fallbackReason?: string;
 }
 
+// Replace a single question in the host's editor (POST /api/questions/regenerate)
+export interface RegenerateQuestionRequest {
+  topic: string;
+  difficulty: DifficultyLevel;
+  questionType?: QuestionType; // Defaults to single choice
+  excludeQuestions?: string[]; // Texts of the other questions, so the new one is different
+  fileId?: string; // Generate from an uploaded document (see /api/documents) instead of general knowledge
+  ownerId?: string; // The document's owner, required with fileId
+  sections?: { start: number; end: number }[]; // With fileId: the parts of the document the quiz covers
+  topics?: DocumentTopicCount[]; // With fileId: the topic of the new question, with a count of 1
+  language?: string; // Without fileId: language code for the question; the topic's language when missing
+  verifyAnswers?: AnswerVerificationMode; // Check the new question's answer key with a second model pass
+}
+
+export interface RegenerateQuestionResponse {
+  question: Question;
+  aiGenerated: boolean;
+  fallbackReason?: string;
+}
+
+// Quiz library (/api/quizzes): reusable question sets stored outside rooms
+export interface LibraryQuiz {
+  id: string;
+  title: string;
+  description?: string;
+  tags: string[];
+  language: string; // Language code of the questions, e.g. "en"
+  difficulty: DifficultyLevel;
+  questions: Question[];
+  questionCount: number;
+  sourceRoomId?: string; // Room the questions were saved from
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Library listing entry (questions are only returned by GET /api/quizzes/:quizId)
+export type LibraryQuizSummary = Omit<LibraryQuiz, "questions">;
+
+// Either questions or roomId + hostId (the room's host saving its questions) is required
+export interface SaveQuizRequest {
+  ownerId: string; // Browser-generated id of the saving host; required to update or delete the quiz
+  title: string;
+  description?: string;
+  tags?: string[];
+  language?: string;
+  difficulty?: DifficultyLevel; // Defaults to the room's difficulty when saving a room
+  questions?: Question[];
+  roomId?: string;
+  hostId?: string;
+}
+
+export type UpdateQuizRequest = Partial<Pick<LibraryQuiz, "title" | "description" | "tags" | "language" | "difficulty" | "questions">> & {
+  ownerId: string; // Must match the id the quiz was saved with
+};
+
+// DELETE /api/quizzes/:quizId
+export interface DeleteQuizRequest {
+  ownerId: string;
+}
+
+export interface QuizListResponse {
+  quizzes: LibraryQuizSummary[];
+}
+
+// Media uploads (POST /api/media/upload)
+export interface MediaUploadResponse {
+  success: boolean;
+  media: {
+    type: QuestionMedia["type"];
+    url: string; // Path served by the backend, e.g. /media/<id>.png
+    mimeType: string;
+    size: number;
+  };
+}
+
+// Sent to the room each time a generated question is added (and when generation finishes)
+export interface QuestionsProgress {
+  roomId: string;
+  generated: number;
+  target: number;
+  done: boolean;
+}
+
 // Socket.io event types
 export interface SocketEvents {
   // Client to server events
   'join-room': (roomId: string) => void;
   'leave-room': (roomId: string) => void;
-  'submit-answer': (data: SubmitAnswerRequest) => void;
-  'game-state-change': (data: { roomId: string; gameState: GameState }) => void;
+  'submit-answer': (data: SubmitAnswerRequest & { roomId: string }) => void;
+  'game-intent': (data: { roomId: string; hostId: string; intent: GameIntent }) => void;
   
   // Server to client events
   'player-joined': (data: { playerId: string; player: Player }) => void;
@@ -141,6 +413,7 @@ export interface SocketEvents {
   'answer-submitted': (data: { playerId: string; isCorrect: boolean }) => void;
   'game-state-updated': (data: { gameState: GameState }) => void;
   'room-updated': (data: { room: Room }) => void;
+  'questions-progress': (data: QuestionsProgress) => void;
 }
 
 // Error response type